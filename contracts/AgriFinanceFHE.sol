@@ -1,67 +1,712 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import {
+    FHE,
+    euint8,
+    euint32,
+    euint64,
+    eaddress,
+    externalEuint8,
+    externalEuint32,
+    externalEaddress,
+    ebool
+} from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { LoanRepayment } from "./LoanRepayment.sol";
 
 contract AgriFinanceFHE is SepoliaConfig {
 
+    // Lenders run the loan lifecycle and tune scoring, underwriters review
+    // encrypted application data, auditors only see aggregate statistics,
+    // cooperatives submit applications in batches for their members.
+    enum Role {
+        Lender,
+        Underwriter,
+        Auditor,
+        Cooperative
+    }
+
+    // Submitted -> UnderReview -> Approved | Rejected; Approved -> Disbursed -> Repaying -> Closed.
+    // A disbursed or repaying loan can instead end as Defaulted.
+    enum LoanStatus {
+        Submitted,
+        UnderReview,
+        Approved,
+        Rejected,
+        Disbursed,
+        Repaying,
+        Closed,
+        Defaulted
+    }
+
     struct EncryptedLoanApplication {
         uint256 id;
+        address applicant;
+        string cropType;
         euint32 encryptedFarmData;
         euint32 encryptedYieldPrediction;
         euint32 encryptedLoanAmount;
         uint256 timestamp;
     }
 
+    // One past season of the applicant's planting history as submitted: the
+    // season label and crop are public, every numeric field is its own
+    // ciphertext. Dates are unix seconds, area is in hectares and the
+    // realised yield in kg/ha.
+    struct PlantingSeasonInput {
+        string season;
+        string cropType;
+        externalEuint32 area;
+        externalEuint32 plantedAt;
+        externalEuint32 harvestedAt;
+        externalEuint32 realisedYield;
+    }
+
+    // One member's application in a cooperative batch. All handles across
+    // the batch share the cooperative's single input proof.
+    struct BatchApplicationInput {
+        address applicant;
+        string cropType;
+        externalEuint32 farmData;
+        externalEuint32 yieldPrediction;
+        externalEuint32 loanAmount;
+        PlantingSeasonInput[] plantingHistory;
+    }
+
+    struct PlantingSeason {
+        string season;
+        string cropType;
+        euint32 encryptedArea;
+        euint32 encryptedPlantedAt;
+        euint32 encryptedHarvestedAt;
+        euint32 encryptedRealisedYield;
+    }
+
+    // Population mean and variance of the realised yields in an application's
+    // planting history. The variance stays uninitialised below two seasons.
+    struct YieldStatistics {
+        euint64 mean;
+        euint64 variance;
+    }
+
+    // Plaintext parameters of the encrypted credit score. An application earns
+    // baseScore plus a bonus for each threshold its encrypted data clears:
+    // yield >= minYield, farm size >= minFarmArea, repayment capacity
+    // (yield * yieldWeight + farm * farmWeight) >= loan * loanWeight, and
+    // historical yield variance <= mean^2 * maxYieldVarianceBps / 10000.
+    struct ScoringConfig {
+        uint32 baseScore;
+        uint32 yieldWeight;
+        uint32 farmWeight;
+        uint32 loanWeight;
+        uint32 minYield;
+        uint32 minFarmArea;
+        uint32 yieldBonus;
+        uint32 farmBonus;
+        uint32 coverageBonus;
+        uint32 maxYieldVarianceBps;
+        uint32 stabilityBonus;
+    }
+
+    // Plaintext parameters of the encrypted loan recommendation:
+    // min(requested, yield * pricePerUnit * loanToValueBps / 10000).
+    struct RecommendationConfig {
+        uint32 pricePerUnit;
+        uint32 loanToValueBps;
+    }
+
+    // Plaintext parameter of the encrypted collateral check: an application is
+    // covered when loan * 10000 <= pledged value * maxLoanToValueBps.
+    struct CollateralConfig {
+        uint32 maxLoanToValueBps;
+    }
+
+    // A registered asset. Its type (see COLLATERAL_TYPE_*), appraised value
+    // and legal owner are encrypted and self-declared by the registrant, the
+    // account that may pledge and release it. attestedBy is the reviewer who
+    // vouched for them, or 0. pledgedTo is 0 while the asset is free.
+    struct Collateral {
+        address registrant;
+        address attestedBy;
+        euint8 encryptedType;
+        euint32 encryptedAppraisedValue;
+        eaddress encryptedOwner;
+        uint256 pledgedTo;
+        uint256 registeredAt;
+    }
+
+    // Sum of the appraised values pledged to an application whose owner is
+    // the applicant, and whether it covers the requested amount.
+    struct CollateralCoverage {
+        euint64 pledgedValue;
+        ebool covered;
+    }
+
     struct DecryptedLoanApplication {
-        string farmData;
-        string yieldPrediction;
-        uint256 recommendedLoan;
+        uint32 farmData;
+        uint32 yieldPrediction;
+        uint32 loanAmount;
         bool isRevealed;
     }
 
+    enum DecryptionRequestType {
+        None,
+        Application,
+        CategoryCount
+    }
+
+    // Pending oracle request; only the field matching requestType is set.
+    struct DecryptionRequest {
+        DecryptionRequestType requestType;
+        uint256 applicationId;
+        string category;
+    }
+
+    struct RevealedCategoryCount {
+        uint32 count;
+        uint256 revealedAt;
+    }
+
+    uint256 public constant MAX_PLANTING_SEASONS = 10;
+    uint256 public constant MAX_BATCH_APPLICATIONS = 20;
+    uint256 public constant MAX_COLLATERAL_PER_APPLICATION = 10;
+    // Encrypted collateral types; anything above COLLATERAL_TYPE_OTHER is stored as other.
+    uint8 public constant COLLATERAL_TYPE_LAND_TITLE = 0;
+    uint8 public constant COLLATERAL_TYPE_EQUIPMENT = 1;
+    uint8 public constant COLLATERAL_TYPE_STORED_GRAIN = 2;
+    uint8 public constant COLLATERAL_TYPE_OTHER = 3;
+    // Realised yields are capped here before squaring so the variance fits in 64 bits.
+    uint64 public constant MAX_REALISED_YIELD = 1_000_000;
+    // A euint32 input times this weight stays below 2^63, so the capacity,
+    // a sum of two weighted inputs, fits in 64 bits.
+    uint32 private constant MAX_SCORING_WEIGHT = 2 ** 31 - 1;
+    // A euint32 yield prediction times this price and 10000 basis points
+    // fits in 64 bits, so the recommendation's lending limit cannot wrap.
+    uint32 private constant MAX_PRICE_PER_UNIT = 400_000;
+
+    address public admin;
+    mapping(address => mapping(Role => bool)) private roles;
+    ScoringConfig public scoringConfig;
+    RecommendationConfig public recommendationConfig;
+    CollateralConfig public collateralConfig;
+    // Tracks repayment of disbursed loans; unset until the admin connects one.
+    LoanRepayment public loanRepayment;
+
     uint256 public applicationCount;
     mapping(uint256 => EncryptedLoanApplication) public encryptedApplications;
     mapping(uint256 => DecryptedLoanApplication) public decryptedApplications;
+    mapping(uint256 => LoanStatus) public loanStatus;
+    mapping(address => uint256[]) private applicantApplicationIds;
+    // Who sent the application: the applicant, or the cooperative that batched it.
+    mapping(uint256 => address) public applicationSubmitter;
+    mapping(address => uint256[]) private submitterApplicationIds;
+    // The cooperative each member has authorised to apply on their behalf.
+    mapping(address => address) public memberCooperative;
+    mapping(uint256 => euint32) private encryptedCreditScores;
+    mapping(uint256 => euint32) private encryptedRecommendedLoans;
+    mapping(uint256 => PlantingSeason[]) private plantingHistories;
+    mapping(uint256 => YieldStatistics) private yieldStatistics;
+
+    uint256 public collateralCount;
+    mapping(uint256 => Collateral) public collaterals;
+    mapping(address => uint256[]) private registrantCollateralIds;
+    mapping(uint256 => uint256[]) private applicationCollateralIds;
+    mapping(uint256 => CollateralCoverage) private collateralCoverages;
     
     mapping(string => euint32) private encryptedLoanCategoryCount;
     string[] private loanCategories;
 
-    mapping(uint256 => uint256) private requestToApplicationId;
+    mapping(string => RevealedCategoryCount) private revealedCategoryCounts;
+
+    mapping(uint256 => DecryptionRequest) private decryptionRequests;
 
-    event LoanApplicationSubmitted(uint256 indexed id, uint256 timestamp);
+    event LoanApplicationSubmitted(uint256 indexed id, address indexed applicant, string cropType, uint256 timestamp);
     event DecryptionRequested(uint256 indexed id);
-    event ApplicationDecrypted(uint256 indexed id);
+    event ApplicationDecrypted(uint256 indexed id, uint32 farmData, uint32 yieldPrediction, uint32 loanAmount);
+    event AdminTransferred(address indexed previousAdmin, address indexed newAdmin);
+    event RoleGranted(Role indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(Role indexed role, address indexed account, address indexed sender);
+    event ApplicationAccessGranted(uint256 indexed id, address indexed account);
+    event CategoryCountAccessGranted(string category, address indexed account);
+    event CategoryCountDecryptionRequested(string category);
+    event CategoryCountDecrypted(string category, uint32 count, uint256 timestamp);
+    event ScoringConfigUpdated();
+    event CreditScoreComputed(uint256 indexed id);
+    event RecommendationConfigUpdated();
+    event LoanRecommendationComputed(uint256 indexed id);
+    event ApplicationUnderReview(uint256 indexed id, address indexed lender);
+    event ApplicationApproved(uint256 indexed id, address indexed lender);
+    event ApplicationRejected(uint256 indexed id, address indexed lender);
+    event LoanDisbursed(uint256 indexed id, address indexed lender);
+    event LoanRepaymentStarted(uint256 indexed id, address indexed lender);
+    event LoanClosed(uint256 indexed id, address indexed lender);
+    event LoanDefaulted(uint256 indexed id, address indexed lender);
+    event CooperativeJoined(address indexed member, address indexed cooperative);
+    event CooperativeLeft(address indexed member, address indexed cooperative);
+    event BatchApplicationSubmitted(
+        uint256 indexed id,
+        address indexed cooperative,
+        address indexed applicant,
+        uint256 index
+    );
+    event BatchApplicationSkipped(address indexed cooperative, uint256 index, address applicant, string reason);
+    event CollateralConfigUpdated();
+    event CollateralRegistered(uint256 indexed collateralId, address indexed registrant);
+    event CollateralPledged(uint256 indexed collateralId, uint256 indexed applicationId);
+    event CollateralReleased(uint256 indexed collateralId, uint256 indexed applicationId);
+    event CollateralAttested(uint256 indexed collateralId, address indexed attester);
+    event CollateralCoverageComputed(uint256 indexed applicationId);
+    event LoanRepaymentUpdated(address indexed loanRepayment);
+
+    modifier onlyAdmin() {
+        require(msg.sender == admin, "Not admin");
+        _;
+    }
+
+    modifier onlyLender() {
+        require(roles[msg.sender][Role.Lender], "Not lender");
+        _;
+    }
+
+    modifier onlyReviewer() {
+        require(roles[msg.sender][Role.Lender] || roles[msg.sender][Role.Underwriter], "Not reviewer");
+        _;
+    }
+
+    modifier onlyAuditor() {
+        require(roles[msg.sender][Role.Auditor], "Not auditor");
+        _;
+    }
+
+    modifier onlyCooperative() {
+        require(roles[msg.sender][Role.Cooperative], "Not cooperative");
+        _;
+    }
+
+    modifier onlyRegistrant(uint256 collateralId) {
+        require(collaterals[collateralId].registrant == msg.sender, "Not registrant");
+        _;
+    }
 
     modifier onlyApplicant(uint256 applicationId) {
+        require(encryptedApplications[applicationId].applicant == msg.sender, "Not applicant");
         _;
     }
 
+    constructor() {
+        admin = msg.sender;
+        emit AdminTransferred(address(0), msg.sender);
+        roles[msg.sender][Role.Lender] = true;
+        emit RoleGranted(Role.Lender, msg.sender, msg.sender);
+        scoringConfig = ScoringConfig({
+            baseScore: 500,
+            yieldWeight: 10,
+            farmWeight: 1000,
+            loanWeight: 1,
+            minYield: 3000,
+            minFarmArea: 5,
+            yieldBonus: 100,
+            farmBonus: 50,
+            coverageBonus: 250,
+            maxYieldVarianceBps: 400,
+            stabilityBonus: 100
+        });
+        recommendationConfig = RecommendationConfig({ pricePerUnit: 10, loanToValueBps: 6000 });
+        collateralConfig = CollateralConfig({ maxLoanToValueBps: 7000 });
+    }
+
+    function transferAdmin(address newAdmin) public onlyAdmin {
+        require(newAdmin != address(0), "Invalid admin");
+        emit AdminTransferred(admin, newAdmin);
+        admin = newAdmin;
+    }
+
+    function grantRole(Role role, address account) public onlyAdmin {
+        require(account != address(0), "Invalid account");
+        if (!roles[account][role]) {
+            roles[account][role] = true;
+            emit RoleGranted(role, account, msg.sender);
+        }
+    }
+
+    // Revoking a role stops further grants, but FHE ACL entries the account
+    // already obtained for existing ciphertexts cannot be withdrawn.
+    function revokeRole(Role role, address account) public onlyAdmin {
+        if (roles[account][role]) {
+            roles[account][role] = false;
+            emit RoleRevoked(role, account, msg.sender);
+        }
+    }
+
+    function setLoanRepayment(LoanRepayment repayment) public onlyAdmin {
+        loanRepayment = repayment;
+        emit LoanRepaymentUpdated(address(repayment));
+    }
+
+    function hasRole(Role role, address account) public view returns (bool) {
+        return roles[account][role];
+    }
+
+    function isLender(address account) public view returns (bool) {
+        return roles[account][Role.Lender];
+    }
+
+    function setScoringConfig(ScoringConfig calldata config) public onlyLender {
+        require(config.maxYieldVarianceBps <= 10000, "Invalid yield variance");
+        // No weight may reach 2^31, and the highest possible score must fit in
+        // the euint32 score.
+        require(
+            (config.yieldWeight | config.farmWeight | config.loanWeight) <= MAX_SCORING_WEIGHT &&
+                uint256(config.baseScore) +
+                    config.yieldBonus +
+                    config.farmBonus +
+                    config.coverageBonus +
+                    config.stabilityBonus <=
+                type(uint32).max,
+            "Invalid scoring weights"
+        );
+        scoringConfig = config;
+        emit ScoringConfigUpdated();
+    }
+
+    function setRecommendationConfig(RecommendationConfig calldata config) public onlyLender {
+        require(config.loanToValueBps <= 10000, "Invalid loan-to-value");
+        require(config.pricePerUnit <= MAX_PRICE_PER_UNIT, "Invalid price per unit");
+        recommendationConfig = config;
+        emit RecommendationConfigUpdated();
+    }
+
+    function setCollateralConfig(CollateralConfig calldata config) public onlyLender {
+        require(config.maxLoanToValueBps > 0 && config.maxLoanToValueBps <= 10000, "Invalid loan-to-value");
+        collateralConfig = config;
+        emit CollateralConfigUpdated();
+    }
+
+    // Members opt in before a cooperative may submit applications for them.
+    function joinCooperative(address cooperative) public {
+        require(roles[cooperative][Role.Cooperative], "Not cooperative");
+        address previous = memberCooperative[msg.sender];
+        if (previous != address(0)) {
+            emit CooperativeLeft(msg.sender, previous);
+        }
+        memberCooperative[msg.sender] = cooperative;
+        emit CooperativeJoined(msg.sender, cooperative);
+    }
+
+    function leaveCooperative() public {
+        address cooperative = memberCooperative[msg.sender];
+        require(cooperative != address(0), "Not a member");
+        delete memberCooperative[msg.sender];
+        emit CooperativeLeft(msg.sender, cooperative);
+    }
+
     function submitEncryptedLoanApplication(
-        euint32 encryptedFarmData,
-        euint32 encryptedYieldPrediction,
-        euint32 encryptedLoanAmount
+        string calldata cropType,
+        externalEuint32 encryptedFarmData,
+        externalEuint32 encryptedYieldPrediction,
+        externalEuint32 encryptedLoanAmount,
+        PlantingSeasonInput[] calldata plantingHistory,
+        bytes calldata inputProof
     ) public {
-        applicationCount += 1;
-        uint256 newId = applicationCount;
+        require(bytes(cropType).length > 0, "Crop type required");
+        require(plantingHistory.length <= MAX_PLANTING_SEASONS, "Too many seasons");
 
-        encryptedApplications[newId] = EncryptedLoanApplication({
-            id: newId,
-            encryptedFarmData: encryptedFarmData,
-            encryptedYieldPrediction: encryptedYieldPrediction,
-            encryptedLoanAmount: encryptedLoanAmount,
-            timestamp: block.timestamp
-        });
+        createApplication(
+            msg.sender,
+            cropType,
+            encryptedFarmData,
+            encryptedYieldPrediction,
+            encryptedLoanAmount,
+            plantingHistory,
+            inputProof
+        );
+    }
 
-        decryptedApplications[newId] = DecryptedLoanApplication({
-            farmData: "",
-            yieldPrediction: "",
-            recommendedLoan: 0,
-            isRevealed: false
+    // Submits applications for members of the calling cooperative, encrypted
+    // by the cooperative under one input proof. Each member is recorded as the
+    // applicant and gets the usual access to their ciphertexts. A row that
+    // fails a plaintext check is skipped with BatchApplicationSkipped instead
+    // of reverting the batch, and its entry in the returned ids is 0.
+    function submitEncryptedLoanApplicationBatch(
+        BatchApplicationInput[] calldata applications,
+        bytes calldata inputProof
+    ) public onlyCooperative returns (uint256[] memory ids) {
+        require(applications.length > 0 && applications.length <= MAX_BATCH_APPLICATIONS, "Invalid batch size");
+
+        ids = new uint256[](applications.length);
+        for (uint256 i = 0; i < applications.length; i++) {
+            BatchApplicationInput calldata application = applications[i];
+            string memory reason = batchApplicationError(application);
+            if (bytes(reason).length > 0) {
+                emit BatchApplicationSkipped(msg.sender, i, application.applicant, reason);
+                continue;
+            }
+
+            ids[i] = createApplication(
+                application.applicant,
+                application.cropType,
+                application.farmData,
+                application.yieldPrediction,
+                application.loanAmount,
+                application.plantingHistory,
+                inputProof
+            );
+            emit BatchApplicationSubmitted(ids[i], msg.sender, application.applicant, i);
+        }
+    }
+
+    // Re-scores an application, e.g. after the scoring config has changed,
+    // and grants the calling lender access to the result.
+    function computeCreditScore(uint256 applicationId) public onlyLender {
+        require(encryptedApplications[applicationId].applicant != address(0), "Application not found");
+        euint32 score = scoreApplication(applicationId);
+        FHE.allow(score, msg.sender);
+    }
+
+    // Grants the calling lender or underwriter access to the application's
+    // encrypted farm data, yield prediction, requested amount, planting
+    // history, yield statistics and pledged collateral.
+    function allowApplicationData(uint256 applicationId) public onlyReviewer {
+        EncryptedLoanApplication storage application = encryptedApplications[applicationId];
+        require(application.applicant != address(0), "Application not found");
+        FHE.allow(application.encryptedFarmData, msg.sender);
+        FHE.allow(application.encryptedYieldPrediction, msg.sender);
+        FHE.allow(application.encryptedLoanAmount, msg.sender);
+
+        PlantingSeason[] storage history = plantingHistories[applicationId];
+        for (uint256 i = 0; i < history.length; i++) {
+            FHE.allow(history[i].encryptedArea, msg.sender);
+            FHE.allow(history[i].encryptedPlantedAt, msg.sender);
+            FHE.allow(history[i].encryptedHarvestedAt, msg.sender);
+            FHE.allow(history[i].encryptedRealisedYield, msg.sender);
+        }
+        YieldStatistics storage statistics = yieldStatistics[applicationId];
+        if (FHE.isInitialized(statistics.mean)) {
+            FHE.allow(statistics.mean, msg.sender);
+        }
+        if (FHE.isInitialized(statistics.variance)) {
+            FHE.allow(statistics.variance, msg.sender);
+        }
+
+        uint256[] storage collateralIds = applicationCollateralIds[applicationId];
+        for (uint256 i = 0; i < collateralIds.length; i++) {
+            Collateral storage collateral = collaterals[collateralIds[i]];
+            FHE.allow(collateral.encryptedType, msg.sender);
+            FHE.allow(collateral.encryptedAppraisedValue, msg.sender);
+            FHE.allow(collateral.encryptedOwner, msg.sender);
+        }
+        CollateralCoverage storage coverage = collateralCoverages[applicationId];
+        if (FHE.isInitialized(coverage.covered)) {
+            FHE.allow(coverage.pledgedValue, msg.sender);
+            FHE.allow(coverage.covered, msg.sender);
+        }
+        emit ApplicationAccessGranted(applicationId, msg.sender);
+    }
+
+    function getPlantingHistory(uint256 applicationId) public view returns (PlantingSeason[] memory) {
+        return plantingHistories[applicationId];
+    }
+
+    function getEncryptedYieldStatistics(uint256 applicationId) public view returns (euint64 mean, euint64 variance) {
+        YieldStatistics storage statistics = yieldStatistics[applicationId];
+        return (statistics.mean, statistics.variance);
+    }
+
+    function allowCreditScore(uint256 applicationId) public onlyReviewer {
+        euint32 score = encryptedCreditScores[applicationId];
+        require(FHE.isInitialized(score), "Score not found");
+        FHE.allow(score, msg.sender);
+    }
+
+    function getEncryptedCreditScore(uint256 applicationId) public view returns (euint32) {
+        return encryptedCreditScores[applicationId];
+    }
+
+    function computeLoanRecommendation(uint256 applicationId) public onlyLender {
+        require(encryptedApplications[applicationId].applicant != address(0), "Application not found");
+        euint32 recommended = recommendLoan(applicationId);
+        FHE.allow(recommended, msg.sender);
+    }
+
+    function allowRecommendedLoan(uint256 applicationId) public onlyReviewer {
+        euint32 recommended = encryptedRecommendedLoans[applicationId];
+        require(FHE.isInitialized(recommended), "Recommendation not found");
+        FHE.allow(recommended, msg.sender);
+    }
+
+    function getEncryptedRecommendedLoan(uint256 applicationId) public view returns (euint32) {
+        return encryptedRecommendedLoans[applicationId];
+    }
+
+    function registerCollateral(
+        externalEuint8 encryptedType,
+        externalEuint32 encryptedAppraisedValue,
+        externalEaddress encryptedOwner,
+        bytes calldata inputProof
+    ) public returns (uint256) {
+        collateralCount += 1;
+        uint256 collateralId = collateralCount;
+
+        euint8 collateralType = FHE.min(FHE.fromExternal(encryptedType, inputProof), COLLATERAL_TYPE_OTHER);
+        euint32 appraisedValue = FHE.fromExternal(encryptedAppraisedValue, inputProof);
+        eaddress owner = FHE.fromExternal(encryptedOwner, inputProof);
+        FHE.allowThis(collateralType);
+        FHE.allow(collateralType, msg.sender);
+        FHE.allowThis(appraisedValue);
+        FHE.allow(appraisedValue, msg.sender);
+        FHE.allowThis(owner);
+        FHE.allow(owner, msg.sender);
+
+        collaterals[collateralId] = Collateral({
+            registrant: msg.sender,
+            attestedBy: address(0),
+            encryptedType: collateralType,
+            encryptedAppraisedValue: appraisedValue,
+            encryptedOwner: owner,
+            pledgedTo: 0,
+            registeredAt: block.timestamp
         });
+        registrantCollateralIds[msg.sender].push(collateralId);
 
-        emit LoanApplicationSubmitted(newId, block.timestamp);
+        emit CollateralRegistered(collateralId, msg.sender);
+        return collateralId;
+    }
+
+    // Collateral can be pledged until the loan is disbursed.
+    function pledgeCollateral(
+        uint256 collateralId,
+        uint256 applicationId
+    ) public onlyRegistrant(collateralId) onlyApplicant(applicationId) {
+        require(collaterals[collateralId].pledgedTo == 0, "Already pledged");
+        LoanStatus status = loanStatus[applicationId];
+        require(
+            status == LoanStatus.Submitted || status == LoanStatus.UnderReview || status == LoanStatus.Approved,
+            "Invalid status"
+        );
+        require(applicationCollateralIds[applicationId].length < MAX_COLLATERAL_PER_APPLICATION, "Too much collateral");
+
+        collaterals[collateralId].pledgedTo = applicationId;
+        applicationCollateralIds[applicationId].push(collateralId);
+        emit CollateralPledged(collateralId, applicationId);
+
+        computeCollateralCoverage(applicationId);
+    }
+
+    // Released before review starts, after a rejection, or automatically when
+    // the loan closes. Collateral of a defaulted loan stays pledged.
+    function releaseCollateral(uint256 collateralId) public onlyRegistrant(collateralId) {
+        uint256 applicationId = collaterals[collateralId].pledgedTo;
+        require(applicationId != 0, "Not pledged");
+        LoanStatus status = loanStatus[applicationId];
+        require(
+            status == LoanStatus.Submitted || status == LoanStatus.Rejected || status == LoanStatus.Closed,
+            "Collateral locked"
+        );
+
+        uint256[] storage ids = applicationCollateralIds[applicationId];
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (ids[i] == collateralId) {
+                ids[i] = ids[ids.length - 1];
+                ids.pop();
+                break;
+            }
+        }
+        collaterals[collateralId].pledgedTo = 0;
+        emit CollateralReleased(collateralId, applicationId);
+
+        computeCollateralCoverage(applicationId);
+    }
+
+    // A reviewer who has checked a pledged asset's decrypted owner and
+    // appraisal against its documents vouches for them; from then on the
+    // asset counts towards coverage. The reviewer may read the new check.
+    function attestCollateral(uint256 collateralId) public onlyReviewer {
+        uint256 applicationId = collaterals[collateralId].pledgedTo;
+        require(applicationId != 0, "Not pledged");
+        collaterals[collateralId].attestedBy = msg.sender;
+        emit CollateralAttested(collateralId, msg.sender);
+
+        CollateralCoverage storage coverage = computeCollateralCoverage(applicationId);
+        FHE.allow(coverage.pledgedValue, msg.sender);
+        FHE.allow(coverage.covered, msg.sender);
+    }
+
+    // Re-runs the loan-to-value check, e.g. after the collateral config has
+    // changed, and grants the calling lender access to the result.
+    function recomputeCollateralCoverage(uint256 applicationId) public onlyLender {
+        require(encryptedApplications[applicationId].applicant != address(0), "Application not found");
+        CollateralCoverage storage coverage = computeCollateralCoverage(applicationId);
+        FHE.allow(coverage.pledgedValue, msg.sender);
+        FHE.allow(coverage.covered, msg.sender);
+    }
+
+    function getCollateralIdsByRegistrant(address registrant) public view returns (uint256[] memory) {
+        return registrantCollateralIds[registrant];
+    }
+
+    function getApplicationCollateralIds(uint256 applicationId) public view returns (uint256[] memory) {
+        return applicationCollateralIds[applicationId];
+    }
+
+    function getEncryptedCollateralCoverage(
+        uint256 applicationId
+    ) public view returns (euint64 pledgedValue, ebool covered) {
+        CollateralCoverage storage coverage = collateralCoverages[applicationId];
+        return (coverage.pledgedValue, coverage.covered);
+    }
+
+    function startReview(uint256 applicationId) public onlyLender {
+        transition(applicationId, LoanStatus.Submitted, LoanStatus.UnderReview);
+        emit ApplicationUnderReview(applicationId, msg.sender);
+    }
+
+    function approveApplication(uint256 applicationId) public onlyLender {
+        transition(applicationId, LoanStatus.UnderReview, LoanStatus.Approved);
+        emit ApplicationApproved(applicationId, msg.sender);
+    }
+
+    function rejectApplication(uint256 applicationId) public onlyLender {
+        transition(applicationId, LoanStatus.UnderReview, LoanStatus.Rejected);
+        emit ApplicationRejected(applicationId, msg.sender);
+    }
+
+    function disburseLoan(uint256 applicationId) public onlyLender {
+        transition(applicationId, LoanStatus.Approved, LoanStatus.Disbursed);
+        emit LoanDisbursed(applicationId, msg.sender);
+
+        if (address(loanRepayment) != address(0)) {
+            EncryptedLoanApplication storage application = encryptedApplications[applicationId];
+            FHE.allowTransient(application.encryptedLoanAmount, address(loanRepayment));
+            loanRepayment.startSchedule(applicationId, application.encryptedLoanAmount, application.applicant, msg.sender);
+        }
+    }
+
+    function startRepayment(uint256 applicationId) public onlyLender {
+        transition(applicationId, LoanStatus.Disbursed, LoanStatus.Repaying);
+        if (address(loanRepayment) != address(0)) {
+            loanRepayment.requireFunded(applicationId);
+        }
+        emit LoanRepaymentStarted(applicationId, msg.sender);
+    }
+
+    function closeLoan(uint256 applicationId) public onlyLender {
+        transition(applicationId, LoanStatus.Repaying, LoanStatus.Closed);
+        emit LoanClosed(applicationId, msg.sender);
+
+        uint256[] storage collateralIds = applicationCollateralIds[applicationId];
+        for (uint256 i = 0; i < collateralIds.length; i++) {
+            collaterals[collateralIds[i]].pledgedTo = 0;
+            emit CollateralReleased(collateralIds[i], applicationId);
+        }
+        delete applicationCollateralIds[applicationId];
+    }
+
+    function markDefaulted(uint256 applicationId) public onlyLender {
+        LoanStatus status = loanStatus[applicationId];
+        require(status == LoanStatus.Disbursed || status == LoanStatus.Repaying, "Invalid status");
+        transition(applicationId, status, LoanStatus.Defaulted);
+        emit LoanDefaulted(applicationId, msg.sender);
     }
 
     function requestApplicationDecryption(uint256 applicationId) public onlyApplicant(applicationId) {
@@ -74,7 +719,11 @@ contract AgriFinanceFHE is SepoliaConfig {
         ciphertexts[2] = FHE.toBytes32(application.encryptedLoanAmount);
 
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptApplication.selector);
-        requestToApplicationId[reqId] = applicationId;
+        decryptionRequests[reqId] = DecryptionRequest({
+            requestType: DecryptionRequestType.Application,
+            applicationId: applicationId,
+            category: ""
+        });
 
         emit DecryptionRequested(applicationId);
     }
@@ -84,8 +733,9 @@ contract AgriFinanceFHE is SepoliaConfig {
         bytes memory cleartexts,
         bytes memory proof
     ) public {
-        uint256 applicationId = requestToApplicationId[requestId];
-        require(applicationId != 0, "Invalid request");
+        DecryptionRequest storage request = decryptionRequests[requestId];
+        require(request.requestType == DecryptionRequestType.Application, "Invalid request");
+        uint256 applicationId = request.applicationId;
 
         EncryptedLoanApplication storage eApp = encryptedApplications[applicationId];
         DecryptedLoanApplication storage dApp = decryptedApplications[applicationId];
@@ -93,40 +743,73 @@ contract AgriFinanceFHE is SepoliaConfig {
 
         FHE.checkSignatures(requestId, cleartexts, proof);
 
-        string[] memory results = abi.decode(cleartexts, (string[]));
+        (uint32 farmData, uint32 yieldPrediction, uint32 loanAmount) = abi.decode(
+            cleartexts,
+            (uint32, uint32, uint32)
+        );
 
-        dApp.farmData = results[0];
-        dApp.yieldPrediction = results[1];
-        dApp.recommendedLoan = abi.decode(bytes(results[2]), (uint256));
+        dApp.farmData = farmData;
+        dApp.yieldPrediction = yieldPrediction;
+        dApp.loanAmount = loanAmount;
         dApp.isRevealed = true;
+        delete decryptionRequests[requestId];
 
-        if (!FHE.isInitialized(encryptedLoanCategoryCount[results[1]])) {
-            encryptedLoanCategoryCount[results[1]] = FHE.asEuint32(0);
-            loanCategories.push(results[1]);
+        // Revealed applications are counted per crop type.
+        string memory category = eApp.cropType;
+        euint32 count = encryptedLoanCategoryCount[category];
+        if (!FHE.isInitialized(count)) {
+            count = FHE.asEuint32(0);
+            loanCategories.push(category);
         }
-        encryptedLoanCategoryCount[results[1]] = FHE.add(
-            encryptedLoanCategoryCount[results[1]],
-            FHE.asEuint32(1)
-        );
+        count = FHE.add(count, FHE.asEuint32(1));
+        FHE.allowThis(count);
+        encryptedLoanCategoryCount[category] = count;
 
-        emit ApplicationDecrypted(applicationId);
+        emit ApplicationDecrypted(applicationId, farmData, yieldPrediction, loanAmount);
     }
 
     function getDecryptedApplication(uint256 applicationId) public view returns (
-        string memory farmData,
-        string memory yieldPrediction,
-        uint256 recommendedLoan,
+        uint32 farmData,
+        uint32 yieldPrediction,
+        uint32 loanAmount,
         bool isRevealed
     ) {
         DecryptedLoanApplication storage app = decryptedApplications[applicationId];
-        return (app.farmData, app.yieldPrediction, app.recommendedLoan, app.isRevealed);
+        return (app.farmData, app.yieldPrediction, app.loanAmount, app.isRevealed);
+    }
+
+    function getApplicant(uint256 applicationId) public view returns (address) {
+        return encryptedApplications[applicationId].applicant;
+    }
+
+    function getApplicationIdsByApplicant(address applicant) public view returns (uint256[] memory) {
+        return applicantApplicationIds[applicant];
+    }
+
+    function getApplicationIdsBySubmitter(address submitter) public view returns (uint256[] memory) {
+        return submitterApplicationIds[submitter];
+    }
+
+    function getApplicationCountByApplicant(address applicant) public view returns (uint256) {
+        return applicantApplicationIds[applicant].length;
+    }
+
+    function getMyApplicationIds() public view returns (uint256[] memory) {
+        return applicantApplicationIds[msg.sender];
     }
 
     function getEncryptedLoanCategoryCount(string memory category) public view returns (euint32) {
         return encryptedLoanCategoryCount[category];
     }
 
-    function requestLoanCategoryCountDecryption(string memory category) public {
+    function allowLoanCategoryCount(string memory category) public onlyAuditor {
+        euint32 count = encryptedLoanCategoryCount[category];
+        require(FHE.isInitialized(count), "Category not found");
+        FHE.allow(count, msg.sender);
+        emit CategoryCountAccessGranted(category, msg.sender);
+    }
+
+    function requestLoanCategoryCountDecryption(string memory category) public onlyAuditor {
         euint32 count = encryptedLoanCategoryCount[category];
         require(FHE.isInitialized(count), "Category not found");
 
@@ -134,7 +817,13 @@ contract AgriFinanceFHE is SepoliaConfig {
         ciphertexts[0] = FHE.toBytes32(count);
 
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptLoanCategoryCount.selector);
-        requestToApplicationId[reqId] = bytes32ToUint(keccak256(abi.encodePacked(category)));
+        decryptionRequests[reqId] = DecryptionRequest({
+            requestType: DecryptionRequestType.CategoryCount,
+            applicationId: 0,
+            category: category
+        });
+
+        emit CategoryCountDecryptionRequested(category);
     }
 
     function decryptLoanCategoryCount(
@@ -142,24 +831,254 @@ contract AgriFinanceFHE is SepoliaConfig {
         bytes memory cleartexts,
         bytes memory proof
     ) public {
-        uint256 categoryHash = requestToApplicationId[requestId];
-        string memory category = getCategoryFromHash(categoryHash);
+        DecryptionRequest storage request = decryptionRequests[requestId];
+        require(request.requestType == DecryptionRequestType.CategoryCount, "Invalid request");
+        string memory category = request.category;
 
         FHE.checkSignatures(requestId, cleartexts, proof);
 
         uint32 count = abi.decode(cleartexts, (uint32));
+        revealedCategoryCounts[category] = RevealedCategoryCount({ count: count, revealedAt: block.timestamp });
+        delete decryptionRequests[requestId];
+
+        emit CategoryCountDecrypted(category, count, block.timestamp);
+    }
+
+    // Every category with its most recently published count; revealedAt is
+    // zero for categories whose count has never been decrypted.
+    function getRevealedCategoryCounts() public view returns (
+        string[] memory categories,
+        uint32[] memory counts,
+        uint256[] memory revealedAt
+    ) {
+        uint256 length = loanCategories.length;
+        categories = new string[](length);
+        counts = new uint32[](length);
+        revealedAt = new uint256[](length);
+
+        for (uint256 i = 0; i < length; i++) {
+            RevealedCategoryCount storage revealed = revealedCategoryCounts[loanCategories[i]];
+            categories[i] = loanCategories[i];
+            counts[i] = revealed.count;
+            revealedAt[i] = revealed.revealedAt;
+        }
     }
 
-    function bytes32ToUint(bytes32 b) private pure returns (uint256) {
-        return uint256(b);
+    // Inputs are verified against the caller's proof; ACL access goes to the applicant.
+    function createApplication(
+        address applicant,
+        string calldata cropType,
+        externalEuint32 encryptedFarmData,
+        externalEuint32 encryptedYieldPrediction,
+        externalEuint32 encryptedLoanAmount,
+        PlantingSeasonInput[] calldata plantingHistory,
+        bytes calldata inputProof
+    ) private returns (uint256) {
+        applicationCount += 1;
+        uint256 newId = applicationCount;
+
+        encryptedApplications[newId] = EncryptedLoanApplication({
+            id: newId,
+            applicant: applicant,
+            cropType: cropType,
+            encryptedFarmData: importEncryptedValue(encryptedFarmData, applicant, inputProof),
+            encryptedYieldPrediction: importEncryptedValue(encryptedYieldPrediction, applicant, inputProof),
+            encryptedLoanAmount: importEncryptedValue(encryptedLoanAmount, applicant, inputProof),
+            timestamp: block.timestamp
+        });
+
+        decryptedApplications[newId] = DecryptedLoanApplication({
+            farmData: 0,
+            yieldPrediction: 0,
+            loanAmount: 0,
+            isRevealed: false
+        });
+
+        applicantApplicationIds[applicant].push(newId);
+        applicationSubmitter[newId] = msg.sender;
+        submitterApplicationIds[msg.sender].push(newId);
+
+        emit LoanApplicationSubmitted(newId, applicant, cropType, block.timestamp);
+
+        recordPlantingHistory(newId, applicant, plantingHistory, inputProof);
+
+        scoreApplication(newId);
+        recommendLoan(newId);
+        return newId;
     }
 
-    function getCategoryFromHash(uint256 hash) private view returns (string memory) {
-        for (uint i = 0; i < loanCategories.length; i++) {
-            if (bytes32ToUint(keccak256(abi.encodePacked(loanCategories[i]))) == hash) {
-                return loanCategories[i];
-            }
+    function batchApplicationError(BatchApplicationInput calldata application) private view returns (string memory) {
+        if (memberCooperative[application.applicant] != msg.sender) return "Not a member";
+        if (bytes(application.cropType).length == 0) return "Crop type required";
+        if (application.plantingHistory.length > MAX_PLANTING_SEASONS) return "Too many seasons";
+        for (uint256 i = 0; i < application.plantingHistory.length; i++) {
+            if (bytes(application.plantingHistory[i].cropType).length == 0) return "Crop type required";
+        }
+        return "";
+    }
+
+    function transition(uint256 applicationId, LoanStatus from, LoanStatus to) private {
+        require(encryptedApplications[applicationId].applicant != address(0), "Application not found");
+        require(loanStatus[applicationId] == from, "Invalid status");
+        loanStatus[applicationId] = to;
+    }
+
+    function importEncryptedValue(
+        externalEuint32 inputHandle,
+        address owner,
+        bytes calldata inputProof
+    ) private returns (euint32) {
+        euint32 value = FHE.fromExternal(inputHandle, inputProof);
+        FHE.allowThis(value);
+        FHE.allow(value, owner);
+        return value;
+    }
+
+    // Stores the encrypted seasons and derives the yield statistics scoring
+    // reads. variance = (n * sum(y^2) - sum(y)^2) / n^2 is never negative,
+    // so the encrypted subtraction cannot wrap.
+    function recordPlantingHistory(
+        uint256 applicationId,
+        address applicant,
+        PlantingSeasonInput[] calldata plantingHistory,
+        bytes calldata inputProof
+    ) private {
+        uint256 seasons = plantingHistory.length;
+        if (seasons == 0) {
+            return;
+        }
+
+        PlantingSeason[] storage history = plantingHistories[applicationId];
+        euint64 sum = FHE.asEuint64(0);
+        euint64 sumOfSquares = FHE.asEuint64(0);
+        for (uint256 i = 0; i < seasons; i++) {
+            PlantingSeasonInput calldata input = plantingHistory[i];
+            require(bytes(input.cropType).length > 0, "Crop type required");
+
+            euint32 realisedYield = importEncryptedValue(input.realisedYield, applicant, inputProof);
+            history.push(
+                PlantingSeason({
+                    season: input.season,
+                    cropType: input.cropType,
+                    encryptedArea: importEncryptedValue(input.area, applicant, inputProof),
+                    encryptedPlantedAt: importEncryptedValue(input.plantedAt, applicant, inputProof),
+                    encryptedHarvestedAt: importEncryptedValue(input.harvestedAt, applicant, inputProof),
+                    encryptedRealisedYield: realisedYield
+                })
+            );
+
+            euint64 capped = FHE.min(FHE.asEuint64(realisedYield), MAX_REALISED_YIELD);
+            sum = FHE.add(sum, capped);
+            sumOfSquares = FHE.add(sumOfSquares, FHE.mul(capped, capped));
         }
-        revert("Category not found");
+
+        YieldStatistics storage statistics = yieldStatistics[applicationId];
+        statistics.mean = FHE.div(sum, uint64(seasons));
+        FHE.allowThis(statistics.mean);
+        FHE.allow(statistics.mean, applicant);
+
+        if (seasons > 1) {
+            euint64 spread = FHE.sub(FHE.mul(sumOfSquares, uint64(seasons)), FHE.mul(sum, sum));
+            statistics.variance = FHE.div(spread, uint64(seasons * seasons));
+            FHE.allowThis(statistics.variance);
+            FHE.allow(statistics.variance, applicant);
+        }
+    }
+
+    function scoreApplication(uint256 applicationId) private returns (euint32) {
+        EncryptedLoanApplication storage application = encryptedApplications[applicationId];
+        ScoringConfig memory config = scoringConfig;
+
+        // Widen to 64 bits so weighted products cannot wrap around.
+        euint64 farmData = FHE.asEuint64(application.encryptedFarmData);
+        euint64 yieldPrediction = FHE.asEuint64(application.encryptedYieldPrediction);
+        euint64 loanAmount = FHE.asEuint64(application.encryptedLoanAmount);
+
+        euint64 capacity = FHE.add(
+            FHE.mul(yieldPrediction, uint64(config.yieldWeight)),
+            FHE.mul(farmData, uint64(config.farmWeight))
+        );
+        euint64 exposure = FHE.mul(loanAmount, uint64(config.loanWeight));
+
+        euint32 zero = FHE.asEuint32(0);
+        euint32 score = FHE.asEuint32(config.baseScore);
+        score = FHE.add(
+            score,
+            FHE.select(FHE.ge(yieldPrediction, uint64(config.minYield)), FHE.asEuint32(config.yieldBonus), zero)
+        );
+        score = FHE.add(
+            score,
+            FHE.select(FHE.ge(farmData, uint64(config.minFarmArea)), FHE.asEuint32(config.farmBonus), zero)
+        );
+        score = FHE.add(score, FHE.select(FHE.ge(capacity, exposure), FHE.asEuint32(config.coverageBonus), zero));
+
+        // A steady history earns the stability bonus; too few seasons earn nothing.
+        YieldStatistics storage statistics = yieldStatistics[applicationId];
+        if (FHE.isInitialized(statistics.variance)) {
+            ebool stable = FHE.le(
+                FHE.mul(statistics.variance, uint64(10000)),
+                FHE.mul(FHE.mul(statistics.mean, statistics.mean), uint64(config.maxYieldVarianceBps))
+            );
+            score = FHE.add(score, FHE.select(stable, FHE.asEuint32(config.stabilityBonus), zero));
+        }
+
+        FHE.allowThis(score);
+        FHE.allow(score, application.applicant);
+        encryptedCreditScores[applicationId] = score;
+
+        emit CreditScoreComputed(applicationId);
+        return score;
+    }
+
+    // Only attested collateral whose encrypted owner is the applicant counts
+    // towards the pledged value. Values are widened to 64 bits, where ten 32-bit
+    // values times 10000 basis points cannot overflow.
+    function computeCollateralCoverage(uint256 applicationId) private returns (CollateralCoverage storage coverage) {
+        EncryptedLoanApplication storage application = encryptedApplications[applicationId];
+        uint256[] storage collateralIds = applicationCollateralIds[applicationId];
+
+        euint64 zero = FHE.asEuint64(0);
+        euint64 pledgedValue = zero;
+        for (uint256 i = 0; i < collateralIds.length; i++) {
+            Collateral storage collateral = collaterals[collateralIds[i]];
+            if (collateral.attestedBy == address(0)) continue;
+            ebool ownedByApplicant = FHE.eq(collateral.encryptedOwner, application.applicant);
+            pledgedValue = FHE.add(
+                pledgedValue,
+                FHE.select(ownedByApplicant, FHE.asEuint64(collateral.encryptedAppraisedValue), zero)
+            );
+        }
+        ebool covered = FHE.le(
+            FHE.mul(FHE.asEuint64(application.encryptedLoanAmount), uint64(10000)),
+            FHE.mul(pledgedValue, uint64(collateralConfig.maxLoanToValueBps))
+        );
+
+        FHE.allowThis(pledgedValue);
+        FHE.allow(pledgedValue, application.applicant);
+        FHE.allowThis(covered);
+        FHE.allow(covered, application.applicant);
+        coverage = collateralCoverages[applicationId];
+        coverage.pledgedValue = pledgedValue;
+        coverage.covered = covered;
+
+        emit CollateralCoverageComputed(applicationId);
+    }
+
+    function recommendLoan(uint256 applicationId) private returns (euint32) {
+        EncryptedLoanApplication storage application = encryptedApplications[applicationId];
+        RecommendationConfig memory config = recommendationConfig;
+
+        euint64 yieldValue = FHE.mul(FHE.asEuint64(application.encryptedYieldPrediction), uint64(config.pricePerUnit));
+        euint64 lendingLimit = FHE.div(FHE.mul(yieldValue, uint64(config.loanToValueBps)), 10000);
+
+        // The minimum never exceeds the requested euint32 amount, so narrowing back is lossless.
+        euint32 recommended = FHE.asEuint32(FHE.min(FHE.asEuint64(application.encryptedLoanAmount), lendingLimit));
+
+        FHE.allowThis(recommended);
+        FHE.allow(recommended, application.applicant);
+        encryptedRecommendedLoans[applicationId] = recommended;
+
+        emit LoanRecommendationComputed(applicationId);
+        return recommended;
     }
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+// A stablecoin whose balances and transfer amounts are ciphertexts. One unit
+// is one dollar, like AgriFinanceFHE loan amounts. Holders let contracts
+// such as LoanRepayment move their funds by making them operators for a
+// while. Only the owner mints, and the minted amount is public; transfers
+// are not.
+contract ConfidentialToken is SepoliaConfig {
+
+    string public name;
+    string public symbol;
+    uint8 public constant decimals = 0;
+
+    address public owner;
+
+    mapping(address => euint64) private balances;
+    // Holder => operator => last timestamp the operator may transfer at.
+    mapping(address => mapping(address => uint64)) private operators;
+
+    event ConfidentialTransfer(address indexed from, address indexed to);
+    event OperatorSet(address indexed holder, address indexed operator, uint64 until);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+
+    constructor(string memory name_, string memory symbol_) {
+        name = name_;
+        symbol = symbol_;
+        owner = msg.sender;
+    }
+
+    function mint(address to, uint64 amount) public onlyOwner {
+        require(to != address(0), "Invalid recipient");
+        euint64 balance = FHE.add(balances[to], FHE.asEuint64(amount));
+        storeBalance(to, balance);
+        emit ConfidentialTransfer(address(0), to);
+    }
+
+    // Until 0 revokes the operator.
+    function setOperator(address operator, uint64 until) public {
+        operators[msg.sender][operator] = until;
+        emit OperatorSet(msg.sender, operator, until);
+    }
+
+    function isOperator(address holder, address spender) public view returns (bool) {
+        return holder == spender || block.timestamp <= operators[holder][spender];
+    }
+
+    function confidentialTransfer(
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) public returns (euint64) {
+        return transfer(msg.sender, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    // The caller must be an operator for from and have access to amount.
+    // Returns the amount actually moved, which the caller may use in the
+    // same transaction.
+    function confidentialTransferFrom(address from, address to, euint64 amount) public returns (euint64) {
+        require(isOperator(from, msg.sender), "Not operator");
+        require(FHE.isSenderAllowed(amount), "Amount not allowed");
+        return transfer(from, to, amount);
+    }
+
+    function confidentialBalanceOf(address account) public view returns (euint64) {
+        return balances[account];
+    }
+
+    // Moves nothing when from holds less than amount, so a transfer never
+    // reveals whether the balance sufficed.
+    function transfer(address from, address to, euint64 amount) private returns (euint64 transferred) {
+        require(to != address(0), "Invalid recipient");
+        ebool covered = FHE.le(amount, balances[from]);
+        transferred = FHE.select(covered, amount, FHE.asEuint64(0));
+
+        storeBalance(from, FHE.sub(balances[from], transferred));
+        storeBalance(to, FHE.add(balances[to], transferred));
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, from);
+        FHE.allow(transferred, to);
+        FHE.allowTransient(transferred, msg.sender);
+        emit ConfidentialTransfer(from, to);
+    }
+
+    function storeBalance(address account, euint64 balance) private {
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+        balances[account] = balance;
+    }
+}
@@ -0,0 +1,127 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { AgriFinanceFHE } from "./AgriFinanceFHE.sol";
+import { IERC20 } from "./IERC20.sol";
+import { LoanRepayment } from "./LoanRepayment.sol";
+
+// Moves stablecoin for the loans AgriFinanceFHE tracks. Lenders fund the
+// escrow, pay a disbursed loan out of their share to the applicant, and
+// receive the applicant's repayments directly. A plain token transfer
+// shows its amount, so only loans whose amount has been revealed are paid.
+// Loans LoanRepayment already paid in its confidential token are not. The
+// escrow only returns principal: interest accrues in LoanRepayment, whose
+// encrypted balance these plaintext transfers neither read nor update.
+contract LoanEscrow {
+
+    // lender is who paid the loan out and receives its repayments; amount
+    // and repaid are in token units.
+    struct EscrowLoan {
+        address lender;
+        uint256 amount;
+        uint256 repaid;
+    }
+
+    AgriFinanceFHE public immutable agriFinance;
+    IERC20 public immutable token;
+    // Token units per dollar of loan amount.
+    uint256 public immutable unit;
+
+    mapping(address => uint256) public lenderBalances;
+    mapping(uint256 => EscrowLoan) public loans;
+
+    event EscrowFunded(address indexed lender, uint256 amount);
+    event EscrowWithdrawn(address indexed lender, uint256 amount);
+    event LoanPaidOut(uint256 indexed id, address indexed lender, address indexed applicant, uint256 amount);
+    event RepaymentTransferred(uint256 indexed id, address indexed applicant, address indexed lender, uint256 amount);
+
+    modifier onlyLender() {
+        require(agriFinance.hasRole(AgriFinanceFHE.Role.Lender, msg.sender), "Not lender");
+        _;
+    }
+
+    modifier onlyApplicant(uint256 applicationId) {
+        require(agriFinance.getApplicant(applicationId) == msg.sender, "Not applicant");
+        _;
+    }
+
+    constructor(AgriFinanceFHE agriFinance_, IERC20 token_) {
+        agriFinance = agriFinance_;
+        token = token_;
+        unit = 10 ** token_.decimals();
+    }
+
+    // Pulls amount from the lender, who must have approved the escrow first.
+    function fund(uint256 amount) public onlyLender {
+        require(amount > 0, "Invalid amount");
+        lenderBalances[msg.sender] += amount;
+        callToken(abi.encodeCall(IERC20.transferFrom, (msg.sender, address(this), amount)));
+        emit EscrowFunded(msg.sender, amount);
+    }
+
+    // Open to former lenders too, so revoking the role never locks funds in.
+    function withdraw(uint256 amount) public {
+        require(amount > 0, "Invalid amount");
+        require(lenderBalances[msg.sender] >= amount, "Insufficient escrow balance");
+        lenderBalances[msg.sender] -= amount;
+        callToken(abi.encodeCall(IERC20.transfer, (msg.sender, amount)));
+        emit EscrowWithdrawn(msg.sender, amount);
+    }
+
+    // Pays the revealed loan amount to the applicant once AgriFinanceFHE
+    // has the loan disbursed. Each loan is paid out once, and only here.
+    function payOut(uint256 applicationId) public onlyLender {
+        require(agriFinance.loanStatus(applicationId) == AgriFinanceFHE.LoanStatus.Disbursed, "Invalid status");
+        EscrowLoan storage loan = loans[applicationId];
+        require(loan.lender == address(0), "Already paid out");
+        LoanRepayment repayment = agriFinance.loanRepayment();
+        require(
+            address(repayment) == address(0) || !repayment.paidWithToken(applicationId),
+            "Paid in confidential token"
+        );
+        (, , uint32 loanAmount, bool isRevealed) = agriFinance.getDecryptedApplication(applicationId);
+        require(isRevealed, "Loan amount not revealed");
+
+        uint256 amount = uint256(loanAmount) * unit;
+        require(lenderBalances[msg.sender] >= amount, "Insufficient escrow balance");
+        lenderBalances[msg.sender] -= amount;
+        loan.lender = msg.sender;
+        loan.amount = amount;
+
+        address applicant = agriFinance.getApplicant(applicationId);
+        callToken(abi.encodeCall(IERC20.transfer, (applicant, amount)));
+        emit LoanPaidOut(applicationId, msg.sender, applicant, amount);
+    }
+
+    // Sends amount from the applicant, who must have approved the escrow
+    // first, straight to the lender who paid the loan out. Repayments return
+    // principal only, so they add up to at most the amount paid out.
+    function repay(uint256 applicationId, uint256 amount) public onlyApplicant(applicationId) {
+        AgriFinanceFHE.LoanStatus status = agriFinance.loanStatus(applicationId);
+        require(
+            status == AgriFinanceFHE.LoanStatus.Disbursed || status == AgriFinanceFHE.LoanStatus.Repaying,
+            "Invalid status"
+        );
+        EscrowLoan storage loan = loans[applicationId];
+        require(loan.lender != address(0), "Not paid out");
+        require(amount > 0, "Invalid amount");
+        require(loan.repaid + amount <= loan.amount, "Exceeds amount paid out");
+
+        loan.repaid += amount;
+        callToken(abi.encodeCall(IERC20.transferFrom, (msg.sender, loan.lender, amount)));
+        emit RepaymentTransferred(applicationId, msg.sender, loan.lender, amount);
+    }
+
+    // Calls transfer or transferFrom on the token, accepting tokens that
+    // return nothing, like USDT, as well as those that return true. The
+    // token's own revert reason is passed on.
+    function callToken(bytes memory data) private {
+        (bool success, bytes memory returned) = address(token).call(data);
+        if (!success) {
+            assembly {
+                revert(add(returned, 32), mload(returned))
+            }
+        }
+        require(returned.length == 0 || abi.decode(returned, (bool)), "Transfer failed");
+    }
+}
@@ -0,0 +1,499 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { AgriFinanceFHE } from "./AgriFinanceFHE.sol";
+import { ConfidentialToken } from "./ConfidentialToken.sol";
+
+// Repayment schedules and encrypted balances of the loans AgriFinanceFHE
+// disburses. Lenders set a schedule on an approved loan; AgriFinanceFHE
+// starts it on disbursal by handing over the encrypted loan amount. With a
+// token, the loan amount and every repayment also move between the lender
+// and the applicant as ciphertexts; both must make this contract their
+// operator first. A token-paid loan only starts once the decryption oracle
+// confirms the lender's balance covered it; until then the lender can retry.
+contract LoanRepayment is SepoliaConfig {
+
+    // Instalments follow the dates the lender picks; a harvest balloon is a
+    // single payment due once the crop has been harvested and sold, with the
+    // date taken from the crop calendar.
+    enum RepaymentMode {
+        Instalments,
+        HarvestBalloon
+    }
+
+    // Days from planting to harvest, then from harvest until the crop is sold
+    // and the balloon payment falls due.
+    struct CropCalendar {
+        uint32 growingDays;
+        uint32 saleDays;
+    }
+
+    // Instalment due dates are unix seconds in ascending order; interest is
+    // simple annual interest on the unpaid principal. An instalment due in
+    // harvestMonth (1-12, 0 for none) only becomes overdue gracePeriodDays
+    // after its due date.
+    struct ScheduleInput {
+        uint64[] dueDates;
+        uint32 interestRateBps;
+        uint8 harvestMonth;
+        uint32 gracePeriodDays;
+    }
+
+    // disbursedAt is 0 until the loan is disbursed; lender is the lender who
+    // disbursed it. fundedAt is 0 until the loan amount has reached the
+    // applicant, which without a token is on disbursal. instalmentsOverdue is
+    // as of the last late-payment check.
+    // plantedAt is only set for harvest balloons, whose harvestMonth is the
+    // month the crop calendar expects the harvest in.
+    struct Schedule {
+        RepaymentMode mode;
+        uint64[] dueDates;
+        uint32 interestRateBps;
+        uint8 harvestMonth;
+        uint32 gracePeriodDays;
+        uint64 plantedAt;
+        address lender;
+        uint256 disbursedAt;
+        uint256 fundedAt;
+        uint256 lastAccruedAt;
+        uint256 instalmentsOverdue;
+        uint256 checkedAt;
+    }
+
+    // The principal is the disbursed amount; outstanding adds accrued
+    // interest and falls with every repayment. late is set by checkLatePayment.
+    struct Balance {
+        euint64 principal;
+        euint64 outstanding;
+        euint64 repaid;
+        ebool late;
+    }
+
+    uint256 public constant MAX_INSTALMENTS = 24;
+    uint32 public constant MAX_GRACE_PERIOD_DAYS = 90;
+    uint32 public constant MAX_CROP_CALENDAR_DAYS = 730;
+
+    AgriFinanceFHE public immutable agriFinance;
+    // The zero address when repayments are only tracked, not paid.
+    ConfidentialToken public immutable token;
+
+    mapping(uint256 => Schedule) private schedules;
+    mapping(uint256 => Balance) private balances;
+    // The loan amount a token-paid disbursal retries with, and the pending
+    // oracle requests confirming it by request id.
+    mapping(uint256 => euint64) private loanAmounts;
+    mapping(uint256 => uint256) private fundingRequests;
+
+    mapping(string => CropCalendar) private cropCalendars;
+    string[] private calendarCropTypes;
+
+    event CropCalendarUpdated(string cropType, uint32 growingDays, uint32 saleDays);
+    event RepaymentScheduleSet(uint256 indexed id, address indexed lender, uint256 instalments);
+    event RepaymentScheduleStarted(uint256 indexed id, address indexed lender);
+    event DisbursalFundingChecked(uint256 indexed id, bool funded);
+    event InterestAccrued(uint256 indexed id, uint256 from, uint256 to);
+    event LoanRepaid(uint256 indexed id, address indexed applicant);
+    event LatePaymentChecked(uint256 indexed id, uint256 instalmentsOverdue);
+
+    modifier onlyLender() {
+        require(agriFinance.hasRole(AgriFinanceFHE.Role.Lender, msg.sender), "Not lender");
+        _;
+    }
+
+    modifier onlyReviewer() {
+        require(
+            agriFinance.hasRole(AgriFinanceFHE.Role.Lender, msg.sender) ||
+                agriFinance.hasRole(AgriFinanceFHE.Role.Underwriter, msg.sender),
+            "Not reviewer"
+        );
+        _;
+    }
+
+    modifier onlyApplicant(uint256 applicationId) {
+        require(agriFinance.getApplicant(applicationId) == msg.sender, "Not applicant");
+        _;
+    }
+
+    modifier onlyStarted(uint256 applicationId) {
+        require(schedules[applicationId].disbursedAt != 0, "Repayment not started");
+        _;
+    }
+
+    modifier onlyFunded(uint256 applicationId) {
+        require(schedules[applicationId].fundedAt != 0, "Disbursal not funded");
+        _;
+    }
+
+    // Starts with a typical calendar for the crops the dApp offers; lenders
+    // adjust them to their region with setCropCalendar.
+    constructor(AgriFinanceFHE agriFinance_, ConfidentialToken token_) {
+        agriFinance = agriFinance_;
+        token = token_;
+        writeCropCalendar("Wheat", CropCalendar({ growingDays: 240, saleDays: 60 }));
+        writeCropCalendar("Rice", CropCalendar({ growingDays: 120, saleDays: 45 }));
+        writeCropCalendar("Corn", CropCalendar({ growingDays: 150, saleDays: 60 }));
+        writeCropCalendar("Soybean", CropCalendar({ growingDays: 120, saleDays: 45 }));
+        writeCropCalendar("Cotton", CropCalendar({ growingDays: 180, saleDays: 60 }));
+        writeCropCalendar("Vegetables", CropCalendar({ growingDays: 90, saleDays: 30 }));
+        writeCropCalendar("Fruits", CropCalendar({ growingDays: 180, saleDays: 45 }));
+    }
+
+    function setCropCalendar(string calldata cropType, CropCalendar calldata calendar) public onlyLender {
+        require(bytes(cropType).length > 0, "Crop type required");
+        writeCropCalendar(cropType, calendar);
+    }
+
+    function getCropCalendar(string calldata cropType) public view returns (CropCalendar memory) {
+        return cropCalendars[cropType];
+    }
+
+    function getCalendarCropTypes() public view returns (string[] memory) {
+        return calendarCropTypes;
+    }
+
+    // Loans without a schedule are not tracked after disbursal. A schedule
+    // can be replaced until the loan is disbursed.
+    function setRepaymentSchedule(uint256 applicationId, ScheduleInput calldata input) public onlyLender {
+        require(input.dueDates.length > 0 && input.dueDates.length <= MAX_INSTALMENTS, "Invalid instalments");
+        for (uint256 i = 1; i < input.dueDates.length; i++) {
+            require(input.dueDates[i] > input.dueDates[i - 1], "Due dates out of order");
+        }
+        require(input.harvestMonth <= 12, "Invalid harvest month");
+
+        Schedule storage schedule = writeSchedule(
+            applicationId,
+            RepaymentMode.Instalments,
+            input.dueDates,
+            input.interestRateBps,
+            input.gracePeriodDays
+        );
+        schedule.harvestMonth = input.harvestMonth;
+        schedule.plantedAt = 0;
+    }
+
+    // Sets a single balloon payment due the crop calendar's growing and sale
+    // days after planting. The grace period extends the balloon, which is
+    // always due after the harvest. The application's planting history is
+    // encrypted, so the lender supplies the planting date: the current
+    // season's, with the crop not yet due for harvest, or one at most a
+    // season (the crop's growing days) ahead for financing before planting.
+    function setHarvestRepaymentSchedule(
+        uint256 applicationId,
+        uint64 plantedAt,
+        uint32 interestRateBps,
+        uint32 gracePeriodDays
+    ) public onlyLender {
+        (, , string memory cropType, , , , ) = agriFinance.encryptedApplications(applicationId);
+        CropCalendar memory calendar = cropCalendars[cropType];
+        require(calendar.growingDays != 0, "No crop calendar");
+
+        uint64 harvestAt = plantedAt + uint64(calendar.growingDays) * 1 days;
+        require(
+            plantedAt <= block.timestamp + uint256(calendar.growingDays) * 1 days && harvestAt > block.timestamp,
+            "Invalid planting date"
+        );
+        uint64[] memory dueDates = new uint64[](1);
+        dueDates[0] = harvestAt + uint64(calendar.saleDays) * 1 days;
+
+        Schedule storage schedule = writeSchedule(
+            applicationId,
+            RepaymentMode.HarvestBalloon,
+            dueDates,
+            interestRateBps,
+            gracePeriodDays
+        );
+        schedule.harvestMonth = monthOf(harvestAt);
+        schedule.plantedAt = plantedAt;
+    }
+
+    // Called by AgriFinanceFHE on disbursal, with transient access to the
+    // loan amount. Starts the clock with the whole principal outstanding;
+    // with a token, the principal is what the lender's balance covered,
+    // which is nothing if it fell short of the loan amount, and the clock
+    // waits for the oracle to confirm it is not.
+    function startSchedule(uint256 applicationId, euint32 loanAmount, address applicant, address lender) external {
+        require(msg.sender == address(agriFinance), "Not AgriFinanceFHE");
+        Schedule storage schedule = schedules[applicationId];
+        // Without a token an unscheduled loan simply goes untracked; with
+        // one, the schedule is what moves the loan amount, so disbursal
+        // waits for it.
+        if (schedule.dueDates.length == 0) {
+            require(address(token) == address(0), "No repayment schedule");
+            return;
+        }
+
+        schedule.lender = lender;
+        schedule.disbursedAt = block.timestamp;
+        schedule.lastAccruedAt = block.timestamp;
+
+        euint64 amount = FHE.asEuint64(loanAmount);
+        euint64 principal = pay(amount, lender, applicant);
+        storePrincipal(applicationId, applicant, principal);
+        storeBalance(applicationId, applicant, principal, FHE.asEuint64(0));
+
+        emit RepaymentScheduleStarted(applicationId, lender);
+
+        if (address(token) == address(0)) {
+            schedule.fundedAt = block.timestamp;
+        } else {
+            FHE.allowThis(amount);
+            loanAmounts[applicationId] = amount;
+            requestFundingCheck(applicationId, principal);
+        }
+    }
+
+    // Pays the loan amount again after the lender's balance fell short of
+    // it. Only pays while nothing has reached the applicant, so retrying
+    // before the oracle has answered cannot pay the loan out twice.
+    function retryDisbursal(uint256 applicationId) public onlyStarted(applicationId) {
+        Schedule storage schedule = schedules[applicationId];
+        require(msg.sender == schedule.lender, "Not disbursing lender");
+        require(schedule.fundedAt == 0, "Disbursal already funded");
+
+        address applicant = agriFinance.getApplicant(applicationId);
+        Balance storage balance = balances[applicationId];
+        euint64 amount = FHE.select(
+            FHE.eq(balance.principal, 0),
+            loanAmounts[applicationId],
+            FHE.asEuint64(0)
+        );
+        euint64 paid = pay(amount, msg.sender, applicant);
+        euint64 principal = FHE.add(balance.principal, paid);
+        storePrincipal(applicationId, applicant, principal);
+        storeBalance(applicationId, applicant, FHE.add(balance.outstanding, paid), balance.repaid);
+
+        requestFundingCheck(applicationId, principal);
+    }
+
+    // Oracle callback revealing whether the loan amount reached the
+    // applicant. Interest and due payments count from the confirmation.
+    function confirmDisbursalFunding(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        uint256 applicationId = fundingRequests[requestId];
+        require(applicationId != 0, "Invalid request");
+        delete fundingRequests[requestId];
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        bool funded = abi.decode(cleartexts, (bool));
+        Schedule storage schedule = schedules[applicationId];
+        if (funded && schedule.fundedAt == 0) {
+            schedule.fundedAt = block.timestamp;
+            schedule.lastAccruedAt = block.timestamp;
+        }
+        emit DisbursalFundingChecked(applicationId, funded);
+    }
+
+    // Reverts until the loan amount has reached the applicant; AgriFinanceFHE
+    // checks it before a loan enters repayment. Loans without a schedule are
+    // only untracked without a token.
+    function requireFunded(uint256 applicationId) external view {
+        require(address(token) == address(0) || schedules[applicationId].fundedAt != 0, "Disbursal not funded");
+    }
+
+    // Brings the outstanding balance up to date. Anyone may call it; repay
+    // and checkLatePayment accrue first on their own.
+    function accrueInterest(uint256 applicationId) public onlyStarted(applicationId) onlyFunded(applicationId) {
+        accrue(applicationId, agriFinance.getApplicant(applicationId));
+    }
+
+    // Repays up to the outstanding balance; any excess is ignored, so the
+    // balance cannot wrap below zero. With a token, only what the
+    // applicant's balance covers is repaid.
+    function repay(
+        uint256 applicationId,
+        externalEuint32 encryptedAmount,
+        bytes calldata inputProof
+    ) public onlyApplicant(applicationId) onlyStarted(applicationId) onlyFunded(applicationId) {
+        AgriFinanceFHE.LoanStatus status = agriFinance.loanStatus(applicationId);
+        require(
+            status == AgriFinanceFHE.LoanStatus.Disbursed || status == AgriFinanceFHE.LoanStatus.Repaying,
+            "Invalid status"
+        );
+
+        accrue(applicationId, msg.sender);
+        Balance storage balance = balances[applicationId];
+        euint64 paid = FHE.min(FHE.asEuint64(FHE.fromExternal(encryptedAmount, inputProof)), balance.outstanding);
+        paid = pay(paid, msg.sender, schedules[applicationId].lender);
+        storeBalance(applicationId, msg.sender, FHE.sub(balance.outstanding, paid), FHE.add(balance.repaid, paid));
+
+        emit LoanRepaid(applicationId, msg.sender);
+    }
+
+    // A loan is late when, after accruing interest, an instalment is overdue
+    // and the balance is above the principal still scheduled after the
+    // overdue instalments, i.e. when the borrower has not paid each overdue
+    // instalment's equal share of the principal plus all interest so far.
+    // Anyone may run the check; only the applicant and the lender can decrypt
+    // the result.
+    function checkLatePayment(uint256 applicationId) public onlyStarted(applicationId) onlyFunded(applicationId) {
+        Schedule storage schedule = schedules[applicationId];
+        address applicant = agriFinance.getApplicant(applicationId);
+
+        accrue(applicationId, applicant);
+        uint256 overdue = overdueInstalments(schedule);
+        uint256 instalments = schedule.dueDates.length;
+        Balance storage balance = balances[applicationId];
+        ebool late = FHE.asEbool(false);
+        if (overdue > 0) {
+            euint64 scheduled = FHE.div(
+                FHE.mul(balance.principal, uint64(instalments - overdue)),
+                uint64(instalments)
+            );
+            late = FHE.gt(balance.outstanding, scheduled);
+        }
+
+        FHE.allowThis(late);
+        FHE.allow(late, applicant);
+        FHE.allow(late, schedule.lender);
+        balance.late = late;
+        schedule.instalmentsOverdue = overdue;
+        schedule.checkedAt = block.timestamp;
+
+        emit LatePaymentChecked(applicationId, overdue);
+    }
+
+    // Grants the calling lender or underwriter access to the current
+    // balances; every repayment replaces them with new ciphertexts.
+    function allowRepaymentData(uint256 applicationId) public onlyReviewer onlyStarted(applicationId) {
+        Balance storage balance = balances[applicationId];
+        FHE.allow(balance.principal, msg.sender);
+        FHE.allow(balance.outstanding, msg.sender);
+        FHE.allow(balance.repaid, msg.sender);
+        if (FHE.isInitialized(balance.late)) {
+            FHE.allow(balance.late, msg.sender);
+        }
+    }
+
+    function getRepaymentSchedule(uint256 applicationId) public view returns (Schedule memory) {
+        return schedules[applicationId];
+    }
+
+    // Whether disbursal moved the loan amount in the token, so LoanEscrow
+    // must not pay the loan out again.
+    function paidWithToken(uint256 applicationId) public view returns (bool) {
+        return address(token) != address(0) && schedules[applicationId].disbursedAt != 0;
+    }
+
+    function getEncryptedRepaymentBalance(uint256 applicationId) public view returns (Balance memory) {
+        return balances[applicationId];
+    }
+
+    function writeCropCalendar(string memory cropType, CropCalendar memory calendar) private {
+        require(
+            calendar.growingDays > 0 && calendar.growingDays + calendar.saleDays <= MAX_CROP_CALENDAR_DAYS,
+            "Invalid crop calendar"
+        );
+        if (cropCalendars[cropType].growingDays == 0) {
+            calendarCropTypes.push(cropType);
+        }
+        cropCalendars[cropType] = calendar;
+        emit CropCalendarUpdated(cropType, calendar.growingDays, calendar.saleDays);
+    }
+
+    // The checks both modes share; due dates are already in ascending order.
+    function writeSchedule(
+        uint256 applicationId,
+        RepaymentMode mode,
+        uint64[] memory dueDates,
+        uint32 interestRateBps,
+        uint32 gracePeriodDays
+    ) private returns (Schedule storage schedule) {
+        require(agriFinance.loanStatus(applicationId) == AgriFinanceFHE.LoanStatus.Approved, "Invalid status");
+        require(dueDates[0] > block.timestamp, "Due date in the past");
+        require(interestRateBps <= 10000, "Invalid interest rate");
+        require(gracePeriodDays <= MAX_GRACE_PERIOD_DAYS, "Invalid grace period");
+
+        schedule = schedules[applicationId];
+        schedule.mode = mode;
+        schedule.dueDates = dueDates;
+        schedule.interestRateBps = interestRateBps;
+        schedule.gracePeriodDays = gracePeriodDays;
+        emit RepaymentScheduleSet(applicationId, msg.sender, dueDates.length);
+    }
+
+    // Simple interest since the last accrual on the principal not yet
+    // repaid. Repayments count against the principal first, so accruing more
+    // often does not compound. The factor is in parts per million so that
+    // short periods still accrue; it stays below 2^24 for periods of up to
+    // ten years at 100%, far from overflowing with a 32-bit principal.
+    function accrue(uint256 applicationId, address applicant) private {
+        Schedule storage schedule = schedules[applicationId];
+        uint256 elapsed = block.timestamp - schedule.lastAccruedAt;
+        if (elapsed == 0) return;
+
+        uint64 factor = uint64((uint256(schedule.interestRateBps) * 100 * elapsed) / 365 days);
+        emit InterestAccrued(applicationId, schedule.lastAccruedAt, block.timestamp);
+        schedule.lastAccruedAt = block.timestamp;
+        if (factor == 0) return;
+
+        Balance storage balance = balances[applicationId];
+        euint64 unpaidPrincipal = FHE.sub(balance.principal, FHE.min(balance.repaid, balance.principal));
+        euint64 interest = FHE.div(FHE.mul(unpaidPrincipal, factor), 1_000_000);
+        storeBalance(applicationId, applicant, FHE.add(balance.outstanding, interest), balance.repaid);
+    }
+
+    // Moves amount with the token, returning what was moved; without a
+    // token it is only recorded.
+    function pay(euint64 amount, address from, address to) private returns (euint64) {
+        if (address(token) == address(0)) return amount;
+        FHE.allowTransient(amount, address(token));
+        return token.confidentialTransferFrom(from, to, amount);
+    }
+
+    function storePrincipal(uint256 applicationId, address applicant, euint64 principal) private {
+        FHE.allowThis(principal);
+        FHE.allow(principal, applicant);
+        FHE.allow(principal, schedules[applicationId].lender);
+        balances[applicationId].principal = principal;
+    }
+
+    // Asks the oracle whether any of the loan amount reached the applicant;
+    // the transfer moves all of it or nothing.
+    function requestFundingCheck(uint256 applicationId, euint64 principal) private {
+        ebool funded = FHE.ne(principal, 0);
+        FHE.allowThis(funded);
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(funded);
+        uint256 requestId = FHE.requestDecryption(ciphertexts, this.confirmDisbursalFunding.selector);
+        fundingRequests[requestId] = applicationId;
+    }
+
+    function storeBalance(uint256 applicationId, address applicant, euint64 outstanding, euint64 repaid) private {
+        address lender = schedules[applicationId].lender;
+        FHE.allowThis(outstanding);
+        FHE.allow(outstanding, applicant);
+        FHE.allow(outstanding, lender);
+        FHE.allowThis(repaid);
+        FHE.allow(repaid, applicant);
+        FHE.allow(repaid, lender);
+
+        Balance storage balance = balances[applicationId];
+        balance.outstanding = outstanding;
+        balance.repaid = repaid;
+    }
+
+    function overdueInstalments(Schedule storage schedule) private view returns (uint256 count) {
+        for (uint256 i = 0; i < schedule.dueDates.length; i++) {
+            uint256 due = schedule.dueDates[i];
+            bool inGrace = schedule.mode == RepaymentMode.HarvestBalloon ||
+                (schedule.harvestMonth != 0 && monthOf(due) == schedule.harvestMonth);
+            if (inGrace) {
+                due += uint256(schedule.gracePeriodDays) * 1 days;
+            }
+            if (block.timestamp > due) {
+                count++;
+            }
+        }
+    }
+
+    // Calendar month (1-12, UTC) of a unix timestamp, after Howard Hinnant's
+    // civil_from_days algorithm.
+    function monthOf(uint256 timestamp) private pure returns (uint8) {
+        uint256 dayOfEra = (timestamp / 1 days + 719468) % 146097;
+        uint256 yearOfEra = (dayOfEra - dayOfEra / 1460 + dayOfEra / 36524 - dayOfEra / 146096) / 365;
+        uint256 dayOfYear = dayOfEra - (365 * yearOfEra + yearOfEra / 4 - yearOfEra / 100);
+        uint256 monthIndex = (5 * dayOfYear + 2) / 153;
+        return uint8(monthIndex < 10 ? monthIndex + 3 : monthIndex - 9);
+    }
+}
@@ -0,0 +1,18 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  // hardhat-deploy reuses the recorded deployment while the bytecode is unchanged.
+  const agriFinance = await deploy("AgriFinanceFHE", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`AgriFinanceFHE contract: `, agriFinance.address);
+};
+export default func;
+func.id = "deploy_agriFinanceFHE";
+func.tags = ["AgriFinanceFHE"];
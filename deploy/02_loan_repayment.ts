@@ -0,0 +1,30 @@
+import { ethers } from "ethers";
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get, read, execute } = hre.deployments;
+
+  const agriFinance = await get("AgriFinanceFHE");
+  // Loans are paid in the confidential token only where the deployment opts
+  // in; otherwise LoanRepayment just tracks them and LoanEscrow pays them out.
+  const tokenAddress =
+    process.env.CONFIDENTIAL_LOAN_PAYMENTS === "true" ? (await get("ConfidentialToken")).address : ethers.ZeroAddress;
+  const loanRepayment = await deploy("LoanRepayment", {
+    from: deployer,
+    args: [agriFinance.address, tokenAddress],
+    log: true,
+  });
+
+  // Disbursals only start repayment schedules once AgriFinanceFHE knows the tracker.
+  if ((await read("AgriFinanceFHE", "loanRepayment")) !== loanRepayment.address) {
+    await execute("AgriFinanceFHE", { from: deployer, log: true }, "setLoanRepayment", loanRepayment.address);
+  }
+
+  console.log(`LoanRepayment contract: `, loanRepayment.address);
+};
+export default func;
+func.id = "deploy_loanRepayment";
+func.tags = ["LoanRepayment"];
+func.dependencies = ["AgriFinanceFHE", "ConfidentialToken"];
@@ -0,0 +1,42 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Test stablecoin minted to the deployer on local networks, in whole tokens.
+const MOCK_SUPPLY = 1_000_000n;
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get, execute } = hre.deployments;
+
+  // Live networks use an existing stablecoin; local ones get a mock.
+  let tokenAddress = process.env.ESCROW_TOKEN_ADDRESS;
+  if (!tokenAddress) {
+    if (hre.network.live) {
+      throw new Error("Set ESCROW_TOKEN_ADDRESS to the stablecoin LoanEscrow should hold");
+    }
+    const token = await deploy("MockERC20", {
+      from: deployer,
+      args: ["Mock USD", "mUSD", 6],
+      log: true,
+    });
+    if (token.newlyDeployed) {
+      await execute("MockERC20", { from: deployer, log: true }, "mint", deployer, MOCK_SUPPLY * 10n ** 6n);
+    }
+    tokenAddress = token.address;
+  }
+
+  const agriFinance = await get("AgriFinanceFHE");
+  const loanEscrow = await deploy("LoanEscrow", {
+    from: deployer,
+    args: [agriFinance.address, tokenAddress],
+    log: true,
+  });
+
+  console.log(`LoanEscrow contract: `, loanEscrow.address);
+};
+export default func;
+func.id = "deploy_loanEscrow";
+func.tags = ["LoanEscrow"];
+func.dependencies = ["AgriFinanceFHE"];
+// Loans paid in the confidential token have no use for the escrow.
+func.skip = async () => process.env.CONFIDENTIAL_LOAN_PAYMENTS === "true";
@@ -0,0 +1,29 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Minted to the deployer on a local node so lenders can be funded from it.
+const LOCAL_SUPPLY = 1_000_000n;
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, execute } = hre.deployments;
+
+  const token = await deploy("ConfidentialToken", {
+    from: deployer,
+    args: ["Confidential USD", "cUSD"],
+    log: true,
+  });
+  // Minting computes on ciphertexts, which the plugin's mock coprocessor only
+  // serves on a node; the in-process network disappears with the command anyway.
+  if (token.newlyDeployed && hre.network.name === "localhost") {
+    await hre.fhevm.initializeCLIApi();
+    await execute("ConfidentialToken", { from: deployer, log: true }, "mint", deployer, LOCAL_SUPPLY);
+  }
+
+  console.log(`ConfidentialToken contract: `, token.address);
+};
+export default func;
+func.id = "deploy_confidentialToken";
+func.tags = ["ConfidentialToken"];
+// Only deployments that pay loans in the token need it; see 02_loan_repayment.
+func.skip = async () => process.env.CONFIDENTIAL_LOAN_PAYMENTS !== "true";
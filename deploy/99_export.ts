@@ -0,0 +1,132 @@
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { DeploymentRegistry, FhevmGatewaySettings } from "../frontend/web/src/registry";
+
+const ROOT = path.join(__dirname, "..");
+const MANIFEST_PATH = path.join(ROOT, "deployments", "manifest.json");
+const FRONTEND_SRC = path.join(ROOT, "frontend", "web", "src");
+const REGISTRY_PATH = path.join(FRONTEND_SRC, "registry.json");
+
+const HARDHAT_CHAIN_ID = 31337;
+const SEPOLIA_CHAIN_ID = 11155111;
+
+// Gateway contracts the fhevm Hardhat plugin uses for its mock relayer.
+const MOCK_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+interface RelayerMetadata {
+  gatewayChainId: number;
+  ACLAddress: string;
+  KMSVerifierAddress: string;
+  InputVerifierAddress: string;
+}
+
+// Contracts the dApp talks to; their artifacts are copied to frontend/web/src/abi.
+// IERC20 covers whichever stablecoin LoanEscrow holds.
+const FRONTEND_CONTRACTS = ["AgriFinanceFHE", "LoanRepayment", "LoanEscrow", "IERC20", "ConfidentialToken"];
+
+function readJson<T>(file: string, fallback: T): T {
+  return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, "utf8")) as T) : fallback;
+}
+
+function writeJson(file: string, value: unknown) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(value, null, 2) + "\n");
+}
+
+async function getFhevmGatewaySettings(hre: HardhatRuntimeEnvironment, chainId: number): Promise<FhevmGatewaySettings> {
+  if (chainId === HARDHAT_CHAIN_ID) {
+    const metadata: RelayerMetadata = await hre.network.provider.send("fhevm_relayer_metadata", []);
+    return {
+      gatewayChainId: metadata.gatewayChainId,
+      aclContractAddress: metadata.ACLAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
+      inputVerifierContractAddress: metadata.InputVerifierAddress,
+      verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+      verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS,
+    };
+  }
+  if (chainId === SEPOLIA_CHAIN_ID) {
+    const { SepoliaConfig } = await import("@zama-fhe/relayer-sdk/node");
+    return {
+      relayerUrl: SepoliaConfig.relayerUrl,
+      gatewayChainId: SepoliaConfig.gatewayChainId!,
+      aclContractAddress: SepoliaConfig.aclContractAddress,
+      kmsContractAddress: SepoliaConfig.kmsContractAddress,
+      inputVerifierContractAddress: SepoliaConfig.inputVerifierContractAddress,
+      verifyingContractAddressDecryption: SepoliaConfig.verifyingContractAddressDecryption,
+      verifyingContractAddressInputVerification: SepoliaConfig.verifyingContractAddressInputVerification,
+    };
+  }
+  throw new Error(`No fhevm gateway settings known for chain ${chainId}`);
+}
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  // The in-process network disappears with the command, so there is nothing worth exporting.
+  if (hre.network.name === "hardhat") {
+    console.log("Skipping export for the in-process hardhat network");
+    return;
+  }
+
+  const { deployer } = await hre.getNamedAccounts();
+  const chainId = Number(await hre.getChainId());
+  const deployments = await hre.deployments.all();
+
+  const manifest = readJson<Record<string, unknown>>(MANIFEST_PATH, {});
+  manifest[hre.network.name] = {
+    chainId,
+    deployer,
+    updatedAt: new Date().toISOString(),
+    contracts: Object.fromEntries(
+      Object.entries(deployments).map(([name, deployment]) => [
+        name,
+        {
+          address: deployment.address,
+          transactionHash: deployment.transactionHash,
+          blockNumber: deployment.receipt?.blockNumber,
+        },
+      ]),
+    ),
+  };
+  writeJson(MANIFEST_PATH, manifest);
+  console.log(`Wrote deployment manifest: ${path.relative(ROOT, MANIFEST_PATH)}`);
+
+  for (const name of FRONTEND_CONTRACTS) {
+    const artifact = await hre.deployments.getArtifact(name);
+    writeJson(path.join(FRONTEND_SRC, "abi", `${name}.json`), artifact);
+  }
+  console.log(`Exported ABIs for ${FRONTEND_CONTRACTS.join(", ")} to frontend/web/src/abi`);
+
+  // Entries for contracts deployed elsewhere, like the legacy UniversalAdapter, are kept.
+  const registry = readJson<DeploymentRegistry>(REGISTRY_PATH, { defaultChainId: chainId, networks: {} });
+  const previous = registry.networks[chainId];
+  registry.networks[chainId] = {
+    name: hre.network.name,
+    rpcUrl: "url" in hre.network.config ? hre.network.config.url : "http://localhost:8545",
+    fallbackRpcUrls: previous?.fallbackRpcUrls,
+    deployer,
+    fhevm: await getFhevmGatewaySettings(hre, chainId),
+    contracts: {
+      ...previous?.contracts,
+      ...Object.fromEntries(
+        Object.entries(deployments).map(([name, deployment]) => [
+          name,
+          {
+            address: deployment.address,
+            deploymentBlock: deployment.receipt?.blockNumber ?? 0,
+            abiHash: ethers.id(JSON.stringify(deployment.abi)),
+          },
+        ]),
+      ),
+    },
+  };
+  writeJson(REGISTRY_PATH, registry);
+  console.log(`Registered chain ${chainId} in ${path.relative(ROOT, REGISTRY_PATH)}`);
+};
+export default func;
+func.tags = ["export"];
+func.dependencies = ["AgriFinanceFHE", "LoanRepayment", "LoanEscrow", "ConfidentialToken"];
+func.runAtTheEnd = true;
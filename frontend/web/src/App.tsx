@@ -1,22 +1,182 @@
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import type { AgriFinanceFHE } from "../../../types";
+import { fetchIndexedApplications, INDEX_API_URL } from "./api";
+import { getActiveChainId, getContractReadOnly, getContractWithSigner, getLegacyContractReadOnly } from "./contract";
+import { encryptLoanApplication, MAX_PLANTING_SEASONS, userDecryptHandles } from "./encryption";
+import type { PlantingSeasonRow } from "./farmRecordImport";
+import { ensureLoanPaymentOperator, requireRepaymentSchedule } from "./loanPayments";
+import CollateralPanel from "./components/CollateralPanel";
+import type { PrivateCollateral } from "./components/CollateralPanel";
+import ConfidentialWalletCard from "./components/ConfidentialWalletCard";
+import CooperativeBatchUpload from "./components/CooperativeBatchUpload";
+import CropCalendarEditor from "./components/CropCalendarEditor";
+import EscrowFundingCard from "./components/EscrowFundingCard";
+import EscrowLoanPanel from "./components/EscrowLoanPanel";
+import FarmRecordImporter from "./components/FarmRecordImporter";
+import RepaymentTimeline from "./components/RepaymentTimeline";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
 import "./App.css";
 
+// Index order matches AgriFinanceFHE.LoanStatus.
+const LOAN_STATUSES = [
+  "submitted",
+  "under-review",
+  "approved",
+  "rejected",
+  "disbursed",
+  "repaying",
+  "closed",
+  "defaulted"
+] as const;
+
+type LoanStatus = typeof LOAN_STATUSES[number];
+
+type LoanTransition =
+  | "startReview"
+  | "approveApplication"
+  | "rejectApplication"
+  | "disburseLoan"
+  | "startRepayment"
+  | "closeLoan"
+  | "markDefaulted";
+
+// Lifecycle transitions a lender can take from each status.
+const LENDER_ACTIONS: Partial<Record<LoanStatus, { label: string; method: LoanTransition }[]>> = {
+  "submitted": [{ label: "Review", method: "startReview" }],
+  "under-review": [
+    { label: "Approve", method: "approveApplication" },
+    { label: "Reject", method: "rejectApplication" }
+  ],
+  "approved": [{ label: "Disburse", method: "disburseLoan" }],
+  "disbursed": [
+    { label: "Start Repayment", method: "startRepayment" },
+    { label: "Default", method: "markDefaulted" }
+  ],
+  "repaying": [
+    { label: "Close", method: "closeLoan" },
+    { label: "Default", method: "markDefaulted" }
+  ]
+};
+
+// Index order matches AgriFinanceFHE.Role.
+const ROLE = { lender: 0, underwriter: 1, auditor: 2, cooperative: 3 } as const;
+
+interface AccountRoles {
+  admin: boolean;
+  lender: boolean;
+  underwriter: boolean;
+  auditor: boolean;
+  cooperative: boolean;
+}
+
+const noRoles: AccountRoles = { admin: false, lender: false, underwriter: false, auditor: false, cooperative: false };
+
+type DashboardView = "farmer" | "institution" | "auditor" | "cooperative";
+
+const DASHBOARD_VIEWS: Record<DashboardView, { label: string; title: string; description: string }> = {
+  farmer: {
+    label: "Farmer Portal",
+    title: "FHE-Powered Agricultural Finance",
+    description: "Securely access loans using encrypted farming data with Fully Homomorphic Encryption"
+  },
+  institution: {
+    label: "Institution Dashboard",
+    title: "Institution Dashboard",
+    description: "Review encrypted applications and move approved loans through their lifecycle"
+  },
+  auditor: {
+    label: "Auditor View",
+    title: "Auditor View",
+    description: "Aggregate lending statistics without access to individual farm data"
+  },
+  cooperative: {
+    label: "Cooperative Desk",
+    title: "Cooperative Desk",
+    description: "Submit encrypted applications for your members in batches and track each one"
+  }
+};
+
+const CROP_TYPES = ["Wheat", "Rice", "Corn", "Soybean", "Cotton", "Vegetables", "Fruits"];
+
+// Where loadApplications reads the book: the index API when one is configured, else the contract.
+type DataSource = "index" | "chain";
+
+// Numeric fields stay null until the application has been decrypted.
 interface LoanApplication {
   id: string;
   farmerId: string;
   cropType: string;
-  encryptedPlantingData: string;
+  encryptedFarmData: string;
+  farmArea: number | null;
+  yieldPrediction: number | null;
+  loanAmountRequested: number | null;
+  creditScore: number | null;
+  status: LoanStatus;
+  timestamp: number;
+  isRevealed: boolean;
+  legacy: boolean;
+}
+
+// Last published count per crop category; revealedAt is 0 until an auditor reveals it.
+interface CategoryStat {
+  category: string;
+  count: number;
+  revealedAt: number;
+}
+
+// One past season; dates are unix seconds once decrypted.
+interface PlantingSeasonValues {
+  season: string;
+  cropType: string;
+  area: number;
+  plantedAt: number;
+  harvestedAt: number;
+  realisedYield: number;
+}
+
+// Values re-encrypted for the connected account; they only ever live in this browser.
+// yieldVariance is null below two seasons of history.
+interface PrivateApplicationValues {
+  farmArea: number;
   yieldPrediction: number;
-  loanAmountRequested: number;
+  loanAmount: number;
+  recommendedLoan: number;
   creditScore: number;
-  status: "pending" | "approved" | "rejected";
-  timestamp: number;
+  plantingHistory: PlantingSeasonValues[];
+  meanYield: number | null;
+  yieldVariance: number | null;
+  collateral: PrivateCollateral;
 }
 
+// Collateral can be pledged until disbursal and released outside review and repayment.
+const PLEDGE_STATUSES: LoanStatus[] = ["submitted", "under-review", "approved"];
+const RELEASE_STATUSES: LoanStatus[] = ["submitted", "rejected", "closed"];
+// Repayments are only accepted while the loan is out.
+const REPAY_STATUSES: LoanStatus[] = ["disbursed", "repaying"];
+
+const emptySeason: PlantingSeasonRow = {
+  season: "",
+  cropType: "",
+  area: 0,
+  plantedAt: "",
+  harvestedAt: "",
+  realisedYield: 0
+};
+
+const emptyApplicationData = {
+  cropType: "",
+  farmArea: 0,
+  yieldPrediction: 0,
+  loanAmount: 0,
+  plantingHistory: [] as PlantingSeasonRow[]
+};
+
+const toUnixSeconds = (date: string) => Math.floor(Date.parse(date) / 1000);
+
+const formatDate = (seconds: number) => new Date(seconds * 1000).toLocaleDateString();
+
 const App: React.FC = () => {
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
@@ -31,28 +191,110 @@ const App: React.FC = () => {
     status: "pending" | "success" | "error";
     message: string;
   }>({ visible: false, status: "pending", message: "" });
-  const [newApplicationData, setNewApplicationData] = useState({
-    cropType: "",
-    plantingData: "",
-    yieldPrediction: 0,
-    loanAmount: 0
-  });
+  const [newApplicationData, setNewApplicationData] = useState(emptyApplicationData);
   const [showFAQ, setShowFAQ] = useState(false);
   const [selectedApplication, setSelectedApplication] = useState<LoanApplication | null>(null);
   const [showCharts, setShowCharts] = useState(true);
+  const [categoryStats, setCategoryStats] = useState<CategoryStat[]>([]);
+  const [privateValues, setPrivateValues] = useState<Record<string, PrivateApplicationValues>>({});
+  const [roles, setRoles] = useState<AccountRoles>(noRoles);
+  const [chainId, setChainId] = useState<string | null>(null);
+  const [activeView, setActiveView] = useState<DashboardView>("farmer");
+  const [dataSource, setDataSource] = useState<DataSource>(INDEX_API_URL ? "index" : "chain");
+  const [showBatchUpload, setShowBatchUpload] = useState(false);
+  const [memberCooperative, setMemberCooperative] = useState(ethers.ZeroAddress);
+  const [cooperativeInput, setCooperativeInput] = useState("");
+  const [submittedIds, setSubmittedIds] = useState<Set<string>>(new Set());
+
+  const isReviewer = roles.lender || roles.underwriter;
+  const availableViews: DashboardView[] = [
+    "farmer",
+    ...(isReviewer ? ["institution" as const] : []),
+    ...(roles.auditor ? ["auditor" as const] : []),
+    ...(roles.cooperative ? ["cooperative" as const] : [])
+  ];
+
+  const isOwner = (address: string) => {
+    return account.toLowerCase() === address.toLowerCase();
+  };
+
+  // Farmers only see their own applications and cooperatives the ones they submitted;
+  // institutions and auditors see the whole book.
+  const visibleApplications = activeView === "farmer"
+    ? applications.filter(a => isOwner(a.farmerId))
+    : activeView === "cooperative"
+      ? applications.filter(a => submittedIds.has(a.id))
+      : applications;
 
   // Calculate statistics for dashboard
-  const approvedCount = applications.filter(a => a.status === "approved").length;
-  const pendingCount = applications.filter(a => a.status === "pending").length;
-  const rejectedCount = applications.filter(a => a.status === "rejected").length;
-  const totalLoanRequested = applications.reduce((sum, app) => sum + app.loanAmountRequested, 0);
-  const avgCreditScore = applications.length > 0 
-    ? applications.reduce((sum, app) => sum + app.creditScore, 0) / applications.length
+  const approvedCount = visibleApplications.filter(a => ["approved", "disbursed", "repaying", "closed"].includes(a.status)).length;
+  const pendingCount = visibleApplications.filter(a => a.status === "submitted" || a.status === "under-review").length;
+  const rejectedCount = visibleApplications.filter(a => a.status === "rejected" || a.status === "defaulted").length;
+  const totalLoanRequested = visibleApplications.reduce((sum, app) => sum + (app.loanAmountRequested ?? 0), 0);
+  const scoredApplications = visibleApplications.filter(a => a.creditScore !== null);
+  const avgCreditScore = scoredApplications.length > 0 
+    ? scoredApplications.reduce((sum, app) => sum + (app.creditScore ?? 0), 0) / scoredApplications.length
     : 0;
 
+  // Reloads whenever the wallet switches chain, since each chain has its own deployment,
+  // and when the data source is switched.
   useEffect(() => {
     loadApplications().finally(() => setLoading(false));
-  }, []);
+  }, [chainId, dataSource]);
+
+  useEffect(() => {
+    if (!account) {
+      setRoles(noRoles);
+      return;
+    }
+    loadRoles(account)
+      .then(setRoles)
+      .catch(() => setRoles(noRoles));
+  }, [account, chainId]);
+
+  useEffect(() => {
+    setActiveView(
+      roles.lender || roles.underwriter
+        ? "institution"
+        : roles.auditor ? "auditor" : roles.cooperative ? "cooperative" : "farmer"
+    );
+  }, [roles]);
+
+  // Membership and the cooperative's submissions change with every batch or join.
+  useEffect(() => {
+    if (!account) {
+      setMemberCooperative(ethers.ZeroAddress);
+      setSubmittedIds(new Set());
+      return;
+    }
+    loadCooperativeData(account).catch(e => console.error("Error loading cooperative data:", e));
+  }, [account, chainId, applications]);
+
+  const loadRoles = async (address: string): Promise<AccountRoles> => {
+    const contract = await getContractReadOnly();
+    if (!contract) return noRoles;
+    
+    const [admin, lender, underwriter, auditor, cooperative] = await Promise.all([
+      contract.admin(),
+      contract.hasRole(ROLE.lender, address),
+      contract.hasRole(ROLE.underwriter, address),
+      contract.hasRole(ROLE.auditor, address),
+      contract.hasRole(ROLE.cooperative, address)
+    ]);
+    return { admin: admin.toLowerCase() === address.toLowerCase(), lender, underwriter, auditor, cooperative };
+  };
+
+  const loadCooperativeData = async (address: string) => {
+    const contract = await getContractReadOnly();
+    if (!contract) return;
+
+    const [cooperative, ids] = await Promise.all([
+      contract.memberCooperative(address),
+      contract.getApplicationIdsBySubmitter(address)
+    ]);
+    setMemberCooperative(cooperative);
+    setSubmittedIds(new Set(ids.map(id => id.toString())));
+  };
 
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
@@ -67,6 +309,11 @@ const App: React.FC = () => {
         const newAcc = accounts[0] || "";
         setAccount(newAcc);
       });
+      wallet.provider.on("chainChanged", (newChainId: string) => {
+        setPrivateValues({});
+        setSelectedApplication(null);
+        setChainId(newChainId);
+      });
     } catch (e) {
       alert("Failed to connect wallet");
     }
@@ -81,14 +328,12 @@ const App: React.FC = () => {
   const checkContractAvailability = async () => {
     try {
       const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      const isAvailable = await contract.isAvailable();
-      if (isAvailable) {
+      if (contract) {
+        const count = await contract.applicationCount();
         setTransactionStatus({
           visible: true,
           status: "success",
-          message: "FHE contract is available and ready!"
+          message: `FHE contract is available and ready! (${count} applications)`
         });
       } else {
         setTransactionStatus({
@@ -113,51 +358,142 @@ const App: React.FC = () => {
     }
   };
 
+  const loadLegacyApplications = async (): Promise<LoanApplication[]> => {
+    const contract = await getLegacyContractReadOnly();
+    if (!contract) return [];
+    
+    const keysBytes = await contract.getData("application_keys");
+    let keys: string[] = [];
+    
+    if (keysBytes.length > 0) {
+      try {
+        keys = JSON.parse(ethers.toUtf8String(keysBytes));
+      } catch (e) {
+        console.error("Error parsing legacy application keys:", e);
+      }
+    }
+    
+    const list: LoanApplication[] = [];
+    
+    for (const key of keys) {
+      try {
+        const appBytes = await contract.getData(`application_${key}`);
+        if (appBytes.length > 0) {
+          try {
+            const appData = JSON.parse(ethers.toUtf8String(appBytes));
+            list.push({
+              id: `legacy-${key}`,
+              farmerId: appData.farmerId,
+              cropType: appData.cropType,
+              encryptedFarmData: appData.encryptedPlantingData,
+              farmArea: null,
+              yieldPrediction: appData.yieldPrediction,
+              loanAmountRequested: appData.loanAmountRequested,
+              creditScore: appData.creditScore,
+              status: appData.status === "approved" || appData.status === "rejected" ? appData.status : "submitted",
+              timestamp: appData.timestamp,
+              isRevealed: true,
+              legacy: true
+            });
+          } catch (e) {
+            console.error(`Error parsing legacy application data for ${key}:`, e);
+          }
+        }
+      } catch (e) {
+        console.error(`Error loading legacy application ${key}:`, e);
+      }
+    }
+    
+    return list;
+  };
+
+  const loadChainApplications = async (contract: AgriFinanceFHE): Promise<LoanApplication[]> => {
+    const list: LoanApplication[] = [];
+    const count = Number(await contract.applicationCount());
+    
+    for (let id = 1; id <= count; id++) {
+      try {
+        const [encrypted, decrypted, status] = await Promise.all([
+          contract.encryptedApplications(id),
+          contract.getDecryptedApplication(id),
+          contract.loanStatus(id)
+        ]);
+        list.push({
+          id: id.toString(),
+          farmerId: encrypted.applicant,
+          cropType: encrypted.cropType,
+          encryptedFarmData: encrypted.encryptedFarmData,
+          farmArea: decrypted.isRevealed ? Number(decrypted.farmData) : null,
+          yieldPrediction: decrypted.isRevealed ? Number(decrypted.yieldPrediction) : null,
+          loanAmountRequested: decrypted.isRevealed ? Number(decrypted.loanAmount) : null,
+          creditScore: null,
+          status: LOAN_STATUSES[Number(status)],
+          timestamp: Number(encrypted.timestamp),
+          isRevealed: decrypted.isRevealed,
+          legacy: false
+        });
+      } catch (e) {
+        console.error(`Error loading application ${id}:`, e);
+      }
+    }
+    return list;
+  };
+
+  // The index carries no ciphertext handles; those are read from the contract when decrypting.
+  const loadIndexedApplications = async (): Promise<LoanApplication[]> => {
+    const indexed = await fetchIndexedApplications(await getActiveChainId());
+    return indexed.map(app => ({
+      id: app.id.toString(),
+      farmerId: app.applicant,
+      cropType: app.cropType,
+      encryptedFarmData: "",
+      farmArea: app.farmData,
+      yieldPrediction: app.yieldPrediction,
+      loanAmountRequested: app.loanAmount,
+      creditScore: null,
+      status: app.status,
+      timestamp: app.submittedAt,
+      isRevealed: app.decrypted,
+      legacy: false
+    }));
+  };
+
   const loadApplications = async () => {
     setIsRefreshing(true);
     try {
+      const list: LoanApplication[] = [];
       const contract = await getContractReadOnly();
-      if (!contract) return;
       
-      const keysBytes = await contract.getData("application_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
+      if (dataSource === "index") {
         try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
+          list.push(...(await loadIndexedApplications()));
         } catch (e) {
-          console.error("Error parsing application keys:", e);
+          console.warn("Index API unavailable, reading applications from the chain:", e);
+          if (contract) list.push(...(await loadChainApplications(contract)));
         }
+      } else if (contract) {
+        list.push(...(await loadChainApplications(contract)));
       }
       
-      const list: LoanApplication[] = [];
-      
-      for (const key of keys) {
+      if (contract) {
         try {
-          const appBytes = await contract.getData(`application_${key}`);
-          if (appBytes.length > 0) {
-            try {
-              const appData = JSON.parse(ethers.toUtf8String(appBytes));
-              list.push({
-                id: key,
-                farmerId: appData.farmerId,
-                cropType: appData.cropType,
-                encryptedPlantingData: appData.encryptedPlantingData,
-                yieldPrediction: appData.yieldPrediction,
-                loanAmountRequested: appData.loanAmountRequested,
-                creditScore: appData.creditScore,
-                status: appData.status || "pending",
-                timestamp: appData.timestamp
-              });
-            } catch (e) {
-              console.error(`Error parsing application data for ${key}:`, e);
-            }
-          }
+          const [categories, counts, revealedAt] = await contract.getRevealedCategoryCounts();
+          setCategoryStats(categories.map((category, i) => ({
+            category,
+            count: Number(counts[i]),
+            revealedAt: Number(revealedAt[i])
+          })));
         } catch (e) {
-          console.error(`Error loading application ${key}:`, e);
+          console.error("Error loading category statistics:", e);
         }
       }
       
+      try {
+        list.push(...(await loadLegacyApplications()));
+      } catch (e) {
+        console.error("Error loading legacy applications:", e);
+      }
+      
       list.sort((a, b) => b.timestamp - a.timestamp);
       setApplications(list);
     } catch (e) {
@@ -178,57 +514,46 @@ const App: React.FC = () => {
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Encrypting planting data with FHE..."
+      message: "Encrypting application data with FHE..."
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedData = `FHE-${btoa(newApplicationData.plantingData)}`;
-      
       const contract = await getContractWithSigner();
       if (!contract) {
         throw new Error("Failed to get contract with signer");
       }
       
-      const appId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      // Generate a random credit score using FHE simulation
-      const creditScore = Math.floor(Math.random() * 300) + 500;
-      
-      const appData = {
-        farmerId: account,
-        cropType: newApplicationData.cropType,
-        encryptedPlantingData: encryptedData,
-        yieldPrediction: newApplicationData.yieldPrediction,
-        loanAmountRequested: newApplicationData.loanAmount,
-        creditScore: creditScore,
-        status: "pending",
-        timestamp: Math.floor(Date.now() / 1000)
-      };
-      
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `application_${appId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(appData))
+      const encryptedInput = await encryptLoanApplication(
+        await contract.getAddress(),
+        ethers.getAddress(account),
+        {
+          farmData: newApplicationData.farmArea,
+          yieldPrediction: newApplicationData.yieldPrediction,
+          loanAmount: newApplicationData.loanAmount,
+          plantingHistory: newApplicationData.plantingHistory.map(row => ({
+            ...row,
+            plantedAt: toUnixSeconds(row.plantedAt),
+            harvestedAt: toUnixSeconds(row.harvestedAt)
+          }))
+        },
+        (message) => setTransactionStatus({ visible: true, status: "pending", message })
       );
       
-      const keysBytes = await contract.getData("application_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
-      }
-      
-      keys.push(appId);
+      setTransactionStatus({
+        visible: true,
+        status: "pending",
+        message: "Submitting encrypted application..."
+      });
       
-      await contract.setData(
-        "application_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
+      const tx = await contract.submitEncryptedLoanApplication(
+        newApplicationData.cropType,
+        encryptedInput.encryptedFarmData,
+        encryptedInput.encryptedYieldPrediction,
+        encryptedInput.encryptedLoanAmount,
+        encryptedInput.plantingHistory,
+        encryptedInput.inputProof
       );
+      await tx.wait();
       
       setTransactionStatus({
         visible: true,
@@ -241,12 +566,7 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewApplicationData({
-          cropType: "",
-          plantingData: "",
-          yieldPrediction: 0,
-          loanAmount: 0
-        });
+        setNewApplicationData(emptyApplicationData);
       }, 2000);
     } catch (e: any) {
       const errorMessage = e.message.includes("user rejected transaction")
@@ -267,7 +587,7 @@ const App: React.FC = () => {
     }
   };
 
-  const approveApplication = async (appId: string) => {
+  const requestDecryption = async (appId: string) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
@@ -276,39 +596,63 @@ const App: React.FC = () => {
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Processing application with FHE..."
+      message: "Requesting decryption from the FHE oracle..."
     });
 
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
       const contract = await getContractWithSigner();
       if (!contract) {
         throw new Error("Failed to get contract with signer");
       }
       
-      const appBytes = await contract.getData(`application_${appId}`);
-      if (appBytes.length === 0) {
-        throw new Error("Application not found");
-      }
+      const tx = await contract.requestApplicationDecryption(appId);
+      await tx.wait();
       
-      const appData = JSON.parse(ethers.toUtf8String(appBytes));
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "Decryption requested! Values appear once the oracle responds."
+      });
       
-      const updatedApp = {
-        ...appData,
-        status: "approved"
-      };
+      await loadApplications();
       
-      await contract.setData(
-        `application_${appId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedApp))
-      );
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Decryption request failed: " + (e.message || "Unknown error")
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const requestCategoryCountDecryption = async (category: string) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: `Requesting the ${category} count from the FHE oracle...`
+    });
+
+    try {
+      const contract = await getContractWithSigner();
+      const tx = await contract.requestLoanCategoryCountDecryption(category);
+      await tx.wait();
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "Loan approved using FHE evaluation!"
+        message: "Decryption requested! The count is published once the oracle responds."
       });
       
       await loadApplications();
@@ -320,7 +664,7 @@ const App: React.FC = () => {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Approval failed: " + (e.message || "Unknown error")
+        message: "Decryption request failed: " + (e.message || "Unknown error")
       });
       
       setTimeout(() => {
@@ -329,7 +673,7 @@ const App: React.FC = () => {
     }
   };
 
-  const rejectApplication = async (appId: string) => {
+  const updateLoanStatus = async (appId: string, action: { label: string; method: LoanTransition }) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
@@ -338,42 +682,74 @@ const App: React.FC = () => {
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Processing application with FHE..."
+      message: `${action.label}: updating loan status...`
     });
 
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
+      if (action.method === "disburseLoan") {
+        await requireRepaymentSchedule(appId);
+        await ensureLoanPaymentOperator(account, message => setTransactionStatus({ visible: true, status: "pending", message }));
       }
+      const contract = await getContractWithSigner();
+      const tx = await contract[action.method](appId);
+      await tx.wait();
       
-      const appBytes = await contract.getData(`application_${appId}`);
-      if (appBytes.length === 0) {
-        throw new Error("Application not found");
-      }
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "Loan status updated!"
+      });
       
-      const appData = JSON.parse(ethers.toUtf8String(appBytes));
+      await loadApplications();
       
-      const updatedApp = {
-        ...appData,
-        status: "rejected"
-      };
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Status update failed: " + (e.message || "Unknown error")
+      });
       
-      await contract.setData(
-        `application_${appId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedApp))
-      );
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  // Joins the cooperative in cooperativeInput, or leaves the current one.
+  const updateCooperativeMembership = async (join: boolean) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+    if (join && !ethers.isAddress(cooperativeInput)) {
+      alert("Enter the cooperative's address");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: join ? "Joining cooperative..." : "Leaving cooperative..."
+    });
+
+    try {
+      const contract = await getContractWithSigner();
+      const tx = join
+        ? await contract.joinCooperative(ethers.getAddress(cooperativeInput))
+        : await contract.leaveCooperative();
+      await tx.wait();
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "Loan rejected using FHE evaluation!"
+        message: join ? "Cooperative joined!" : "Cooperative left"
       });
       
-      await loadApplications();
+      setCooperativeInput("");
+      await loadCooperativeData(account);
       
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
@@ -382,7 +758,7 @@ const App: React.FC = () => {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Rejection failed: " + (e.message || "Unknown error")
+        message: "Membership update failed: " + (e.message || "Unknown error")
       });
       
       setTimeout(() => {
@@ -391,8 +767,126 @@ const App: React.FC = () => {
     }
   };
 
-  const isOwner = (address: string) => {
-    return account.toLowerCase() === address.toLowerCase();
+  // Drops decrypted values that no longer match the chain, e.g. after collateral changes.
+  const forgetPrivateValues = (appId: string) => {
+    setPrivateValues(prev => {
+      const { [appId]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const decryptApplicationPrivately = async (appId: string) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    try {
+      const contract = await getContractWithSigner();
+      
+      // Reviewers are not on the ACL until they request access for this application.
+      if (activeView === "institution") {
+        setTransactionStatus({
+          visible: true,
+          status: "pending",
+          message: "Requesting reviewer access to the encrypted application..."
+        });
+        for (const grant of ["allowApplicationData", "allowCreditScore", "allowRecommendedLoan"] as const) {
+          const tx = await contract[grant](appId);
+          await tx.wait();
+        }
+      }
+      
+      setTransactionStatus({
+        visible: true,
+        status: "pending",
+        message: "Sign the decryption request in your wallet..."
+      });
+      
+      const [
+        encrypted,
+        recommendedLoan,
+        creditScore,
+        history,
+        [meanYield, yieldVariance],
+        collateralIds,
+        [pledgedValue, covered]
+      ] = await Promise.all([
+        contract.encryptedApplications(appId),
+        contract.getEncryptedRecommendedLoan(appId),
+        contract.getEncryptedCreditScore(appId),
+        contract.getPlantingHistory(appId),
+        contract.getEncryptedYieldStatistics(appId),
+        contract.getApplicationCollateralIds(appId),
+        contract.getEncryptedCollateralCoverage(appId)
+      ]);
+      const collaterals = await Promise.all(collateralIds.map(id => contract.collaterals(id)));
+      // Statistics and the collateral check are unset (zero handles) until there is data to derive them from.
+      const handles = [
+        encrypted.encryptedFarmData,
+        encrypted.encryptedYieldPrediction,
+        encrypted.encryptedLoanAmount,
+        recommendedLoan,
+        creditScore,
+        ...history.flatMap(season => [
+          season.encryptedArea,
+          season.encryptedPlantedAt,
+          season.encryptedHarvestedAt,
+          season.encryptedRealisedYield
+        ]),
+        ...collaterals.flatMap(collateral => [
+          collateral.encryptedType,
+          collateral.encryptedAppraisedValue,
+          collateral.encryptedOwner
+        ]),
+        ...[meanYield, yieldVariance, pledgedValue, covered].filter(handle => handle !== ethers.ZeroHash)
+      ];
+      const signer = await provider.getSigner();
+      const values = await userDecryptHandles(signer, await contract.getAddress(), handles);
+      const valueOf = (handle: string) => handle === ethers.ZeroHash ? null : Number(values[handle]);
+      
+      setPrivateValues(prev => ({
+        ...prev,
+        [appId]: {
+          farmArea: Number(values[handles[0]]),
+          yieldPrediction: Number(values[handles[1]]),
+          loanAmount: Number(values[handles[2]]),
+          recommendedLoan: Number(values[handles[3]]),
+          creditScore: Number(values[handles[4]]),
+          plantingHistory: history.map(season => ({
+            season: season.season,
+            cropType: season.cropType,
+            area: Number(values[season.encryptedArea]),
+            plantedAt: Number(values[season.encryptedPlantedAt]),
+            harvestedAt: Number(values[season.encryptedHarvestedAt]),
+            realisedYield: Number(values[season.encryptedRealisedYield])
+          })),
+          meanYield: valueOf(meanYield),
+          yieldVariance: valueOf(yieldVariance),
+          collateral: {
+            items: collaterals.map((collateral, i) => ({
+              id: collateralIds[i].toString(),
+              collateralType: Number(values[collateral.encryptedType]),
+              appraisedValue: Number(values[collateral.encryptedAppraisedValue]),
+              owner: ethers.getAddress(ethers.toBeHex(values[collateral.encryptedOwner], 20))
+            })),
+            pledgedValue: valueOf(pledgedValue),
+            covered: covered === ethers.ZeroHash ? null : values[covered] !== 0n
+          }
+        }
+      }));
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Decryption failed: " + (e.message || "Unknown error")
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
   };
 
   const faqItems = [
@@ -418,39 +912,34 @@ const App: React.FC = () => {
     }
   ];
 
-  const renderCreditScoreChart = () => {
-    const scoreRanges = [
-      { min: 500, max: 600, label: "500-600", count: 0 },
-      { min: 601, max: 700, label: "601-700", count: 0 },
-      { min: 701, max: 800, label: "701-800", count: 0 },
-      { min: 801, max: 900, label: "801-900", count: 0 }
-    ];
-    
-    applications.forEach(app => {
-      for (const range of scoreRanges) {
-        if (app.creditScore >= range.min && app.creditScore <= range.max) {
-          range.count++;
-          break;
-        }
-      }
-    });
-    
-    const maxCount = Math.max(...scoreRanges.map(r => r.count), 1);
+  const renderCategoryChart = () => {
+    const maxCount = Math.max(...categoryStats.map(stat => stat.count), 1);
     
     return (
       <div className="chart-container">
-        <h3>Credit Score Distribution</h3>
+        <h3>Applications per Crop</h3>
         <div className="chart-bars">
-          {scoreRanges.map((range, index) => (
-            <div key={index} className="bar-container">
-              <div className="bar-label">{range.label}</div>
+          {categoryStats.map(stat => (
+            <div key={stat.category} className="bar-container">
+              <div className="bar-label">{stat.category}</div>
               <div className="bar">
                 <div 
                   className="bar-fill" 
-                  style={{ height: `${(range.count / maxCount) * 100}%` }}
+                  style={{ height: `${(stat.count / maxCount) * 100}%` }}
                 ></div>
               </div>
-              <div className="bar-value">{range.count}</div>
+              <div className="bar-value">{stat.revealedAt > 0 ? stat.count : "?"}</div>
+              <div className="bar-label">
+                {stat.revealedAt > 0 ? new Date(stat.revealedAt * 1000).toLocaleDateString() : "not revealed"}
+              </div>
+              {activeView === "auditor" && (
+                <button 
+                  className="toggle-btn"
+                  onClick={() => requestCategoryCountDecryption(stat.category)}
+                >
+                  Reveal
+                </button>
+              )}
             </div>
           ))}
         </div>
@@ -458,50 +947,17 @@ const App: React.FC = () => {
     );
   };
 
-  const renderLoanAmountChart = () => {
-    const amountRanges = [
-      { min: 0, max: 5000, label: "<5k", count: 0 },
-      { min: 5001, max: 10000, label: "5k-10k", count: 0 },
-      { min: 10001, max: 20000, label: "10k-20k", count: 0 },
-      { min: 20001, max: 50000, label: "20k-50k", count: 0 },
-      { min: 50001, max: 100000, label: "50k+", count: 0 }
-    ];
-    
-    applications.forEach(app => {
-      for (const range of amountRanges) {
-        if (app.loanAmountRequested >= range.min && app.loanAmountRequested <= range.max) {
-          range.count++;
-          break;
-        }
-      }
-    });
-    
-    const maxCount = Math.max(...amountRanges.map(r => r.count), 1);
-    
-    return (
-      <div className="chart-container">
-        <h3>Loan Amount Distribution</h3>
-        <div className="chart-bars">
-          {amountRanges.map((range, index) => (
-            <div key={index} className="bar-container">
-              <div className="bar-label">{range.label}</div>
-              <div className="bar">
-                <div 
-                  className="bar-fill" 
-                  style={{ height: `${(range.count / maxCount) * 100}%` }}
-                ></div>
-              </div>
-              <div className="bar-value">{range.count}</div>
-            </div>
-          ))}
-        </div>
-      </div>
-    );
+  const formatEncrypted = (value: number | null, format: (v: number) => string) => {
+    return value === null ? "Encrypted" : format(value);
   };
 
   const renderApplicationDetail = () => {
     if (!selectedApplication) return null;
     
+    const privateView: PrivateApplicationValues | undefined = privateValues[selectedApplication.id];
+    const canDecrypt = !selectedApplication.legacy && !privateView
+      && (isOwner(selectedApplication.farmerId) || activeView === "institution");
+    
     return (
       <div className="application-detail">
         <div className="detail-header">
@@ -530,19 +986,35 @@ const App: React.FC = () => {
             <span className="detail-value">{selectedApplication.cropType}</span>
           </div>
           
+          {!selectedApplication.legacy && (
+            <div className="detail-row">
+              <span className="detail-label">Farm Area:</span>
+              <span className="detail-value">{formatEncrypted(selectedApplication.farmArea ?? privateView?.farmArea ?? null, v => `${v} ha`)}</span>
+            </div>
+          )}
+          
           <div className="detail-row">
             <span className="detail-label">Yield Prediction:</span>
-            <span className="detail-value">{selectedApplication.yieldPrediction} kg/ha</span>
+            <span className="detail-value">{formatEncrypted(selectedApplication.yieldPrediction ?? privateView?.yieldPrediction ?? null, v => `${v} kg/ha`)}</span>
           </div>
           
           <div className="detail-row">
             <span className="detail-label">Loan Amount:</span>
-            <span className="detail-value">${selectedApplication.loanAmountRequested.toLocaleString()}</span>
+            <span className="detail-value">{formatEncrypted(selectedApplication.loanAmountRequested ?? privateView?.loanAmount ?? null, v => `$${v.toLocaleString()}`)}</span>
           </div>
           
+          {!selectedApplication.legacy && (
+            <div className="detail-row">
+              <span className="detail-label">Recommended Loan:</span>
+              <span className="detail-value">
+                {formatEncrypted(privateView?.recommendedLoan ?? null, v => `$${v.toLocaleString()}`)}
+              </span>
+            </div>
+          )}
+          
           <div className="detail-row">
             <span className="detail-label">Credit Score:</span>
-            <span className="detail-value">{selectedApplication.creditScore}</span>
+            <span className="detail-value">{selectedApplication.creditScore ?? privateView?.creditScore ?? "—"}</span>
           </div>
           
           <div className="detail-row">
@@ -559,13 +1031,94 @@ const App: React.FC = () => {
             </span>
           </div>
           
+          {privateView && privateView.plantingHistory.length > 0 && (
+            <div className="detail-row full">
+              <span className="detail-label">Planting History:</span>
+              <table className="planting-history-table">
+                <thead>
+                  <tr>
+                    <th>Season</th>
+                    <th>Crop</th>
+                    <th>Area</th>
+                    <th>Planted</th>
+                    <th>Harvested</th>
+                    <th>Yield</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {privateView.plantingHistory.map((season, i) => (
+                    <tr key={i}>
+                      <td>{season.season || "—"}</td>
+                      <td>{season.cropType}</td>
+                      <td>{season.area} ha</td>
+                      <td>{formatDate(season.plantedAt)}</td>
+                      <td>{formatDate(season.harvestedAt)}</td>
+                      <td>{season.realisedYield} kg/ha</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="fhe-note">
+                Mean yield {privateView.meanYield ?? "—"} kg/ha
+                {privateView.yieldVariance !== null && `, standard deviation ${Math.round(Math.sqrt(privateView.yieldVariance))} kg/ha`}
+              </div>
+            </div>
+          )}
+          
+          {!selectedApplication.legacy && (
+            <CollateralPanel
+              applicationId={selectedApplication.id}
+              account={account}
+              canPledge={isOwner(selectedApplication.farmerId) && PLEDGE_STATUSES.includes(selectedApplication.status)}
+              canRelease={isOwner(selectedApplication.farmerId) && RELEASE_STATUSES.includes(selectedApplication.status)}
+              canAttest={activeView === "institution" && isReviewer && PLEDGE_STATUSES.includes(selectedApplication.status)}
+              decrypted={privateView?.collateral}
+              onChanged={() => forgetPrivateValues(selectedApplication.id)}
+            />
+          )}
+          
+          {!selectedApplication.legacy && (
+            <RepaymentTimeline
+              applicationId={selectedApplication.id}
+              account={account}
+              cropType={selectedApplication.cropType}
+              loanAmount={selectedApplication.loanAmountRequested ?? privateView?.loanAmount ?? null}
+              canSchedule={activeView === "institution" && roles.lender && selectedApplication.status === "approved"}
+              canRepay={isOwner(selectedApplication.farmerId) && REPAY_STATUSES.includes(selectedApplication.status)}
+              canDecrypt={isOwner(selectedApplication.farmerId) || activeView === "institution"}
+              isReviewer={activeView === "institution"}
+            />
+          )}
+          
+          {!selectedApplication.legacy && (
+            <EscrowLoanPanel
+              applicationId={selectedApplication.id}
+              account={account}
+              revealedAmount={selectedApplication.isRevealed ? selectedApplication.loanAmountRequested : null}
+              canPayOut={activeView === "institution" && roles.lender && selectedApplication.status === "disbursed"}
+              canRepay={isOwner(selectedApplication.farmerId) && REPAY_STATUSES.includes(selectedApplication.status)}
+            />
+          )}
+          
           <div className="detail-row full">
-            <span className="detail-label">Encrypted Planting Data:</span>
+            <span className="detail-label">{selectedApplication.legacy ? "Encrypted Planting Data:" : "Encrypted Farm Data Handle:"}</span>
             <div className="encrypted-data">
-              {selectedApplication.encryptedPlantingData}
+              {selectedApplication.encryptedFarmData || "Not included in the index"}
             </div>
+            {canDecrypt && (
+              <button 
+                className="action-btn nature-button"
+                onClick={() => decryptApplicationPrivately(selectedApplication.id)}
+              >
+                Decrypt Privately
+              </button>
+            )}
             <div className="fhe-note">
-              Data remains encrypted with FHE throughout processing
+              {selectedApplication.legacy
+                ? "Legacy record from the UniversalAdapter store (read-only)"
+                : privateView
+                  ? "Decrypted privately for your account; nothing was published on-chain"
+                  : "Data remains encrypted with FHE throughout processing"}
             </div>
           </div>
         </div>
@@ -595,13 +1148,24 @@ const App: React.FC = () => {
         </div>
         
         <div className="header-actions">
-          <button 
-            onClick={() => setShowCreateModal(true)} 
-            className="create-application-btn nature-button"
-          >
-            <div className="add-icon"></div>
-            New Application
-          </button>
+          {activeView === "farmer" && (
+            <button 
+              onClick={() => setShowCreateModal(true)} 
+              className="create-application-btn nature-button"
+            >
+              <div className="add-icon"></div>
+              New Application
+            </button>
+          )}
+          {activeView === "cooperative" && (
+            <button 
+              onClick={() => setShowBatchUpload(true)} 
+              className="create-application-btn nature-button"
+            >
+              <div className="add-icon"></div>
+              Upload Member Batch
+            </button>
+          )}
           <button 
             className="nature-button"
             onClick={() => setShowFAQ(!showFAQ)}
@@ -621,8 +1185,21 @@ const App: React.FC = () => {
       <div className="main-content">
         <div className="welcome-banner">
           <div className="welcome-text">
-            <h2>FHE-Powered Agricultural Finance</h2>
-            <p>Securely access loans using encrypted farming data with Fully Homomorphic Encryption</p>
+            <h2>{DASHBOARD_VIEWS[activeView].title}</h2>
+            <p>{DASHBOARD_VIEWS[activeView].description}</p>
+            {availableViews.length > 1 && (
+              <div className="view-switcher">
+                {availableViews.map(view => (
+                  <button 
+                    key={view}
+                    className={`nature-button ${view === activeView ? "primary" : ""}`}
+                    onClick={() => setActiveView(view)}
+                  >
+                    {DASHBOARD_VIEWS[view].label}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
           <div className="fhe-badge">
             <span>FHE Technology</span>
@@ -635,7 +1212,7 @@ const App: React.FC = () => {
             <p>AgriFinance FHE enables farmers to access loans using encrypted planting data and yield predictions without exposing sensitive operational details.</p>
             <div className="stats-grid">
               <div className="stat-item">
-                <div className="stat-value">{applications.length}</div>
+                <div className="stat-value">{visibleApplications.length}</div>
                 <div className="stat-label">Total Applications</div>
               </div>
               <div className="stat-item">
@@ -669,7 +1246,7 @@ const App: React.FC = () => {
           
           <div className="dashboard-card nature-card">
             <div className="chart-toggle">
-              <h3>Data Analytics</h3>
+              <h3>Category Statistics</h3>
               <button 
                 className="toggle-btn"
                 onClick={() => setShowCharts(!showCharts)}
@@ -678,18 +1255,76 @@ const App: React.FC = () => {
               </button>
             </div>
             {showCharts && (
-              <div className="charts-container">
-                {renderCreditScoreChart()}
-                {renderLoanAmountChart()}
-              </div>
+              categoryStats.length === 0 ? (
+                <p>No categories yet. Counts appear once applications have been revealed.</p>
+              ) : (
+                <div className="charts-container">
+                  {renderCategoryChart()}
+                </div>
+              )
             )}
           </div>
+          
+          {activeView === "farmer" && account && (
+            <div className="dashboard-card nature-card">
+              <h3>Cooperative Membership</h3>
+              {memberCooperative !== ethers.ZeroAddress ? (
+                <>
+                  <p>
+                    Member of {memberCooperative.substring(0, 6)}...{memberCooperative.substring(38)}, which may submit
+                    encrypted applications on your behalf. You can still decrypt and reveal them yourself.
+                  </p>
+                  <button 
+                    className="nature-button"
+                    onClick={() => updateCooperativeMembership(false)}
+                  >
+                    Leave Cooperative
+                  </button>
+                </>
+              ) : (
+                <>
+                  <p>Join your cooperative so it can submit applications for you in its batches.</p>
+                  <div className="cooperative-join">
+                    <input 
+                      type="text"
+                      value={cooperativeInput}
+                      onChange={(e) => setCooperativeInput(e.target.value)}
+                      placeholder="Cooperative address (0x...)"
+                      className="nature-input"
+                    />
+                    <button 
+                      className="nature-button primary"
+                      onClick={() => updateCooperativeMembership(true)}
+                    >
+                      Join
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+          
+          {activeView === "institution" && roles.lender && <CropCalendarEditor cropTypes={CROP_TYPES} />}
+          
+          {activeView === "institution" && roles.lender && account && <EscrowFundingCard account={account} />}
+          
+          {activeView !== "auditor" && account && <ConfidentialWalletCard account={account} />}
         </div>
         
+        {activeView !== "auditor" && (
         <div className="applications-section">
           <div className="section-header">
             <h2>Loan Applications</h2>
             <div className="header-actions">
+              {INDEX_API_URL && (
+                <button
+                  className="nature-button"
+                  onClick={() => setDataSource(dataSource === "index" ? "chain" : "index")}
+                  title="Switch between the index API and direct contract reads"
+                >
+                  Source: {dataSource === "index" ? "Index API" : "Chain"}
+                </button>
+              )}
               <button 
                 onClick={loadApplications}
                 className="refresh-btn nature-button"
@@ -712,19 +1347,29 @@ const App: React.FC = () => {
                 <div className="header-cell">Actions</div>
               </div>
               
-              {applications.length === 0 ? (
+              {visibleApplications.length === 0 ? (
                 <div className="no-applications">
                   <div className="no-applications-icon"></div>
                   <p>No loan applications found</p>
-                  <button 
-                    className="nature-button primary"
-                    onClick={() => setShowCreateModal(true)}
-                  >
-                    Create First Application
-                  </button>
+                  {activeView === "farmer" && (
+                    <button 
+                      className="nature-button primary"
+                      onClick={() => setShowCreateModal(true)}
+                    >
+                      Create First Application
+                    </button>
+                  )}
+                  {activeView === "cooperative" && (
+                    <button 
+                      className="nature-button primary"
+                      onClick={() => setShowBatchUpload(true)}
+                    >
+                      Upload Member Batch
+                    </button>
+                  )}
                 </div>
               ) : (
-                applications.map(app => (
+                visibleApplications.map(app => (
                   <div 
                     className={`application-row ${selectedApplication?.id === app.id ? 'selected' : ''}`} 
                     key={app.id}
@@ -732,37 +1377,39 @@ const App: React.FC = () => {
                   >
                     <div className="table-cell app-id">#{app.id.substring(0, 6)}</div>
                     <div className="table-cell">{app.cropType}</div>
-                    <div className="table-cell">{app.yieldPrediction} kg/ha</div>
-                    <div className="table-cell">${app.loanAmountRequested.toLocaleString()}</div>
-                    <div className="table-cell">{app.creditScore}</div>
+                    <div className="table-cell">{formatEncrypted(app.yieldPrediction, v => `${v} kg/ha`)}</div>
+                    <div className="table-cell">{formatEncrypted(app.loanAmountRequested, v => `$${v.toLocaleString()}`)}</div>
+                    <div className="table-cell">{app.creditScore ?? "—"}</div>
                     <div className="table-cell">
                       <span className={`status-badge ${app.status}`}>
                         {app.status}
                       </span>
                     </div>
                     <div className="table-cell actions">
-                      {isOwner(app.farmerId) && app.status === "pending" && (
-                        <>
-                          <button 
-                            className="action-btn nature-button success"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              approveApplication(app.id);
-                            }}
-                          >
-                            Approve
-                          </button>
-                          <button 
-                            className="action-btn nature-button danger"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              rejectApplication(app.id);
-                            }}
-                          >
-                            Reject
-                          </button>
-                        </>
+                      {!app.legacy && !app.isRevealed && activeView === "farmer" && (
+                        <button 
+                          className="action-btn nature-button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            requestDecryption(app.id);
+                          }}
+                        >
+                          Reveal
+                        </button>
                       )}
+                      {!app.legacy && activeView === "institution" && roles.lender && LENDER_ACTIONS[app.status]?.map(action => (
+                        <button 
+                          key={action.method}
+                          className="action-btn nature-button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            updateLoanStatus(app.id, action);
+                          }}
+                        >
+                          {action.label}
+                        </button>
+                      ))}
+                      {app.legacy && <span className="status-badge legacy">legacy</span>}
                     </div>
                   </div>
                 ))
@@ -772,6 +1419,7 @@ const App: React.FC = () => {
             {renderApplicationDetail()}
           </div>
         </div>
+        )}
         
         {showFAQ && (
           <div className="faq-section">
@@ -803,6 +1451,15 @@ const App: React.FC = () => {
         />
       )}
       
+      {showBatchUpload && (
+        <CooperativeBatchUpload
+          account={account}
+          cropTypes={CROP_TYPES}
+          onSubmitted={loadApplications}
+          onClose={() => setShowBatchUpload(false)}
+        />
+      )}
+      
       {walletSelectorOpen && (
         <WalletSelector
           isOpen={walletSelectorOpen}
@@ -888,11 +1545,40 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
     });
   };
 
+  const [showImporter, setShowImporter] = useState(false);
+  const plantingHistory: PlantingSeasonRow[] = applicationData.plantingHistory;
+
+  const setPlantingHistory = (rows: PlantingSeasonRow[]) => {
+    setApplicationData({
+      ...applicationData,
+      plantingHistory: rows
+    });
+  };
+
+  const handleSeasonChange = (index: number, e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    setPlantingHistory(plantingHistory.map((row, i) => (
+      i === index ? { ...row, [name]: type === "number" ? Number(value) : value } : row
+    )));
+  };
+
+  const importPlantingHistory = (rows: PlantingSeasonRow[]) => {
+    if (plantingHistory.length > 0 && !window.confirm("Replace the seasons already entered with the imported ones?")) {
+      return;
+    }
+    setPlantingHistory(rows);
+    setShowImporter(false);
+  };
+
   const handleSubmit = () => {
-    if (!applicationData.cropType || !applicationData.plantingData) {
+    if (!applicationData.cropType || !applicationData.farmArea) {
       alert("Please fill required fields");
       return;
     }
+    if (plantingHistory.some(row => !row.cropType || !row.plantedAt || !row.harvestedAt)) {
+      alert("Please complete or remove each planting season");
+      return;
+    }
     
     onSubmit();
   };
@@ -920,13 +1606,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
                 className="nature-select"
               >
                 <option value="">Select crop type</option>
-                <option value="Wheat">Wheat</option>
-                <option value="Rice">Rice</option>
-                <option value="Corn">Corn</option>
-                <option value="Soybean">Soybean</option>
-                <option value="Cotton">Cotton</option>
-                <option value="Vegetables">Vegetables</option>
-                <option value="Fruits">Fruits</option>
+                {CROP_TYPES.map(crop => <option key={crop} value={crop}>{crop}</option>)}
               </select>
             </div>
             
@@ -956,19 +1636,107 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
               />
             </div>
             
-            <div className="form-group full-width">
-              <label>Planting Data *</label>
-              <textarea 
-                name="plantingData"
-                value={applicationData.plantingData} 
-                onChange={handleChange}
-                placeholder="Enter planting data (crop variety, planting date, soil conditions, etc.)..." 
-                className="nature-textarea"
-                rows={4}
+            <div className="form-group">
+              <label>Farm Area (ha) *</label>
+              <input 
+                type="number"
+                name="farmArea"
+                value={applicationData.farmArea} 
+                onChange={handleNumberChange}
+                placeholder="Cultivated area..." 
+                className="nature-input"
+                min="0"
               />
             </div>
           </div>
           
+          <div className="planting-history-editor">
+            <div className="planting-history-header">
+              <label>Planting History</label>
+              <span className="fhe-note">
+                Past seasons; every number is encrypted separately so scoring can weigh yield stability
+              </span>
+            </div>
+            
+            {plantingHistory.map((row, i) => (
+              <div className="planting-season-row" key={i}>
+                <input
+                  name="season"
+                  value={row.season}
+                  onChange={e => handleSeasonChange(i, e)}
+                  placeholder="Season, e.g. 2024"
+                  className="nature-input"
+                />
+                <select
+                  name="cropType"
+                  value={row.cropType}
+                  onChange={e => handleSeasonChange(i, e)}
+                  className="nature-select"
+                >
+                  <option value="">Crop</option>
+                  {CROP_TYPES.map(crop => <option key={crop} value={crop}>{crop}</option>)}
+                </select>
+                <input
+                  type="number"
+                  name="area"
+                  value={row.area}
+                  onChange={e => handleSeasonChange(i, e)}
+                  title="Area (ha)"
+                  className="nature-input"
+                  min="0"
+                />
+                <input
+                  type="date"
+                  name="plantedAt"
+                  value={row.plantedAt}
+                  onChange={e => handleSeasonChange(i, e)}
+                  title="Planting date"
+                  className="nature-input"
+                />
+                <input
+                  type="date"
+                  name="harvestedAt"
+                  value={row.harvestedAt}
+                  onChange={e => handleSeasonChange(i, e)}
+                  title="Harvest date"
+                  className="nature-input"
+                />
+                <input
+                  type="number"
+                  name="realisedYield"
+                  value={row.realisedYield}
+                  onChange={e => handleSeasonChange(i, e)}
+                  title="Realised yield (kg/ha)"
+                  className="nature-input"
+                  min="0"
+                />
+                <button
+                  className="remove-season nature-button"
+                  onClick={() => setPlantingHistory(plantingHistory.filter((_, j) => j !== i))}
+                  title="Remove season"
+                >
+                  &times;
+                </button>
+              </div>
+            ))}
+            
+            <div className="planting-history-actions">
+              <button
+                className="nature-button"
+                onClick={() => setPlantingHistory([...plantingHistory, emptySeason])}
+                disabled={plantingHistory.length >= MAX_PLANTING_SEASONS}
+              >
+                Add Season
+              </button>
+              <button
+                className="nature-button"
+                onClick={() => setShowImporter(true)}
+              >
+                Import from CSV / Excel
+              </button>
+            </div>
+          </div>
+          
           <div className="privacy-notice">
             <div className="lock-icon"></div> Data remains encrypted during FHE processing
           </div>
@@ -990,6 +1758,15 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
           </button>
         </div>
       </div>
+      
+      {showImporter && (
+        <FarmRecordImporter
+          cropTypes={CROP_TYPES}
+          maxSeasons={MAX_PLANTING_SEASONS}
+          onImport={importPlantingHistory}
+          onClose={() => setShowImporter(false)}
+        />
+      )}
     </div>
   );
 };
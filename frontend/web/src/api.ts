@@ -0,0 +1,42 @@
+// api.ts
+import type {
+  ApplicationListResponse,
+  ApplicationResource,
+  HealthResponse
+} from "../../../src/api/schemas";
+
+// Base URL of the index API (`npm run api`); the dashboard reads the chain directly when unset.
+export const INDEX_API_URL: string = import.meta.env.VITE_INDEX_API_URL ?? "";
+
+export type { ApplicationResource };
+
+const getJson = async <T>(path: string): Promise<T> => {
+  const response = await fetch(`${INDEX_API_URL.replace(/\/$/, "")}${path}`);
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(`Index API ${path} failed: ${body.error ?? response.status}`);
+  }
+  return body as T;
+};
+
+/**
+ * Every indexed application for the given chain, newest first. Throws when
+ * the API indexes a different chain, so callers can fall back to the chain.
+ */
+export async function fetchIndexedApplications(chainId: number): Promise<ApplicationResource[]> {
+  const health = await getJson<HealthResponse>("/health");
+  if (health.chainId !== chainId) {
+    throw new Error(`Index API serves chain ${health.chainId}, not ${chainId}`);
+  }
+
+  const applications: ApplicationResource[] = [];
+  let total = Infinity;
+  while (applications.length < total) {
+    const page = await getJson<ApplicationListResponse>(
+      `/applications?sort=submittedAt&order=desc&limit=100&offset=${applications.length}`
+    );
+    applications.push(...page.items);
+    total = page.items.length > 0 ? page.total : applications.length;
+  }
+  return applications;
+}
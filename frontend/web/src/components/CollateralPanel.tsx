@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import type { AgriFinanceFHE } from "../../../../types";
+import { getContractReadOnly, getContractWithSigner } from "../contract";
+import { COLLATERAL_TYPES, encryptCollateral } from "../encryption";
+
+// A collateral record as privately decrypted for the connected account.
+export interface DecryptedCollateral {
+  id: string;
+  collateralType: number;
+  appraisedValue: number;
+  owner: string;
+}
+
+// Pledged collateral and the loan-to-value check; the check stays null until
+// something has been pledged.
+export interface PrivateCollateral {
+  items: DecryptedCollateral[];
+  pledgedValue: number | null;
+  covered: boolean | null;
+}
+
+// attestedBy is the zero address until a reviewer vouches for the asset.
+interface CollateralRecord {
+  id: string;
+  registeredAt: number;
+  attestedBy: string;
+}
+
+interface CollateralPanelProps {
+  applicationId: string;
+  account: string;
+  canPledge: boolean;
+  canRelease: boolean;
+  canAttest: boolean;
+  decrypted?: PrivateCollateral;
+  onChanged: () => void;
+}
+
+// Lists the collateral pledged to an application and, for the applicant,
+// registers, pledges and releases collateral. Values only show once the
+// application has been decrypted privately; reviewers attest to an asset
+// after checking them, and only attested assets count towards coverage.
+const CollateralPanel: React.FC<CollateralPanelProps> = ({
+  applicationId,
+  account,
+  canPledge,
+  canRelease,
+  canAttest,
+  decrypted,
+  onChanged
+}) => {
+  const [pledged, setPledged] = useState<CollateralRecord[]>([]);
+  const [available, setAvailable] = useState<CollateralRecord[]>([]);
+  const [form, setForm] = useState({ collateralType: 0, appraisedValue: 0, owner: account });
+  const [busy, setBusy] = useState("");
+  const [error, setError] = useState("");
+
+  const loadCollateral = async () => {
+    const contract = await getContractReadOnly();
+    if (!contract) return;
+
+    const record = async (id: bigint) => {
+      const collateral = await contract.collaterals(id);
+      return { id: id.toString(), registeredAt: Number(collateral.registeredAt), attestedBy: collateral.attestedBy };
+    };
+    setPledged(await Promise.all((await contract.getApplicationCollateralIds(applicationId)).map(record)));
+
+    if (canPledge) {
+      const own = await contract.getCollateralIdsByRegistrant(account);
+      const free = await Promise.all(own.map(async id => ((await contract.collaterals(id)).pledgedTo === 0n ? id : null)));
+      setAvailable(await Promise.all(free.filter((id): id is bigint => id !== null).map(record)));
+    }
+  };
+
+  useEffect(() => {
+    setForm(previous => ({ ...previous, owner: account }));
+    loadCollateral().catch(e => console.error("Error loading collateral:", e));
+  }, [applicationId, account, canPledge]);
+
+  const run = async (label: string, action: (contract: AgriFinanceFHE) => Promise<void>) => {
+    setBusy(label);
+    setError("");
+    try {
+      await action(await getContractWithSigner());
+      await loadCollateral();
+      onChanged();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Unknown error");
+    } finally {
+      setBusy("");
+    }
+  };
+
+  const registerAndPledge = () => run("Encrypting collateral...", async contract => {
+    const contractAddress = await contract.getAddress();
+    const encrypted = await encryptCollateral(contractAddress, ethers.getAddress(account), form, setBusy);
+
+    setBusy("Registering collateral...");
+    const receipt = await (await contract.registerCollateral(
+      encrypted.encryptedType,
+      encrypted.encryptedAppraisedValue,
+      encrypted.encryptedOwner,
+      encrypted.inputProof
+    )).wait();
+    const registered = receipt!.logs
+      .map(log => (log.address.toLowerCase() === contractAddress.toLowerCase() ? contract.interface.parseLog(log) : null))
+      .find(parsed => parsed?.name === "CollateralRegistered");
+    if (!registered) {
+      throw new Error("Collateral was registered but its id is missing from the receipt");
+    }
+
+    setBusy("Pledging collateral...");
+    await (await contract.pledgeCollateral(registered.args.collateralId, applicationId)).wait();
+    setForm({ collateralType: 0, appraisedValue: 0, owner: account });
+  });
+
+  const pledge = (id: string) => run("Pledging collateral...", async contract => {
+    await (await contract.pledgeCollateral(id, applicationId)).wait();
+  });
+
+  const release = (id: string) => run("Releasing collateral...", async contract => {
+    await (await contract.releaseCollateral(id)).wait();
+  });
+
+  const attest = (id: string) => run("Attesting collateral...", async contract => {
+    await (await contract.attestCollateral(id)).wait();
+  });
+
+  const details = (id: string) => decrypted?.items.find(item => item.id === id);
+
+  return (
+    <div className="detail-row full">
+      <span className="detail-label">Pledged Collateral:</span>
+      {pledged.length === 0 ? (
+        <p className="fhe-note">No collateral pledged</p>
+      ) : (
+        <table className="planting-history-table">
+          <thead>
+            <tr>
+              <th>ID</th>
+              <th>Type</th>
+              <th>Appraised Value</th>
+              <th>Owner</th>
+              <th>Registered</th>
+              <th>Attested</th>
+              {(canRelease || canAttest) && <th></th>}
+            </tr>
+          </thead>
+          <tbody>
+            {pledged.map(item => {
+              const values = details(item.id);
+              const attested = item.attestedBy !== ethers.ZeroAddress;
+              return (
+                <tr key={item.id}>
+                  <td>#{item.id}</td>
+                  <td>{values ? COLLATERAL_TYPES[values.collateralType] : "Encrypted"}</td>
+                  <td>{values ? `$${values.appraisedValue.toLocaleString()}` : "Encrypted"}</td>
+                  <td>{values ? `${values.owner.substring(0, 6)}...${values.owner.substring(38)}` : "Encrypted"}</td>
+                  <td>{new Date(item.registeredAt * 1000).toLocaleDateString()}</td>
+                  <td>{attested ? `${item.attestedBy.substring(0, 6)}...${item.attestedBy.substring(38)}` : "Awaiting"}</td>
+                  {(canRelease || canAttest) && (
+                    <td>
+                      {canRelease && (
+                        <button className="action-btn nature-button" onClick={() => release(item.id)} disabled={!!busy}>
+                          Release
+                        </button>
+                      )}
+                      {canAttest && !attested && (
+                        <button
+                          className="action-btn nature-button"
+                          onClick={() => attest(item.id)}
+                          disabled={!!busy || !values}
+                          title={values ? undefined : "Decrypt the application to check the asset first"}
+                        >
+                          Attest
+                        </button>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      {decrypted && decrypted.covered !== null && (
+        <div className={`collateral-check ${decrypted.covered ? "covered" : "uncovered"}`}>
+          Attested, owned collateral worth ${(decrypted.pledgedValue ?? 0).toLocaleString()}
+          {decrypted.covered ? " covers" : " does not cover"} the requested amount at the lender's loan-to-value limit
+        </div>
+      )}
+
+      {canPledge && (
+        <div className="collateral-form">
+          {available.length > 0 && (
+            <div className="collateral-available">
+              {available.map(item => (
+                <button key={item.id} className="nature-button" onClick={() => pledge(item.id)} disabled={!!busy}>
+                  Pledge #{item.id}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="form-grid">
+            <div className="form-group">
+              <label>Collateral type</label>
+              <select
+                value={form.collateralType}
+                onChange={e => setForm({ ...form, collateralType: Number(e.target.value) })}
+                className="nature-select"
+              >
+                {COLLATERAL_TYPES.map((label, i) => <option key={label} value={i}>{label}</option>)}
+              </select>
+            </div>
+            <div className="form-group">
+              <label>Appraised value</label>
+              <input
+                type="number"
+                value={form.appraisedValue}
+                onChange={e => setForm({ ...form, appraisedValue: Number(e.target.value) })}
+                className="nature-input"
+              />
+            </div>
+            <div className="form-group">
+              <label>Legal owner</label>
+              <input
+                type="text"
+                value={form.owner}
+                onChange={e => setForm({ ...form, owner: e.target.value })}
+                className="nature-input"
+              />
+            </div>
+          </div>
+          <button className="action-btn nature-button primary" onClick={registerAndPledge} disabled={!!busy}>
+            Register &amp; Pledge
+          </button>
+        </div>
+      )}
+      {busy && <p className="fhe-note">{busy}</p>}
+      {error && <p className="import-error-message">{error}</p>}
+    </div>
+  );
+};
+
+export default CollateralPanel;
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { getConfidentialTokenReadOnly, getConfidentialTokenWithSigner, getRepaymentContractReadOnly } from "../contract";
+import { userDecryptHandles } from "../encryption";
+import { AUTHORIZATION_DAYS, authorizationExpiry } from "../loanPayments";
+
+interface ConfidentialWalletCardProps {
+  account: string;
+}
+
+// The connected account's confidential token balance, decrypted privately on
+// request, and whether LoanRepayment may move it to disburse or repay loans.
+const ConfidentialWalletCard: React.FC<ConfidentialWalletCardProps> = ({ account }) => {
+  const [symbol, setSymbol] = useState("");
+  const [repaymentAddress, setRepaymentAddress] = useState("");
+  const [authorized, setAuthorized] = useState(false);
+  const [balance, setBalance] = useState<bigint | null>(null);
+  const [busy, setBusy] = useState("");
+  const [error, setError] = useState("");
+
+  const loadWallet = async () => {
+    const token = await getConfidentialTokenReadOnly();
+    const repayment = await getRepaymentContractReadOnly();
+    if (!token) {
+      setSymbol("");
+      return;
+    }
+    setSymbol(await token.symbol());
+    // Authorizing only matters when LoanRepayment pays with this token.
+    const paysWithToken = !!repayment && (await repayment.token()) === (await token.getAddress());
+    const operator = paysWithToken ? await repayment.getAddress() : "";
+    setRepaymentAddress(operator);
+    setAuthorized(!!operator && (await token.isOperator(account, operator)));
+  };
+
+  useEffect(() => {
+    setBalance(null);
+    loadWallet().catch(e => console.error("Error loading confidential wallet:", e));
+  }, [account]);
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setBusy(label);
+    setError("");
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Unknown error");
+    } finally {
+      setBusy("");
+    }
+  };
+
+  const decryptBalance = () => run("Sign the decryption request in your wallet...", async () => {
+    const token = await getConfidentialTokenWithSigner();
+    const handle = await token.confidentialBalanceOf(account);
+    // Accounts that never held the token have no balance ciphertext.
+    if (handle === ethers.ZeroHash) {
+      setBalance(0n);
+      return;
+    }
+    const signer = await new ethers.BrowserProvider((window as any).ethereum).getSigner();
+    const values = await userDecryptHandles(signer, await token.getAddress(), [handle]);
+    setBalance(values[handle]);
+  });
+
+  const setAuthorization = (authorize: boolean) => run(authorize ? "Authorizing loan payments..." : "Revoking loan payments...", async () => {
+    const until = authorize ? authorizationExpiry() : 0;
+    await (await (await getConfidentialTokenWithSigner()).setOperator(repaymentAddress, until)).wait();
+    await loadWallet();
+  });
+
+  if (!symbol) return null;
+
+  return (
+    <div className="dashboard-card nature-card">
+      <h3>Confidential Wallet</h3>
+      <p>Your {symbol} balance and loan payments stay encrypted on-chain; only you can decrypt your balance.</p>
+      <div className="stats-grid">
+        <div className="stat-item">
+          <div className="stat-value">{balance === null ? "Encrypted" : `${balance.toLocaleString()} ${symbol}`}</div>
+          <div className="stat-label">Balance</div>
+        </div>
+        {repaymentAddress && (
+          <div className="stat-item">
+            <div className="stat-value">{authorized ? "Authorized" : "Not authorized"}</div>
+            <div className="stat-label">Loan Payments</div>
+          </div>
+        )}
+      </div>
+      <div className="wallet-actions">
+        <button className="nature-button" onClick={decryptBalance} disabled={!!busy}>
+          Decrypt Balance
+        </button>
+        {repaymentAddress && (
+          <button className="nature-button primary" onClick={() => setAuthorization(!authorized)} disabled={!!busy}>
+            {authorized ? "Revoke Loan Payments" : "Authorize Loan Payments"}
+          </button>
+        )}
+      </div>
+      {repaymentAddress && (
+        <p className="fhe-note">
+          {authorized
+            ? `Loan disbursals and repayments can move your ${symbol}; an authorization lasts ${AUTHORIZATION_DAYS} days.`
+            : "Disbursing or repaying a loan asks for this authorization first."}
+        </p>
+      )}
+      {busy && <p className="fhe-note">{busy}</p>}
+      {error && <p className="import-error-message">{error}</p>}
+    </div>
+  );
+};
+
+export default ConfidentialWalletCard;
@@ -0,0 +1,277 @@
+import React, { useMemo, useState } from "react";
+import { ethers } from "ethers";
+import { getContractWithSigner } from "../contract";
+import { chunkBatchApplications, encryptLoanApplicationBatch } from "../encryption";
+import { BATCH_FIELDS, guessBatchColumns, mapMemberRows, readBatchOutcomes } from "../cooperativeBatch";
+import type { BatchColumnMapping, BatchField, BatchRowStatus, MemberRow } from "../cooperativeBatch";
+import { readFarmRecordFile } from "../farmRecordImport";
+import type { ImportTable } from "../farmRecordImport";
+
+interface CooperativeBatchUploadProps {
+  account: string;
+  cropTypes: string[];
+  onSubmitted: () => void;
+  onClose: () => void;
+}
+
+// Every application is scored in the batch transaction, so batches stay
+// well below the contract's limit to keep each one under the block gas limit.
+const ROWS_PER_TRANSACTION = 10;
+
+const STATE_LABELS: Record<BatchRowStatus["state"], string> = {
+  pending: "Pending",
+  encrypting: "Encrypting",
+  submitting: "Submitting",
+  submitted: "Submitted",
+  skipped: "Skipped",
+  failed: "Failed"
+};
+
+const describeError = (e: any) =>
+  e?.message?.includes("user rejected") ? "Transaction rejected by user" : e?.shortMessage || e?.message || "Unknown error";
+
+// Uploads a sheet of member applications and submits them in encrypted
+// batches, one transaction per batch, tracking every row's outcome.
+const CooperativeBatchUpload: React.FC<CooperativeBatchUploadProps> = ({ account, cropTypes, onSubmitted, onClose }) => {
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<BatchColumnMapping | null>(null);
+  const [error, setError] = useState("");
+  const [progress, setProgress] = useState("");
+  const [running, setRunning] = useState(false);
+  const [statuses, setStatuses] = useState<Record<number, BatchRowStatus>>({});
+
+  const rows = useMemo(
+    () => (table && mapping ? mapMemberRows(table, mapping, cropTypes) : []),
+    [table, mapping, cropTypes]
+  );
+  const ready = rows.filter(row => row.application);
+  const tracked = ready.filter(row => statuses[row.row]);
+  const started = tracked.length > 0;
+  const count = (state: BatchRowStatus["state"]) => tracked.filter(row => statuses[row.row].state === state).length;
+  const failedRows = ready.filter(row => statuses[row.row]?.state === "failed");
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError("");
+    setStatuses({});
+    setFileName(file.name);
+    try {
+      const read = await readFarmRecordFile(file);
+      setTable(read);
+      setMapping(guessBatchColumns(read.headers));
+    } catch (err: any) {
+      setTable(null);
+      setMapping(null);
+      setError(`Could not read ${file.name}: ${err.message || "unknown error"}`);
+    }
+  };
+
+  const setColumn = (field: BatchField, value: string) => {
+    if (!mapping) return;
+    setStatuses({});
+    setMapping({ ...mapping, [field]: value === "" ? null : Number(value) });
+  };
+
+  const updateRows = (targets: MemberRow[], status: (i: number) => BatchRowStatus) => {
+    setStatuses(previous => {
+      const next = { ...previous };
+      targets.forEach((target, i) => { next[target.row] = status(i); });
+      return next;
+    });
+  };
+
+  // Submits the given rows; earlier outcomes of other rows are kept, so a
+  // retry only touches the rows it resends.
+  const submitRows = async (targets: MemberRow[]) => {
+    setRunning(true);
+    setError("");
+    updateRows(targets, () => ({ state: "pending" }));
+    try {
+      const contract = await getContractWithSigner();
+      const contractAddress = await contract.getAddress();
+      const cooperative = ethers.getAddress(account);
+
+      // Members who have not joined this cooperative would only be skipped on-chain.
+      const applicants = [...new Set(targets.map(row => row.application!.applicant))];
+      const memberships = await Promise.all(applicants.map(applicant => contract.memberCooperative(applicant)));
+      const members = new Set(applicants.filter((_, i) => memberships[i] === cooperative));
+      const outsiders = targets.filter(row => !members.has(row.application!.applicant));
+      updateRows(outsiders, () => ({ state: "skipped", message: "Not a member of this cooperative" }));
+
+      const eligible = targets
+        .filter(row => members.has(row.application!.applicant))
+        .map(row => ({ ...row.application!, plantingHistory: [], row }));
+      const chunks = chunkBatchApplications(eligible, ROWS_PER_TRANSACTION);
+
+      for (const [n, chunk] of chunks.entries()) {
+        const chunkRows = chunk.map(entry => entry.row);
+        try {
+          updateRows(chunkRows, () => ({ state: "encrypting" }));
+          const encrypted = await encryptLoanApplicationBatch(contractAddress, cooperative, chunk, message =>
+            setProgress(`Batch ${n + 1} of ${chunks.length}: ${message}`)
+          );
+
+          updateRows(chunkRows, () => ({ state: "submitting" }));
+          setProgress(`Batch ${n + 1} of ${chunks.length}: waiting for the transaction...`);
+          const tx = await contract.submitEncryptedLoanApplicationBatch(encrypted.applications, encrypted.inputProof);
+          const receipt = await tx.wait();
+
+          const outcomes = readBatchOutcomes(contract.interface, contractAddress, receipt!.logs, chunk.length);
+          updateRows(chunkRows, i => outcomes[i]);
+        } catch (e: any) {
+          const message = describeError(e);
+          updateRows(chunkRows, () => ({ state: "failed", message }));
+          if (message === "Transaction rejected by user") break;
+        }
+      }
+      setProgress("");
+      onSubmitted();
+    } catch (e: any) {
+      setProgress("");
+      setError(describeError(e));
+      setStatuses(previous => {
+        const next = { ...previous };
+        targets.forEach(target => {
+          if (next[target.row]?.state === "pending") delete next[target.row];
+        });
+        return next;
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal import-modal nature-card">
+        <div className="modal-header">
+          <h2>Member Batch Upload</h2>
+          <button onClick={onClose} className="close-modal" disabled={running}>&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="privacy-notice">
+            <div className="lock-icon"></div> Rows are encrypted in your browser; members must have joined your cooperative
+          </div>
+
+          <div className="form-group import-file">
+            <label>CSV or Excel (.xlsx) file, one member application per row</label>
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,.xlsx"
+              onChange={handleFile}
+              disabled={running}
+              className="nature-input"
+            />
+          </div>
+
+          {error && <p className="import-error-message">{error}</p>}
+
+          {table && mapping && (
+            <>
+              <h3 className="import-section-title">Columns</h3>
+              <div className="form-grid">
+                {BATCH_FIELDS.map(({ field, label }) => (
+                  <div className="form-group" key={field}>
+                    <label>{label} *</label>
+                    <select
+                      value={mapping[field] ?? ""}
+                      onChange={e => setColumn(field, e.target.value)}
+                      disabled={running}
+                      className="nature-select"
+                    >
+                      <option value="">Not in file</option>
+                      {table.headers.map((header, i) => (
+                        <option key={i} value={i}>{header || `Column ${i + 1}`}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <h3 className="import-section-title">Applications</h3>
+              <div className="import-preview">
+                <table className="planting-history-table">
+                  <thead>
+                    <tr>
+                      <th>Row</th>
+                      <th>Member</th>
+                      <th>Crop</th>
+                      <th>Area (ha)</th>
+                      <th>Yield (kg/ha)</th>
+                      <th>Loan</th>
+                      <th>Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(row => {
+                      const status = statuses[row.row];
+                      return (
+                        <tr key={row.row} className={row.errors.length > 0 ? "import-error" : ""}>
+                          <td>{row.row}</td>
+                          <td>{row.application ? `${row.application.applicant.substring(0, 6)}...${row.application.applicant.substring(38)}` : "—"}</td>
+                          <td>{row.application?.cropType ?? "—"}</td>
+                          <td>{row.application?.farmData ?? "—"}</td>
+                          <td>{row.application?.yieldPrediction ?? "—"}</td>
+                          <td>{row.application?.loanAmount ?? "—"}</td>
+                          <td>
+                            {row.errors.length > 0 ? (
+                              row.errors.join("; ")
+                            ) : status ? (
+                              <span className={`batch-status ${status.state}`}>
+                                {STATE_LABELS[status.state]}
+                                {status.applicationId !== undefined && ` #${status.applicationId}`}
+                                {status.message && `: ${status.message}`}
+                              </span>
+                            ) : (
+                              "Ready"
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="fhe-note">
+                {started
+                  ? `${count("submitted")} submitted, ${count("skipped")} skipped, ${count("failed")} failed of ${tracked.length} rows`
+                  : `${ready.length} of ${rows.length} rows ready; ${ROWS_PER_TRANSACTION} applications per transaction`}
+              </div>
+              {progress && <p className="fhe-note">{progress}</p>}
+            </>
+          )}
+          {!table && fileName && !error && <p className="fhe-note">Reading {fileName}...</p>}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn nature-button" disabled={running}>
+            Close
+          </button>
+          {failedRows.length > 0 && (
+            <button
+              onClick={() => submitRows(failedRows)}
+              disabled={running}
+              className="nature-button"
+            >
+              Retry {failedRows.length} Failed
+            </button>
+          )}
+          <button
+            onClick={() => submitRows(ready)}
+            disabled={running || started || ready.length === 0}
+            className="submit-btn nature-button primary"
+          >
+            {running ? "Submitting..." : `Submit ${ready.length} ${ready.length === 1 ? "Application" : "Applications"}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CooperativeBatchUpload;
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from "react";
+import { getRepaymentContractReadOnly, getRepaymentContractWithSigner } from "../contract";
+import type { CropCalendar } from "../repaymentSchedule";
+
+interface CropCalendarEditorProps {
+  // Crops the application form offers, listed even before they have a calendar.
+  cropTypes: string[];
+}
+
+interface CalendarRow extends CropCalendar {
+  cropType: string;
+}
+
+const emptyRow: CalendarRow = { cropType: "", growingDays: 0, saleDays: 0 };
+
+// Lets lenders adjust the crop calendars harvest balloons are dated from.
+// Changes apply to schedules set afterwards; existing ones keep their dates.
+const CropCalendarEditor: React.FC<CropCalendarEditorProps> = ({ cropTypes }) => {
+  const [rows, setRows] = useState<CalendarRow[]>([]);
+  const [newRow, setNewRow] = useState(emptyRow);
+  const [busy, setBusy] = useState("");
+  const [error, setError] = useState("");
+
+  const loadCalendars = async () => {
+    const contract = await getRepaymentContractReadOnly();
+    if (!contract) {
+      setRows([]);
+      return;
+    }
+    const stored = await contract.getCalendarCropTypes();
+    const names = [...stored, ...cropTypes.filter(crop => !stored.includes(crop))];
+    setRows(await Promise.all(names.map(async cropType => {
+      const calendar = await contract.getCropCalendar(cropType);
+      return { cropType, growingDays: Number(calendar.growingDays), saleDays: Number(calendar.saleDays) };
+    })));
+  };
+
+  useEffect(() => {
+    loadCalendars().catch(e => console.error("Error loading crop calendars:", e));
+  }, [cropTypes]);
+
+  const updateRow = (index: number, changes: Partial<CalendarRow>) =>
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const save = async (row: CalendarRow) => {
+    setBusy(`Saving the ${row.cropType} calendar...`);
+    setError("");
+    try {
+      const contract = await getRepaymentContractWithSigner();
+      await (await contract.setCropCalendar(row.cropType, { growingDays: row.growingDays, saleDays: row.saleDays })).wait();
+      setNewRow(emptyRow);
+      await loadCalendars();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Unknown error");
+    } finally {
+      setBusy("");
+    }
+  };
+
+  return (
+    <div className="dashboard-card nature-card">
+      <h3>Crop Calendars</h3>
+      <p>Days from planting to harvest, and from harvest to the balloon payment, for harvest-linked loans.</p>
+      <table className="crop-calendar-table">
+        <thead>
+          <tr>
+            <th>Crop</th>
+            <th>Growing days</th>
+            <th>Sale days</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, i) => (
+            <tr key={row.cropType}>
+              <td>{row.cropType}{row.growingDays === 0 && " (not set)"}</td>
+              <td>
+                <input
+                  type="number"
+                  min={1}
+                  value={row.growingDays}
+                  onChange={e => updateRow(i, { growingDays: Number(e.target.value) })}
+                  className="nature-input"
+                />
+              </td>
+              <td>
+                <input
+                  type="number"
+                  min={0}
+                  value={row.saleDays}
+                  onChange={e => updateRow(i, { saleDays: Number(e.target.value) })}
+                  className="nature-input"
+                />
+              </td>
+              <td>
+                <button className="nature-button" onClick={() => save(row)} disabled={!!busy || row.growingDays <= 0}>
+                  Save
+                </button>
+              </td>
+            </tr>
+          ))}
+          <tr>
+            <td>
+              <input
+                type="text"
+                value={newRow.cropType}
+                onChange={e => setNewRow({ ...newRow, cropType: e.target.value.trim() })}
+                placeholder="Other crop"
+                className="nature-input"
+              />
+            </td>
+            <td>
+              <input
+                type="number"
+                min={1}
+                value={newRow.growingDays}
+                onChange={e => setNewRow({ ...newRow, growingDays: Number(e.target.value) })}
+                className="nature-input"
+              />
+            </td>
+            <td>
+              <input
+                type="number"
+                min={0}
+                value={newRow.saleDays}
+                onChange={e => setNewRow({ ...newRow, saleDays: Number(e.target.value) })}
+                className="nature-input"
+              />
+            </td>
+            <td>
+              <button
+                className="nature-button"
+                onClick={() => save(newRow)}
+                disabled={!!busy || !newRow.cropType || newRow.growingDays <= 0}
+              >
+                Add
+              </button>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+      {busy && <p className="fhe-note">{busy}</p>}
+      {error && <p className="import-error-message">{error}</p>}
+    </div>
+  );
+};
+
+export default CropCalendarEditor;
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from "react";
+import { getEscrowContractReadOnly, getEscrowContractWithSigner, getEscrowToken } from "../contract";
+import { ensureAllowance, formatTokenAmount, loadTokenInfo, loadWalletState, parseTokenAmount } from "../escrow";
+import type { TokenInfo, WalletTokenState } from "../escrow";
+
+interface EscrowFundingCardProps {
+  account: string;
+}
+
+// The connected lender's stablecoin in the wallet and in the escrow, with
+// forms to move it between the two. Funding asks for an allowance first
+// when the current one does not cover the amount.
+const EscrowFundingCard: React.FC<EscrowFundingCardProps> = ({ account }) => {
+  const [info, setInfo] = useState<TokenInfo | null>(null);
+  const [wallet, setWallet] = useState<WalletTokenState | null>(null);
+  const [share, setShare] = useState(0n);
+  const [amount, setAmount] = useState("");
+  const [busy, setBusy] = useState("");
+  const [error, setError] = useState("");
+
+  const loadBalances = async () => {
+    const escrow = await getEscrowContractReadOnly();
+    if (!escrow) {
+      setInfo(null);
+      return;
+    }
+    const token = await getEscrowToken(escrow);
+    setInfo(await loadTokenInfo(token));
+    setWallet(await loadWalletState(token, account, await escrow.getAddress()));
+    setShare(await escrow.lenderBalances(account));
+  };
+
+  useEffect(() => {
+    loadBalances().catch(e => console.error("Error loading escrow balances:", e));
+  }, [account]);
+
+  const run = async (label: string, action: (tokenInfo: TokenInfo) => Promise<void>) => {
+    if (!info) return;
+    setBusy(label);
+    setError("");
+    try {
+      await action(info);
+      setAmount("");
+      await loadBalances();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Unknown error");
+    } finally {
+      setBusy("");
+    }
+  };
+
+  const fund = () => run("Funding the escrow...", async tokenInfo => {
+    const value = parseTokenAmount(amount, tokenInfo);
+    const escrow = await getEscrowContractWithSigner();
+    await ensureAllowance(await getEscrowToken(escrow), account, await escrow.getAddress(), value, tokenInfo, setBusy);
+    setBusy("Funding the escrow...");
+    await (await escrow.fund(value)).wait();
+  });
+
+  const withdraw = () => run("Withdrawing from the escrow...", async tokenInfo => {
+    const value = parseTokenAmount(amount, tokenInfo);
+    if (value > share) {
+      throw new Error(`Your escrow share is ${formatTokenAmount(share, tokenInfo)}`);
+    }
+    await (await (await getEscrowContractWithSigner()).withdraw(value)).wait();
+  });
+
+  if (!info) return null;
+
+  return (
+    <div className="dashboard-card nature-card">
+      <h3>Stablecoin Escrow</h3>
+      <p>Fund the escrow to pay disbursed loans out in {info.symbol}; repayments come straight back to your wallet.</p>
+      <div className="stats-grid">
+        <div className="stat-item">
+          <div className="stat-value">{wallet ? formatTokenAmount(wallet.balance, info) : "—"}</div>
+          <div className="stat-label">Wallet</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{formatTokenAmount(share, info)}</div>
+          <div className="stat-label">In Escrow</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{wallet ? formatTokenAmount(wallet.allowance, info) : "—"}</div>
+          <div className="stat-label">Allowance</div>
+        </div>
+      </div>
+      <div className="escrow-form">
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={amount}
+          onChange={e => setAmount(e.target.value)}
+          placeholder={`Amount in ${info.symbol}`}
+          className="nature-input"
+        />
+        <button className="nature-button primary" onClick={fund} disabled={!!busy || !amount}>
+          Fund
+        </button>
+        <button className="nature-button" onClick={withdraw} disabled={!!busy || !amount || share === 0n}>
+          Withdraw
+        </button>
+      </div>
+      {busy && <p className="fhe-note">{busy}</p>}
+      {error && <p className="import-error-message">{error}</p>}
+    </div>
+  );
+};
+
+export default EscrowFundingCard;
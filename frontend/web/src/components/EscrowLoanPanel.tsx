@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import {
+  getEscrowContractReadOnly,
+  getEscrowContractWithSigner,
+  getEscrowToken,
+  getRepaymentContractReadOnly
+} from "../contract";
+import { ensureAllowance, formatTokenAmount, loadTokenInfo, loadWalletState, parseTokenAmount } from "../escrow";
+import type { TokenInfo, WalletTokenState } from "../escrow";
+
+interface EscrowLoanPanelProps {
+  applicationId: string;
+  account: string;
+  // The publicly revealed loan amount in dollars; the escrow only pays out revealed loans.
+  revealedAmount: number | null;
+  canPayOut: boolean;
+  canRepay: boolean;
+}
+
+// Amounts in token units; lender is the zero address until the loan is paid out.
+interface EscrowLoanValues {
+  lender: string;
+  amount: bigint;
+  repaid: bigint;
+}
+
+const remainingOf = (values: EscrowLoanValues) => values.amount - values.repaid;
+
+// Stablecoin paid out for a loan and returned on it through LoanEscrow. The
+// lender pays a disbursed loan out of their escrow share; the applicant
+// returns the principal from their wallet, approving the escrow first when
+// needed. Interest is settled on the repayment schedule, which the escrow
+// does not update. Loans LoanRepayment paid in the confidential token have
+// no escrow payments.
+const EscrowLoanPanel: React.FC<EscrowLoanPanelProps> = ({
+  applicationId,
+  account,
+  revealedAmount,
+  canPayOut,
+  canRepay
+}) => {
+  const [info, setInfo] = useState<TokenInfo | null>(null);
+  const [loan, setLoan] = useState<EscrowLoanValues | null>(null);
+  const [wallet, setWallet] = useState<WalletTokenState | null>(null);
+  const [paidWithToken, setPaidWithToken] = useState(false);
+  const [repayAmount, setRepayAmount] = useState("");
+  const [busy, setBusy] = useState("");
+  const [error, setError] = useState("");
+
+  const loadLoan = async () => {
+    const escrow = await getEscrowContractReadOnly();
+    if (!escrow) {
+      setInfo(null);
+      return;
+    }
+    const repayment = await getRepaymentContractReadOnly();
+    setPaidWithToken(!!repayment && (await repayment.paidWithToken(applicationId)));
+    const token = await getEscrowToken(escrow);
+    setInfo(await loadTokenInfo(token));
+    const stored = await escrow.loans(applicationId);
+    setLoan({ lender: stored.lender, amount: stored.amount, repaid: stored.repaid });
+    if (canRepay) {
+      setWallet(await loadWalletState(token, account, await escrow.getAddress()));
+    }
+  };
+
+  useEffect(() => {
+    loadLoan().catch(e => console.error("Error loading escrow loan:", e));
+  }, [applicationId, account, canRepay]);
+
+  const run = async (label: string, action: (tokenInfo: TokenInfo) => Promise<void>) => {
+    if (!info) return;
+    setBusy(label);
+    setError("");
+    try {
+      await action(info);
+      await loadLoan();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Unknown error");
+    } finally {
+      setBusy("");
+    }
+  };
+
+  const payOut = () => run("Paying the loan out...", async () => {
+    await (await (await getEscrowContractWithSigner()).payOut(applicationId)).wait();
+  });
+
+  const repay = () => run("Returning principal...", async tokenInfo => {
+    const value = parseTokenAmount(repayAmount, tokenInfo);
+    // LoanEscrow rejects repayments beyond the amount paid out.
+    if (loan && value > remainingOf(loan)) {
+      throw new Error(`Only ${formatTokenAmount(remainingOf(loan), tokenInfo)} of principal is left to return`);
+    }
+    const escrow = await getEscrowContractWithSigner();
+    await ensureAllowance(await getEscrowToken(escrow), account, await escrow.getAddress(), value, tokenInfo, setBusy);
+    setBusy("Returning principal...");
+    await (await escrow.repay(applicationId, value)).wait();
+    setRepayAmount("");
+  });
+
+  if (!info || !loan || paidWithToken) return null;
+  const paidOut = loan.lender !== ethers.ZeroAddress;
+  const remaining = remainingOf(loan);
+  if (!paidOut && !canPayOut) return null;
+
+  return (
+    <div className="detail-row full">
+      <span className="detail-label">Stablecoin Escrow:</span>
+      {paidOut ? (
+        <p className="fhe-note">
+          {formatTokenAmount(loan.amount, info)} paid out by {loan.lender.substring(0, 6)}...{loan.lender.substring(38)};{" "}
+          {formatTokenAmount(loan.repaid, info)} of principal returned, {formatTokenAmount(remaining, info)} left
+        </p>
+      ) : revealedAmount === null ? (
+        <p className="fhe-note">The applicant must reveal the loan amount before it can be paid out in {info.symbol}</p>
+      ) : (
+        <button className="action-btn nature-button primary" onClick={payOut} disabled={!!busy}>
+          Pay Out ${revealedAmount.toLocaleString()} in {info.symbol}
+        </button>
+      )}
+      {paidOut && canRepay && remaining > 0n && (
+        <div className="form-grid">
+          <div className="form-group">
+            <label>Return principal in {info.symbol}</label>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={repayAmount}
+              onChange={e => setRepayAmount(e.target.value)}
+              className="nature-input"
+            />
+          </div>
+          {wallet && (
+            <p className="fhe-note">
+              Wallet {formatTokenAmount(wallet.balance, info)}, escrow allowance {formatTokenAmount(wallet.allowance, info)}
+            </p>
+          )}
+          <p className="fhe-note">
+            This returns principal only; interest and instalments are tracked on the repayment schedule, which it does not update.
+          </p>
+          <button className="action-btn nature-button primary" onClick={repay} disabled={!!busy || !repayAmount}>
+            Return Principal
+          </button>
+        </div>
+      )}
+      {busy && <p className="fhe-note">{busy}</p>}
+      {error && <p className="import-error-message">{error}</p>}
+    </div>
+  );
+};
+
+export default EscrowLoanPanel;
@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from "react";
+import {
+  AREA_UNITS,
+  guessImportSettings,
+  IMPORT_FIELDS,
+  mapImportedRows,
+  readFarmRecordFile,
+  YIELD_UNITS
+} from "../farmRecordImport";
+import type {
+  AreaUnit,
+  DateOrder,
+  ImportField,
+  ImportSettings,
+  ImportTable,
+  PlantingSeasonRow,
+  YieldUnit
+} from "../farmRecordImport";
+
+interface FarmRecordImporterProps {
+  cropTypes: string[];
+  maxSeasons: number;
+  onImport: (rows: PlantingSeasonRow[]) => void;
+  onClose: () => void;
+}
+
+// Maps the columns of a CSV or XLSX log onto planting seasons and previews
+// them; nothing is sent anywhere until the application itself is encrypted.
+const FarmRecordImporter: React.FC<FarmRecordImporterProps> = ({ cropTypes, maxSeasons, onImport, onClose }) => {
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [settings, setSettings] = useState<ImportSettings | null>(null);
+  const [error, setError] = useState("");
+  const [reading, setReading] = useState(false);
+
+  const imported = useMemo(
+    () => (table && settings ? mapImportedRows(table, settings, cropTypes) : []),
+    [table, settings, cropTypes]
+  );
+  const ready = imported.flatMap(row => (row.season ? [row.season] : []));
+  // The contract keeps a bounded history, so only the latest seasons fit.
+  const seasons = [...ready].sort((a, b) => a.plantedAt.localeCompare(b.plantedAt)).slice(-maxSeasons);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setReading(true);
+    setError("");
+    setFileName(file.name);
+    try {
+      const read = await readFarmRecordFile(file);
+      setTable(read);
+      setSettings(guessImportSettings(read.headers));
+    } catch (err: any) {
+      setTable(null);
+      setSettings(null);
+      setError(`Could not read ${file.name}: ${err.message || "unknown error"}`);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const setColumn = (field: ImportField, value: string) => {
+    if (!settings) return;
+    setSettings({ ...settings, mapping: { ...settings.mapping, [field]: value === "" ? null : Number(value) } });
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal import-modal nature-card">
+        <div className="modal-header">
+          <h2>Import Farm Records</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="privacy-notice">
+            <div className="lock-icon"></div> The file is read in your browser and never uploaded
+          </div>
+
+          <div className="form-group import-file">
+            <label>CSV or Excel (.xlsx) file</label>
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,.xlsx"
+              onChange={handleFile}
+              className="nature-input"
+            />
+          </div>
+
+          {reading && <p className="fhe-note">Reading {fileName}...</p>}
+          {error && <p className="import-error-message">{error}</p>}
+
+          {table && settings && (
+            <>
+              <h3 className="import-section-title">Columns</h3>
+              <div className="form-grid">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div className="form-group" key={field}>
+                    <label>{label}{required ? " *" : ""}</label>
+                    <select
+                      value={settings.mapping[field] ?? ""}
+                      onChange={e => setColumn(field, e.target.value)}
+                      className="nature-select"
+                    >
+                      <option value="">{field === "season" ? "From planting year" : "Not in file"}</option>
+                      {table.headers.map((header, i) => (
+                        <option key={i} value={i}>{header || `Column ${i + 1}`}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+
+                <div className="form-group">
+                  <label>Area unit</label>
+                  <select
+                    value={settings.areaUnit}
+                    onChange={e => setSettings({ ...settings, areaUnit: e.target.value as AreaUnit })}
+                    className="nature-select"
+                  >
+                    {Object.keys(AREA_UNITS).map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                  </select>
+                </div>
+
+                <div className="form-group">
+                  <label>Yield unit</label>
+                  <select
+                    value={settings.yieldUnit}
+                    onChange={e => setSettings({ ...settings, yieldUnit: e.target.value as YieldUnit })}
+                    className="nature-select"
+                  >
+                    {Object.keys(YIELD_UNITS).map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                  </select>
+                </div>
+
+                <div className="form-group">
+                  <label>Dates like 03/04/2024</label>
+                  <select
+                    value={settings.dateOrder}
+                    onChange={e => setSettings({ ...settings, dateOrder: e.target.value as DateOrder })}
+                    className="nature-select"
+                  >
+                    <option value="dmy">Day/Month/Year</option>
+                    <option value="mdy">Month/Day/Year</option>
+                  </select>
+                </div>
+              </div>
+
+              <h3 className="import-section-title">Preview</h3>
+              <div className="import-preview">
+                <table className="planting-history-table">
+                  <thead>
+                    <tr>
+                      <th>Row</th>
+                      <th>Season</th>
+                      <th>Crop</th>
+                      <th>Area (ha)</th>
+                      <th>Planted</th>
+                      <th>Harvested</th>
+                      <th>Yield (kg/ha)</th>
+                      <th>Issues</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {imported.map(row => (
+                      <tr
+                        key={row.row}
+                        className={row.errors.length > 0 ? "import-error" : row.warnings.length > 0 ? "import-warning" : ""}
+                      >
+                        <td>{row.row}</td>
+                        <td>{row.season?.season ?? "—"}</td>
+                        <td>{row.season?.cropType ?? "—"}</td>
+                        <td>{row.season?.area ?? "—"}</td>
+                        <td>{row.season?.plantedAt ?? "—"}</td>
+                        <td>{row.season?.harvestedAt ?? "—"}</td>
+                        <td>{row.season?.realisedYield ?? "—"}</td>
+                        <td>{[...row.errors, ...row.warnings].join("; ")}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="fhe-note">
+                {ready.length} of {imported.length} rows ready
+                {ready.length > maxSeasons && `; only the ${maxSeasons} most recent seasons will be imported`}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn nature-button">
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(seasons)}
+            disabled={seasons.length === 0}
+            className="submit-btn nature-button primary"
+          >
+            Import {seasons.length} {seasons.length === 1 ? "Season" : "Seasons"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FarmRecordImporter;
@@ -0,0 +1,410 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import type { LoanRepayment } from "../../../../types";
+import { getRepaymentContractReadOnly, getRepaymentContractWithSigner } from "../contract";
+import { encryptRepayment, userDecryptHandles } from "../encryption";
+import { ensureLoanPaymentOperator } from "../loanPayments";
+import {
+  buildTimeline,
+  evenDueDates,
+  harvestDates,
+  latestPlantingDate,
+  MAX_GRACE_PERIOD_DAYS,
+  MAX_INSTALMENTS,
+  monthOf,
+  MONTHS,
+  REPAYMENT_MODES
+} from "../repaymentSchedule";
+import type { CropCalendar, InstalmentState, RepaymentBalanceValues, RepaymentMode, RepaymentScheduleValues } from "../repaymentSchedule";
+
+interface RepaymentTimelineProps {
+  applicationId: string;
+  account: string;
+  // Picks the crop calendar for a harvest balloon.
+  cropType: string;
+  // The decrypted loan amount, to project instalments before the balance is decrypted.
+  loanAmount: number | null;
+  canSchedule: boolean;
+  canRepay: boolean;
+  canDecrypt: boolean;
+  // Reviewers other than the disbursing lender must request access to the balance first.
+  isReviewer: boolean;
+}
+
+const STATE_LABELS: Record<InstalmentState, string> = {
+  upcoming: "Upcoming",
+  grace: "Harvest grace",
+  overdue: "Overdue",
+  covered: "Covered"
+};
+
+const emptyScheduleForm = {
+  mode: "instalments" as RepaymentMode,
+  plantedAt: "",
+  instalments: 6,
+  firstDueDate: "",
+  intervalDays: 30,
+  interestRatePercent: 8,
+  harvestMonth: 0,
+  gracePeriodDays: 0
+};
+
+const formatAmount = (value: number | null) => (value === null ? "Encrypted" : `$${value.toLocaleString()}`);
+const formatDate = (seconds: number) => new Date(seconds * 1000).toLocaleDateString();
+
+// The repayment schedule of a loan as an amortisation timeline. Lenders set
+// the schedule before disbursal, either as instalments or as a harvest
+// balloon dated from the crop calendar; the applicant repays against the
+// encrypted outstanding balance, which only shows once decrypted privately.
+const RepaymentTimeline: React.FC<RepaymentTimelineProps> = ({
+  applicationId,
+  account,
+  cropType,
+  loanAmount,
+  canSchedule,
+  canRepay,
+  canDecrypt,
+  isReviewer
+}) => {
+  const [schedule, setSchedule] = useState<RepaymentScheduleValues | null>(null);
+  const [checkedAt, setCheckedAt] = useState(0);
+  const [balance, setBalance] = useState<RepaymentBalanceValues | null>(null);
+  const [calendar, setCalendar] = useState<CropCalendar | null>(null);
+  const [paysWithToken, setPaysWithToken] = useState(false);
+  const [lender, setLender] = useState("");
+  const [form, setForm] = useState(emptyScheduleForm);
+  const [repayAmount, setRepayAmount] = useState(0);
+  const [busy, setBusy] = useState("");
+  const [error, setError] = useState("");
+
+  const loadSchedule = async () => {
+    const contract = await getRepaymentContractReadOnly();
+    if (!contract) {
+      setSchedule(null);
+      return;
+    }
+    const stored = await contract.getRepaymentSchedule(applicationId);
+    setPaysWithToken((await contract.token()) !== ethers.ZeroAddress);
+    setCheckedAt(Number(stored.checkedAt));
+    setLender(stored.lender);
+    setSchedule(stored.dueDates.length === 0 ? null : {
+      mode: REPAYMENT_MODES[Number(stored.mode)],
+      dueDates: stored.dueDates.map(Number),
+      interestRateBps: Number(stored.interestRateBps),
+      harvestMonth: Number(stored.harvestMonth),
+      gracePeriodDays: Number(stored.gracePeriodDays),
+      plantedAt: Number(stored.plantedAt),
+      disbursedAt: Number(stored.disbursedAt),
+      fundedAt: Number(stored.fundedAt)
+    });
+  };
+
+  // An unset calendar reads as zero growing days.
+  const loadCalendar = async () => {
+    const contract = await getRepaymentContractReadOnly();
+    const stored = contract ? await contract.getCropCalendar(cropType) : null;
+    setCalendar(stored && stored.growingDays !== 0n
+      ? { growingDays: Number(stored.growingDays), saleDays: Number(stored.saleDays) }
+      : null);
+  };
+
+  useEffect(() => {
+    setBalance(null);
+    loadSchedule().catch(e => console.error("Error loading repayment schedule:", e));
+  }, [applicationId, account]);
+
+  useEffect(() => {
+    if (canSchedule) {
+      loadCalendar().catch(e => console.error("Error loading crop calendar:", e));
+    }
+  }, [cropType, canSchedule]);
+
+  const run = async (label: string, action: (contract: LoanRepayment) => Promise<void>) => {
+    setBusy(label);
+    setError("");
+    try {
+      await action(await getRepaymentContractWithSigner());
+      await loadSchedule();
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Transaction rejected by user" : e.shortMessage || e.message || "Unknown error");
+    } finally {
+      setBusy("");
+    }
+  };
+
+  const saveSchedule = () => run("Saving schedule...", async contract => {
+    const interestRateBps = Math.round(form.interestRatePercent * 100);
+    if (form.mode === "harvest") {
+      const plantedAt = Math.floor(Date.parse(form.plantedAt) / 1000);
+      if (!Number.isFinite(plantedAt)) {
+        throw new Error("Pick the planting date");
+      }
+      // setHarvestRepaymentSchedule takes a crop not yet due for harvest, planted at most one season ahead.
+      const now = Math.floor(Date.now() / 1000);
+      if (calendar && (plantedAt > latestPlantingDate(now, calendar) || harvestDates(plantedAt, calendar).harvestAt <= now)) {
+        throw new Error(`Pick a planting date in the current or next ${cropType} season`);
+      }
+      await (await contract.setHarvestRepaymentSchedule(applicationId, plantedAt, interestRateBps, form.gracePeriodDays)).wait();
+      return;
+    }
+
+    const firstDueDate = Math.floor(Date.parse(form.firstDueDate) / 1000);
+    if (!Number.isFinite(firstDueDate)) {
+      throw new Error("Pick the first due date");
+    }
+    await (await contract.setRepaymentSchedule(applicationId, {
+      dueDates: evenDueDates(firstDueDate, form.instalments, form.intervalDays),
+      interestRateBps,
+      harvestMonth: form.harvestMonth,
+      gracePeriodDays: form.harvestMonth === 0 ? 0 : form.gracePeriodDays
+    })).wait();
+  });
+
+  const decryptBalance = () => run("Decrypting balance...", async contract => {
+    if (isReviewer) {
+      setBusy("Requesting reviewer access to the balance...");
+      await (await contract.allowRepaymentData(applicationId)).wait();
+    }
+    setBusy("Sign the decryption request in your wallet...");
+    const encrypted = await contract.getEncryptedRepaymentBalance(applicationId);
+    // The late flag is unset (a zero handle) until the first late-payment check.
+    const handles = [encrypted.principal, encrypted.outstanding, encrypted.repaid, encrypted.late]
+      .filter(handle => handle !== ethers.ZeroHash);
+    const signer = await new ethers.BrowserProvider((window as any).ethereum).getSigner();
+    const values = await userDecryptHandles(signer, await contract.getAddress(), handles);
+    setBalance({
+      principal: Number(values[encrypted.principal]),
+      outstanding: Number(values[encrypted.outstanding]),
+      repaid: Number(values[encrypted.repaid]),
+      late: encrypted.late === ethers.ZeroHash ? null : values[encrypted.late] !== 0n
+    });
+  });
+
+  const repay = () => run("Encrypting repayment...", async contract => {
+    if (paysWithToken) {
+      await ensureLoanPaymentOperator(account, setBusy);
+      setBusy("Encrypting repayment...");
+    }
+    const encrypted = await encryptRepayment(await contract.getAddress(), ethers.getAddress(account), repayAmount, setBusy);
+    setBusy("Repaying...");
+    await (await contract.repay(applicationId, encrypted.encryptedAmount, encrypted.inputProof)).wait();
+    setRepayAmount(0);
+    setBalance(null);
+  });
+
+  // Pays the loan amount again after the disbursing lender's balance fell
+  // short; the schedule starts once the oracle confirms the payment.
+  const retryDisbursal = () => run("Retrying disbursal...", async contract => {
+    await ensureLoanPaymentOperator(account, setBusy);
+    setBusy("Retrying disbursal...");
+    await (await contract.retryDisbursal(applicationId)).wait();
+    setBalance(null);
+  });
+
+  const checkLatePayment = () => run("Checking late payments...", async contract => {
+    await (await contract.checkLatePayment(applicationId)).wait();
+    setBalance(null);
+  });
+
+  if (!schedule && !canSchedule) return null;
+
+  const started = !!schedule && schedule.disbursedAt !== 0;
+  const funded = started && schedule.fundedAt !== 0;
+  const isDisbursingLender = !!lender && !!account && lender.toLowerCase() === account.toLowerCase();
+  const timeline = schedule ? buildTimeline(schedule, Math.floor(Date.now() / 1000), loanAmount, balance ?? undefined) : [];
+  const plantedAt = Math.floor(Date.parse(form.plantedAt) / 1000);
+  const preview = calendar && Number.isFinite(plantedAt) ? harvestDates(plantedAt, calendar) : null;
+
+  return (
+    <div className="detail-row full">
+      <span className="detail-label">Repayment Schedule:</span>
+      {schedule ? (
+        <>
+          <p className="fhe-note">
+            {schedule.interestRateBps / 100}% simple interest a year
+            {schedule.mode === "harvest"
+              ? `; planted ${formatDate(schedule.plantedAt)}, harvest expected in ${MONTHS[schedule.harvestMonth - 1]}, one balloon payment with ${schedule.gracePeriodDays} days' grace`
+              : schedule.harvestMonth !== 0 && `; instalments due in ${MONTHS[schedule.harvestMonth - 1]} get ${schedule.gracePeriodDays} days' grace`}
+            {started ? `; disbursed ${formatDate(schedule.disbursedAt)}` : "; starts on disbursal"}
+          </p>
+          {paysWithToken && (canSchedule || canRepay) && (
+            <p className="fhe-note">
+              The loan amount and repayments move as encrypted token transfers; disbursing and repaying first ask you to authorize loan payments if you have not.
+            </p>
+          )}
+          <ol className="repayment-timeline">
+            {timeline.map(instalment => (
+              <li key={instalment.number} className={`repayment-instalment ${instalment.state}`}>
+                <span className="repayment-date">{formatDate(instalment.dueDate)}</span>
+                <span>
+                  {schedule.mode === "harvest" ? "Balloon payment" : `Instalment ${instalment.number} of ${timeline.length}`}: {formatAmount(instalment.principalDue)} principal
+                  {instalment.interestDue !== null && ` + $${instalment.interestDue.toLocaleString()} interest`}
+                </span>
+                <span>Balance after: {formatAmount(instalment.scheduledBalance)}</span>
+                {started && <span className={`repayment-state ${instalment.state}`}>{STATE_LABELS[instalment.state]}</span>}
+              </li>
+            ))}
+          </ol>
+          {balance && (
+            <div className={`repayment-balance ${balance.late ? "late" : ""}`}>
+              Outstanding ${balance.outstanding.toLocaleString()} of ${balance.principal.toLocaleString()} principal,
+              ${balance.repaid.toLocaleString()} repaid
+              {balance.late !== null && ` — ${balance.late ? "late" : "on schedule"} at the check on ${formatDate(checkedAt)}`}
+            </div>
+          )}
+          {started && !funded && (
+            <p className="fhe-note">
+              Waiting for the decryption oracle to confirm the loan amount reached the applicant. If the lender's balance fell short, nothing moved: repayments and late checks stay closed until the lender retries with enough funds.
+            </p>
+          )}
+          {started && (
+            <div className="repayment-actions">
+              {canDecrypt && (
+                <button className="action-btn nature-button" onClick={decryptBalance} disabled={!!busy}>
+                  Decrypt Balance
+                </button>
+              )}
+              {funded && (
+                <button className="action-btn nature-button" onClick={checkLatePayment} disabled={!!busy}>
+                  Check Late Payments
+                </button>
+              )}
+              {!funded && isDisbursingLender && (
+                <button className="action-btn nature-button primary" onClick={retryDisbursal} disabled={!!busy}>
+                  Retry Disbursal
+                </button>
+              )}
+            </div>
+          )}
+          {funded && canRepay && (
+            <div className="form-grid">
+              <div className="form-group">
+                <label>Repayment amount</label>
+                <input
+                  type="number"
+                  value={repayAmount}
+                  onChange={e => setRepayAmount(Number(e.target.value))}
+                  className="nature-input"
+                />
+              </div>
+              <button className="action-btn nature-button primary" onClick={repay} disabled={!!busy || repayAmount <= 0}>
+                Repay
+              </button>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="fhe-note">No repayment schedule; the loan will not be tracked after disbursal</p>
+      )}
+
+      {canSchedule && (
+        <div className="form-grid">
+          <div className="form-group">
+            <label>Repayment mode</label>
+            <select
+              value={form.mode}
+              onChange={e => setForm({ ...form, mode: e.target.value as RepaymentMode })}
+              className="nature-select"
+            >
+              <option value="instalments">Instalments</option>
+              <option value="harvest" disabled={!calendar}>Harvest balloon</option>
+            </select>
+          </div>
+          {form.mode === "harvest" ? (
+            <div className="form-group">
+              <label>Planting date</label>
+              <input
+                type="date"
+                max={calendar ? new Date(latestPlantingDate(Math.floor(Date.now() / 1000), calendar) * 1000).toISOString().slice(0, 10) : undefined}
+                value={form.plantedAt}
+                onChange={e => setForm({ ...form, plantedAt: e.target.value })}
+                className="nature-input"
+              />
+            </div>
+          ) : (
+            <>
+              <div className="form-group">
+                <label>Instalments</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_INSTALMENTS}
+                  value={form.instalments}
+                  onChange={e => setForm({ ...form, instalments: Number(e.target.value) })}
+                  className="nature-input"
+                />
+              </div>
+              <div className="form-group">
+                <label>First due date</label>
+                <input
+                  type="date"
+                  value={form.firstDueDate}
+                  onChange={e => setForm({ ...form, firstDueDate: e.target.value })}
+                  className="nature-input"
+                />
+              </div>
+              <div className="form-group">
+                <label>Days between instalments</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.intervalDays}
+                  onChange={e => setForm({ ...form, intervalDays: Number(e.target.value) })}
+                  className="nature-input"
+                />
+              </div>
+            </>
+          )}
+          <div className="form-group">
+            <label>Interest rate (% a year)</label>
+            <input
+              type="number"
+              step="0.01"
+              value={form.interestRatePercent}
+              onChange={e => setForm({ ...form, interestRatePercent: Number(e.target.value) })}
+              className="nature-input"
+            />
+          </div>
+          {form.mode === "instalments" && (
+            <div className="form-group">
+              <label>Harvest month</label>
+              <select
+                value={form.harvestMonth}
+                onChange={e => setForm({ ...form, harvestMonth: Number(e.target.value) })}
+                className="nature-select"
+              >
+                <option value={0}>None</option>
+                {MONTHS.map((month, i) => <option key={month} value={i + 1}>{month}</option>)}
+              </select>
+            </div>
+          )}
+          <div className="form-group">
+            <label>Harvest grace period (days)</label>
+            <input
+              type="number"
+              min={0}
+              max={MAX_GRACE_PERIOD_DAYS}
+              value={form.gracePeriodDays}
+              disabled={form.mode === "instalments" && form.harvestMonth === 0}
+              onChange={e => setForm({ ...form, gracePeriodDays: Number(e.target.value) })}
+              className="nature-input"
+            />
+          </div>
+          {form.mode === "harvest" && calendar && (
+            <p className="fhe-note">
+              {cropType}: {calendar.growingDays} days to harvest, then {calendar.saleDays} days to sell
+              {preview && ` — harvest around ${formatDate(preview.harvestAt)} (${MONTHS[monthOf(preview.harvestAt) - 1]}), balloon due ${formatDate(preview.dueDate)}`}
+            </p>
+          )}
+          <button className="action-btn nature-button primary" onClick={saveSchedule} disabled={!!busy}>
+            {schedule ? "Replace Schedule" : "Set Schedule"}
+          </button>
+        </div>
+      )}
+      {busy && <p className="fhe-note">{busy}</p>}
+      {error && <p className="import-error-message">{error}</p>}
+    </div>
+  );
+};
+
+export default RepaymentTimeline;
@@ -1,87 +1,190 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import type { AgriFinanceFHE, ConfidentialToken, IERC20, LoanEscrow, LoanRepayment } from "../../../types";
+import abiJson from "./abi/AgriFinanceFHE.json";
+import confidentialTokenAbiJson from "./abi/ConfidentialToken.json";
+import tokenAbiJson from "./abi/IERC20.json";
+import escrowAbiJson from "./abi/LoanEscrow.json";
+import repaymentAbiJson from "./abi/LoanRepayment.json";
+import legacyAbiJson from "./abi/UniversalAdapter.json";
+import { RpcProviderPool } from "./providerPool";
+import { getContractDeployment, getNetworkDeployment, registry } from "./registry";
+import type { ContractDeployment, ContractName, NetworkDeployment } from "./registry";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const REPAYMENT_ABI = (repaymentAbiJson as any).abi || repaymentAbiJson;
+export const ESCROW_ABI = (escrowAbiJson as any).abi || escrowAbiJson;
+export const TOKEN_ABI = (tokenAbiJson as any).abi || tokenAbiJson;
+export const CONFIDENTIAL_TOKEN_ABI = (confidentialTokenAbiJson as any).abi || confidentialTokenAbiJson;
+export const LEGACY_ABI = (legacyAbiJson as any).abi || legacyAbiJson;
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
+// Comma-separated endpoints in VITE_RPC_URLS_<chainId> are tried ahead of
+// the ones in the registry, e.g. to use a keyed provider without committing it.
+const getRpcUrls = (chainId: number, network: NetworkDeployment): string[] => {
+  const configured: string = import.meta.env[`VITE_RPC_URLS_${chainId}`] ?? "";
+  return [
+    ...configured.split(",").map(url => url.trim()).filter(Boolean),
+    network.rpcUrl,
+    ...(network.fallbackRpcUrls ?? [])
+  ];
+};
+
+const providerPools = new Map<number, RpcProviderPool>();
+
+const getReadProvider = (chainId: number, network: NetworkDeployment) => {
+  let pool = providerPools.get(chainId);
+  if (!pool) {
+    pool = new RpcProviderPool(getRpcUrls(chainId, network), chainId);
+    providerPools.set(chainId, pool);
+  }
+  return pool.provider;
+};
+
+/**
+ * The chain the injected wallet is on, or the registry's default chain when
+ * no wallet is available.
+ */
+export async function getActiveChainId(): Promise<number> {
+  const ethereum = (window as any).ethereum;
+  if (!ethereum) return registry.defaultChainId;
   try {
-    return await fn();
-  } catch (e) {
-    if (retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retry(fn, retries - 1, delay * 2);
-    }
-    throw e;
+    return Number(await ethereum.request({ method: "eth_chainId" }));
+  } catch (error) {
+    console.warn("Could not read the wallet chain, using the default chain:", error);
+    return registry.defaultChainId;
+  }
+}
+
+// Warns when the bundled ABI no longer matches the one recorded at deployment.
+const checkAbiHash = (name: ContractName, deployment: ContractDeployment, abi: any) => {
+  if (deployment.abiHash && ethers.id(JSON.stringify(abi)) !== deployment.abiHash) {
+    console.warn(`${name} ABI differs from the deployed version; re-run the deploy export`);
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
+const getReadOnly = async (name: ContractName, abi: any) => {
+  const chainId = await getActiveChainId();
+  const network = getNetworkDeployment(chainId);
+  const deployment = getContractDeployment(chainId, name);
+  if (!network || !deployment) {
+    console.warn(`No ${name} deployment registered for chain ${chainId}`);
+    return null;
+  }
+  checkAbiHash(name, deployment, abi);
   
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      console.log(`Connected to RPC ${url}, block: ${blockNumber}`);
-      return provider;
-    } catch (error) {
-      console.warn(`RPC ${url} failed: ${error.message}`);
-    }
+  const provider = getReadProvider(chainId, network);
+  const code = await provider.getCode(deployment.address);
+  if (code === "0x") {
+    return null;
   }
   
-  throw new Error("All RPC providers failed");
+  return new ethers.Contract(deployment.address, abi, provider);
 };
 
-export async function getContractReadOnly() {
+export async function getContractReadOnly(): Promise<AgriFinanceFHE | null> {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
-    if (code === "0x") {
-      return null;
-    }
-    
-    return contract;
+    return (await getReadOnly("AgriFinanceFHE", ABI)) as unknown as AgriFinanceFHE | null;
   } catch (error) {
     console.error("Failed to create read-only contract:", error);
     return null;
   }
 }
 
-export async function getContractWithSigner() {
+const getWithSigner = async (name: ContractName, abi: any) => {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const deployment = getContractDeployment(chainId, name);
+  if (!deployment) {
+    throw new Error(`${name} is not deployed on chain ${chainId}`);
+  }
+  
+  const signer = await provider.getSigner();
+  return new ethers.Contract(deployment.address, abi, signer);
+};
+
+export async function getContractWithSigner(): Promise<AgriFinanceFHE> {
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    return (await getWithSigner("AgriFinanceFHE", ABI)) as unknown as AgriFinanceFHE;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
     throw error;
   }
 }
 
+export async function getRepaymentContractReadOnly(): Promise<LoanRepayment | null> {
+  try {
+    return (await getReadOnly("LoanRepayment", REPAYMENT_ABI)) as unknown as LoanRepayment | null;
+  } catch (error) {
+    console.error("Failed to create read-only repayment contract:", error);
+    return null;
+  }
+}
+
+export async function getRepaymentContractWithSigner(): Promise<LoanRepayment> {
+  try {
+    return (await getWithSigner("LoanRepayment", REPAYMENT_ABI)) as unknown as LoanRepayment;
+  } catch (error) {
+    console.error("Failed to create repayment contract with signer:", error);
+    throw error;
+  }
+}
+
+export async function getEscrowContractReadOnly(): Promise<LoanEscrow | null> {
+  try {
+    return (await getReadOnly("LoanEscrow", ESCROW_ABI)) as unknown as LoanEscrow | null;
+  } catch (error) {
+    console.error("Failed to create read-only escrow contract:", error);
+    return null;
+  }
+}
+
+export async function getEscrowContractWithSigner(): Promise<LoanEscrow> {
+  try {
+    return (await getWithSigner("LoanEscrow", ESCROW_ABI)) as unknown as LoanEscrow;
+  } catch (error) {
+    console.error("Failed to create escrow contract with signer:", error);
+    throw error;
+  }
+}
+
+// The stablecoin an escrow holds, read or sent through the same provider or
+// signer as the escrow itself.
+export async function getEscrowToken(escrow: LoanEscrow): Promise<IERC20> {
+  return new ethers.Contract(await escrow.token(), TOKEN_ABI, escrow.runner) as unknown as IERC20;
+}
+
+export async function getConfidentialTokenReadOnly(): Promise<ConfidentialToken | null> {
+  try {
+    return (await getReadOnly("ConfidentialToken", CONFIDENTIAL_TOKEN_ABI)) as unknown as ConfidentialToken | null;
+  } catch (error) {
+    console.error("Failed to create read-only confidential token contract:", error);
+    return null;
+  }
+}
+
+export async function getConfidentialTokenWithSigner(): Promise<ConfidentialToken> {
+  try {
+    return (await getWithSigner("ConfidentialToken", CONFIDENTIAL_TOKEN_ABI)) as unknown as ConfidentialToken;
+  } catch (error) {
+    console.error("Failed to create confidential token contract with signer:", error);
+    throw error;
+  }
+}
+
+// Read-only access to the UniversalAdapter key-value store that held
+// applications before the AgriFinanceFHE migration.
+export async function getLegacyContractReadOnly() {
+  try {
+    return await getReadOnly("UniversalAdapter", LEGACY_ABI);
+  } catch (error) {
+    console.error("Failed to create legacy read-only contract:", error);
+    return null;
+  }
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
@@ -0,0 +1,151 @@
+// cooperativeBatch.ts
+// Reads a cooperative's member applications from a CSV or XLSX sheet and
+// tracks each row through batch submission.
+import { ethers } from "ethers";
+import { cellText, isEmptyRow, matchCropType, parseQuantityCell } from "./farmRecordImport";
+import type { CellValue, ImportTable } from "./farmRecordImport";
+
+const UINT32_MAX = 0xffffffff;
+
+// One member application, in the units of the single-application form.
+export interface MemberApplicationRow {
+  applicant: string;
+  cropType: string;
+  farmData: number;
+  yieldPrediction: number;
+  loanAmount: number;
+}
+
+export type BatchField = keyof MemberApplicationRow;
+
+// Column index per field, null when the sheet has no such column.
+export type BatchColumnMapping = Record<BatchField, number | null>;
+
+export const BATCH_FIELDS: { field: BatchField; label: string }[] = [
+  { field: "applicant", label: "Member address" },
+  { field: "cropType", label: "Crop" },
+  { field: "farmData", label: "Farm area (ha)" },
+  { field: "yieldPrediction", label: "Yield prediction (kg/ha)" },
+  { field: "loanAmount", label: "Loan amount" }
+];
+
+// One data row of the sheet, numbered from 1 below the header; application is null when the row has errors.
+export interface MemberRow {
+  row: number;
+  application: MemberApplicationRow | null;
+  errors: string[];
+}
+
+// Where a row is in the upload. Skipped rows were refused by a plaintext
+// check and need fixing; failed rows hit a transaction error and can be retried.
+export type BatchRowState = "pending" | "encrypting" | "submitting" | "submitted" | "skipped" | "failed";
+
+export interface BatchRowStatus {
+  state: BatchRowState;
+  applicationId?: number;
+  message?: string;
+}
+
+const HEADER_ALIASES: Record<BatchField, string[]> = {
+  applicant: ["applicant", "member", "member address", "address", "wallet", "farmer"],
+  cropType: ["crop", "crop type", "croptype", "commodity"],
+  farmData: ["farm area", "area", "farm size", "hectares", "farm data"],
+  yieldPrediction: ["yield prediction", "predicted yield", "expected yield", "yield"],
+  loanAmount: ["loan amount", "loan", "amount", "requested amount"]
+};
+
+// "Member_Address" or "Farm area (ha)" -> "member address", "farm area".
+const headerName = (header: string) =>
+  header.toLowerCase().replace(/[([][^)\]]*[)\]]/g, "").replace(/[_-]/g, " ").replace(/\s+/g, " ").trim();
+
+/** Proposes a column for each field from the header names. */
+export function guessBatchColumns(headers: string[]): BatchColumnMapping {
+  const names = headers.map(headerName);
+  const mapping = {} as BatchColumnMapping;
+  const taken = new Set<number>();
+
+  for (const { field } of BATCH_FIELDS) {
+    const aliases = HEADER_ALIASES[field];
+    let index = names.findIndex((name, i) => !taken.has(i) && aliases.includes(name));
+    if (index < 0) {
+      index = names.findIndex((name, i) => !taken.has(i) && aliases.some(alias => name.includes(alias)));
+    }
+    mapping[field] = index < 0 ? null : index;
+    if (index >= 0) taken.add(index);
+  }
+  return mapping;
+}
+
+/**
+ * Validates each sheet row as a member application. Numbers must be whole
+ * and fit in 32 bits, since they are encrypted as euint32 like the form's.
+ */
+export function mapMemberRows(table: ImportTable, mapping: BatchColumnMapping, cropTypes: string[]): MemberRow[] {
+  return table.rows.flatMap((row, i) => {
+    if (isEmptyRow(row)) return [];
+    const errors: string[] = [];
+    const cell = (field: BatchField): CellValue => (mapping[field] === null ? null : row[mapping[field]!] ?? null);
+
+    for (const { field, label } of BATCH_FIELDS) {
+      if (mapping[field] === null) errors.push(`${label} column is not mapped`);
+    }
+
+    const address = cellText(cell("applicant"));
+    if (mapping.applicant !== null && !ethers.isAddress(address)) {
+      errors.push(address ? `"${address}" is not an address` : "Member address is empty");
+    }
+
+    const cropText = cellText(cell("cropType"));
+    const cropType = matchCropType(cropText, cropTypes);
+    if (mapping.cropType !== null && !cropType) {
+      errors.push(cropText ? `Unknown crop "${cropText}"` : "Crop is empty");
+    }
+
+    const whole = (field: "farmData" | "yieldPrediction" | "loanAmount", label: string) => {
+      if (mapping[field] === null) return 0;
+      const parsed = parseQuantityCell(cell(field));
+      if (!parsed || !Number.isInteger(parsed.amount) || parsed.amount < 0 || parsed.amount > UINT32_MAX) {
+        errors.push(`${label} "${cellText(cell(field))}" is not a whole number`);
+        return 0;
+      }
+      return parsed.amount;
+    };
+    const farmData = whole("farmData", "Farm area");
+    const yieldPrediction = whole("yieldPrediction", "Yield prediction");
+    const loanAmount = whole("loanAmount", "Loan amount");
+
+    return [{
+      row: i + 1,
+      application: errors.length === 0
+        ? { applicant: ethers.getAddress(address), cropType: cropType!, farmData, yieldPrediction, loanAmount }
+        : null,
+      errors
+    }];
+  });
+}
+
+/**
+ * Reads each row's outcome from a batch receipt: BatchApplicationSubmitted
+ * and BatchApplicationSkipped carry the row's index within the batch.
+ */
+export function readBatchOutcomes(
+  iface: ethers.Interface,
+  contractAddress: string,
+  logs: readonly ethers.Log[],
+  size: number
+): BatchRowStatus[] {
+  const outcomes: BatchRowStatus[] = Array.from({ length: size }, () => ({
+    state: "failed",
+    message: "No result in the transaction receipt"
+  }));
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== contractAddress.toLowerCase()) continue;
+    const parsed = iface.parseLog(log);
+    if (parsed?.name === "BatchApplicationSubmitted") {
+      outcomes[Number(parsed.args.index)] = { state: "submitted", applicationId: Number(parsed.args.id) };
+    } else if (parsed?.name === "BatchApplicationSkipped") {
+      outcomes[Number(parsed.args.index)] = { state: "skipped", message: parsed.args.reason };
+    }
+  }
+  return outcomes;
+}
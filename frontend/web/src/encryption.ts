@@ -0,0 +1,449 @@
+// encryption.ts
+import { ethers } from "ethers";
+import { createInstance, initSDK } from "@zama-fhe/relayer-sdk/bundle";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { getActiveChainId } from "./contract";
+import { getNetworkDeployment, HARDHAT_CHAIN_ID } from "./registry";
+import type { NetworkDeployment } from "./registry";
+
+const UINT32_MAX = 0xffffffff;
+// Mirrors AgriFinanceFHE.MAX_PLANTING_SEASONS.
+export const MAX_PLANTING_SEASONS = 10;
+// Mirrors AgriFinanceFHE.MAX_BATCH_APPLICATIONS.
+export const MAX_BATCH_APPLICATIONS = 20;
+// An input proof covers at most 2048 bits of ciphertext: 64 uint32 values.
+export const MAX_VALUES_PER_PROOF = 64;
+
+export type EncryptionProgress = (message: string) => void;
+
+// One past season; dates are unix seconds, area in hectares, yield in kg/ha.
+export interface PlantingSeasonValues {
+  season: string;
+  cropType: string;
+  area: number;
+  plantedAt: number;
+  harvestedAt: number;
+  realisedYield: number;
+}
+
+export interface LoanApplicationValues {
+  farmData: number;
+  yieldPrediction: number;
+  loanAmount: number;
+  plantingHistory: PlantingSeasonValues[];
+}
+
+// Matches AgriFinanceFHE.PlantingSeasonInput: public labels, one handle per numeric field.
+export interface EncryptedPlantingSeasonInput {
+  season: string;
+  cropType: string;
+  area: string;
+  plantedAt: string;
+  harvestedAt: string;
+  realisedYield: string;
+}
+
+// A member's application in a cooperative batch.
+export interface BatchApplicationValues extends LoanApplicationValues {
+  applicant: string;
+  cropType: string;
+}
+
+// Matches AgriFinanceFHE.BatchApplicationInput.
+export interface EncryptedBatchApplicationInput {
+  applicant: string;
+  cropType: string;
+  farmData: string;
+  yieldPrediction: string;
+  loanAmount: string;
+  plantingHistory: EncryptedPlantingSeasonInput[];
+}
+
+export interface EncryptedBatchInput {
+  applications: EncryptedBatchApplicationInput[];
+  inputProof: string;
+}
+
+export interface EncryptedLoanApplicationInput {
+  encryptedFarmData: string;
+  encryptedYieldPrediction: string;
+  encryptedLoanAmount: string;
+  plantingHistory: EncryptedPlantingSeasonInput[];
+  inputProof: string;
+}
+
+// Mirrors AgriFinanceFHE.COLLATERAL_TYPE_*: the index is the encrypted type code.
+export const COLLATERAL_TYPES = ["Land title", "Equipment", "Stored grain", "Other"];
+
+// An asset to register; owner is the legal owner, who need not be the registering account.
+export interface CollateralValues {
+  collateralType: number;
+  appraisedValue: number;
+  owner: string;
+}
+
+export interface EncryptedCollateralInput {
+  encryptedType: string;
+  encryptedAppraisedValue: string;
+  encryptedOwner: string;
+  inputProof: string;
+}
+
+export interface EncryptedRepaymentInput {
+  encryptedAmount: string;
+  inputProof: string;
+}
+
+export const isMockNetwork = (chainId: number) => chainId === HARDHAT_CHAIN_ID;
+
+const createMockInstance = async (chainId: number, network: NetworkDeployment): Promise<FhevmInstance> => {
+  const provider = new ethers.JsonRpcProvider(network.rpcUrl);
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+
+  const instance = await MockFhevmInstance.create(provider, provider, { ...network.fhevm, chainId });
+  return instance as unknown as FhevmInstance;
+};
+
+const createRelayerInstance = async (
+  chainId: number,
+  network: NetworkDeployment,
+  onProgress?: EncryptionProgress
+): Promise<FhevmInstance> => {
+  onProgress?.("Loading FHE runtime...");
+  await initSDK();
+  onProgress?.("Fetching FHE network public key...");
+  return createInstance({ ...network.fhevm, chainId, network: network.rpcUrl });
+};
+
+const instances = new Map<number, Promise<FhevmInstance>>();
+
+/**
+ * Returns the FHE instance for the given chain, creating it on first use from
+ * the chain's gateway settings in the deployment registry. A local Hardhat
+ * node gets a mock instance backed by the fhevm plugin; every other network
+ * goes through the Zama relayer.
+ */
+export async function getFhevmInstance(chainId: number, onProgress?: EncryptionProgress): Promise<FhevmInstance> {
+  const network = getNetworkDeployment(chainId);
+  if (!network) {
+    throw new Error(`No FHE gateway settings registered for chain ${chainId}`);
+  }
+
+  let instance = instances.get(chainId);
+  if (!instance) {
+    instance = (
+      isMockNetwork(chainId)
+        ? createMockInstance(chainId, network)
+        : createRelayerInstance(chainId, network, onProgress)
+    ).catch((e) => {
+      instances.delete(chainId);
+      throw e;
+    });
+    instances.set(chainId, instance);
+  }
+  return instance;
+}
+
+const toUint32 = (label: string, value: number) => {
+  if (!Number.isInteger(value) || value < 0 || value > UINT32_MAX) {
+    throw new Error(`${label} must be a whole number between 0 and ${UINT32_MAX}`);
+  }
+  return value;
+};
+
+/**
+ * Checks the numeric form fields before anything is encrypted, so that a
+ * bad value fails fast instead of after the FHE runtime has loaded.
+ */
+export function encodeLoanApplicationValues(values: LoanApplicationValues): LoanApplicationValues {
+  if (values.plantingHistory.length > MAX_PLANTING_SEASONS) {
+    throw new Error(`Planting history is limited to ${MAX_PLANTING_SEASONS} seasons`);
+  }
+  return {
+    farmData: toUint32("Farm data", values.farmData),
+    yieldPrediction: toUint32("Yield prediction", values.yieldPrediction),
+    loanAmount: toUint32("Loan amount", values.loanAmount),
+    plantingHistory: values.plantingHistory.map((season, i) => {
+      const label = `Season ${i + 1}`;
+      if (!season.cropType) {
+        throw new Error(`${label} needs a crop type`);
+      }
+      const plantedAt = toUint32(`${label} planting date`, season.plantedAt);
+      const harvestedAt = toUint32(`${label} harvest date`, season.harvestedAt);
+      if (harvestedAt < plantedAt) {
+        throw new Error(`${label} is harvested before it is planted`);
+      }
+      return {
+        season: season.season,
+        cropType: season.cropType,
+        area: toUint32(`${label} area`, season.area),
+        plantedAt,
+        harvestedAt,
+        realisedYield: toUint32(`${label} realised yield`, season.realisedYield)
+      };
+    })
+  };
+}
+
+// The three application fields plus four per season.
+export const countEncryptedValues = (values: LoanApplicationValues) => 3 + 4 * values.plantingHistory.length;
+
+type EncryptedInput = ReturnType<FhevmInstance["createEncryptedInput"]>;
+
+const addApplicationValues = (input: EncryptedInput, encoded: LoanApplicationValues) => {
+  input.add32(encoded.farmData);
+  input.add32(encoded.yieldPrediction);
+  input.add32(encoded.loanAmount);
+  for (const season of encoded.plantingHistory) {
+    input.add32(season.area);
+    input.add32(season.plantedAt);
+    input.add32(season.harvestedAt);
+    input.add32(season.realisedYield);
+  }
+};
+
+// The handles of one application's values, in the order addApplicationValues added them from offset.
+const readApplicationHandles = (handles: Uint8Array[], offset: number, encoded: LoanApplicationValues) => ({
+  farmData: ethers.hexlify(handles[offset]),
+  yieldPrediction: ethers.hexlify(handles[offset + 1]),
+  loanAmount: ethers.hexlify(handles[offset + 2]),
+  plantingHistory: encoded.plantingHistory.map((season, i) => ({
+    season: season.season,
+    cropType: season.cropType,
+    area: ethers.hexlify(handles[offset + 3 + 4 * i]),
+    plantedAt: ethers.hexlify(handles[offset + 4 + 4 * i]),
+    harvestedAt: ethers.hexlify(handles[offset + 5 + 4 * i]),
+    realisedYield: ethers.hexlify(handles[offset + 6 + 4 * i])
+  }))
+});
+
+/**
+ * Encrypts the application fields and every season's numeric fields in a
+ * single input batch so that submitEncryptedLoanApplication can verify them
+ * against one proof. The batch is bound to the contract and the submitting
+ * account.
+ */
+export async function buildEncryptedLoanApplicationInput(
+  instance: FhevmInstance,
+  contractAddress: string,
+  userAddress: string,
+  values: LoanApplicationValues
+): Promise<EncryptedLoanApplicationInput> {
+  const encoded = encodeLoanApplicationValues(values);
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  addApplicationValues(input, encoded);
+
+  const { handles, inputProof } = await input.encrypt();
+  const encrypted = readApplicationHandles(handles, 0, encoded);
+
+  return {
+    encryptedFarmData: encrypted.farmData,
+    encryptedYieldPrediction: encrypted.yieldPrediction,
+    encryptedLoanAmount: encrypted.loanAmount,
+    plantingHistory: encrypted.plantingHistory,
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+/**
+ * Splits member applications into batches that fit one transaction and one
+ * input proof, keeping their order.
+ */
+export function chunkBatchApplications<T extends LoanApplicationValues>(rows: T[], maxRows = MAX_BATCH_APPLICATIONS): T[][] {
+  const chunks: T[][] = [];
+  let values = 0;
+  for (const row of rows) {
+    const count = countEncryptedValues(row);
+    const current = chunks[chunks.length - 1];
+    if (!current || current.length >= maxRows || values + count > MAX_VALUES_PER_PROOF) {
+      chunks.push([row]);
+      values = count;
+    } else {
+      current.push(row);
+      values += count;
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Encrypts a cooperative's batch of member applications under a single
+ * input proof bound to the cooperative's account, which is the one that
+ * sends submitEncryptedLoanApplicationBatch.
+ */
+export async function buildEncryptedBatchInput(
+  instance: FhevmInstance,
+  contractAddress: string,
+  cooperativeAddress: string,
+  rows: BatchApplicationValues[]
+): Promise<EncryptedBatchInput> {
+  if (rows.length === 0 || rows.length > MAX_BATCH_APPLICATIONS) {
+    throw new Error(`A batch holds between 1 and ${MAX_BATCH_APPLICATIONS} applications`);
+  }
+  const encoded = rows.map((row, i) => {
+    if (!ethers.isAddress(row.applicant)) {
+      throw new Error(`Application ${i + 1} has an invalid applicant address`);
+    }
+    return { applicant: ethers.getAddress(row.applicant), cropType: row.cropType, ...encodeLoanApplicationValues(row) };
+  });
+  if (encoded.reduce((sum, values) => sum + countEncryptedValues(values), 0) > MAX_VALUES_PER_PROOF) {
+    throw new Error(`A batch is limited to ${MAX_VALUES_PER_PROOF} encrypted values`);
+  }
+
+  const input = instance.createEncryptedInput(contractAddress, cooperativeAddress);
+  encoded.forEach(values => addApplicationValues(input, values));
+
+  const { handles, inputProof } = await input.encrypt();
+
+  let offset = 0;
+  return {
+    applications: encoded.map(values => {
+      const encrypted = readApplicationHandles(handles, offset, values);
+      offset += countEncryptedValues(values);
+      return { applicant: values.applicant, cropType: values.cropType, ...encrypted };
+    }),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+/**
+ * Full client-side encryption of a loan application, reporting each stage
+ * so the transaction modal can show what is actually happening.
+ */
+export async function encryptLoanApplication(
+  contractAddress: string,
+  userAddress: string,
+  values: LoanApplicationValues,
+  onProgress?: EncryptionProgress
+): Promise<EncryptedLoanApplicationInput> {
+  encodeLoanApplicationValues(values);
+
+  const chainId = await getActiveChainId();
+  const instance = await getFhevmInstance(chainId, onProgress);
+
+  const count = countEncryptedValues(values);
+  const startedAt = performance.now();
+  onProgress?.(
+    isMockNetwork(chainId)
+      ? `Encrypting ${count} values with the local mock coprocessor...`
+      : `Encrypting ${count} values and requesting an input proof from the relayer...`
+  );
+  const encrypted = await buildEncryptedLoanApplicationInput(instance, contractAddress, userAddress, values);
+  const seconds = ((performance.now() - startedAt) / 1000).toFixed(1);
+  onProgress?.(`Encrypted ${count} values in ${seconds}s`);
+
+  return encrypted;
+}
+
+/** Client-side encryption of one cooperative batch, reporting progress like encryptLoanApplication. */
+export async function encryptLoanApplicationBatch(
+  contractAddress: string,
+  cooperativeAddress: string,
+  rows: BatchApplicationValues[],
+  onProgress?: EncryptionProgress
+): Promise<EncryptedBatchInput> {
+  rows.forEach(row => encodeLoanApplicationValues(row));
+
+  const chainId = await getActiveChainId();
+  const instance = await getFhevmInstance(chainId, onProgress);
+
+  const count = rows.reduce((sum, row) => sum + countEncryptedValues(row), 0);
+  onProgress?.(`Encrypting ${count} values for ${rows.length} applications...`);
+  return buildEncryptedBatchInput(instance, contractAddress, cooperativeAddress, rows);
+}
+
+/**
+ * Encrypts a collateral record's type, appraised value and owner under one
+ * proof for registerCollateral.
+ */
+export async function encryptCollateral(
+  contractAddress: string,
+  userAddress: string,
+  values: CollateralValues,
+  onProgress?: EncryptionProgress
+): Promise<EncryptedCollateralInput> {
+  const { collateralType } = values;
+  if (!Number.isInteger(collateralType) || collateralType < 0 || collateralType >= COLLATERAL_TYPES.length) {
+    throw new Error("Unknown collateral type");
+  }
+  const appraisedValue = toUint32("Appraised value", values.appraisedValue);
+  if (!ethers.isAddress(values.owner)) {
+    throw new Error("Owner must be an address");
+  }
+
+  const instance = await getFhevmInstance(await getActiveChainId(), onProgress);
+  onProgress?.("Encrypting collateral type, value and owner...");
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.add8(collateralType);
+  input.add32(appraisedValue);
+  input.addAddress(ethers.getAddress(values.owner));
+  const { handles, inputProof } = await input.encrypt();
+
+  return {
+    encryptedType: ethers.hexlify(handles[0]),
+    encryptedAppraisedValue: ethers.hexlify(handles[1]),
+    encryptedOwner: ethers.hexlify(handles[2]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+// Encrypts a repayment for LoanRepayment.repay, which the applicant must send.
+export async function encryptRepayment(
+  contractAddress: string,
+  userAddress: string,
+  amount: number,
+  onProgress?: EncryptionProgress
+): Promise<EncryptedRepaymentInput> {
+  const value = toUint32("Repayment amount", amount);
+
+  const instance = await getFhevmInstance(await getActiveChainId(), onProgress);
+  onProgress?.("Encrypting repayment amount...");
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.add32(value);
+  const { handles, inputProof } = await input.encrypt();
+
+  return { encryptedAmount: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+}
+
+// How long a user-decryption signature stays valid.
+const USER_DECRYPT_DURATION_DAYS = "1";
+
+/**
+ * Privately decrypts ciphertext handles the signer has ACL access to. The
+ * relayer re-encrypts them under a throwaway keypair authorised by an
+ * EIP-712 signature, so cleartexts never appear on-chain.
+ */
+export async function userDecryptHandles(
+  signer: ethers.Signer,
+  contractAddress: string,
+  handles: string[]
+): Promise<Record<string, bigint>> {
+  const instance = await getFhevmInstance(await getActiveChainId());
+  const userAddress = await signer.getAddress();
+  const keypair = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000).toString();
+
+  const eip712 = instance.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, USER_DECRYPT_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const results = await instance.userDecrypt(
+    handles.map((handle) => ({ handle, contractAddress })),
+    keypair.privateKey,
+    keypair.publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    userAddress,
+    startTimestamp,
+    USER_DECRYPT_DURATION_DAYS
+  );
+
+  const decrypted: Record<string, bigint> = {};
+  for (const handle of handles) {
+    decrypted[handle] = BigInt(results[handle] as bigint | string);
+  }
+  return decrypted;
+}
@@ -0,0 +1,71 @@
+// escrow.ts
+// Stablecoin amounts and allowances for LoanEscrow. Loan amounts are whole
+// dollars; the token counts in units of 10^decimals.
+import { ethers } from "ethers";
+import type { IERC20 } from "../../../types";
+
+export interface TokenInfo {
+  symbol: string;
+  decimals: number;
+}
+
+// What the connected wallet holds and has let the escrow pull.
+export interface WalletTokenState {
+  balance: bigint;
+  allowance: bigint;
+}
+
+export async function loadTokenInfo(token: IERC20): Promise<TokenInfo> {
+  const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+  return { symbol, decimals: Number(decimals) };
+}
+
+export async function loadWalletState(token: IERC20, owner: string, spender: string): Promise<WalletTokenState> {
+  const [balance, allowance] = await Promise.all([token.balanceOf(owner), token.allowance(owner, spender)]);
+  return { balance, allowance };
+}
+
+export const formatTokenAmount = (value: bigint, info: TokenInfo) =>
+  `${Number(ethers.formatUnits(value, info.decimals)).toLocaleString()} ${info.symbol}`;
+
+/** Parses a decimal amount typed by the user; throws on anything that is not a positive amount. */
+export function parseTokenAmount(value: string, info: TokenInfo): bigint {
+  let amount: bigint;
+  try {
+    amount = ethers.parseUnits(value.trim() || "0", info.decimals);
+  } catch {
+    throw new Error(`Enter an amount in ${info.symbol} with at most ${info.decimals} decimals`);
+  }
+  if (amount <= 0n) {
+    throw new Error("Enter an amount above zero");
+  }
+  return amount;
+}
+
+/**
+ * Checks the wallet holds amount and approves the escrow for it unless the
+ * allowance already covers it. The approval is for the exact amount, so the
+ * escrow never holds an open-ended allowance. A leftover allowance is reset
+ * to zero first, which tokens like USDT require.
+ */
+export async function ensureAllowance(
+  token: IERC20,
+  owner: string,
+  spender: string,
+  amount: bigint,
+  info: TokenInfo,
+  onProgress: (message: string) => void
+) {
+  const wallet = await loadWalletState(token, owner, spender);
+  if (wallet.balance < amount) {
+    throw new Error(`Wallet holds ${formatTokenAmount(wallet.balance, info)}, less than ${formatTokenAmount(amount, info)}`);
+  }
+  if (wallet.allowance < amount) {
+    if (wallet.allowance > 0n) {
+      onProgress("Resetting the escrow's allowance...");
+      await (await token.approve(spender, 0n)).wait();
+    }
+    onProgress(`Approving ${formatTokenAmount(amount, info)} for the escrow...`);
+    await (await token.approve(spender, amount)).wait();
+  }
+}
@@ -0,0 +1,386 @@
+// farmRecordImport.ts
+// Reads planting and yield logs from CSV or XLSX files for the application
+// form. Everything happens in the browser; the file is never uploaded.
+
+// A planting history row as edited; dates stay yyyy-mm-dd strings until submission.
+export interface PlantingSeasonRow {
+  season: string;
+  cropType: string;
+  area: number;
+  plantedAt: string;
+  harvestedAt: string;
+  realisedYield: number;
+}
+
+export type CellValue = string | number | boolean | Date | null;
+
+export interface ImportTable {
+  headers: string[];
+  rows: CellValue[][];
+}
+
+export type ImportField = keyof PlantingSeasonRow;
+
+// Column index per field, null when the file has no such column.
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: "season", label: "Season", required: false },
+  { field: "cropType", label: "Crop", required: true },
+  { field: "area", label: "Area", required: true },
+  { field: "plantedAt", label: "Planting date", required: true },
+  { field: "harvestedAt", label: "Harvest date", required: true },
+  { field: "realisedYield", label: "Realised yield", required: true }
+];
+
+// Conversion factors to the units the contract stores: hectares and kg/ha.
+export const AREA_UNITS = { "ha": 1, "acre": 0.40468564224, "m2": 0.0001 } as const;
+export const YIELD_UNITS = { "kg/ha": 1, "t/ha": 1000, "q/ha": 100, "lb/acre": 1.12085 } as const;
+
+export type AreaUnit = keyof typeof AREA_UNITS;
+export type YieldUnit = keyof typeof YIELD_UNITS;
+
+// How to read ambiguous dates such as 03/04/2024; ISO dates are always accepted.
+export type DateOrder = "dmy" | "mdy";
+
+export interface ImportSettings {
+  mapping: ColumnMapping;
+  areaUnit: AreaUnit;
+  yieldUnit: YieldUnit;
+  dateOrder: DateOrder;
+}
+
+// One data row of the file, numbered from 1 below the header; season is null when the row has errors.
+export interface ImportedRow {
+  row: number;
+  season: PlantingSeasonRow | null;
+  errors: string[];
+  warnings: string[];
+}
+
+// Mirrors AgriFinanceFHE.MAX_REALISED_YIELD.
+const MAX_REALISED_YIELD = 1_000_000;
+const MIN_PLAUSIBLE_YIELD = 50;
+const MAX_PLAUSIBLE_AREA = 100_000;
+
+const UNIT_ALIASES: Record<string, AreaUnit | YieldUnit> = {
+  "ha": "ha",
+  "hectare": "ha",
+  "hectares": "ha",
+  "ac": "acre",
+  "acre": "acre",
+  "acres": "acre",
+  "m2": "m2",
+  "m²": "m2",
+  "sqm": "m2",
+  "kg/ha": "kg/ha",
+  "kgha": "kg/ha",
+  "t/ha": "t/ha",
+  "tha": "t/ha",
+  "tonnes/ha": "t/ha",
+  "tons/ha": "t/ha",
+  "q/ha": "q/ha",
+  "quintals/ha": "q/ha",
+  "lb/ac": "lb/acre",
+  "lb/acre": "lb/acre",
+  "lbs/acre": "lb/acre"
+};
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  season: ["season", "year", "campaign"],
+  cropType: ["crop", "croptype", "crop type", "commodity"],
+  area: ["area", "hectares", "acres", "size", "planted area", "field size"],
+  plantedAt: ["planted", "planting", "planting date", "planted at", "sowing", "sowing date", "sown"],
+  harvestedAt: ["harvested", "harvest", "harvest date", "harvested at"],
+  realisedYield: ["yield", "realised yield", "realized yield", "actual yield"]
+};
+
+const CROP_ALIASES: Record<string, string> = {
+  maize: "Corn",
+  soy: "Soybean",
+  soya: "Soybean",
+  soybeans: "Soybean",
+  paddy: "Rice"
+};
+
+/** The crop from cropTypes that a cell names, allowing common aliases such as maize. */
+export function matchCropType(text: string, cropTypes: string[]): string | undefined {
+  const key = text.trim().toLowerCase();
+  return cropTypes.find(crop => crop.toLowerCase() === key) ?? CROP_ALIASES[key];
+}
+
+const normalise = (value: string) => value.trim().toLowerCase().replace(/\s+/g, " ");
+
+const parseUnit = (text: string): AreaUnit | YieldUnit | undefined =>
+  UNIT_ALIASES[normalise(text).replace(/\s/g, "").replace(/per/g, "/")];
+
+const isAreaUnit = (unit: string): unit is AreaUnit => unit in AREA_UNITS;
+const isYieldUnit = (unit: string): unit is YieldUnit => unit in YIELD_UNITS;
+
+// "Area (acres)" or "Yield t/ha" -> the unit the header names, if any.
+const headerUnit = (header: string) => {
+  const bracketed = header.match(/[([]([^)\]]+)[)\]]/);
+  if (bracketed) return parseUnit(bracketed[1]);
+  const words = header.trim().split(/\s+/);
+  return words.length > 1 ? parseUnit(words[words.length - 1]) : undefined;
+};
+
+const headerName = (header: string) => normalise(header.replace(/[([][^)\]]*[)\]]/g, "").replace(/[_-]/g, " "));
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with embedded
+ * delimiters, quotes and line breaks, and picks the delimiter (comma,
+ * semicolon or tab) that the header line uses most.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === "\"" && source[i + 1] === "\"") {
+        cell += "\"";
+        i++;
+      } else if (char === "\"") {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === "\"" && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export const isEmptyRow = (row: CellValue[]) => row.every(cell => cell === null || String(cell).trim() === "");
+
+const toTable = (rows: CellValue[][]): ImportTable => {
+  const nonEmpty = rows.filter(row => !isEmptyRow(row));
+  if (nonEmpty.length === 0) {
+    throw new Error("The file has no rows");
+  }
+  const [header, ...data] = nonEmpty;
+  return { headers: header.map(cell => String(cell ?? "").trim()), rows: data };
+};
+
+/**
+ * Reads the first sheet of an .xlsx file or a .csv file into a header row
+ * and data rows. The spreadsheet reader is only loaded when needed.
+ */
+export async function readFarmRecordFile(file: File): Promise<ImportTable> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".csv") || name.endsWith(".tsv") || name.endsWith(".txt")) {
+    return toTable(parseCsv(await file.text()));
+  }
+  if (name.endsWith(".xlsx")) {
+    const { readSheet } = await import("read-excel-file/browser");
+    return toTable((await readSheet(file)) as CellValue[][]);
+  }
+  throw new Error("Choose a .csv or .xlsx file");
+}
+
+/**
+ * Proposes a column for each field from the header names, and the area and
+ * yield units from units named in those headers.
+ */
+export function guessImportSettings(headers: string[]): ImportSettings {
+  const names = headers.map(headerName);
+  const mapping = {} as ColumnMapping;
+  const taken = new Set<number>();
+
+  for (const { field } of IMPORT_FIELDS) {
+    const aliases = HEADER_ALIASES[field];
+    let index = names.findIndex((name, i) => !taken.has(i) && aliases.includes(name));
+    if (index < 0) {
+      index = names.findIndex((name, i) => !taken.has(i) && aliases.some(alias => name.includes(alias)));
+    }
+    mapping[field] = index < 0 ? null : index;
+    if (index >= 0) taken.add(index);
+  }
+
+  const unitOf = (field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? undefined : headerUnit(headers[index]);
+  };
+  const areaUnit = unitOf("area");
+  const yieldUnit = unitOf("realisedYield");
+
+  return {
+    mapping,
+    areaUnit: areaUnit && isAreaUnit(areaUnit) ? areaUnit : "ha",
+    yieldUnit: yieldUnit && isYieldUnit(yieldUnit) ? yieldUnit : "kg/ha",
+    dateOrder: "dmy"
+  };
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const isoDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const valid = date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  return valid ? `${year}-${pad(month)}-${pad(day)}` : null;
+};
+
+// Day numbers Excel uses for dates between 1954 and 2118.
+const EXCEL_SERIAL_RANGE = [20000, 80000];
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+/** Reads a cell as a yyyy-mm-dd date, or null when it is not a valid date. */
+export function parseDateCell(value: CellValue, dateOrder: DateOrder): string | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  }
+  if (typeof value === "number") {
+    if (value < EXCEL_SERIAL_RANGE[0] || value > EXCEL_SERIAL_RANGE[1]) return null;
+    return new Date(EXCEL_EPOCH + Math.floor(value) * 86400000).toISOString().slice(0, 10);
+  }
+  const text = String(value ?? "").trim();
+
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ].*)?$/);
+  if (iso) return isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const local = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (local) {
+    const [first, second, year] = [Number(local[1]), Number(local[2]), Number(local[3])];
+    return dateOrder === "dmy" ? isoDate(year, second, first) : isoDate(year, first, second);
+  }
+  return null;
+}
+
+/**
+ * Reads a cell as a number with an optional unit suffix ("4.5 t/ha").
+ * Accepts thousands separators and decimal commas.
+ */
+export function parseQuantityCell(value: CellValue): { amount: number; unit?: AreaUnit | YieldUnit } | null {
+  if (typeof value === "number") return Number.isFinite(value) ? { amount: value } : null;
+  if (value === null || value instanceof Date || typeof value === "boolean") return null;
+
+  const match = value.trim().match(/^([\d\s.,_]*\d[\d.,]*)\s*(.*)$/);
+  if (!match) return null;
+  let digits = match[1].replace(/[\s_]/g, "");
+  if (/^\d{1,3}(,\d{3})+(\.\d+)?$/.test(digits)) {
+    digits = digits.replace(/,/g, "");
+  } else if (/^\d+,\d+$/.test(digits)) {
+    digits = digits.replace(",", ".");
+  }
+  const amount = Number(digits);
+  if (!Number.isFinite(amount)) return null;
+
+  if (!match[2]) return { amount };
+  const unit = parseUnit(match[2]);
+  return unit ? { amount, unit } : null;
+}
+
+export const cellText = (value: CellValue) => (value instanceof Date ? value.toISOString().slice(0, 10) : String(value ?? "").trim());
+
+/**
+ * Turns mapped rows into planting seasons in the contract's units: whole
+ * hectares and whole kg/ha. Each row collects errors, which keep it out of
+ * the import, and warnings about values that look like a unit mix-up.
+ */
+export function mapImportedRows(table: ImportTable, settings: ImportSettings, cropTypes: string[]): ImportedRow[] {
+  const { mapping, areaUnit, yieldUnit, dateOrder } = settings;
+
+  return table.rows.flatMap((row, i) => {
+    if (isEmptyRow(row)) return [];
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const cell = (field: ImportField) => (mapping[field] === null ? null : row[mapping[field]!] ?? null);
+
+    for (const { field, label, required } of IMPORT_FIELDS) {
+      if (required && mapping[field] === null) errors.push(`${label} column is not mapped`);
+    }
+
+    const cropText = cellText(cell("cropType"));
+    const cropType = matchCropType(cropText, cropTypes);
+    if (mapping.cropType !== null && !cropType) {
+      errors.push(cropText ? `Unknown crop "${cropText}"` : "Crop is empty");
+    }
+
+    // In the contract's unit, or null when the cell is missing or invalid.
+    const quantity = (field: "area" | "realisedYield", label: string) => {
+      if (mapping[field] === null) return null;
+      const raw = cell(field);
+      const parsed = parseQuantityCell(raw);
+      if (!parsed || parsed.amount < 0) {
+        errors.push(`${label} "${cellText(raw)}" is not a number`);
+        return null;
+      }
+      const unit = parsed.unit ?? (field === "area" ? areaUnit : yieldUnit);
+      if (field === "area" ? !isAreaUnit(unit) : !isYieldUnit(unit)) {
+        errors.push(`${label} is given in ${unit}, which is not ${field === "area" ? "an area" : "a yield"} unit`);
+        return null;
+      }
+      const factor = field === "area" ? AREA_UNITS[unit as AreaUnit] : YIELD_UNITS[unit as YieldUnit];
+      return parsed.amount * factor;
+    };
+
+    const area = quantity("area", "Area");
+    const wholeArea = Math.round(area ?? 0);
+    if (area !== null) {
+      if (wholeArea === 0) errors.push(`Area ${area.toFixed(2)} ha rounds to zero hectares`);
+      else if (Math.abs(wholeArea - area) >= 0.01) warnings.push(`Area ${area.toFixed(2)} ha rounded to ${wholeArea} ha`);
+      if (wholeArea > MAX_PLAUSIBLE_AREA) warnings.push(`Area ${wholeArea} ha is unusually large; check the unit`);
+    }
+
+    const yieldValue = quantity("realisedYield", "Yield");
+    const realisedYield = Math.round(yieldValue ?? 0);
+    if (yieldValue !== null) {
+      if (realisedYield > MAX_REALISED_YIELD) {
+        errors.push(`Yield ${realisedYield} kg/ha is above ${MAX_REALISED_YIELD}; check the unit`);
+      } else if (realisedYield < MIN_PLAUSIBLE_YIELD) {
+        warnings.push(`Yield ${realisedYield} kg/ha is unusually low; is the column in t/ha?`);
+      }
+    }
+
+    const date = (field: "plantedAt" | "harvestedAt", label: string) => {
+      if (mapping[field] === null) return "";
+      const raw = cell(field);
+      const parsed = parseDateCell(raw, dateOrder);
+      if (!parsed) errors.push(`${label} "${cellText(raw)}" is not a date`);
+      return parsed ?? "";
+    };
+    const plantedAt = date("plantedAt", "Planting date");
+    const harvestedAt = date("harvestedAt", "Harvest date");
+    if (plantedAt && harvestedAt && harvestedAt < plantedAt) {
+      errors.push("Harvest date is before the planting date");
+    }
+
+    // Without a season column the planting year names the season.
+    const season = cellText(cell("season")) || plantedAt.slice(0, 4);
+
+    return [{
+      row: i + 1,
+      season: errors.length > 0
+        ? null
+        : { season, cropType: cropType!, area: wholeArea, plantedAt, harvestedAt, realisedYield },
+      errors,
+      warnings
+    }];
+  });
+}
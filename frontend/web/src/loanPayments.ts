@@ -0,0 +1,40 @@
+// loanPayments.ts
+// Steps run before a loan transaction that LoanRepayment would otherwise
+// revert: a schedule before disbursal and, when loans are paid in the
+// confidential token, LoanRepayment's authorization to move the sender's funds.
+import { ethers } from "ethers";
+import { getConfidentialTokenWithSigner, getRepaymentContractReadOnly } from "./contract";
+
+// How long an authorization for loan payments lasts.
+export const AUTHORIZATION_DAYS = 90;
+
+export const authorizationExpiry = () => Math.floor(Date.now() / 1000) + AUTHORIZATION_DAYS * 24 * 60 * 60;
+
+/** When LoanRepayment pays with a token, the schedule moves the loan amount, so disbursal needs one. */
+export async function requireRepaymentSchedule(applicationId: string) {
+  const repayment = await getRepaymentContractReadOnly();
+  if (!repayment || (await repayment.token()) === ethers.ZeroAddress) return;
+  const schedule = await repayment.getRepaymentSchedule(applicationId);
+  if (schedule.dueDates.length === 0) {
+    throw new Error("Set a repayment schedule before disbursing; the loan is paid out with it");
+  }
+}
+
+/**
+ * Makes LoanRepayment an operator for the account's confidential tokens
+ * unless it already is one, as ensureAllowance does for the escrow. Does
+ * nothing when LoanRepayment only tracks repayments.
+ */
+export async function ensureLoanPaymentOperator(account: string, onProgress: (message: string) => void) {
+  const repayment = await getRepaymentContractReadOnly();
+  const tokenAddress = repayment ? await repayment.token() : ethers.ZeroAddress;
+  if (!repayment || tokenAddress === ethers.ZeroAddress) return;
+  const token = await getConfidentialTokenWithSigner();
+  if ((await token.getAddress()) !== tokenAddress) {
+    throw new Error("LoanRepayment pays with a token other than the deployed ConfidentialToken; re-run the deploy export");
+  }
+  const operator = await repayment.getAddress();
+  if (await token.isOperator(account, operator)) return;
+  onProgress(`Authorizing loan payments for ${AUTHORIZATION_DAYS} days...`);
+  await (await token.setOperator(operator, authorizationExpiry())).wait();
+}
@@ -0,0 +1,214 @@
+// providerPool.ts
+import { ethers } from "ethers";
+
+export interface RpcProviderPoolOptions {
+  // Per-request deadline after which an endpoint counts as failed.
+  timeoutMs?: number;
+  // How long a failed endpoint is skipped while healthier ones remain.
+  cooldownMs?: number;
+  // Weight of the newest latency sample in the moving average.
+  latencyWeight?: number;
+}
+
+export interface EndpointHealth {
+  url: string;
+  latencyMs: number | null;
+  successes: number;
+  failures: number;
+  errorRate: number;
+  score: number;
+}
+
+interface Endpoint {
+  url: string;
+  provider: ethers.JsonRpcProvider;
+  latencyMs: number | null;
+  successes: number;
+  failures: number;
+  lastFailureAt: number | null;
+  probe: Promise<void> | null;
+}
+
+// Error codes that say something about the endpoint rather than the request.
+const ENDPOINT_ERROR_CODES = new Set(["NETWORK_ERROR", "SERVER_ERROR", "TIMEOUT", "UNKNOWN_ERROR", "BAD_DATA"]);
+
+const isEndpointError = (error: unknown) => {
+  const code = (error as { code?: string } | null)?.code;
+  return code === undefined || ENDPOINT_ERROR_CODES.has(code);
+};
+
+/**
+ * A set of JSON-RPC endpoints for one chain. Endpoints are probed once and
+ * ranked by latency and error rate; the best one is reused until it fails,
+ * at which point requests move to the next best without surfacing the error.
+ */
+export class RpcProviderPool {
+  readonly provider: ethers.AbstractProvider;
+
+  private readonly endpoints: Endpoint[];
+  private readonly timeoutMs: number;
+  private readonly cooldownMs: number;
+  private readonly latencyWeight: number;
+  private current: Endpoint | null = null;
+
+  constructor(urls: string[], chainId: number, options: RpcProviderPoolOptions = {}) {
+    const uniqueUrls = [...new Set(urls.filter(Boolean))];
+    if (uniqueUrls.length === 0) {
+      throw new Error("RPC provider pool needs at least one endpoint");
+    }
+
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.cooldownMs = options.cooldownMs ?? 60000;
+    this.latencyWeight = options.latencyWeight ?? 0.3;
+
+    const network = ethers.Network.from(chainId);
+    this.endpoints = uniqueUrls.map((url) => ({
+      url,
+      provider: new ethers.JsonRpcProvider(url, network, { staticNetwork: network }),
+      latencyMs: null,
+      successes: 0,
+      failures: 0,
+      lastFailureAt: null,
+      probe: null
+    }));
+    this.provider = new PooledProvider(this, network);
+  }
+
+  get currentUrl(): string | null {
+    return this.current?.url ?? null;
+  }
+
+  /** The provider currently preferred by the pool, probing endpoints on first use. */
+  async getProvider(): Promise<ethers.JsonRpcProvider> {
+    const endpoint = await this.pick(new Set());
+    this.current = endpoint;
+    return endpoint.provider;
+  }
+
+  /**
+   * Runs a request against the preferred endpoint, failing over to the next
+   * best one when the endpoint itself misbehaves. Errors caused by the
+   * request, such as a reverted call, are returned as-is.
+   */
+  async send<T>(request: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> {
+    const attempted = new Set<Endpoint>();
+    let lastError: unknown = new Error("All RPC providers failed");
+
+    while (attempted.size < this.endpoints.length) {
+      const endpoint = await this.pick(attempted);
+      attempted.add(endpoint);
+      try {
+        const result = await this.measure(endpoint, request);
+        this.current = endpoint;
+        return result;
+      } catch (error) {
+        if (!isEndpointError(error)) throw error;
+        lastError = error;
+        if (this.current === endpoint) this.current = null;
+      }
+    }
+    throw lastError;
+  }
+
+  getHealth(): EndpointHealth[] {
+    return this.endpoints.map((endpoint) => ({
+      url: endpoint.url,
+      latencyMs: endpoint.latencyMs,
+      successes: endpoint.successes,
+      failures: endpoint.failures,
+      errorRate: this.errorRate(endpoint),
+      score: this.score(endpoint)
+    }));
+  }
+
+  private errorRate(endpoint: Endpoint) {
+    const total = endpoint.successes + endpoint.failures;
+    return total === 0 ? 0 : endpoint.failures / total;
+  }
+
+  // Lower is better: expected latency, inflated by how often the endpoint fails.
+  private score(endpoint: Endpoint) {
+    return (endpoint.latencyMs ?? this.timeoutMs) * (1 + 4 * this.errorRate(endpoint));
+  }
+
+  private isCoolingDown(endpoint: Endpoint) {
+    return endpoint.lastFailureAt !== null && Date.now() - endpoint.lastFailureAt < this.cooldownMs;
+  }
+
+  private async pick(excluded: Set<Endpoint>): Promise<Endpoint> {
+    if (this.current && !excluded.has(this.current) && !this.isCoolingDown(this.current)) {
+      return this.current;
+    }
+
+    const candidates = this.endpoints.filter((endpoint) => !excluded.has(endpoint));
+    await Promise.all(candidates.filter((endpoint) => endpoint.latencyMs === null).map((endpoint) => this.probe(endpoint)));
+
+    // Endpoints that failed recently are a last resort, not excluded outright.
+    const healthy = candidates.filter((endpoint) => !this.isCoolingDown(endpoint));
+    return (healthy.length > 0 ? healthy : candidates).sort((a, b) => this.score(a) - this.score(b))[0];
+  }
+
+  private probe(endpoint: Endpoint): Promise<void> {
+    if (!endpoint.probe) {
+      endpoint.probe = this.measure(endpoint, (provider) => provider.getBlockNumber())
+        .then(
+          () => undefined,
+          () => undefined
+        )
+        .finally(() => {
+          endpoint.probe = null;
+        });
+    }
+    return endpoint.probe;
+  }
+
+  private async measure<T>(endpoint: Endpoint, request: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(Object.assign(new Error(`RPC ${endpoint.url} timed out`), { code: "TIMEOUT" }));
+      }, this.timeoutMs);
+    });
+
+    try {
+      const result = await Promise.race([request(endpoint.provider), timeout]);
+      const latency = Date.now() - startedAt;
+      endpoint.latencyMs =
+        endpoint.latencyMs === null ? latency : endpoint.latencyMs + this.latencyWeight * (latency - endpoint.latencyMs);
+      endpoint.successes++;
+      return result;
+    } catch (error) {
+      if (isEndpointError(error)) {
+        endpoint.failures++;
+        endpoint.lastFailureAt = Date.now();
+        if (endpoint.latencyMs === null) endpoint.latencyMs = this.timeoutMs;
+      } else {
+        // The endpoint answered; the request itself was rejected.
+        endpoint.successes++;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Read-only ethers provider that routes every request through the pool, so
+// contracts bound to it keep working when the pool fails over.
+class PooledProvider extends ethers.AbstractProvider {
+  constructor(
+    private readonly pool: RpcProviderPool,
+    private readonly staticNetwork: ethers.Network
+  ) {
+    super(staticNetwork);
+  }
+
+  async _detectNetwork(): Promise<ethers.Network> {
+    return this.staticNetwork;
+  }
+
+  async _perform<T = any>(req: ethers.PerformActionRequest): Promise<T> {
+    return this.pool.send((provider) => provider._perform(req));
+  }
+}
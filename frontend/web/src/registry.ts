@@ -0,0 +1,55 @@
+// registry.ts
+import registryJson from "./registry.json";
+
+// Chain id of a local `npx hardhat node`, which the fhevm Hardhat plugin
+// serves with its mock coprocessor and relayer.
+export const HARDHAT_CHAIN_ID = 31337;
+
+// Settings the relayer SDK needs to encrypt inputs and decrypt results on a chain.
+// relayerUrl is absent on a local Hardhat node, where the plugin mocks the relayer.
+export interface FhevmGatewaySettings {
+  relayerUrl?: string;
+  gatewayChainId: number;
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+}
+
+// deploymentBlock is 0 when the block is unknown, e.g. for contracts
+// deployed before the registry existed.
+export interface ContractDeployment {
+  address: string;
+  deploymentBlock: number;
+  abiHash: string;
+}
+
+// fallbackRpcUrls are public endpoints the read provider pool fails over to
+// when rpcUrl is slow or down.
+export interface NetworkDeployment {
+  name: string;
+  rpcUrl: string;
+  fallbackRpcUrls?: string[];
+  deployer: string;
+  fhevm: FhevmGatewaySettings;
+  contracts: Record<string, ContractDeployment>;
+}
+
+export interface DeploymentRegistry {
+  defaultChainId: number;
+  networks: Record<string, NetworkDeployment>;
+}
+
+export type ContractName = "AgriFinanceFHE" | "LoanRepayment" | "LoanEscrow" | "ConfidentialToken" | "UniversalAdapter";
+
+export const registry: DeploymentRegistry = registryJson;
+
+export function getNetworkDeployment(chainId: number): NetworkDeployment | undefined {
+  return registry.networks[chainId.toString()];
+}
+
+export function getContractDeployment(chainId: number, name: ContractName): ContractDeployment | undefined {
+  const deployment = getNetworkDeployment(chainId)?.contracts[name];
+  return deployment?.address ? deployment : undefined;
+}
@@ -0,0 +1,139 @@
+// repaymentSchedule.ts
+// Lays out a LoanRepayment schedule as an amortisation timeline, applying
+// the contract's harvest grace period and late-payment rule, and projects
+// harvest balloon due dates from the crop calendars.
+
+const DAY = 24 * 60 * 60;
+const YEAR = 365 * DAY;
+
+// Mirrors LoanRepayment.MAX_INSTALMENTS and MAX_GRACE_PERIOD_DAYS.
+export const MAX_INSTALMENTS = 24;
+export const MAX_GRACE_PERIOD_DAYS = 90;
+
+// Mirrors LoanRepayment.RepaymentMode, in order.
+export const REPAYMENT_MODES = ["instalments", "harvest"] as const;
+export type RepaymentMode = typeof REPAYMENT_MODES[number];
+
+export const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+
+// A schedule as read from LoanRepayment.getRepaymentSchedule, in unix seconds;
+// disbursedAt is 0 until the loan is disbursed, fundedAt until the loan amount
+// is confirmed to have reached the applicant, and plantedAt is 0 unless the
+// loan is repaid in a harvest balloon.
+export interface RepaymentScheduleValues {
+  mode: RepaymentMode;
+  dueDates: number[];
+  interestRateBps: number;
+  harvestMonth: number;
+  gracePeriodDays: number;
+  plantedAt: number;
+  disbursedAt: number;
+  fundedAt: number;
+}
+
+// Days from planting to harvest and from harvest to the balloon payment, as
+// in LoanRepayment.getCropCalendar.
+export interface CropCalendar {
+  growingDays: number;
+  saleDays: number;
+}
+
+// The encrypted balance as privately decrypted; late stays null until a
+// late-payment check has run.
+export interface RepaymentBalanceValues {
+  principal: number;
+  outstanding: number;
+  repaid: number;
+  late: boolean | null;
+}
+
+// Covered instalments are met by the decrypted balance; the rest are
+// upcoming, past due but within the harvest grace period, or overdue.
+export type InstalmentState = "upcoming" | "grace" | "overdue" | "covered";
+
+// Amounts are projections from the principal and stay null while it is encrypted.
+export interface Instalment {
+  number: number;
+  dueDate: number;
+  overdueFrom: number;
+  principalDue: number | null;
+  interestDue: number | null;
+  scheduledBalance: number | null;
+  state: InstalmentState;
+}
+
+/** Calendar month (1-12, UTC) of a unix timestamp, as LoanRepayment computes it. */
+export const monthOf = (seconds: number) => new Date(seconds * 1000).getUTCMonth() + 1;
+
+/**
+ * When an instalment becomes overdue: its due date, plus the grace period for
+ * a harvest balloon or an instalment due in the harvest month.
+ */
+export function overdueFrom(schedule: Pick<RepaymentScheduleValues, "mode" | "harvestMonth" | "gracePeriodDays">, dueDate: number) {
+  const inGrace = schedule.mode === "harvest" || (schedule.harvestMonth !== 0 && monthOf(dueDate) === schedule.harvestMonth);
+  return inGrace ? dueDate + schedule.gracePeriodDays * DAY : dueDate;
+}
+
+/** Expected harvest and balloon due date for a crop planted at plantedAt, as setHarvestRepaymentSchedule sets them. */
+export function harvestDates(plantedAt: number, calendar: CropCalendar) {
+  const harvestAt = plantedAt + calendar.growingDays * DAY;
+  return { harvestAt, dueDate: harvestAt + calendar.saleDays * DAY };
+}
+
+/** The latest planting date setHarvestRepaymentSchedule accepts at now: one growing season ahead. */
+export const latestPlantingDate = (now: number, calendar: CropCalendar) => now + calendar.growingDays * DAY;
+
+/** Due dates a fixed number of days apart, starting at the first one. */
+export function evenDueDates(firstDueDate: number, count: number, intervalDays: number): number[] {
+  return Array.from({ length: count }, (_, i) => firstDueDate + i * intervalDays * DAY);
+}
+
+/**
+ * Equal principal instalments with simple interest on the principal still
+ * scheduled over each period, counted from disbursal (or now, before it).
+ * An instalment is covered once the outstanding balance is at or below the
+ * principal scheduled to remain after it, the rule checkLatePayment applies.
+ * Before disbursal the principal is the decrypted loan amount, if known.
+ */
+export function buildTimeline(
+  schedule: RepaymentScheduleValues,
+  now: number,
+  principal: number | null,
+  balance?: RepaymentBalanceValues
+): Instalment[] {
+  const count = schedule.dueDates.length;
+  const scheduledPrincipal = balance?.principal ?? principal;
+  let periodStart = schedule.fundedAt || now;
+
+  return schedule.dueDates.map((dueDate, i) => {
+    const due = overdueFrom(schedule, dueDate);
+    const remaining = scheduledPrincipal === null ? null : Math.floor((scheduledPrincipal * (count - i - 1)) / count);
+    const before = scheduledPrincipal === null ? null : Math.floor((scheduledPrincipal * (count - i)) / count);
+
+    let interestDue: number | null = null;
+    if (before !== null) {
+      const elapsed = Math.max(0, dueDate - periodStart);
+      interestDue = Math.round((before * schedule.interestRateBps * elapsed) / (10000 * YEAR));
+    }
+    periodStart = Math.max(periodStart, dueDate);
+
+    let state: InstalmentState = "upcoming";
+    if (balance && remaining !== null && balance.outstanding <= remaining) {
+      state = "covered";
+    } else if (now > due) {
+      state = "overdue";
+    } else if (now > dueDate) {
+      state = "grace";
+    }
+
+    return {
+      number: i + 1,
+      dueDate,
+      overdueFrom: due,
+      principalDue: before !== null && remaining !== null ? before - remaining : null,
+      interestDue,
+      scheduledBalance: remaining,
+      state
+    };
+  });
+}
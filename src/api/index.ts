@@ -0,0 +1,20 @@
+import { openIndexStore, resolveIndexTarget } from "../indexer/config";
+import { createApiServer } from "./server";
+
+// Serves the index written by `npm run indexer` until interrupted.
+function main() {
+  const target = resolveIndexTarget();
+  const store = openIndexStore(target);
+  const server = createApiServer(store);
+  const port = Number(process.env.API_PORT || 8787);
+
+  const shutdown = () => server.close(() => store.close());
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+
+  server.listen(port, () => {
+    console.log(`Serving the chain ${target.chainId} AgriFinanceFHE index on http://localhost:${port}`);
+  });
+}
+
+main();
@@ -0,0 +1,171 @@
+import { APPLICATION_SORT_FIELDS, LOAN_STATUSES } from "../indexer/store";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./schemas";
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+const nullableInteger = { type: "integer", nullable: true };
+
+// Kept in step with the types in schemas.ts; served at GET /openapi.json.
+export const openApiDocument = {
+  openapi: "3.0.3",
+  info: {
+    title: "AgriFinanceFHE index API",
+    version: "1.0.0",
+    description:
+      "Loan applications indexed from AgriFinanceFHE events. Encrypted fields are never indexed; " +
+      "farmData, yieldPrediction and loanAmount appear only once an application has been publicly decrypted.",
+  },
+  paths: {
+    "/applications": {
+      get: {
+        operationId: "listApplications",
+        summary: "List applications with filtering, sorting and pagination",
+        parameters: [
+          {
+            name: "status",
+            in: "query",
+            description: "Comma-separated or repeated statuses to include",
+            schema: { type: "array", items: { $ref: "#/components/schemas/LoanStatus" } },
+            style: "form",
+            explode: false,
+          },
+          {
+            name: "cropType",
+            in: "query",
+            description: "Crop type, case-insensitive",
+            schema: { type: "string" },
+          },
+          { name: "applicant", in: "query", schema: { $ref: "#/components/schemas/Address" } },
+          {
+            name: "submittedFrom",
+            in: "query",
+            description: "Earliest submission time, unix seconds, inclusive",
+            schema: { type: "integer", minimum: 0 },
+          },
+          {
+            name: "submittedTo",
+            in: "query",
+            description: "Latest submission time, unix seconds, inclusive",
+            schema: { type: "integer", minimum: 0 },
+          },
+          {
+            name: "sort",
+            in: "query",
+            description: "Statuses sort in lifecycle order; ties are broken by id",
+            schema: { type: "string", enum: APPLICATION_SORT_FIELDS, default: "submittedAt" },
+          },
+          { name: "order", in: "query", schema: { type: "string", enum: ["asc", "desc"], default: "desc" } },
+          {
+            name: "limit",
+            in: "query",
+            schema: { type: "integer", minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
+          },
+          { name: "offset", in: "query", schema: { type: "integer", minimum: 0, default: 0 } },
+        ],
+        responses: {
+          "200": {
+            description: "One page of matching applications",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/ApplicationList" } } },
+          },
+          "400": errorResponse("Invalid query parameters"),
+        },
+      },
+    },
+    "/applications/{id}": {
+      get: {
+        operationId: "getApplication",
+        summary: "Get one application",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer", minimum: 1 } }],
+        responses: {
+          "200": {
+            description: "The application",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/Application" } } },
+          },
+          "400": errorResponse("Invalid id"),
+          "404": errorResponse("No indexed application with this id"),
+        },
+      },
+    },
+    "/health": {
+      get: {
+        operationId: "getHealth",
+        summary: "Indexed contract and last indexed block",
+        responses: {
+          "200": {
+            description: "Index status",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/Health" } } },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Address: { type: "string", pattern: "^0x[0-9a-fA-F]{40}$" },
+      LoanStatus: { type: "string", enum: LOAN_STATUSES },
+      Application: {
+        type: "object",
+        required: [
+          "id",
+          "applicant",
+          "cropType",
+          "status",
+          "submittedAt",
+          "blockNumber",
+          "transactionHash",
+          "decryptionRequested",
+          "decrypted",
+          "farmData",
+          "yieldPrediction",
+          "loanAmount",
+        ],
+        properties: {
+          id: { type: "integer" },
+          applicant: { $ref: "#/components/schemas/Address" },
+          cropType: { type: "string" },
+          status: { $ref: "#/components/schemas/LoanStatus" },
+          submittedAt: { type: "integer", description: "Unix seconds" },
+          blockNumber: { type: "integer" },
+          transactionHash: { type: "string" },
+          decryptionRequested: { type: "boolean" },
+          decrypted: { type: "boolean" },
+          farmData: nullableInteger,
+          yieldPrediction: nullableInteger,
+          loanAmount: nullableInteger,
+        },
+      },
+      ApplicationList: {
+        type: "object",
+        required: ["items", "total", "limit", "offset"],
+        properties: {
+          items: { type: "array", items: { $ref: "#/components/schemas/Application" } },
+          total: { type: "integer", description: "Matches across all pages" },
+          limit: { type: "integer" },
+          offset: { type: "integer" },
+        },
+      },
+      Health: {
+        type: "object",
+        required: ["chainId", "address", "checkpoint"],
+        properties: {
+          chainId: { type: "integer" },
+          address: { type: "string", description: "Lowercased contract address" },
+          checkpoint: {
+            type: "object",
+            nullable: true,
+            required: ["number", "hash"],
+            properties: { number: { type: "integer" }, hash: { type: "string" } },
+          },
+        },
+      },
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: { error: { type: "string" } },
+      },
+    },
+  },
+};
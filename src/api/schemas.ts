@@ -0,0 +1,118 @@
+import { ethers } from "ethers";
+import {
+  APPLICATION_SORT_FIELDS,
+  ApplicationQuery,
+  ApplicationSortField,
+  IndexedApplication,
+  IndexedBlock,
+  LOAN_STATUSES,
+  LoanStatusName,
+} from "../indexer/store";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export type ApplicationResource = IndexedApplication;
+
+// GET /applications
+export interface ApplicationListResponse {
+  items: ApplicationResource[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// GET /health
+export interface HealthResponse {
+  chainId: number;
+  address: string;
+  checkpoint: IndexedBlock | null;
+}
+
+export interface ErrorResponse {
+  error: string;
+}
+
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+const QUERY_PARAMETERS = [
+  "status",
+  "cropType",
+  "applicant",
+  "submittedFrom",
+  "submittedTo",
+  "sort",
+  "order",
+  "limit",
+  "offset",
+];
+
+const parseInteger = (params: URLSearchParams, name: string, min: number, max = Number.MAX_SAFE_INTEGER) => {
+  const raw = params.get(name);
+  if (raw === null) return undefined;
+  const value = Number(raw);
+  if (!/^\d+$/.test(raw) || value < min || value > max) {
+    throw new ApiError(400, `${name} must be an integer between ${min} and ${max}`);
+  }
+  return value;
+};
+
+const parseOneOf = <T extends string>(params: URLSearchParams, name: string, allowed: readonly T[]) => {
+  const raw = params.get(name);
+  if (raw === null) return undefined;
+  if (!allowed.includes(raw as T)) {
+    throw new ApiError(400, `${name} must be one of ${allowed.join(", ")}`);
+  }
+  return raw as T;
+};
+
+/**
+ * Validates the query string of GET /applications. Statuses may be repeated
+ * or comma-separated; dates are unix seconds and both bounds are inclusive.
+ */
+export function parseApplicationQuery(params: URLSearchParams): ApplicationQuery {
+  const unknown = [...params.keys()].find((name) => !QUERY_PARAMETERS.includes(name));
+  if (unknown) {
+    throw new ApiError(400, `Unknown query parameter ${unknown}`);
+  }
+
+  const status = params
+    .getAll("status")
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+  const invalidStatus = status.find((value) => !LOAN_STATUSES.includes(value as LoanStatusName));
+  if (invalidStatus) {
+    throw new ApiError(400, `status must be one of ${LOAN_STATUSES.join(", ")}`);
+  }
+
+  const applicant = params.get("applicant") ?? undefined;
+  if (applicant !== undefined && !ethers.isAddress(applicant)) {
+    throw new ApiError(400, "applicant must be an address");
+  }
+
+  const submittedFrom = parseInteger(params, "submittedFrom", 0);
+  const submittedTo = parseInteger(params, "submittedTo", 0);
+  if (submittedFrom !== undefined && submittedTo !== undefined && submittedFrom > submittedTo) {
+    throw new ApiError(400, "submittedFrom must not be after submittedTo");
+  }
+
+  return {
+    status: status.length > 0 ? (status as LoanStatusName[]) : undefined,
+    cropType: params.get("cropType") ?? undefined,
+    applicant,
+    submittedFrom,
+    submittedTo,
+    sort: parseOneOf<ApplicationSortField>(params, "sort", APPLICATION_SORT_FIELDS) ?? "submittedAt",
+    order: parseOneOf(params, "order", ["asc", "desc"] as const) ?? "desc",
+    limit: parseInteger(params, "limit", 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE,
+    offset: parseInteger(params, "offset", 0) ?? 0,
+  };
+}
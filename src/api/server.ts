@@ -0,0 +1,80 @@
+import http from "http";
+import { IndexerStore } from "../indexer/store";
+import { openApiDocument } from "./openapi";
+import {
+  ApiError,
+  ApplicationListResponse,
+  ApplicationResource,
+  ErrorResponse,
+  HealthResponse,
+  parseApplicationQuery,
+} from "./schemas";
+
+type Handler = (params: URLSearchParams, match: RegExpMatchArray) => unknown;
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "content-type": "application/json" }).end(JSON.stringify(body));
+};
+
+/**
+ * Read-only HTTP API over an IndexerStore. It only reads the index, so it
+ * can run next to the indexer process on the same SQLite file.
+ */
+export function createApiServer(store: IndexerStore): http.Server {
+  const routes: [RegExp, Handler][] = [
+    [
+      /^\/applications$/,
+      (params): ApplicationListResponse => {
+        const query = parseApplicationQuery(params);
+        const page = store.queryApplications(query);
+        return { ...page, limit: query.limit, offset: query.offset };
+      },
+    ],
+    [
+      /^\/applications\/([^/]+)$/,
+      (_, match): ApplicationResource => {
+        if (!/^\d+$/.test(match[1])) {
+          throw new ApiError(400, "id must be an integer");
+        }
+        const application = store.getApplication(Number(match[1]));
+        if (!application) {
+          throw new ApiError(404, `Application ${match[1]} is not indexed`);
+        }
+        return application;
+      },
+    ],
+    [/^\/health$/, (): HealthResponse => ({ ...store.getScope(), checkpoint: store.getCheckpoint() ?? null })],
+    [/^\/openapi\.json$/, () => openApiDocument],
+  ];
+
+  return http.createServer((req, res) => {
+    // The index only holds public chain data, so any dashboard origin may read it.
+    res.setHeader("access-control-allow-origin", "*");
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, { "access-control-allow-methods": "GET" }).end();
+      return;
+    }
+
+    try {
+      if (req.method !== "GET") {
+        throw new ApiError(405, `${req.method} is not supported`);
+      }
+      const url = new URL(req.url ?? "/", "http://localhost");
+      for (const [pattern, handler] of routes) {
+        const match = url.pathname.match(pattern);
+        if (match) {
+          sendJson(res, 200, handler(url.searchParams, match));
+          return;
+        }
+      }
+      throw new ApiError(404, `No route for ${url.pathname}`);
+    } catch (error) {
+      if (!(error instanceof ApiError)) {
+        console.error(error);
+      }
+      const status = error instanceof ApiError ? error.status : 500;
+      const body: ErrorResponse = { error: error instanceof ApiError ? error.message : "Internal error" };
+      sendJson(res, status, body);
+    }
+  });
+}
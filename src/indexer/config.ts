@@ -0,0 +1,35 @@
+import * as dotenv from "dotenv";
+import type { ContractDeployment, DeploymentRegistry, NetworkDeployment } from "../../frontend/web/src/registry";
+// Read directly: under Node resolution "./registry" would pick the JSON file
+// over the frontend's registry.ts helpers.
+import registryJson from "../../frontend/web/src/registry.json";
+import { IndexerStore } from "./store";
+
+dotenv.config({ quiet: true });
+
+const registry: DeploymentRegistry = registryJson;
+
+export interface IndexTarget {
+  chainId: number;
+  network: NetworkDeployment;
+  deployment: ContractDeployment;
+  dbPath: string;
+}
+
+/**
+ * The AgriFinanceFHE deployment registered for INDEXER_CHAIN_ID (default:
+ * the registry's default chain) and the SQLite file indexing it.
+ */
+export function resolveIndexTarget(): IndexTarget {
+  const chainId = Number(process.env.INDEXER_CHAIN_ID || registry.defaultChainId);
+  const network = registry.networks[chainId];
+  const deployment = network?.contracts.AgriFinanceFHE;
+  if (!deployment?.address) {
+    throw new Error(`AgriFinanceFHE is not deployed on chain ${chainId}`);
+  }
+  return { chainId, network, deployment, dbPath: process.env.INDEXER_DB || `indexer-${chainId}.sqlite` };
+}
+
+export function openIndexStore(target: IndexTarget): IndexerStore {
+  return new IndexerStore(target.dbPath, { chainId: target.chainId, address: target.deployment.address });
+}
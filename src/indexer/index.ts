@@ -0,0 +1,35 @@
+import { ethers } from "ethers";
+import { openIndexStore, resolveIndexTarget } from "./config";
+import { AgriFinanceIndexer } from "./indexer";
+
+// Indexes the configured deployment until interrupted.
+async function main() {
+  const target = resolveIndexTarget();
+  const { chainId, network, deployment } = target;
+
+  const rpcUrl = process.env.INDEXER_RPC_URL || network.rpcUrl;
+  const provider = new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+  const store = openIndexStore(target);
+  const indexer = new AgriFinanceIndexer(provider, store, {
+    address: deployment.address,
+    deploymentBlock: deployment.deploymentBlock,
+    confirmations: Number(process.env.INDEXER_CONFIRMATIONS ?? 0),
+  });
+
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+  process.once("SIGTERM", () => controller.abort());
+
+  console.log(
+    `Indexing AgriFinanceFHE at ${deployment.address} on ${network.name} from block ${deployment.deploymentBlock}`,
+  );
+  await indexer.run(controller.signal);
+
+  store.close();
+  provider.destroy();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
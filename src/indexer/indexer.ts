@@ -0,0 +1,166 @@
+import { ethers } from "ethers";
+import { AgriFinanceFHE__factory } from "../../types";
+import { IndexedBlock, IndexedEvent, IndexedEventName, IndexerStore, LoanStatusName } from "./store";
+
+// Lifecycle events and the status each one moves an application into.
+const STATUS_EVENTS: Partial<Record<IndexedEventName, LoanStatusName>> = {
+  LoanApplicationSubmitted: "submitted",
+  ApplicationUnderReview: "under-review",
+  ApplicationApproved: "approved",
+  ApplicationRejected: "rejected",
+  LoanDisbursed: "disbursed",
+  LoanRepaymentStarted: "repaying",
+  LoanClosed: "closed",
+  LoanDefaulted: "defaulted",
+};
+
+export const INDEXED_EVENTS = [
+  ...Object.keys(STATUS_EVENTS),
+  "DecryptionRequested",
+  "ApplicationDecrypted",
+] as IndexedEventName[];
+
+export interface IndexerOptions {
+  address: string;
+  // First block that can hold contract events; indexing starts here.
+  deploymentBlock: number;
+  // Blocks per eth_getLogs request.
+  batchSize?: number;
+  // Blocks to stay behind the head, so shallow reorgs never reach the index.
+  confirmations?: number;
+  // How many recent block hashes to keep for finding a fork point.
+  reorgDepth?: number;
+  pollIntervalMs?: number;
+}
+
+const agriFinanceInterface = AgriFinanceFHE__factory.createInterface();
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done);
+  });
+
+/**
+ * Follows AgriFinanceFHE application events into an IndexerStore. Each sync
+ * first checks that the checkpoint block is still on the canonical chain;
+ * if it is not, the index is rolled back to the newest block both chains
+ * share and re-indexed from there.
+ */
+export class AgriFinanceIndexer {
+  private readonly address: string;
+  private readonly deploymentBlock: number;
+  private readonly batchSize: number;
+  private readonly confirmations: number;
+  private readonly reorgDepth: number;
+  private readonly pollIntervalMs: number;
+  private readonly topics: string[];
+
+  constructor(
+    private readonly provider: ethers.Provider,
+    private readonly store: IndexerStore,
+    options: IndexerOptions,
+  ) {
+    this.address = ethers.getAddress(options.address);
+    this.deploymentBlock = options.deploymentBlock;
+    this.batchSize = options.batchSize ?? 2000;
+    this.confirmations = options.confirmations ?? 0;
+    this.reorgDepth = options.reorgDepth ?? 64;
+    this.pollIntervalMs = options.pollIntervalMs ?? 4000;
+    this.topics = INDEXED_EVENTS.map((name) => agriFinanceInterface.getEvent(name).topicHash);
+  }
+
+  /** Indexes up to the confirmed head and returns the new checkpoint. */
+  async sync(): Promise<IndexedBlock | undefined> {
+    await this.handleReorg();
+
+    const head = (await this.provider.getBlockNumber()) - this.confirmations;
+    let fromBlock = (this.store.getCheckpoint()?.number ?? this.deploymentBlock - 1) + 1;
+
+    while (fromBlock <= head) {
+      const toBlock = Math.min(fromBlock + this.batchSize - 1, head);
+      if (!(await this.indexRange(fromBlock, toBlock))) {
+        // The chain moved under this batch; resolve the reorg on the next sync.
+        break;
+      }
+      fromBlock = toBlock + 1;
+    }
+    return this.store.getCheckpoint();
+  }
+
+  /** Syncs every poll interval until the signal aborts. */
+  async run(signal: AbortSignal, onError: (error: unknown) => void = console.error) {
+    while (!signal.aborted) {
+      try {
+        await this.sync();
+      } catch (error) {
+        onError(error);
+      }
+      await sleep(this.pollIntervalMs, signal);
+    }
+  }
+
+  private async getBlockHash(blockNumber: number): Promise<string | undefined> {
+    return (await this.provider.getBlock(blockNumber))?.hash ?? undefined;
+  }
+
+  private async handleReorg() {
+    const checkpoint = this.store.getCheckpoint();
+    if (!checkpoint || (await this.getBlockHash(checkpoint.number)) === checkpoint.hash) return;
+
+    for (const block of this.store.getRecentBlocks()) {
+      if ((await this.getBlockHash(block.number)) === block.hash) {
+        this.store.rollback(block.number);
+        return;
+      }
+    }
+    // The fork is deeper than the recorded hashes reach, so start over.
+    this.store.rollback(this.deploymentBlock - 1);
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number): Promise<boolean> {
+    const endHash = await this.getBlockHash(toBlock);
+    if (!endHash) return false;
+
+    const logs = await this.provider.getLogs({
+      address: this.address,
+      fromBlock,
+      toBlock,
+      topics: [this.topics],
+    });
+
+    // Logs from a fork that lost mid-request would otherwise be stored under the winner's hash.
+    if ((await this.getBlockHash(toBlock)) !== endHash) return false;
+
+    const events = logs.map((log) => this.toEvent(log));
+    this.store.commitBatch(events, { number: toBlock, hash: endHash }, this.reorgDepth);
+    return true;
+  }
+
+  private toEvent(log: ethers.Log): IndexedEvent {
+    const parsed = agriFinanceInterface.parseLog(log)!;
+    const name = parsed.name as IndexedEventName;
+    const submitted = name === "LoanApplicationSubmitted";
+    const decrypted = name === "ApplicationDecrypted";
+    return {
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.index,
+      transactionHash: log.transactionHash,
+      name,
+      applicationId: Number(parsed.args.id),
+      status: STATUS_EVENTS[name] ?? null,
+      applicant: submitted ? ethers.getAddress(parsed.args.applicant) : null,
+      cropType: submitted ? parsed.args.cropType : null,
+      submittedAt: submitted ? Number(parsed.args.timestamp) : null,
+      farmData: decrypted ? Number(parsed.args.farmData) : null,
+      yieldPrediction: decrypted ? Number(parsed.args.yieldPrediction) : null,
+      loanAmount: decrypted ? Number(parsed.args.loanAmount) : null,
+    };
+  }
+}
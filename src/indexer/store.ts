@@ -0,0 +1,324 @@
+import Database from "better-sqlite3";
+
+// Index order matches AgriFinanceFHE.LoanStatus.
+export const LOAN_STATUSES = [
+  "submitted",
+  "under-review",
+  "approved",
+  "rejected",
+  "disbursed",
+  "repaying",
+  "closed",
+  "defaulted",
+] as const;
+
+export type LoanStatusName = (typeof LOAN_STATUSES)[number];
+
+export type IndexedEventName =
+  | "LoanApplicationSubmitted"
+  | "DecryptionRequested"
+  | "ApplicationDecrypted"
+  | "ApplicationUnderReview"
+  | "ApplicationApproved"
+  | "ApplicationRejected"
+  | "LoanDisbursed"
+  | "LoanRepaymentStarted"
+  | "LoanClosed"
+  | "LoanDefaulted";
+
+// Fields an event does not carry are null.
+export interface IndexedEvent {
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  name: IndexedEventName;
+  applicationId: number;
+  // Status the application enters with this event, if any.
+  status: LoanStatusName | null;
+  applicant: string | null;
+  cropType: string | null;
+  submittedAt: number | null;
+  farmData: number | null;
+  yieldPrediction: number | null;
+  loanAmount: number | null;
+}
+
+// The decrypted values stay null until ApplicationDecrypted is indexed.
+export interface IndexedApplication {
+  id: number;
+  applicant: string;
+  cropType: string;
+  status: LoanStatusName;
+  submittedAt: number;
+  blockNumber: number;
+  transactionHash: string;
+  decryptionRequested: boolean;
+  decrypted: boolean;
+  farmData: number | null;
+  yieldPrediction: number | null;
+  loanAmount: number | null;
+}
+
+export const APPLICATION_SORT_FIELDS = ["id", "submittedAt", "status", "cropType"] as const;
+
+export type ApplicationSortField = (typeof APPLICATION_SORT_FIELDS)[number];
+
+export interface ApplicationQuery {
+  status?: LoanStatusName[];
+  cropType?: string;
+  applicant?: string;
+  // Inclusive bounds, in unix seconds.
+  submittedFrom?: number;
+  submittedTo?: number;
+  sort: ApplicationSortField;
+  order: "asc" | "desc";
+  limit: number;
+  offset: number;
+}
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+}
+
+export interface IndexScope {
+  chainId: number;
+  address: string;
+}
+
+// Bumped whenever the tables change. An index built for another version is
+// dropped and rebuilt from the chain, since it holds nothing the chain doesn't.
+const SCHEMA_VERSION = 2;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  -- Hashes of recently indexed blocks, compared against the chain to detect reorgs.
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    name TEXT NOT NULL,
+    application_id INTEGER NOT NULL,
+    status TEXT,
+    applicant TEXT,
+    crop_type TEXT,
+    submitted_at INTEGER,
+    farm_data INTEGER,
+    yield_prediction INTEGER,
+    loan_amount INTEGER,
+    PRIMARY KEY (block_number, log_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS events_application ON events (application_id, name);
+
+  -- An application's status is the one set by its latest lifecycle event.
+  CREATE VIEW IF NOT EXISTS applications AS
+    SELECT
+      s.application_id AS id,
+      s.applicant,
+      s.crop_type,
+      (
+        SELECT t.status FROM events t
+        WHERE t.application_id = s.application_id AND t.status IS NOT NULL
+        ORDER BY t.block_number DESC, t.log_index DESC
+        LIMIT 1
+      ) AS status,
+      s.submitted_at,
+      s.block_number,
+      s.transaction_hash,
+      EXISTS (
+        SELECT 1 FROM events r WHERE r.application_id = s.application_id AND r.name = 'DecryptionRequested'
+      ) AS decryption_requested,
+      d.application_id IS NOT NULL AS decrypted,
+      d.farm_data,
+      d.yield_prediction,
+      d.loan_amount
+    FROM events s
+    LEFT JOIN events d ON d.application_id = s.application_id AND d.name = 'ApplicationDecrypted'
+    WHERE s.name = 'LoanApplicationSubmitted';
+`;
+
+type ApplicationRow = {
+  id: number;
+  applicant: string;
+  crop_type: string;
+  status: LoanStatusName;
+  submitted_at: number;
+  block_number: number;
+  transaction_hash: string;
+  decryption_requested: number;
+  decrypted: number;
+  farm_data: number | null;
+  yield_prediction: number | null;
+  loan_amount: number | null;
+};
+
+const toApplication = (row: ApplicationRow): IndexedApplication => ({
+  id: row.id,
+  applicant: row.applicant,
+  cropType: row.crop_type,
+  status: row.status,
+  submittedAt: row.submitted_at,
+  blockNumber: row.block_number,
+  transactionHash: row.transaction_hash,
+  decryptionRequested: row.decryption_requested === 1,
+  decrypted: row.decrypted === 1,
+  farmData: row.farm_data,
+  yieldPrediction: row.yield_prediction,
+  loanAmount: row.loan_amount,
+});
+
+// Statuses sort in lifecycle order rather than alphabetically.
+const SORT_COLUMNS: Record<ApplicationSortField, string> = {
+  id: "id",
+  submittedAt: "submitted_at",
+  status: `CASE status ${LOAN_STATUSES.map((status, i) => `WHEN '${status}' THEN ${i}`).join(" ")} END`,
+  cropType: "crop_type COLLATE NOCASE",
+};
+
+/**
+ * SQLite store for the AgriFinanceFHE event index. Every row is tied to the
+ * block it came from, so a reorg is undone by deleting everything above the
+ * last block both chains agree on. A database file only ever holds one
+ * contract on one chain.
+ */
+export class IndexerStore {
+  private readonly db: Database.Database;
+
+  constructor(filename: string, scope: IndexScope) {
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    if (this.db.pragma("user_version", { simple: true }) !== SCHEMA_VERSION) {
+      this.db.exec("DROP VIEW IF EXISTS applications; DROP TABLE IF EXISTS events; DROP TABLE IF EXISTS blocks;");
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    }
+    this.db.exec(SCHEMA);
+    this.bindScope(scope);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  private bindScope(scope: IndexScope) {
+    const expected = `${scope.chainId}:${scope.address.toLowerCase()}`;
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = 'scope'").get() as { value: string } | undefined;
+    if (!row) {
+      this.db.prepare("INSERT INTO meta (key, value) VALUES ('scope', ?)").run(expected);
+    } else if (row.value !== expected) {
+      throw new Error(`Index holds ${row.value}, not ${expected}`);
+    }
+  }
+
+  getScope(): IndexScope {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = 'scope'").get() as { value: string };
+    const [chainId, address] = row.value.split(":");
+    return { chainId: Number(chainId), address };
+  }
+
+  /** The highest block indexed so far, or undefined for a fresh database. */
+  getCheckpoint(): IndexedBlock | undefined {
+    return this.db.prepare("SELECT number, hash FROM blocks ORDER BY number DESC LIMIT 1").get() as
+      | IndexedBlock
+      | undefined;
+  }
+
+  /** Recorded block hashes from newest to oldest, used to find where a reorg forked. */
+  getRecentBlocks(): IndexedBlock[] {
+    return this.db.prepare("SELECT number, hash FROM blocks ORDER BY number DESC").all() as IndexedBlock[];
+  }
+
+  /**
+   * Stores one batch atomically: its events, the hashes of the blocks they
+   * came from, and the batch's last block as the new checkpoint. Hashes below
+   * the reorg window are pruned.
+   */
+  commitBatch(events: IndexedEvent[], checkpoint: IndexedBlock, reorgDepth: number) {
+    const insertEvent = this.db.prepare(
+      `INSERT OR REPLACE INTO events
+        (block_number, log_index, block_hash, transaction_hash, name, application_id, status,
+         applicant, crop_type, submitted_at, farm_data, yield_prediction, loan_amount)
+       VALUES (@blockNumber, @logIndex, @blockHash, @transactionHash, @name, @applicationId, @status,
+         @applicant, @cropType, @submittedAt, @farmData, @yieldPrediction, @loanAmount)`,
+    );
+    const insertBlock = this.db.prepare("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)");
+
+    this.db.transaction(() => {
+      for (const event of events) {
+        insertEvent.run(event);
+        insertBlock.run(event.blockNumber, event.blockHash);
+      }
+      insertBlock.run(checkpoint.number, checkpoint.hash);
+      this.db.prepare("DELETE FROM blocks WHERE number < ?").run(checkpoint.number - reorgDepth);
+    })();
+  }
+
+  /** Drops everything indexed after the given block. */
+  rollback(toBlock: number) {
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM events WHERE block_number > ?").run(toBlock);
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(toBlock);
+    })();
+  }
+
+  getApplications(): IndexedApplication[] {
+    const rows = this.db.prepare("SELECT * FROM applications ORDER BY id").all() as ApplicationRow[];
+    return rows.map(toApplication);
+  }
+
+  /** One page of applications matching the query, plus the total number of matches. */
+  queryApplications(query: ApplicationQuery): { items: IndexedApplication[]; total: number } {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.status?.length) {
+      conditions.push(`status IN (${query.status.map(() => "?").join(", ")})`);
+      params.push(...query.status);
+    }
+    if (query.cropType !== undefined) {
+      conditions.push("crop_type = ? COLLATE NOCASE");
+      params.push(query.cropType);
+    }
+    if (query.applicant !== undefined) {
+      conditions.push("applicant = ? COLLATE NOCASE");
+      params.push(query.applicant);
+    }
+    if (query.submittedFrom !== undefined) {
+      conditions.push("submitted_at >= ?");
+      params.push(query.submittedFrom);
+    }
+    if (query.submittedTo !== undefined) {
+      conditions.push("submitted_at <= ?");
+      params.push(query.submittedTo);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const direction = query.order === "desc" ? "DESC" : "ASC";
+
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM applications ${where}`).get(...params) as {
+      total: number;
+    };
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM applications ${where}
+         ORDER BY ${SORT_COLUMNS[query.sort]} ${direction}, id ${direction}
+         LIMIT ? OFFSET ?`,
+      )
+      .all(...params, query.limit, query.offset) as ApplicationRow[];
+    return { items: rows.map(toApplication), total };
+  }
+
+  getApplication(id: number): IndexedApplication | undefined {
+    const row = this.db.prepare("SELECT * FROM applications WHERE id = ?").get(id) as ApplicationRow | undefined;
+    return row && toApplication(row);
+  }
+}
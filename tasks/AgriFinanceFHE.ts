@@ -0,0 +1,364 @@
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { DeploymentRegistry } from "../frontend/web/src/registry";
+import registryJson from "../frontend/web/src/registry.json";
+import type { AgriFinanceFHE } from "../types";
+
+// Index order matches AgriFinanceFHE.LoanStatus.
+const LOAN_STATUSES = [
+  "submitted",
+  "under-review",
+  "approved",
+  "rejected",
+  "disbursed",
+  "repaying",
+  "closed",
+  "defaulted",
+] as const;
+
+// Index order matches AgriFinanceFHE.Role.
+const ROLES = ["lender", "underwriter", "auditor", "cooperative"] as const;
+
+type Cell = string | number | boolean | null;
+type Row = Record<string, Cell>;
+
+// One season of a --history file; dates are unix seconds or ISO dates.
+interface PlantingSeasonArgs {
+  season: string;
+  cropType: string;
+  area: number;
+  plantedAt: number | string;
+  harvestedAt: number | string;
+  realisedYield: number;
+}
+
+interface Deployment {
+  contract: AgriFinanceFHE;
+  deploymentBlock: number;
+}
+
+const registry: DeploymentRegistry = registryJson;
+
+/**
+ * The AgriFinanceFHE instance to operate on: --address if given, else the
+ * hardhat-deploy record for the network, else the deployment registry entry
+ * for the chain.
+ */
+async function getDeployment(hre: HardhatRuntimeEnvironment, address?: string): Promise<Deployment> {
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+  const record = address ? undefined : await hre.deployments.getOrNull("AgriFinanceFHE");
+  const registered = registry.networks[chainId]?.contracts.AgriFinanceFHE;
+
+  const resolved = address ?? record?.address ?? (registered?.address || undefined);
+  if (!resolved) {
+    throw new Error(`No AgriFinanceFHE deployment on ${hre.network.name}; deploy it or pass --address`);
+  }
+  let deploymentBlock = 0;
+  if (record) {
+    deploymentBlock = record.receipt?.blockNumber ?? 0;
+  } else if (registered && resolved.toLowerCase() === registered.address.toLowerCase()) {
+    deploymentBlock = registered.deploymentBlock;
+  }
+
+  const contract = (await hre.ethers.getContractAt("AgriFinanceFHE", resolved)) as unknown as AgriFinanceFHE;
+  return { contract, deploymentBlock };
+}
+
+async function getSigner(hre: HardhatRuntimeEnvironment, index: number) {
+  const signers = await hre.ethers.getSigners();
+  if (!signers[index]) {
+    throw new Error(`Signer ${index} is not configured for ${hre.network.name}`);
+  }
+  return signers[index];
+}
+
+const toIsoDate = (seconds: bigint | number) => new Date(Number(seconds) * 1000).toISOString();
+
+const toUnixSeconds = (value: number | string) =>
+  typeof value === "number" ? value : Math.floor(new Date(value).getTime() / 1000);
+
+function readPlantingHistory(path: string | undefined): PlantingSeasonArgs[] {
+  if (!path) return [];
+  const seasons = JSON.parse(fs.readFileSync(path, "utf8"));
+  if (!Array.isArray(seasons)) {
+    throw new Error(`${path} must hold a JSON array of seasons`);
+  }
+  seasons.forEach((season: PlantingSeasonArgs, i: number) => {
+    for (const field of ["plantedAt", "harvestedAt"] as const) {
+      if (!Number.isInteger(toUnixSeconds(season[field]))) {
+        throw new Error(`Season ${i + 1} has an invalid ${field}`);
+      }
+    }
+  });
+  return seasons;
+}
+
+function printRows(rows: Row[], json: boolean) {
+  if (json) {
+    console.log(JSON.stringify(rows, null, 2));
+    return;
+  }
+  if (rows.length === 0) {
+    console.log("(none)");
+    return;
+  }
+  const columns = Object.keys(rows[0]);
+  const cells = rows.map((row) => columns.map((column) => String(row[column] ?? "-")));
+  const widths = columns.map((column, i) => Math.max(column.length, ...cells.map((values) => values[i].length)));
+  const line = (values: string[]) =>
+    values
+      .map((value, i) => value.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+
+  console.log(line(columns));
+  console.log(line(widths.map((width) => "-".repeat(width))));
+  cells.forEach((values) => console.log(line(values)));
+}
+
+function printRecord(record: Row, json: boolean) {
+  if (json) {
+    console.log(JSON.stringify(record, null, 2));
+    return;
+  }
+  const width = Math.max(...Object.keys(record).map((key) => key.length));
+  for (const [key, value] of Object.entries(record)) {
+    console.log(`${key.padEnd(width)}  ${value ?? "-"}`);
+  }
+}
+
+async function readApplication(contract: AgriFinanceFHE, id: number): Promise<Row> {
+  const [application, decrypted, status] = await Promise.all([
+    contract.encryptedApplications(id),
+    contract.getDecryptedApplication(id),
+    contract.loanStatus(id),
+  ]);
+  if (application.id === 0n) {
+    throw new Error(`Application ${id} not found`);
+  }
+  return {
+    id,
+    applicant: application.applicant,
+    cropType: application.cropType,
+    status: LOAN_STATUSES[Number(status)],
+    submittedAt: toIsoDate(application.timestamp),
+    revealed: decrypted.isRevealed,
+    farmData: decrypted.isRevealed ? Number(decrypted.farmData) : null,
+    yieldPrediction: decrypted.isRevealed ? Number(decrypted.yieldPrediction) : null,
+    loanAmount: decrypted.isRevealed ? Number(decrypted.loanAmount) : null,
+  };
+}
+
+task("agri:submit", "Encrypts and submits a loan application")
+  .addParam("crop", "Crop type")
+  .addParam("farmData", "Farm data, e.g. area in hectares", undefined, types.int)
+  .addParam("yieldPrediction", "Predicted yield", undefined, types.int)
+  .addParam("loanAmount", "Requested loan amount", undefined, types.int)
+  .addOptionalParam(
+    "history",
+    "JSON file with past seasons: [{ season, cropType, area, plantedAt, harvestedAt, realisedYield }]",
+  )
+  .addOptionalParam("signer", "Index of the submitting account", 0, types.int)
+  .addOptionalParam("address", "AgriFinanceFHE address (default: from the deployment records)")
+  .addFlag("json", "Print JSON")
+  .setAction(async (args, hre) => {
+    const { contract } = await getDeployment(hre, args.address);
+    const signer = await getSigner(hre, args.signer);
+    const contractAddress = await contract.getAddress();
+    const history = readPlantingHistory(args.history);
+
+    await hre.fhevm.initializeCLIApi();
+    const input = hre.fhevm
+      .createEncryptedInput(contractAddress, signer.address)
+      .add32(args.farmData)
+      .add32(args.yieldPrediction)
+      .add32(args.loanAmount);
+    for (const season of history) {
+      input
+        .add32(season.area)
+        .add32(toUnixSeconds(season.plantedAt))
+        .add32(toUnixSeconds(season.harvestedAt))
+        .add32(season.realisedYield);
+    }
+    const encrypted = await input.encrypt();
+
+    // Season handles follow the three application fields, four per season.
+    const seasons = history.map((season, i) => ({
+      season: season.season,
+      cropType: season.cropType,
+      area: encrypted.handles[3 + 4 * i],
+      plantedAt: encrypted.handles[4 + 4 * i],
+      harvestedAt: encrypted.handles[5 + 4 * i],
+      realisedYield: encrypted.handles[6 + 4 * i],
+    }));
+
+    const tx = await contract
+      .connect(signer)
+      .submitEncryptedLoanApplication(
+        args.crop,
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.handles[2],
+        seasons,
+        encrypted.inputProof,
+      );
+    const receipt = await tx.wait();
+    const submitted = receipt!.logs
+      .map((log) => contract.interface.parseLog(log))
+      .find((event) => event?.name === "LoanApplicationSubmitted");
+
+    const result = {
+      id: Number(submitted!.args.id),
+      applicant: signer.address,
+      seasons: seasons.length,
+      transactionHash: tx.hash,
+    };
+    printRecord(result, args.json);
+    return result;
+  });
+
+task("agri:list", "Lists loan applications")
+  .addOptionalParam("applicant", "Only applications from this address")
+  .addOptionalParam("status", `Only applications in this status (${LOAN_STATUSES.join(", ")})`)
+  .addOptionalParam("address", "AgriFinanceFHE address (default: from the deployment records)")
+  .addFlag("json", "Print JSON")
+  .setAction(async (args, hre) => {
+    const { contract } = await getDeployment(hre, args.address);
+    if (args.status && !LOAN_STATUSES.includes(args.status)) {
+      throw new Error(`Unknown status ${args.status}; expected one of ${LOAN_STATUSES.join(", ")}`);
+    }
+
+    const ids = args.applicant
+      ? (await contract.getApplicationIdsByApplicant(args.applicant)).map(Number)
+      : Array.from({ length: Number(await contract.applicationCount()) }, (_, i) => i + 1);
+
+    const rows: Row[] = [];
+    for (const id of ids) {
+      const { applicant, cropType, status, submittedAt, revealed } = await readApplication(contract, id);
+      if (!args.status || status === args.status) {
+        rows.push({ id, applicant, cropType, status, submittedAt, revealed });
+      }
+    }
+    printRows(rows, args.json);
+    return rows;
+  });
+
+task("agri:show", "Shows one loan application")
+  .addParam("id", "Application id", undefined, types.int)
+  .addOptionalParam("address", "AgriFinanceFHE address (default: from the deployment records)")
+  .addFlag("json", "Print JSON")
+  .setAction(async (args, hre) => {
+    const { contract } = await getDeployment(hre, args.address);
+    const application = await readApplication(contract, args.id);
+    const encrypted = await contract.encryptedApplications(args.id);
+    const history = await contract.getPlantingHistory(args.id);
+
+    const record: Row = {
+      ...application,
+      farmDataHandle: encrypted.encryptedFarmData,
+      yieldPredictionHandle: encrypted.encryptedYieldPrediction,
+      loanAmountHandle: encrypted.encryptedLoanAmount,
+      seasons: history.map((season) => `${season.season} ${season.cropType}`).join(", ") || null,
+    };
+    printRecord(record, args.json);
+    return record;
+  });
+
+task("agri:request-decrypt", "Asks the decryption oracle to publish an application's values")
+  .addParam("id", "Application id", undefined, types.int)
+  .addOptionalParam("signer", "Index of the applicant's account", 0, types.int)
+  .addOptionalParam("timeout", "Seconds to wait for the oracle on a live network", 300, types.int)
+  .addOptionalParam("address", "AgriFinanceFHE address (default: from the deployment records)")
+  .addFlag("json", "Print JSON")
+  .setAction(async (args, hre) => {
+    const { contract } = await getDeployment(hre, args.address);
+    const signer = await getSigner(hre, args.signer);
+
+    const tx = await contract.connect(signer).requestApplicationDecryption(args.id);
+    await tx.wait();
+    console.log(`Decryption of application ${args.id} requested in ${tx.hash}`);
+
+    await hre.fhevm.initializeCLIApi();
+    if (hre.fhevm.isMock) {
+      await hre.fhevm.awaitDecryptionOracle();
+    } else {
+      // The relayer fulfils the request in a later transaction.
+      const deadline = Date.now() + args.timeout * 1000;
+      while (!(await contract.getDecryptedApplication(args.id)).isRevealed) {
+        if (Date.now() > deadline) {
+          throw new Error(`Oracle did not publish application ${args.id} within ${args.timeout}s`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, 5000));
+      }
+    }
+
+    const application = await readApplication(contract, args.id);
+    printRecord(application, args.json);
+    return application;
+  });
+
+task("agri:category-stats", "Shows the published application count per crop category")
+  .addOptionalParam("address", "AgriFinanceFHE address (default: from the deployment records)")
+  .addFlag("json", "Print JSON")
+  .setAction(async (args, hre) => {
+    const { contract } = await getDeployment(hre, args.address);
+    const [categories, counts, revealedAt] = await contract.getRevealedCategoryCounts();
+
+    // Counts are only meaningful once an auditor has had them decrypted.
+    const rows: Row[] = categories.map((category, i) => ({
+      category,
+      count: revealedAt[i] > 0n ? Number(counts[i]) : null,
+      revealedAt: revealedAt[i] > 0n ? toIsoDate(revealedAt[i]) : null,
+    }));
+    printRows(rows, args.json);
+    return rows;
+  });
+
+task("agri:roles", "Lists role holders, or grants or revokes a role")
+  .addOptionalParam("account", "Only this account; required with --grant and --revoke")
+  .addOptionalParam("grant", `Role to grant (${ROLES.join(", ")})`)
+  .addOptionalParam("revoke", `Role to revoke (${ROLES.join(", ")})`)
+  .addOptionalParam("signer", "Index of the admin account, for --grant and --revoke", 0, types.int)
+  .addOptionalParam("address", "AgriFinanceFHE address (default: from the deployment records)")
+  .addFlag("json", "Print JSON")
+  .setAction(async (args, hre) => {
+    const { contract, deploymentBlock } = await getDeployment(hre, args.address);
+
+    const change = args.grant ?? args.revoke;
+    if (change) {
+      const role = ROLES.indexOf(change);
+      if (role < 0) {
+        throw new Error(`Unknown role ${change}; expected one of ${ROLES.join(", ")}`);
+      }
+      if (!args.account) {
+        throw new Error("--account is required with --grant and --revoke");
+      }
+      const admin = contract.connect(await getSigner(hre, args.signer));
+      const tx = args.grant ? await admin.grantRole(role, args.account) : await admin.revokeRole(role, args.account);
+      await tx.wait();
+      console.log(`${args.grant ? "Granted" : "Revoked"} ${change} for ${args.account} in ${tx.hash}`);
+    }
+
+    // Everyone who ever held a role or the admin seat; current membership is read from the contract.
+    let accounts: string[] = [];
+    if (args.account) {
+      accounts = [hre.ethers.getAddress(args.account)];
+    } else {
+      const grants = await contract.queryFilter(contract.filters.RoleGranted(), deploymentBlock);
+      accounts = [...new Set([await contract.admin(), ...grants.map((event) => event.args.account)])];
+    }
+
+    const admin = (await contract.admin()).toLowerCase();
+    const rows: Row[] = [];
+    for (const account of accounts) {
+      const held = await Promise.all(ROLES.map((_, role) => contract.hasRole(role, account)));
+      rows.push({
+        account,
+        admin: account.toLowerCase() === admin,
+        ...Object.fromEntries(ROLES.map((role, i) => [role, held[i]])),
+      });
+    }
+    printRows(rows, args.json);
+    return rows;
+  });
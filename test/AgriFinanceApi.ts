@@ -0,0 +1,174 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm, network } from "hardhat";
+import { expect } from "chai";
+import http from "http";
+import { AddressInfo } from "net";
+import { AgriFinanceFHE, AgriFinanceFHE__factory } from "../types";
+import { createApiServer } from "../src/api/server";
+import { openApiDocument } from "../src/api/openapi";
+import { ApplicationListResponse, ErrorResponse, HealthResponse } from "../src/api/schemas";
+import { AgriFinanceIndexer } from "../src/indexer/indexer";
+import { IndexerStore } from "../src/indexer/store";
+
+const DAY = 24 * 60 * 60;
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function submitApplication(
+  contract: AgriFinanceFHE,
+  contractAddress: string,
+  applicant: HardhatEthersSigner,
+  cropType: string,
+  submittedAt: number,
+) {
+  const encryptedInput = await fhevm
+    .createEncryptedInput(contractAddress, applicant.address)
+    .add32(1)
+    .add32(2)
+    .add32(3)
+    .encrypt();
+
+  await network.provider.send("evm_setNextBlockTimestamp", [submittedAt]);
+  const tx = await contract
+    .connect(applicant)
+    .submitEncryptedLoanApplication(
+      cropType,
+      encryptedInput.handles[0],
+      encryptedInput.handles[1],
+      encryptedInput.handles[2],
+      [],
+      encryptedInput.inputProof,
+    );
+  return tx.wait();
+}
+
+describe("AgriFinanceFHE index API", function () {
+  let signers: Signers;
+  let store: IndexerStore;
+  let server: http.Server;
+  let baseUrl: string;
+  let start: number;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory("AgriFinanceFHE")) as AgriFinanceFHE__factory;
+    const contract = (await factory.deploy()) as AgriFinanceFHE;
+    const contractAddress = await contract.getAddress();
+    const deploymentBlock = (await contract.deploymentTransaction()!.wait())!.blockNumber;
+
+    // Three applications a day apart: 1 stays submitted, 2 is approved, 3 is under review.
+    start = (await ethers.provider.getBlock("latest"))!.timestamp + DAY;
+    await submitApplication(contract, contractAddress, signers.alice, "Wheat", start);
+    await submitApplication(contract, contractAddress, signers.bob, "Maize", start + DAY);
+    await submitApplication(contract, contractAddress, signers.alice, "maize", start + 2 * DAY);
+    await contract.startReview(2);
+    await contract.approveApplication(2);
+    await contract.startReview(3);
+
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    store = new IndexerStore(":memory:", { chainId, address: contractAddress });
+    await new AgriFinanceIndexer(ethers.provider, store, { address: contractAddress, deploymentBlock }).sync();
+
+    server = createApiServer(store);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async function () {
+    if (!server) return;
+    await new Promise((resolve) => server.close(resolve));
+    store.close();
+  });
+
+  async function get<T>(path: string) {
+    const res = await fetch(`${baseUrl}${path}`);
+    return { status: res.status, body: (await res.json()) as T };
+  }
+
+  async function listIds(query: string) {
+    const { status, body } = await get<ApplicationListResponse>(`/applications${query}`);
+    expect(status).to.eq(200);
+    return body.items.map((application) => application.id);
+  }
+
+  it("lists the newest applications first by default", async function () {
+    const { status, body } = await get<ApplicationListResponse>("/applications");
+
+    expect(status).to.eq(200);
+    expect(body).to.include({ total: 3, limit: 20, offset: 0 });
+    expect(body.items.map((application) => application.id)).to.deep.eq([3, 2, 1]);
+    expect(body.items[1]).to.include({
+      applicant: signers.bob.address,
+      cropType: "Maize",
+      status: "approved",
+      submittedAt: start + DAY,
+      decrypted: false,
+    });
+  });
+
+  it("paginates with limit and offset", async function () {
+    const { body } = await get<ApplicationListResponse>("/applications?sort=id&order=asc&limit=2&offset=2");
+
+    expect(body).to.include({ total: 3, limit: 2, offset: 2 });
+    expect(body.items.map((application) => application.id)).to.deep.eq([3]);
+  });
+
+  it("filters by status, crop, applicant and submission date", async function () {
+    expect(await listIds("?status=approved,under-review&sort=id&order=asc")).to.deep.eq([2, 3]);
+    expect(await listIds("?status=submitted&status=approved&sort=id&order=asc")).to.deep.eq([1, 2]);
+    expect(await listIds("?cropType=MAIZE&sort=id&order=asc")).to.deep.eq([2, 3]);
+    expect(await listIds(`?applicant=${signers.alice.address.toLowerCase()}&sort=id&order=asc`)).to.deep.eq([1, 3]);
+    expect(await listIds(`?submittedFrom=${start + DAY}&submittedTo=${start + DAY}`)).to.deep.eq([2]);
+  });
+
+  it("sorts statuses in lifecycle order", async function () {
+    expect(await listIds("?sort=status&order=asc")).to.deep.eq([1, 3, 2]);
+    expect(await listIds("?sort=cropType&order=asc")).to.deep.eq([2, 3, 1]);
+  });
+
+  it("rejects invalid query parameters", async function () {
+    for (const query of [
+      "?limit=0",
+      "?limit=101",
+      "?offset=-1",
+      "?status=pending",
+      "?sort=applicant",
+      "?applicant=alice",
+      `?submittedFrom=${start + DAY}&submittedTo=${start}`,
+      "?page=2",
+    ]) {
+      const { status, body } = await get<ErrorResponse>(`/applications${query}`);
+      expect(status, query).to.eq(400);
+      expect(body.error, query).to.be.a("string");
+    }
+  });
+
+  it("returns a single application or 404", async function () {
+    expect((await get("/applications/2")).body).to.include({ id: 2, status: "approved" });
+    expect((await get("/applications/9")).status).to.eq(404);
+    expect((await get("/applications/two")).status).to.eq(400);
+  });
+
+  it("serves its OpenAPI document and index health", async function () {
+    const openApi = await get<typeof openApiDocument>("/openapi.json");
+    expect(openApi.body.openapi).to.eq("3.0.3");
+    expect(openApi.body.paths).to.have.keys(["/applications", "/applications/{id}", "/health"]);
+
+    const health = await get<HealthResponse>("/health");
+    expect(health.body.chainId).to.eq(Number((await ethers.provider.getNetwork()).chainId));
+    expect(health.body.checkpoint!.number).to.eq(await ethers.provider.getBlockNumber());
+  });
+});
@@ -0,0 +1,1548 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { AgriFinanceFHE, AgriFinanceFHE__factory } from "../types";
+
+// Mirrors AgriFinanceFHE.Role.
+const Role = {
+  Lender: 0,
+  Underwriter: 1,
+  Auditor: 2,
+  Cooperative: 3,
+};
+
+// Mirrors AgriFinanceFHE.LoanStatus.
+const LoanStatus = {
+  Submitted: 0n,
+  UnderReview: 1n,
+  Approved: 2n,
+  Rejected: 3n,
+  Disbursed: 4n,
+  Repaying: 5n,
+  Closed: 6n,
+  Defaulted: 7n,
+};
+
+// Mirrors AgriFinanceFHE.COLLATERAL_TYPE_*.
+const CollateralType = {
+  LandTitle: 0,
+  Equipment: 1,
+  StoredGrain: 2,
+  Other: 3,
+};
+
+type PlantingSeason = {
+  season: string;
+  cropType: string;
+  area: number;
+  plantedAt: number;
+  harvestedAt: number;
+  realisedYield: number;
+};
+
+const DAY = 24 * 60 * 60;
+
+// Seasons of a given crop a year apart, one per realised yield (kg/ha).
+function plantingHistory(realisedYields: number[], cropType = "Wheat"): PlantingSeason[] {
+  const start = Date.UTC(2020, 2, 1) / 1000;
+  return realisedYields.map((realisedYield, i) => ({
+    season: `${2020 + i}`,
+    cropType,
+    area: 10 + i,
+    plantedAt: start + i * 365 * DAY,
+    harvestedAt: start + i * 365 * DAY + 120 * DAY,
+    realisedYield,
+  }));
+}
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("AgriFinanceFHE")) as AgriFinanceFHE__factory;
+  const agriFinanceContract = (await factory.deploy()) as AgriFinanceFHE;
+  const agriFinanceContractAddress = await agriFinanceContract.getAddress();
+
+  return { agriFinanceContract, agriFinanceContractAddress };
+}
+
+async function submitApplication(
+  contract: AgriFinanceFHE,
+  contractAddress: string,
+  applicant: HardhatEthersSigner,
+  farmData: number,
+  yieldPrediction: number,
+  loanAmount: number,
+  cropType = "Wheat",
+  history: PlantingSeason[] = [],
+) {
+  const input = fhevm
+    .createEncryptedInput(contractAddress, applicant.address)
+    .add32(farmData)
+    .add32(yieldPrediction)
+    .add32(loanAmount);
+  for (const season of history) {
+    input.add32(season.area).add32(season.plantedAt).add32(season.harvestedAt).add32(season.realisedYield);
+  }
+  const encryptedInput = await input.encrypt();
+
+  // Season handles follow the three application fields, four per season.
+  const seasons = history.map((season, i) => ({
+    season: season.season,
+    cropType: season.cropType,
+    area: encryptedInput.handles[3 + 4 * i],
+    plantedAt: encryptedInput.handles[4 + 4 * i],
+    harvestedAt: encryptedInput.handles[5 + 4 * i],
+    realisedYield: encryptedInput.handles[6 + 4 * i],
+  }));
+
+  const tx = await contract
+    .connect(applicant)
+    .submitEncryptedLoanApplication(
+      cropType,
+      encryptedInput.handles[0],
+      encryptedInput.handles[1],
+      encryptedInput.handles[2],
+      seasons,
+      encryptedInput.inputProof,
+    );
+  return tx.wait();
+}
+
+type BatchRow = {
+  applicant: string;
+  cropType: string;
+  farmData: number;
+  yieldPrediction: number;
+  loanAmount: number;
+  history?: PlantingSeason[];
+};
+
+// Encrypts every row of a cooperative batch under the cooperative's single proof.
+async function encryptBatch(contractAddress: string, cooperative: HardhatEthersSigner, rows: BatchRow[]) {
+  const input = fhevm.createEncryptedInput(contractAddress, cooperative.address);
+  for (const row of rows) {
+    input.add32(row.farmData).add32(row.yieldPrediction).add32(row.loanAmount);
+    for (const season of row.history ?? []) {
+      input.add32(season.area).add32(season.plantedAt).add32(season.harvestedAt).add32(season.realisedYield);
+    }
+  }
+  const { handles, inputProof } = await input.encrypt();
+
+  let next = 0;
+  const applications = rows.map((row) => ({
+    applicant: row.applicant,
+    cropType: row.cropType,
+    farmData: handles[next++],
+    yieldPrediction: handles[next++],
+    loanAmount: handles[next++],
+    plantingHistory: (row.history ?? []).map((season) => ({
+      season: season.season,
+      cropType: season.cropType,
+      area: handles[next++],
+      plantedAt: handles[next++],
+      harvestedAt: handles[next++],
+      realisedYield: handles[next++],
+    })),
+  }));
+  return { applications, inputProof };
+}
+
+async function registerCollateral(
+  contract: AgriFinanceFHE,
+  contractAddress: string,
+  registrant: HardhatEthersSigner,
+  collateralType: number,
+  appraisedValue: number,
+  owner = registrant.address,
+) {
+  const encryptedInput = await fhevm
+    .createEncryptedInput(contractAddress, registrant.address)
+    .add8(collateralType)
+    .add32(appraisedValue)
+    .addAddress(owner)
+    .encrypt();
+
+  const tx = await contract
+    .connect(registrant)
+    .registerCollateral(
+      encryptedInput.handles[0],
+      encryptedInput.handles[1],
+      encryptedInput.handles[2],
+      encryptedInput.inputProof,
+    );
+  return tx.wait();
+}
+
+async function revealApplication(contract: AgriFinanceFHE, applicationId: number, applicant: HardhatEthersSigner) {
+  await contract.connect(applicant).requestApplicationDecryption(applicationId);
+  await fhevm.awaitDecryptionOracle();
+}
+
+describe("AgriFinanceFHE", function () {
+  let signers: Signers;
+  let agriFinanceContract: AgriFinanceFHE;
+  let agriFinanceContractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ agriFinanceContract, agriFinanceContractAddress } = await deployFixture());
+  });
+
+  describe("submission", function () {
+    it("stores the application with its timestamp", async function () {
+      const receipt = await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 1, 2, 3);
+      const block = await ethers.provider.getBlock(receipt!.blockNumber);
+
+      expect(await agriFinanceContract.applicationCount()).to.eq(1n);
+      const application = await agriFinanceContract.encryptedApplications(1);
+      expect(application.id).to.eq(1n);
+      expect(application.timestamp).to.eq(BigInt(block!.timestamp));
+      await expect(receipt)
+        .to.emit(agriFinanceContract, "LoanApplicationSubmitted")
+        .withArgs(1, signers.alice.address, "Wheat", block!.timestamp);
+    });
+
+    it("starts unrevealed, scored and recommended", async function () {
+      const receipt = await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 1, 2, 3);
+
+      expect((await agriFinanceContract.getDecryptedApplication(1)).isRevealed).to.eq(false);
+      expect(await agriFinanceContract.getEncryptedCreditScore(1)).to.not.eq(ethers.ZeroHash);
+      expect(await agriFinanceContract.getEncryptedRecommendedLoan(1)).to.not.eq(ethers.ZeroHash);
+      await expect(receipt).to.emit(agriFinanceContract, "CreditScoreComputed").withArgs(1);
+      await expect(receipt).to.emit(agriFinanceContract, "LoanRecommendationComputed").withArgs(1);
+    });
+
+    it("numbers applications sequentially", async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 1, 2, 3);
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.bob, 4, 5, 6);
+
+      expect(await agriFinanceContract.applicationCount()).to.eq(2n);
+      expect((await agriFinanceContract.encryptedApplications(2)).applicant).to.eq(signers.bob.address);
+    });
+  });
+
+  describe("applicant ownership", function () {
+    it("records the submitter as the applicant", async function () {
+      const receipt = await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 1, 2, 3);
+      const submitted = receipt!.logs
+        .map((log) => agriFinanceContract.interface.parseLog(log))
+        .find((event) => event?.name === "LoanApplicationSubmitted");
+      expect(submitted?.args.id).to.eq(1n);
+      expect(submitted?.args.applicant).to.eq(signers.alice.address);
+
+      expect(await agriFinanceContract.getApplicant(1)).to.eq(signers.alice.address);
+      const application = await agriFinanceContract.encryptedApplications(1);
+      expect(application.applicant).to.eq(signers.alice.address);
+      expect(application.cropType).to.eq("Wheat");
+    });
+
+    it("requires a crop type", async function () {
+      await expect(
+        submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 1, 2, 3, ""),
+      ).to.be.revertedWith("Crop type required");
+    });
+
+    it("lists application ids per applicant", async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 1, 2, 3);
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.bob, 4, 5, 6);
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 7, 8, 9);
+
+      expect(await agriFinanceContract.getApplicationIdsByApplicant(signers.alice.address)).to.deep.eq([1n, 3n]);
+      expect(await agriFinanceContract.getApplicationIdsByApplicant(signers.bob.address)).to.deep.eq([2n]);
+      expect(await agriFinanceContract.getApplicationCountByApplicant(signers.alice.address)).to.eq(2n);
+      expect(await agriFinanceContract.connect(signers.alice).getMyApplicationIds()).to.deep.eq([1n, 3n]);
+      expect(await agriFinanceContract.connect(signers.deployer).getMyApplicationIds()).to.deep.eq([]);
+    });
+
+    it("rejects decryption requests from a stranger", async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 1, 2, 3);
+
+      await expect(agriFinanceContract.connect(signers.bob).requestApplicationDecryption(1)).to.be.revertedWith(
+        "Not applicant",
+      );
+    });
+
+    it("rejects decryption requests for unknown applications", async function () {
+      await expect(agriFinanceContract.connect(signers.alice).requestApplicationDecryption(42)).to.be.revertedWith(
+        "Not applicant",
+      );
+    });
+  });
+
+  describe("encrypted inputs", function () {
+    it("stores ciphertexts the applicant can decrypt", async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 1200, 4500, 25000);
+
+      const application = await agriFinanceContract.encryptedApplications(1);
+      const farmData = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        application.encryptedFarmData,
+        agriFinanceContractAddress,
+        signers.alice,
+      );
+      const yieldPrediction = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        application.encryptedYieldPrediction,
+        agriFinanceContractAddress,
+        signers.alice,
+      );
+      const loanAmount = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        application.encryptedLoanAmount,
+        agriFinanceContractAddress,
+        signers.alice,
+      );
+
+      expect(farmData).to.eq(1200n);
+      expect(yieldPrediction).to.eq(4500n);
+      expect(loanAmount).to.eq(25000n);
+    });
+
+    it("does not grant a stranger access to the ciphertexts", async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 1200, 4500, 25000);
+
+      const application = await agriFinanceContract.encryptedApplications(1);
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          application.encryptedLoanAmount,
+          agriFinanceContractAddress,
+          signers.bob,
+        ),
+      ).to.be.rejected;
+    });
+
+    it("rejects inputs encrypted for another account", async function () {
+      const encryptedInput = await fhevm
+        .createEncryptedInput(agriFinanceContractAddress, signers.bob.address)
+        .add32(1)
+        .add32(2)
+        .add32(3)
+        .encrypt();
+
+      await expect(
+        agriFinanceContract
+          .connect(signers.alice)
+          .submitEncryptedLoanApplication(
+            "Wheat",
+            encryptedInput.handles[0],
+            encryptedInput.handles[1],
+            encryptedInput.handles[2],
+            [],
+            encryptedInput.inputProof,
+          ),
+      ).to.be.reverted;
+    });
+  });
+
+  describe("planting history", function () {
+    async function decrypt64(handle: string, user: HardhatEthersSigner) {
+      return fhevm.userDecryptEuint(FhevmType.euint64, handle, agriFinanceContractAddress, user);
+    }
+
+    it("stores every numeric field of every season as its own ciphertext", async function () {
+      const history = plantingHistory([4000, 4400], "Maize");
+      await submitApplication(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        12,
+        4500,
+        25000,
+        "Wheat",
+        history,
+      );
+
+      const stored = await agriFinanceContract.getPlantingHistory(1);
+      expect(stored.map((season) => [season.season, season.cropType])).to.deep.eq([
+        ["2020", "Maize"],
+        ["2021", "Maize"],
+      ]);
+
+      const second = stored[1];
+      const handles = [
+        second.encryptedArea,
+        second.encryptedPlantedAt,
+        second.encryptedHarvestedAt,
+        second.encryptedRealisedYield,
+      ];
+      expect(new Set(handles).size).to.eq(4);
+      const values = [];
+      for (const handle of handles) {
+        values.push(await fhevm.userDecryptEuint(FhevmType.euint32, handle, agriFinanceContractAddress, signers.alice));
+      }
+      expect(values).to.deep.eq([
+        BigInt(history[1].area),
+        BigInt(history[1].plantedAt),
+        BigInt(history[1].harvestedAt),
+        4400n,
+      ]);
+    });
+
+    it("derives the mean and variance of realised yields", async function () {
+      await submitApplication(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        12,
+        4500,
+        25000,
+        "Wheat",
+        plantingHistory([4000, 4400, 3600]),
+      );
+
+      const [mean, variance] = await agriFinanceContract.getEncryptedYieldStatistics(1);
+      expect(await decrypt64(mean, signers.alice)).to.eq(4000n);
+      // (400^2 + 0 + 400^2) / 3, rounded down
+      expect(await decrypt64(variance, signers.alice)).to.eq(106666n);
+    });
+
+    it("leaves the variance unset with a single season", async function () {
+      await submitApplication(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        12,
+        4500,
+        25000,
+        "Wheat",
+        plantingHistory([4000]),
+      );
+
+      const [mean, variance] = await agriFinanceContract.getEncryptedYieldStatistics(1);
+      expect(await decrypt64(mean, signers.alice)).to.eq(4000n);
+      expect(variance).to.eq(ethers.ZeroHash);
+    });
+
+    it("accepts at most MAX_PLANTING_SEASONS seasons", async function () {
+      const max = Number(await agriFinanceContract.MAX_PLANTING_SEASONS());
+      const yields = Array.from({ length: max + 1 }, (_, i) => 3000 + 10 * i);
+
+      await expect(
+        submitApplication(
+          agriFinanceContract,
+          agriFinanceContractAddress,
+          signers.alice,
+          1,
+          2,
+          3,
+          "Wheat",
+          plantingHistory(yields),
+        ),
+      ).to.be.revertedWith("Too many seasons");
+
+      await submitApplication(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        1,
+        2,
+        3,
+        "Wheat",
+        plantingHistory(yields.slice(0, max)),
+      );
+      expect(await agriFinanceContract.getPlantingHistory(1)).to.have.length(max);
+    });
+
+    it("requires a crop type for every season", async function () {
+      await expect(
+        submitApplication(
+          agriFinanceContract,
+          agriFinanceContractAddress,
+          signers.alice,
+          1,
+          2,
+          3,
+          "Wheat",
+          plantingHistory([4000], ""),
+        ),
+      ).to.be.revertedWith("Crop type required");
+    });
+
+    it("shares the history with reviewers only", async function () {
+      await submitApplication(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        12,
+        4500,
+        25000,
+        "Wheat",
+        plantingHistory([4000, 4400]),
+      );
+      const [season] = await agriFinanceContract.getPlantingHistory(1);
+
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          season.encryptedRealisedYield,
+          agriFinanceContractAddress,
+          signers.bob,
+        ),
+      ).to.be.rejected;
+      await expect(agriFinanceContract.connect(signers.bob).allowApplicationData(1)).to.be.revertedWith("Not reviewer");
+
+      await agriFinanceContract.connect(signers.deployer).grantRole(Role.Underwriter, signers.bob.address);
+      await agriFinanceContract.connect(signers.bob).allowApplicationData(1);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          season.encryptedRealisedYield,
+          agriFinanceContractAddress,
+          signers.bob,
+        ),
+      ).to.eq(4000n);
+      const [, variance] = await agriFinanceContract.getEncryptedYieldStatistics(1);
+      expect(await decrypt64(variance, signers.bob)).to.eq(40000n);
+    });
+  });
+
+  describe("credit scoring", function () {
+    async function currentScoringConfig() {
+      const config = await agriFinanceContract.scoringConfig();
+      return {
+        baseScore: config.baseScore,
+        yieldWeight: config.yieldWeight,
+        farmWeight: config.farmWeight,
+        loanWeight: config.loanWeight,
+        minYield: config.minYield,
+        minFarmArea: config.minFarmArea,
+        yieldBonus: config.yieldBonus,
+        farmBonus: config.farmBonus,
+        coverageBonus: config.coverageBonus,
+        maxYieldVarianceBps: config.maxYieldVarianceBps,
+        stabilityBonus: config.stabilityBonus,
+      };
+    }
+
+    async function decryptScore(applicationId: number, user: HardhatEthersSigner) {
+      const score = await agriFinanceContract.getEncryptedCreditScore(applicationId);
+      return fhevm.userDecryptEuint(FhevmType.euint32, score, agriFinanceContractAddress, user);
+    }
+
+    // [farm area (ha), yield prediction (kg/ha), loan amount, expected score] under the default config
+    const vectors: [number, number, number, bigint][] = [
+      [12, 4500, 25000, 900n],
+      [3, 2000, 50000, 500n],
+      [4, 3000, 34000, 850n],
+      [20, 1000, 25000, 800n],
+    ];
+
+    vectors.forEach(([farmArea, yieldPrediction, loanAmount, expected]) => {
+      it(`scores farm=${farmArea} yield=${yieldPrediction} loan=${loanAmount} as ${expected}`, async function () {
+        await submitApplication(
+          agriFinanceContract,
+          agriFinanceContractAddress,
+          signers.alice,
+          farmArea,
+          yieldPrediction,
+          loanAmount,
+        );
+
+        expect(await decryptScore(1, signers.alice)).to.eq(expected);
+      });
+    });
+
+    it("adds the stability bonus for a steady yield history", async function () {
+      // Relative variance 106666 / 4000^2 = 0.67%, under the default 4%
+      await submitApplication(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        12,
+        4500,
+        25000,
+        "Wheat",
+        plantingHistory([4000, 4400, 3600]),
+      );
+      // Relative variance 4000000 / 3000^2 = 44%
+      await submitApplication(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        12,
+        4500,
+        25000,
+        "Wheat",
+        plantingHistory([1000, 5000]),
+      );
+      // One season says nothing about variance
+      await submitApplication(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        12,
+        4500,
+        25000,
+        "Wheat",
+        plantingHistory([4000]),
+      );
+
+      expect(await decryptScore(1, signers.alice)).to.eq(1000n);
+      expect(await decryptScore(2, signers.alice)).to.eq(900n);
+      expect(await decryptScore(3, signers.alice)).to.eq(900n);
+    });
+
+    it("re-scores stability against an updated variance threshold", async function () {
+      await submitApplication(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        12,
+        4500,
+        25000,
+        "Wheat",
+        plantingHistory([1000, 5000]),
+      );
+
+      const config = { ...(await currentScoringConfig()), maxYieldVarianceBps: 5000 };
+      await agriFinanceContract.connect(signers.deployer).setScoringConfig(config);
+      await agriFinanceContract.connect(signers.deployer).computeCreditScore(1);
+
+      expect(await decryptScore(1, signers.alice)).to.eq(1000n);
+      await expect(
+        agriFinanceContract.connect(signers.deployer).setScoringConfig({ ...config, maxYieldVarianceBps: 10001 }),
+      ).to.be.revertedWith("Invalid yield variance");
+    });
+
+    it("does not wrap weighted products around 32 bits", async function () {
+      const config = { ...(await currentScoringConfig()), loanWeight: 4 };
+      await agriFinanceContract.connect(signers.deployer).setScoringConfig(config);
+
+      // 2^30 * 4 == 2^32, which would wrap to 0 in euint32 arithmetic
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 1, 100, 2 ** 30);
+
+      expect(await decryptScore(1, signers.alice)).to.eq(500n);
+    });
+
+    it("bounds weights and bonuses so neither the capacity nor the score can wrap", async function () {
+      const MAX_UINT32 = 2 ** 32 - 1;
+      const MAX_WEIGHT = 2 ** 31 - 1;
+      const defaults = await currentScoringConfig();
+      // Everything but the stability bonus is earned, so the score is the top of the range minus that bonus.
+      const config = {
+        ...defaults,
+        yieldWeight: MAX_WEIGHT,
+        farmWeight: MAX_WEIGHT,
+        loanWeight: MAX_WEIGHT,
+        baseScore:
+          BigInt(MAX_UINT32) -
+          defaults.yieldBonus -
+          defaults.farmBonus -
+          defaults.coverageBonus -
+          defaults.stabilityBonus,
+      };
+
+      await expect(
+        agriFinanceContract.connect(signers.deployer).setScoringConfig({ ...config, farmWeight: MAX_WEIGHT + 1 }),
+      ).to.be.revertedWith("Invalid scoring weights");
+      await expect(
+        agriFinanceContract.connect(signers.deployer).setScoringConfig({ ...config, baseScore: config.baseScore + 1n }),
+      ).to.be.revertedWith("Invalid scoring weights");
+      await agriFinanceContract.connect(signers.deployer).setScoringConfig(config);
+
+      await submitApplication(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        MAX_UINT32,
+        MAX_UINT32,
+        MAX_UINT32,
+      );
+
+      expect(await decryptScore(1, signers.alice)).to.eq(BigInt(MAX_UINT32) - defaults.stabilityBonus);
+    });
+
+    it("lets an authorised lender read the score after re-scoring", async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 12, 4500, 25000);
+      await agriFinanceContract.connect(signers.deployer).grantRole(Role.Lender, signers.bob.address);
+
+      const config = { ...(await currentScoringConfig()), coverageBonus: 100 };
+      await agriFinanceContract.connect(signers.bob).setScoringConfig(config);
+      await expect(agriFinanceContract.connect(signers.bob).computeCreditScore(1))
+        .to.emit(agriFinanceContract, "CreditScoreComputed")
+        .withArgs(1n);
+
+      expect(await decryptScore(1, signers.bob)).to.eq(750n);
+      expect(await decryptScore(1, signers.alice)).to.eq(750n);
+    });
+
+    it("keeps the score private from strangers", async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 12, 4500, 25000);
+
+      await expect(decryptScore(1, signers.bob)).to.be.rejected;
+      await expect(agriFinanceContract.connect(signers.bob).allowCreditScore(1)).to.be.revertedWith("Not reviewer");
+      await expect(agriFinanceContract.connect(signers.bob).computeCreditScore(1)).to.be.revertedWith("Not lender");
+    });
+
+    it("restricts configuration to the admin and lenders", async function () {
+      const config = await currentScoringConfig();
+
+      await expect(agriFinanceContract.connect(signers.bob).setScoringConfig(config)).to.be.revertedWith("Not lender");
+      await expect(
+        agriFinanceContract.connect(signers.bob).grantRole(Role.Lender, signers.bob.address),
+      ).to.be.revertedWith("Not admin");
+    });
+  });
+
+  describe("loan recommendation", function () {
+    async function decryptRecommendation(applicationId: number, user: HardhatEthersSigner) {
+      const recommended = await agriFinanceContract.getEncryptedRecommendedLoan(applicationId);
+      return fhevm.userDecryptEuint(FhevmType.euint32, recommended, agriFinanceContractAddress, user);
+    }
+
+    it("recommends the requested amount when it is within the lending limit", async function () {
+      // 4500 * 10 * 60% = 27000
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 12, 4500, 25000);
+
+      expect(await decryptRecommendation(1, signers.alice)).to.eq(25000n);
+    });
+
+    it("caps the recommendation at the lending limit", async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 12, 4500, 50000);
+
+      expect(await decryptRecommendation(1, signers.alice)).to.eq(27000n);
+    });
+
+    it("uses the lender's price and loan-to-value ratio", async function () {
+      await agriFinanceContract
+        .connect(signers.deployer)
+        .setRecommendationConfig({ pricePerUnit: 20, loanToValueBps: 5000 });
+
+      // 1000 * 20 * 50% = 10000
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 12, 1000, 15000);
+
+      expect(await decryptRecommendation(1, signers.alice)).to.eq(10000n);
+    });
+
+    it("reveals the recommendation only to the applicant and reviewers", async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 12, 4500, 25000);
+
+      await expect(decryptRecommendation(1, signers.bob)).to.be.rejected;
+      await expect(agriFinanceContract.connect(signers.bob).allowRecommendedLoan(1)).to.be.revertedWith("Not reviewer");
+
+      await agriFinanceContract.connect(signers.deployer).grantRole(Role.Lender, signers.bob.address);
+      await agriFinanceContract.connect(signers.bob).allowRecommendedLoan(1);
+      expect(await decryptRecommendation(1, signers.bob)).to.eq(25000n);
+    });
+
+    it("rejects a loan-to-value ratio above 100%", async function () {
+      await expect(
+        agriFinanceContract
+          .connect(signers.deployer)
+          .setRecommendationConfig({ pricePerUnit: 10, loanToValueBps: 10001 }),
+      ).to.be.revertedWith("Invalid loan-to-value");
+    });
+
+    it("bounds the price so the lending limit cannot wrap", async function () {
+      await expect(
+        agriFinanceContract
+          .connect(signers.deployer)
+          .setRecommendationConfig({ pricePerUnit: 400001, loanToValueBps: 10000 }),
+      ).to.be.revertedWith("Invalid price per unit");
+      await agriFinanceContract
+        .connect(signers.deployer)
+        .setRecommendationConfig({ pricePerUnit: 400000, loanToValueBps: 10000 });
+
+      // The largest yield at the largest price and ratio keeps the limit above any requested amount.
+      await submitApplication(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        12,
+        2 ** 32 - 1,
+        2 ** 32 - 1,
+      );
+
+      expect(await decryptRecommendation(1, signers.alice)).to.eq(2n ** 32n - 1n);
+    });
+  });
+
+  describe("loan lifecycle", function () {
+    beforeEach(async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 12, 4500, 25000);
+    });
+
+    it("starts every application as submitted", async function () {
+      expect(await agriFinanceContract.loanStatus(1)).to.eq(LoanStatus.Submitted);
+    });
+
+    it("walks a loan from review to closure", async function () {
+      const lender = agriFinanceContract.connect(signers.deployer);
+
+      await expect(lender.startReview(1))
+        .to.emit(agriFinanceContract, "ApplicationUnderReview")
+        .withArgs(1, signers.deployer.address);
+      expect(await agriFinanceContract.loanStatus(1)).to.eq(LoanStatus.UnderReview);
+
+      await expect(lender.approveApplication(1)).to.emit(agriFinanceContract, "ApplicationApproved");
+      expect(await agriFinanceContract.loanStatus(1)).to.eq(LoanStatus.Approved);
+
+      await expect(lender.disburseLoan(1)).to.emit(agriFinanceContract, "LoanDisbursed");
+      expect(await agriFinanceContract.loanStatus(1)).to.eq(LoanStatus.Disbursed);
+
+      await expect(lender.startRepayment(1)).to.emit(agriFinanceContract, "LoanRepaymentStarted");
+      expect(await agriFinanceContract.loanStatus(1)).to.eq(LoanStatus.Repaying);
+
+      await expect(lender.closeLoan(1)).to.emit(agriFinanceContract, "LoanClosed");
+      expect(await agriFinanceContract.loanStatus(1)).to.eq(LoanStatus.Closed);
+    });
+
+    it("rejects an application under review", async function () {
+      const lender = agriFinanceContract.connect(signers.deployer);
+      await lender.startReview(1);
+
+      await expect(lender.rejectApplication(1))
+        .to.emit(agriFinanceContract, "ApplicationRejected")
+        .withArgs(1, signers.deployer.address);
+      expect(await agriFinanceContract.loanStatus(1)).to.eq(LoanStatus.Rejected);
+      await expect(lender.disburseLoan(1)).to.be.revertedWith("Invalid status");
+    });
+
+    it("marks disbursed and repaying loans as defaulted", async function () {
+      const lender = agriFinanceContract.connect(signers.deployer);
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 12, 4500, 25000);
+      for (const id of [1, 2]) {
+        await lender.startReview(id);
+        await lender.approveApplication(id);
+        await lender.disburseLoan(id);
+      }
+      await lender.startRepayment(2);
+
+      await expect(lender.markDefaulted(1))
+        .to.emit(agriFinanceContract, "LoanDefaulted")
+        .withArgs(1, signers.deployer.address);
+      await expect(lender.markDefaulted(2))
+        .to.emit(agriFinanceContract, "LoanDefaulted")
+        .withArgs(2, signers.deployer.address);
+      expect(await agriFinanceContract.loanStatus(1)).to.eq(LoanStatus.Defaulted);
+      expect(await agriFinanceContract.loanStatus(2)).to.eq(LoanStatus.Defaulted);
+    });
+
+    it("rejects out-of-order transitions", async function () {
+      const lender = agriFinanceContract.connect(signers.deployer);
+
+      await expect(lender.approveApplication(1)).to.be.revertedWith("Invalid status");
+      await expect(lender.markDefaulted(1)).to.be.revertedWith("Invalid status");
+      await lender.startReview(1);
+      await expect(lender.startReview(1)).to.be.revertedWith("Invalid status");
+      await expect(lender.closeLoan(1)).to.be.revertedWith("Invalid status");
+    });
+
+    it("restricts transitions to lenders", async function () {
+      await expect(agriFinanceContract.connect(signers.alice).startReview(1)).to.be.revertedWith("Not lender");
+
+      await agriFinanceContract.connect(signers.deployer).startReview(1);
+      await expect(agriFinanceContract.connect(signers.alice).approveApplication(1)).to.be.revertedWith("Not lender");
+      await expect(agriFinanceContract.connect(signers.bob).rejectApplication(1)).to.be.revertedWith("Not lender");
+    });
+
+    it("rejects transitions for unknown applications", async function () {
+      await expect(agriFinanceContract.connect(signers.deployer).startReview(99)).to.be.revertedWith(
+        "Application not found",
+      );
+    });
+  });
+
+  describe("roles", function () {
+    it("makes the deployer admin and lender", async function () {
+      expect(await agriFinanceContract.admin()).to.eq(signers.deployer.address);
+      expect(await agriFinanceContract.hasRole(Role.Lender, signers.deployer.address)).to.eq(true);
+      expect(await agriFinanceContract.hasRole(Role.Underwriter, signers.deployer.address)).to.eq(false);
+    });
+
+    it("lets the admin grant and revoke roles", async function () {
+      const admin = agriFinanceContract.connect(signers.deployer);
+
+      await expect(admin.grantRole(Role.Auditor, signers.bob.address))
+        .to.emit(agriFinanceContract, "RoleGranted")
+        .withArgs(Role.Auditor, signers.bob.address, signers.deployer.address);
+      expect(await agriFinanceContract.hasRole(Role.Auditor, signers.bob.address)).to.eq(true);
+
+      await expect(admin.revokeRole(Role.Auditor, signers.bob.address))
+        .to.emit(agriFinanceContract, "RoleRevoked")
+        .withArgs(Role.Auditor, signers.bob.address, signers.deployer.address);
+      expect(await agriFinanceContract.hasRole(Role.Auditor, signers.bob.address)).to.eq(false);
+    });
+
+    it("restricts role management to the admin", async function () {
+      await expect(
+        agriFinanceContract.connect(signers.bob).grantRole(Role.Underwriter, signers.bob.address),
+      ).to.be.revertedWith("Not admin");
+      await expect(
+        agriFinanceContract.connect(signers.bob).revokeRole(Role.Lender, signers.deployer.address),
+      ).to.be.revertedWith("Not admin");
+    });
+
+    it("lets only the admin connect the repayment tracker", async function () {
+      expect(await agriFinanceContract.loanRepayment()).to.eq(ethers.ZeroAddress);
+
+      await expect(agriFinanceContract.setLoanRepayment(signers.bob.address))
+        .to.emit(agriFinanceContract, "LoanRepaymentUpdated")
+        .withArgs(signers.bob.address);
+      expect(await agriFinanceContract.loanRepayment()).to.eq(signers.bob.address);
+
+      await expect(agriFinanceContract.connect(signers.bob).setLoanRepayment(signers.bob.address)).to.be.revertedWith(
+        "Not admin",
+      );
+    });
+
+    it("transfers the admin seat", async function () {
+      await expect(agriFinanceContract.connect(signers.deployer).transferAdmin(signers.bob.address))
+        .to.emit(agriFinanceContract, "AdminTransferred")
+        .withArgs(signers.deployer.address, signers.bob.address);
+
+      await agriFinanceContract.connect(signers.bob).grantRole(Role.Auditor, signers.alice.address);
+      await expect(
+        agriFinanceContract.connect(signers.deployer).grantRole(Role.Auditor, signers.bob.address),
+      ).to.be.revertedWith("Not admin");
+    });
+
+    it("gives underwriters access to application ciphertexts", async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 12, 4500, 25000);
+      const application = await agriFinanceContract.encryptedApplications(1);
+
+      await expect(agriFinanceContract.connect(signers.bob).allowApplicationData(1)).to.be.revertedWith("Not reviewer");
+
+      await agriFinanceContract.connect(signers.deployer).grantRole(Role.Underwriter, signers.bob.address);
+      await expect(agriFinanceContract.connect(signers.bob).allowApplicationData(1))
+        .to.emit(agriFinanceContract, "ApplicationAccessGranted")
+        .withArgs(1, signers.bob.address);
+
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          application.encryptedYieldPrediction,
+          agriFinanceContractAddress,
+          signers.bob,
+        ),
+      ).to.eq(4500n);
+    });
+
+    it("stops granting access once a role is revoked", async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 12, 4500, 25000);
+      const admin = agriFinanceContract.connect(signers.deployer);
+      await admin.grantRole(Role.Underwriter, signers.bob.address);
+      await admin.revokeRole(Role.Underwriter, signers.bob.address);
+
+      await expect(agriFinanceContract.connect(signers.bob).allowCreditScore(1)).to.be.revertedWith("Not reviewer");
+    });
+
+    it("does not let underwriters run the loan lifecycle", async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 12, 4500, 25000);
+      await agriFinanceContract.connect(signers.deployer).grantRole(Role.Underwriter, signers.bob.address);
+
+      await expect(agriFinanceContract.connect(signers.bob).startReview(1)).to.be.revertedWith("Not lender");
+    });
+
+    it("restricts aggregate category counts to auditors", async function () {
+      await expect(agriFinanceContract.connect(signers.bob).allowLoanCategoryCount("Wheat")).to.be.revertedWith(
+        "Not auditor",
+      );
+      await expect(
+        agriFinanceContract.connect(signers.bob).requestLoanCategoryCountDecryption("Wheat"),
+      ).to.be.revertedWith("Not auditor");
+
+      await agriFinanceContract.connect(signers.deployer).grantRole(Role.Auditor, signers.bob.address);
+      await expect(agriFinanceContract.connect(signers.bob).allowLoanCategoryCount("Wheat")).to.be.revertedWith(
+        "Category not found",
+      );
+    });
+  });
+
+  describe("public decryption", function () {
+    beforeEach(async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 12, 4500, 25000, "Wheat");
+    });
+
+    it("round-trips a request through the decryption oracle", async function () {
+      await expect(agriFinanceContract.connect(signers.alice).requestApplicationDecryption(1))
+        .to.emit(agriFinanceContract, "DecryptionRequested")
+        .withArgs(1);
+      expect((await agriFinanceContract.getDecryptedApplication(1)).isRevealed).to.eq(false);
+
+      const fromBlock = await ethers.provider.getBlockNumber();
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await agriFinanceContract.queryFilter(
+        agriFinanceContract.filters.ApplicationDecrypted(),
+        fromBlock,
+      );
+      expect(events.map((event) => event.args.id)).to.deep.eq([1n]);
+      expect(events[0].args.farmData).to.eq(12n);
+      expect(events[0].args.yieldPrediction).to.eq(4500n);
+      expect(events[0].args.loanAmount).to.eq(25000n);
+
+      const decrypted = await agriFinanceContract.decryptedApplications(1);
+      expect(decrypted.farmData).to.eq(12n);
+      expect(decrypted.yieldPrediction).to.eq(4500n);
+      expect(decrypted.loanAmount).to.eq(25000n);
+      expect(decrypted.isRevealed).to.eq(true);
+    });
+
+    it("refuses to decrypt an application twice", async function () {
+      await revealApplication(agriFinanceContract, 1, signers.alice);
+
+      await expect(agriFinanceContract.connect(signers.alice).requestApplicationDecryption(1)).to.be.revertedWith(
+        "Already decrypted",
+      );
+    });
+
+    it("does not accept a replayed oracle callback", async function () {
+      // The contract's first oracle request gets id 0.
+      await revealApplication(agriFinanceContract, 1, signers.alice);
+
+      await expect(agriFinanceContract.decryptApplication(0, "0x", "0x")).to.be.revertedWith("Invalid request");
+    });
+
+    it("rejects callbacks without valid KMS signatures", async function () {
+      await agriFinanceContract.connect(signers.alice).requestApplicationDecryption(1);
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint32", "uint32"], [1, 1, 1]);
+
+      await expect(agriFinanceContract.decryptApplication(0, cleartexts, "0x")).to.be.reverted;
+      expect((await agriFinanceContract.getDecryptedApplication(1)).isRevealed).to.eq(false);
+    });
+
+    it("routes callbacks by request type", async function () {
+      await agriFinanceContract.connect(signers.alice).requestApplicationDecryption(1);
+
+      await expect(agriFinanceContract.decryptLoanCategoryCount(0, "0x", "0x")).to.be.revertedWith("Invalid request");
+    });
+
+    it("counts revealed applications per crop type", async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.bob, 3, 2000, 50000, "Maize");
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 4, 3000, 34000, "Wheat");
+      expect(await agriFinanceContract.getEncryptedLoanCategoryCount("Wheat")).to.eq(ethers.ZeroHash);
+
+      await revealApplication(agriFinanceContract, 1, signers.alice);
+      await revealApplication(agriFinanceContract, 3, signers.alice);
+
+      const admin = agriFinanceContract.connect(signers.deployer);
+      await admin.grantRole(Role.Auditor, signers.deployer.address);
+      await admin.allowLoanCategoryCount("Wheat");
+      const wheatCount = await agriFinanceContract.getEncryptedLoanCategoryCount("Wheat");
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, wheatCount, agriFinanceContractAddress, signers.deployer),
+      ).to.eq(2n);
+      await expect(admin.allowLoanCategoryCount("Maize")).to.be.revertedWith("Category not found");
+    });
+  });
+
+  describe("category statistics", function () {
+    beforeEach(async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 12, 4500, 25000, "Wheat");
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.bob, 3, 2000, 50000, "Maize");
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 4, 3000, 34000, "Wheat");
+      await agriFinanceContract.connect(signers.deployer).grantRole(Role.Auditor, signers.deployer.address);
+    });
+
+    it("publishes the decrypted application values", async function () {
+      await revealApplication(agriFinanceContract, 1, signers.alice);
+
+      const decrypted = await agriFinanceContract.getDecryptedApplication(1);
+      expect(decrypted.farmData).to.eq(12n);
+      expect(decrypted.yieldPrediction).to.eq(4500n);
+      expect(decrypted.loanAmount).to.eq(25000n);
+      expect(decrypted.isRevealed).to.eq(true);
+    });
+
+    it("lists categories before their counts are revealed", async function () {
+      await revealApplication(agriFinanceContract, 1, signers.alice);
+
+      const [categories, counts, revealedAt] = await agriFinanceContract.getRevealedCategoryCounts();
+      expect(categories).to.deep.eq(["Wheat"]);
+      expect(counts).to.deep.eq([0n]);
+      expect(revealedAt).to.deep.eq([0n]);
+    });
+
+    it("stores revealed category counts with a timestamp", async function () {
+      await revealApplication(agriFinanceContract, 1, signers.alice);
+      await revealApplication(agriFinanceContract, 2, signers.bob);
+      await revealApplication(agriFinanceContract, 3, signers.alice);
+
+      await expect(agriFinanceContract.connect(signers.deployer).requestLoanCategoryCountDecryption("Wheat"))
+        .to.emit(agriFinanceContract, "CategoryCountDecryptionRequested")
+        .withArgs("Wheat");
+      await fhevm.awaitDecryptionOracle();
+
+      const [categories, counts, revealedAt] = await agriFinanceContract.getRevealedCategoryCounts();
+      expect(categories).to.deep.eq(["Wheat", "Maize"]);
+      expect(counts).to.deep.eq([2n, 0n]);
+      expect(revealedAt[0]).to.be.greaterThan(0n);
+      expect(revealedAt[1]).to.eq(0n);
+    });
+
+    it("emits CategoryCountDecrypted when the oracle responds", async function () {
+      await revealApplication(agriFinanceContract, 2, signers.bob);
+      await agriFinanceContract.connect(signers.deployer).requestLoanCategoryCountDecryption("Maize");
+
+      const fromBlock = await ethers.provider.getBlockNumber();
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await agriFinanceContract.queryFilter(
+        agriFinanceContract.filters.CategoryCountDecrypted(),
+        fromBlock,
+      );
+      expect(events.length).to.eq(1);
+      expect(events[0].args.category).to.eq("Maize");
+      expect(events[0].args.count).to.eq(1n);
+    });
+
+    it("rejects callbacks for unknown requests", async function () {
+      await expect(agriFinanceContract.decryptLoanCategoryCount(999, "0x", "0x")).to.be.revertedWith("Invalid request");
+      await expect(agriFinanceContract.decryptApplication(999, "0x", "0x")).to.be.revertedWith("Invalid request");
+    });
+  });
+
+  describe("cooperative batches", function () {
+    let cooperative: HardhatEthersSigner;
+    let carol: HardhatEthersSigner;
+
+    const row = (applicant: HardhatEthersSigner, loanAmount: number, cropType = "Maize"): BatchRow => ({
+      applicant: applicant.address,
+      cropType,
+      farmData: 12,
+      yieldPrediction: 4500,
+      loanAmount,
+    });
+
+    beforeEach(async function () {
+      [, , , cooperative, carol] = await ethers.getSigners();
+      await agriFinanceContract.connect(signers.deployer).grantRole(Role.Cooperative, cooperative.address);
+      await agriFinanceContract.connect(signers.alice).joinCooperative(cooperative.address);
+      await agriFinanceContract.connect(signers.bob).joinCooperative(cooperative.address);
+    });
+
+    it("submits member applications under one proof", async function () {
+      const { applications, inputProof } = await encryptBatch(agriFinanceContractAddress, cooperative, [
+        row(signers.alice, 25000),
+        row(signers.bob, 30000, "Rice"),
+      ]);
+
+      const tx = await agriFinanceContract
+        .connect(cooperative)
+        .submitEncryptedLoanApplicationBatch(applications, inputProof);
+      await expect(tx)
+        .to.emit(agriFinanceContract, "BatchApplicationSubmitted")
+        .withArgs(1, cooperative.address, signers.alice.address, 0);
+      await expect(tx)
+        .to.emit(agriFinanceContract, "BatchApplicationSubmitted")
+        .withArgs(2, cooperative.address, signers.bob.address, 1);
+
+      expect(await agriFinanceContract.getApplicant(2)).to.eq(signers.bob.address);
+      expect((await agriFinanceContract.encryptedApplications(2)).cropType).to.eq("Rice");
+      expect(await agriFinanceContract.applicationSubmitter(1)).to.eq(cooperative.address);
+      expect(await agriFinanceContract.getApplicationIdsBySubmitter(cooperative.address)).to.deep.eq([1n, 2n]);
+      expect(await agriFinanceContract.getApplicationIdsByApplicant(signers.alice.address)).to.deep.eq([1n]);
+    });
+
+    it("gives the member, not the cooperative, access to the ciphertexts", async function () {
+      const { applications, inputProof } = await encryptBatch(agriFinanceContractAddress, cooperative, [
+        row(signers.alice, 25000),
+      ]);
+      await agriFinanceContract.connect(cooperative).submitEncryptedLoanApplicationBatch(applications, inputProof);
+
+      const application = await agriFinanceContract.encryptedApplications(1);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          application.encryptedLoanAmount,
+          agriFinanceContractAddress,
+          signers.alice,
+        ),
+      ).to.eq(25000n);
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          application.encryptedLoanAmount,
+          agriFinanceContractAddress,
+          cooperative,
+        ),
+      ).to.be.rejected;
+
+      // The member owns the application from here on.
+      await revealApplication(agriFinanceContract, 1, signers.alice);
+      expect((await agriFinanceContract.getDecryptedApplication(1)).loanAmount).to.eq(25000n);
+    });
+
+    it("records planting histories for members", async function () {
+      const { applications, inputProof } = await encryptBatch(agriFinanceContractAddress, cooperative, [
+        row(signers.alice, 25000),
+        { ...row(signers.bob, 30000), history: plantingHistory([4000, 4400, 3600]) },
+      ]);
+      await agriFinanceContract.connect(cooperative).submitEncryptedLoanApplicationBatch(applications, inputProof);
+
+      expect(await agriFinanceContract.getPlantingHistory(1)).to.have.length(0);
+      expect(await agriFinanceContract.getPlantingHistory(2)).to.have.length(3);
+      const [, variance] = await agriFinanceContract.getEncryptedYieldStatistics(2);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, variance, agriFinanceContractAddress, signers.bob)).to.eq(
+        106666n,
+      );
+    });
+
+    it("skips invalid rows and submits the rest", async function () {
+      const { applications, inputProof } = await encryptBatch(agriFinanceContractAddress, cooperative, [
+        row(signers.alice, 25000),
+        row(carol, 30000),
+        row(signers.bob, 35000, ""),
+      ]);
+      const batch = agriFinanceContract.connect(cooperative).submitEncryptedLoanApplicationBatch;
+
+      expect(await batch.staticCall(applications, inputProof)).to.deep.eq([1n, 0n, 0n]);
+      const tx = await batch(applications, inputProof);
+      await expect(tx)
+        .to.emit(agriFinanceContract, "BatchApplicationSkipped")
+        .withArgs(cooperative.address, 1, carol.address, "Not a member");
+      await expect(tx)
+        .to.emit(agriFinanceContract, "BatchApplicationSkipped")
+        .withArgs(cooperative.address, 2, signers.bob.address, "Crop type required");
+      expect(await agriFinanceContract.applicationCount()).to.eq(1n);
+    });
+
+    it("restricts batches to cooperatives and bounds their size", async function () {
+      const { applications, inputProof } = await encryptBatch(agriFinanceContractAddress, signers.alice, [
+        row(signers.alice, 25000),
+      ]);
+      await expect(
+        agriFinanceContract.connect(signers.alice).submitEncryptedLoanApplicationBatch(applications, inputProof),
+      ).to.be.revertedWith("Not cooperative");
+
+      await expect(
+        agriFinanceContract.connect(cooperative).submitEncryptedLoanApplicationBatch([], inputProof),
+      ).to.be.revertedWith("Invalid batch size");
+
+      const max = Number(await agriFinanceContract.MAX_BATCH_APPLICATIONS());
+      const oversized = await encryptBatch(
+        agriFinanceContractAddress,
+        cooperative,
+        Array.from({ length: max + 1 }, () => row(signers.alice, 1000)),
+      );
+      await expect(
+        agriFinanceContract
+          .connect(cooperative)
+          .submitEncryptedLoanApplicationBatch(oversized.applications, oversized.inputProof),
+      ).to.be.revertedWith("Invalid batch size");
+    });
+
+    it("rejects handles encrypted for another account", async function () {
+      const { applications, inputProof } = await encryptBatch(agriFinanceContractAddress, signers.alice, [
+        row(signers.alice, 25000),
+      ]);
+
+      await expect(
+        agriFinanceContract.connect(cooperative).submitEncryptedLoanApplicationBatch(applications, inputProof),
+      ).to.be.reverted;
+    });
+
+    it("lets members join and leave a cooperative", async function () {
+      await expect(agriFinanceContract.connect(carol).joinCooperative(signers.bob.address)).to.be.revertedWith(
+        "Not cooperative",
+      );
+      await expect(agriFinanceContract.connect(signers.alice).leaveCooperative())
+        .to.emit(agriFinanceContract, "CooperativeLeft")
+        .withArgs(signers.alice.address, cooperative.address);
+      expect(await agriFinanceContract.memberCooperative(signers.alice.address)).to.eq(ethers.ZeroAddress);
+      await expect(agriFinanceContract.connect(signers.alice).leaveCooperative()).to.be.revertedWith("Not a member");
+
+      const { applications, inputProof } = await encryptBatch(agriFinanceContractAddress, cooperative, [
+        row(signers.alice, 25000),
+      ]);
+      await expect(
+        agriFinanceContract.connect(cooperative).submitEncryptedLoanApplicationBatch(applications, inputProof),
+      )
+        .to.emit(agriFinanceContract, "BatchApplicationSkipped")
+        .withArgs(cooperative.address, 0, signers.alice.address, "Not a member");
+    });
+
+    it("records direct applicants as their own submitter", async function () {
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 1, 2, 3);
+
+      expect(await agriFinanceContract.applicationSubmitter(1)).to.eq(signers.alice.address);
+      expect(await agriFinanceContract.getApplicationIdsBySubmitter(signers.alice.address)).to.deep.eq([1n]);
+    });
+  });
+
+  describe("collateral", function () {
+    beforeEach(async function () {
+      // Loan of 25000 against the default 70% maximum loan-to-value: 35715 of owned collateral covers it.
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 12, 4500, 25000);
+    });
+
+    async function coverage(applicationId: number, user = signers.alice) {
+      const [pledgedValue, covered] = await agriFinanceContract.getEncryptedCollateralCoverage(applicationId);
+      return {
+        pledgedValue: await fhevm.userDecryptEuint(FhevmType.euint64, pledgedValue, agriFinanceContractAddress, user),
+        covered: await fhevm.userDecryptEbool(covered, agriFinanceContractAddress, user),
+      };
+    }
+
+    // Pledges an asset of Alice's and has the deployer, a lender, attest to it.
+    async function pledgeAttested(collateralId: number, applicationId: number) {
+      await (await agriFinanceContract.connect(signers.alice).pledgeCollateral(collateralId, applicationId)).wait();
+      await (await agriFinanceContract.connect(signers.deployer).attestCollateral(collateralId)).wait();
+    }
+
+    it("stores the encrypted type, appraised value and owner", async function () {
+      await registerCollateral(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        9,
+        40000,
+        signers.bob.address,
+      );
+
+      const collateral = await agriFinanceContract.collaterals(1);
+      expect(collateral.registrant).to.eq(signers.alice.address);
+      expect(collateral.attestedBy).to.eq(ethers.ZeroAddress);
+      expect(collateral.pledgedTo).to.eq(0);
+      expect(await agriFinanceContract.getCollateralIdsByRegistrant(signers.alice.address)).to.deep.eq([1n]);
+
+      const user = signers.alice;
+      const address = agriFinanceContractAddress;
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, collateral.encryptedType, address, user)).to.eq(
+        BigInt(CollateralType.Other),
+      );
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, collateral.encryptedAppraisedValue, address, user)).to.eq(
+        40000n,
+      );
+      expect(await fhevm.userDecryptEaddress(collateral.encryptedOwner, address, user)).to.eq(signers.bob.address);
+      await expect(fhevm.userDecryptEaddress(collateral.encryptedOwner, address, signers.bob)).to.be.rejected;
+    });
+
+    it("checks the requested amount against pledged collateral", async function () {
+      await registerCollateral(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        CollateralType.LandTitle,
+        30000,
+      );
+      await registerCollateral(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        CollateralType.StoredGrain,
+        10000,
+      );
+
+      await expect(agriFinanceContract.connect(signers.alice).pledgeCollateral(1, 1))
+        .to.emit(agriFinanceContract, "CollateralPledged")
+        .withArgs(1, 1);
+      await agriFinanceContract.connect(signers.deployer).attestCollateral(1);
+      expect(await coverage(1)).to.deep.eq({ pledgedValue: 30000n, covered: false });
+
+      await pledgeAttested(2, 1);
+      expect(await coverage(1)).to.deep.eq({ pledgedValue: 40000n, covered: true });
+      expect(await agriFinanceContract.getApplicationCollateralIds(1)).to.deep.eq([1n, 2n]);
+      expect((await agriFinanceContract.collaterals(2)).pledgedTo).to.eq(1);
+    });
+
+    it("only counts collateral a reviewer has attested", async function () {
+      await registerCollateral(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        CollateralType.LandTitle,
+        40000,
+      );
+      await expect(agriFinanceContract.connect(signers.deployer).attestCollateral(1)).to.be.revertedWith("Not pledged");
+      await agriFinanceContract.connect(signers.alice).pledgeCollateral(1, 1);
+      expect(await coverage(1)).to.deep.eq({ pledgedValue: 0n, covered: false });
+
+      await expect(agriFinanceContract.connect(signers.alice).attestCollateral(1)).to.be.revertedWith("Not reviewer");
+      await expect(agriFinanceContract.connect(signers.deployer).attestCollateral(1))
+        .to.emit(agriFinanceContract, "CollateralAttested")
+        .withArgs(1, signers.deployer.address);
+
+      expect((await agriFinanceContract.collaterals(1)).attestedBy).to.eq(signers.deployer.address);
+      expect(await coverage(1)).to.deep.eq({ pledgedValue: 40000n, covered: true });
+      expect(await coverage(1, signers.deployer)).to.deep.eq({ pledgedValue: 40000n, covered: true });
+    });
+
+    it("only counts collateral the applicant owns", async function () {
+      await registerCollateral(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        CollateralType.Equipment,
+        50000,
+        signers.bob.address,
+      );
+      await pledgeAttested(1, 1);
+
+      expect(await coverage(1)).to.deep.eq({ pledgedValue: 0n, covered: false });
+    });
+
+    it("restricts pledging to the registrant's own open applications", async function () {
+      await registerCollateral(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        CollateralType.LandTitle,
+        40000,
+      );
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.bob, 12, 4500, 25000);
+
+      await expect(agriFinanceContract.connect(signers.bob).pledgeCollateral(1, 2)).to.be.revertedWith(
+        "Not registrant",
+      );
+      await expect(agriFinanceContract.connect(signers.alice).pledgeCollateral(1, 2)).to.be.revertedWith(
+        "Not applicant",
+      );
+
+      const lender = agriFinanceContract.connect(signers.deployer);
+      await lender.startReview(1);
+      await lender.approveApplication(1);
+      await lender.disburseLoan(1);
+      await expect(agriFinanceContract.connect(signers.alice).pledgeCollateral(1, 1)).to.be.revertedWith(
+        "Invalid status",
+      );
+    });
+
+    it("pledges each asset once and bounds collateral per application", async function () {
+      for (let i = 0; i < 11; i++) {
+        await registerCollateral(
+          agriFinanceContract,
+          agriFinanceContractAddress,
+          signers.alice,
+          CollateralType.Equipment,
+          1000,
+        );
+      }
+      for (let id = 1; id <= 10; id++) {
+        await pledgeAttested(id, 1);
+      }
+      expect(await coverage(1)).to.deep.eq({ pledgedValue: 10000n, covered: false });
+
+      await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, 12, 4500, 25000);
+      await expect(agriFinanceContract.connect(signers.alice).pledgeCollateral(1, 2)).to.be.revertedWith(
+        "Already pledged",
+      );
+      await expect(agriFinanceContract.connect(signers.alice).pledgeCollateral(11, 1)).to.be.revertedWith(
+        "Too much collateral",
+      );
+    });
+
+    it("locks collateral from review until the loan is settled", async function () {
+      await registerCollateral(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        CollateralType.LandTitle,
+        40000,
+      );
+      await agriFinanceContract.connect(signers.alice).pledgeCollateral(1, 1);
+
+      const lender = agriFinanceContract.connect(signers.deployer);
+      await lender.startReview(1);
+      await expect(agriFinanceContract.connect(signers.alice).releaseCollateral(1)).to.be.revertedWith(
+        "Collateral locked",
+      );
+      await lender.approveApplication(1);
+      await lender.disburseLoan(1);
+      await lender.startRepayment(1);
+      await expect(agriFinanceContract.connect(signers.alice).releaseCollateral(1)).to.be.revertedWith(
+        "Collateral locked",
+      );
+
+      await expect(lender.closeLoan(1)).to.emit(agriFinanceContract, "CollateralReleased").withArgs(1, 1);
+      expect((await agriFinanceContract.collaterals(1)).pledgedTo).to.eq(0);
+      expect(await agriFinanceContract.getApplicationCollateralIds(1)).to.deep.eq([]);
+    });
+
+    it("releases collateral before review and after a rejection", async function () {
+      await registerCollateral(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        CollateralType.LandTitle,
+        40000,
+      );
+      await registerCollateral(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        CollateralType.StoredGrain,
+        5000,
+      );
+      await pledgeAttested(1, 1);
+      await pledgeAttested(2, 1);
+
+      await expect(agriFinanceContract.connect(signers.alice).releaseCollateral(1))
+        .to.emit(agriFinanceContract, "CollateralReleased")
+        .withArgs(1, 1);
+      expect(await agriFinanceContract.getApplicationCollateralIds(1)).to.deep.eq([2n]);
+      expect(await coverage(1)).to.deep.eq({ pledgedValue: 5000n, covered: false });
+      await expect(agriFinanceContract.connect(signers.alice).releaseCollateral(1)).to.be.revertedWith("Not pledged");
+
+      const lender = agriFinanceContract.connect(signers.deployer);
+      await lender.startReview(1);
+      await lender.rejectApplication(1);
+      await agriFinanceContract.connect(signers.alice).releaseCollateral(2);
+      expect(await agriFinanceContract.getApplicationCollateralIds(1)).to.deep.eq([]);
+    });
+
+    it("shares pledged collateral and the check with reviewers", async function () {
+      await registerCollateral(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        CollateralType.LandTitle,
+        40000,
+      );
+      await agriFinanceContract.connect(signers.alice).pledgeCollateral(1, 1);
+      await agriFinanceContract.connect(signers.deployer).grantRole(Role.Underwriter, signers.bob.address);
+      await agriFinanceContract.connect(signers.bob).attestCollateral(1);
+      const [, covered] = await agriFinanceContract.getEncryptedCollateralCoverage(1);
+      const collateral = await agriFinanceContract.collaterals(1);
+
+      await expect(fhevm.userDecryptEbool(covered, agriFinanceContractAddress, signers.deployer)).to.be.rejected;
+      await agriFinanceContract.connect(signers.deployer).allowApplicationData(1);
+
+      expect(await coverage(1, signers.deployer)).to.deep.eq({ pledgedValue: 40000n, covered: true });
+      expect(
+        await fhevm.userDecryptEaddress(collateral.encryptedOwner, agriFinanceContractAddress, signers.deployer),
+      ).to.eq(signers.alice.address);
+    });
+
+    it("re-checks coverage against an updated loan-to-value limit", async function () {
+      await registerCollateral(
+        agriFinanceContract,
+        agriFinanceContractAddress,
+        signers.alice,
+        CollateralType.LandTitle,
+        40000,
+      );
+      await pledgeAttested(1, 1);
+
+      await expect(
+        agriFinanceContract.connect(signers.alice).setCollateralConfig({ maxLoanToValueBps: 5000 }),
+      ).to.be.revertedWith("Not lender");
+      await expect(
+        agriFinanceContract.connect(signers.deployer).setCollateralConfig({ maxLoanToValueBps: 10001 }),
+      ).to.be.revertedWith("Invalid loan-to-value");
+
+      await agriFinanceContract.connect(signers.deployer).setCollateralConfig({ maxLoanToValueBps: 5000 });
+      await expect(agriFinanceContract.connect(signers.deployer).recomputeCollateralCoverage(1))
+        .to.emit(agriFinanceContract, "CollateralCoverageComputed")
+        .withArgs(1);
+      expect(await coverage(1, signers.deployer)).to.deep.eq({ pledgedValue: 40000n, covered: false });
+    });
+  });
+});
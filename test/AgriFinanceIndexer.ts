@@ -0,0 +1,242 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm, network } from "hardhat";
+import { expect } from "chai";
+import Database from "better-sqlite3";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AgriFinanceFHE, AgriFinanceFHE__factory } from "../types";
+import { AgriFinanceIndexer, IndexerOptions } from "../src/indexer/indexer";
+import { IndexerStore } from "../src/indexer/store";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("AgriFinanceFHE")) as AgriFinanceFHE__factory;
+  const agriFinanceContract = (await factory.deploy()) as AgriFinanceFHE;
+  const agriFinanceContractAddress = await agriFinanceContract.getAddress();
+  const deploymentBlock = (await agriFinanceContract.deploymentTransaction()!.wait())!.blockNumber;
+
+  return { agriFinanceContract, agriFinanceContractAddress, deploymentBlock };
+}
+
+async function submitApplication(
+  contract: AgriFinanceFHE,
+  contractAddress: string,
+  applicant: HardhatEthersSigner,
+  cropType = "Wheat",
+) {
+  const encryptedInput = await fhevm
+    .createEncryptedInput(contractAddress, applicant.address)
+    .add32(1)
+    .add32(2)
+    .add32(3)
+    .encrypt();
+
+  const tx = await contract
+    .connect(applicant)
+    .submitEncryptedLoanApplication(
+      cropType,
+      encryptedInput.handles[0],
+      encryptedInput.handles[1],
+      encryptedInput.handles[2],
+      [],
+      encryptedInput.inputProof,
+    );
+  return tx.wait();
+}
+
+describe("AgriFinanceIndexer", function () {
+  let signers: Signers;
+  let agriFinanceContract: AgriFinanceFHE;
+  let agriFinanceContractAddress: string;
+  let deploymentBlock: number;
+  let chainId: number;
+  let stores: IndexerStore[];
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+    chainId = Number((await ethers.provider.getNetwork()).chainId);
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ agriFinanceContract, agriFinanceContractAddress, deploymentBlock } = await deployFixture());
+    stores = [];
+  });
+
+  afterEach(function () {
+    stores.forEach((store) => store.close());
+  });
+
+  function openStore(filename = ":memory:") {
+    const store = new IndexerStore(filename, { chainId, address: agriFinanceContractAddress });
+    stores.push(store);
+    return store;
+  }
+
+  function createIndexer(store: IndexerStore, options: Partial<IndexerOptions> = {}) {
+    return new AgriFinanceIndexer(ethers.provider, store, {
+      address: agriFinanceContractAddress,
+      deploymentBlock,
+      ...options,
+    });
+  }
+
+  it("indexes submissions, decryption requests and decryptions from the deployment block", async function () {
+    const receipt = await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice);
+    await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.bob);
+    await agriFinanceContract.connect(signers.alice).requestApplicationDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+
+    const store = openStore();
+    const checkpoint = await createIndexer(store).sync();
+
+    expect(checkpoint!.number).to.eq(await ethers.provider.getBlockNumber());
+    const applications = store.getApplications();
+    expect(applications.map((application) => application.applicant)).to.deep.eq([
+      signers.alice.address,
+      signers.bob.address,
+    ]);
+    expect(applications[0]).to.include({
+      id: 1,
+      cropType: "Wheat",
+      blockNumber: receipt!.blockNumber,
+      transactionHash: receipt!.hash,
+      decryptionRequested: true,
+      decrypted: true,
+      farmData: 1,
+      yieldPrediction: 2,
+      loanAmount: 3,
+    });
+    expect(applications[1]).to.include({ id: 2, decryptionRequested: false, decrypted: false, farmData: null });
+  });
+
+  it("follows each application through its lifecycle events", async function () {
+    await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice, "Maize");
+    await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.bob);
+    const store = openStore();
+    const indexer = createIndexer(store);
+
+    await indexer.sync();
+    expect(store.getApplication(1)).to.include({ cropType: "Maize", status: "submitted" });
+
+    await agriFinanceContract.startReview(1);
+    await agriFinanceContract.approveApplication(1);
+    await agriFinanceContract.startReview(2);
+    await agriFinanceContract.rejectApplication(2);
+    await indexer.sync();
+
+    expect(store.getApplication(1)!.status).to.eq("approved");
+    expect(store.getApplication(2)!.status).to.eq("rejected");
+  });
+
+  it("pages through the chain in batches", async function () {
+    await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice);
+    await network.provider.send("hardhat_mine", ["0x5"]);
+    await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.bob);
+
+    const store = openStore();
+    await createIndexer(store, { batchSize: 2 }).sync();
+
+    expect(store.getApplications().map((application) => application.id)).to.deep.eq([1, 2]);
+  });
+
+  it("resumes from its checkpoint after a restart", async function () {
+    const filename = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "agri-indexer-")), "index.sqlite");
+    await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice);
+
+    const first = openStore(filename);
+    const checkpoint = await createIndexer(first).sync();
+    first.close();
+    stores = [];
+
+    await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.bob);
+    const reopened = openStore(filename);
+    expect(reopened.getCheckpoint()).to.deep.eq(checkpoint);
+
+    const fromBlocks: number[] = [];
+    const provider = new Proxy(ethers.provider, {
+      get(target, property) {
+        if (property === "getLogs") {
+          return (filter: { fromBlock: number }) => {
+            fromBlocks.push(filter.fromBlock);
+            return target.getLogs(filter);
+          };
+        }
+        const value = Reflect.get(target, property);
+        return typeof value === "function" ? value.bind(target) : value;
+      },
+    });
+    await new AgriFinanceIndexer(provider, reopened, { address: agriFinanceContractAddress, deploymentBlock }).sync();
+
+    expect(fromBlocks).to.deep.eq([checkpoint!.number + 1]);
+    expect(reopened.getApplications().map((application) => application.applicant)).to.deep.eq([
+      signers.alice.address,
+      signers.bob.address,
+    ]);
+  });
+
+  it("drops events from blocks that a reorg replaced", async function () {
+    const store = openStore();
+    const indexer = createIndexer(store);
+    await indexer.sync();
+
+    const snapshot = await network.provider.send("evm_snapshot");
+    await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice);
+    await indexer.sync();
+    expect(store.getApplication(1)!.applicant).to.eq(signers.alice.address);
+
+    await network.provider.send("evm_revert", [snapshot]);
+    await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.bob);
+    await network.provider.send("hardhat_mine", ["0x2"]);
+    const checkpoint = await indexer.sync();
+
+    expect(store.getApplications().map((application) => application.applicant)).to.deep.eq([signers.bob.address]);
+    expect(checkpoint!.hash).to.eq((await ethers.provider.getBlock("latest"))!.hash);
+  });
+
+  it("waits for the configured confirmations", async function () {
+    const store = openStore();
+    const indexer = createIndexer(store, { confirmations: 2 });
+
+    await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice);
+    await indexer.sync();
+    expect(store.getApplications()).to.be.empty;
+
+    await network.provider.send("hardhat_mine", ["0x2"]);
+    await indexer.sync();
+    expect(store.getApplications()).to.have.length(1);
+  });
+
+  it("rebuilds an index written with an older schema", async function () {
+    const filename = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "agri-indexer-")), "index.sqlite");
+    const legacy = new Database(filename);
+    legacy.exec("CREATE TABLE events (block_number INTEGER, log_index INTEGER, name TEXT)");
+    legacy.close();
+
+    await submitApplication(agriFinanceContract, agriFinanceContractAddress, signers.alice);
+    const store = openStore(filename);
+    expect(store.getCheckpoint()).to.be.undefined;
+
+    await createIndexer(store).sync();
+    expect(store.getApplication(1)!.cropType).to.eq("Wheat");
+  });
+
+  it("refuses a database indexed for another contract", async function () {
+    const filename = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "agri-indexer-")), "index.sqlite");
+    openStore(filename).close();
+    stores = [];
+
+    expect(() => new IndexerStore(filename, { chainId, address: signers.bob.address })).to.throw("Index holds");
+  });
+});
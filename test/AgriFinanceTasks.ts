@@ -0,0 +1,185 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import hre, { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AgriFinanceFHE, AgriFinanceFHE__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+describe("AgriFinanceFHE tasks", function () {
+  let signers: Signers;
+  let contract: AgriFinanceFHE;
+  let address: string;
+  let log: typeof console.log;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory("AgriFinanceFHE")) as AgriFinanceFHE__factory;
+    contract = (await factory.deploy()) as AgriFinanceFHE;
+    address = await contract.getAddress();
+
+    // The tasks print tables; keep the mocha report readable.
+    log = console.log;
+    console.log = () => {};
+  });
+
+  afterEach(function () {
+    if (log) console.log = log;
+  });
+
+  const submit = (signer: number, crop: string) =>
+    hre.run("agri:submit", { crop, farmData: 120, yieldPrediction: 80, loanAmount: 5000, signer, address });
+
+  it("submits an encrypted application", async function () {
+    const result = await submit(1, "Wheat");
+
+    expect(result).to.include({ id: 1, applicant: signers.alice.address });
+    expect(await contract.getApplicationIdsByApplicant(signers.alice.address)).to.deep.eq([1n]);
+    const application = await contract.encryptedApplications(1);
+    expect(application.cropType).to.eq("Wheat");
+    expect(application.encryptedLoanAmount).to.not.eq(ethers.ZeroHash);
+  });
+
+  it("submits a planting history from a JSON file", async function () {
+    const history = path.join(os.tmpdir(), `agri-history-${process.pid}.json`);
+    fs.writeFileSync(
+      history,
+      JSON.stringify([
+        {
+          season: "2023",
+          cropType: "Maize",
+          area: 8,
+          plantedAt: "2023-03-01",
+          harvestedAt: "2023-07-15",
+          realisedYield: 4100,
+        },
+        {
+          season: "2024",
+          cropType: "Maize",
+          area: 9,
+          plantedAt: 1709251200,
+          harvestedAt: 1721001600,
+          realisedYield: 3900,
+        },
+      ]),
+    );
+
+    try {
+      const result = await hre.run("agri:submit", {
+        crop: "Maize",
+        farmData: 9,
+        yieldPrediction: 4000,
+        loanAmount: 5000,
+        history,
+        signer: 1,
+        address,
+      });
+      expect(result).to.include({ id: 1, seasons: 2 });
+    } finally {
+      fs.rmSync(history);
+    }
+
+    const seasons = await contract.getPlantingHistory(1);
+    expect(seasons.map((season) => season.season)).to.deep.eq(["2023", "2024"]);
+    const record = await hre.run("agri:show", { id: 1, address });
+    expect(record.seasons).to.eq("2023 Maize, 2024 Maize");
+  });
+
+  it("lists applications filtered by applicant and status", async function () {
+    await submit(1, "Wheat");
+    await submit(2, "Maize");
+    await submit(1, "Rice");
+    await contract.startReview(3);
+
+    const all = await hre.run("agri:list", { address });
+    expect(all.map((row: { id: number }) => row.id)).to.deep.eq([1, 2, 3]);
+
+    const alice = await hre.run("agri:list", { address, applicant: signers.alice.address });
+    expect(alice.map((row: { id: number }) => row.id)).to.deep.eq([1, 3]);
+
+    const underReview = await hre.run("agri:list", { address, status: "under-review" });
+    expect(underReview).to.have.length(1);
+    expect(underReview[0]).to.include({ id: 3, cropType: "Rice", status: "under-review", revealed: false });
+
+    await expect(hre.run("agri:list", { address, status: "pending" })).to.be.rejectedWith("Unknown status pending");
+  });
+
+  it("shows an application with its handles", async function () {
+    await submit(2, "Maize");
+
+    const record = await hre.run("agri:show", { id: 1, address });
+    expect(record).to.include({ id: 1, applicant: signers.bob.address, status: "submitted", farmData: null });
+    expect(record.loanAmountHandle).to.eq((await contract.encryptedApplications(1)).encryptedLoanAmount);
+
+    await expect(hre.run("agri:show", { id: 7, address })).to.be.rejectedWith("Application 7 not found");
+  });
+
+  it("requests decryption and waits for the oracle", async function () {
+    await submit(1, "Wheat");
+
+    const application = await hre.run("agri:request-decrypt", { id: 1, signer: 1, address });
+
+    expect(application).to.include({ revealed: true, farmData: 120, yieldPrediction: 80, loanAmount: 5000 });
+  });
+
+  it("reports category counts only once revealed", async function () {
+    await submit(1, "Wheat");
+    await hre.run("agri:request-decrypt", { id: 1, signer: 1, address });
+
+    expect(await hre.run("agri:category-stats", { address })).to.deep.eq([
+      { category: "Wheat", count: null, revealedAt: null },
+    ]);
+
+    await contract.grantRole(2 /* Role.Auditor */, signers.deployer.address);
+    await contract.requestLoanCategoryCountDecryption("Wheat");
+    await fhevm.awaitDecryptionOracle();
+
+    const [row] = await hre.run("agri:category-stats", { address });
+    expect(row).to.include({ category: "Wheat", count: 1 });
+    expect(row.revealedAt).to.be.a("string");
+  });
+
+  it("lists, grants and revokes roles", async function () {
+    const granted = await hre.run("agri:roles", { address, account: signers.alice.address, grant: "underwriter" });
+    expect(granted).to.deep.eq([
+      {
+        account: signers.alice.address,
+        admin: false,
+        lender: false,
+        underwriter: true,
+        auditor: false,
+        cooperative: false,
+      },
+    ]);
+
+    const holders = await hre.run("agri:roles", { address });
+    expect(holders.map((row: { account: string }) => row.account)).to.deep.eq([
+      signers.deployer.address,
+      signers.alice.address,
+    ]);
+    expect(holders[0]).to.include({ admin: true });
+
+    const revoked = await hre.run("agri:roles", { address, account: signers.alice.address, revoke: "underwriter" });
+    expect(revoked[0]).to.include({ underwriter: false });
+
+    await expect(hre.run("agri:roles", { address, grant: "lender" })).to.be.rejectedWith("--account is required");
+    await expect(hre.run("agri:roles", { address, account: signers.bob.address, grant: "owner" })).to.be.rejectedWith(
+      "Unknown role owner",
+    );
+  });
+});
@@ -0,0 +1,303 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import {
+  AgriFinanceFHE,
+  AgriFinanceFHE__factory,
+  ConfidentialToken,
+  ConfidentialToken__factory,
+  LoanRepayment,
+  LoanRepayment__factory,
+} from "../types";
+
+const DAY = 24 * 60 * 60;
+const LOAN_AMOUNT = 12000;
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const tokenFactory = (await ethers.getContractFactory("ConfidentialToken")) as ConfidentialToken__factory;
+  const token = (await tokenFactory.deploy("Confidential USD", "cUSD")) as ConfidentialToken;
+  const tokenAddress = await token.getAddress();
+
+  const agriFinanceFactory = (await ethers.getContractFactory("AgriFinanceFHE")) as AgriFinanceFHE__factory;
+  const agriFinanceContract = (await agriFinanceFactory.deploy()) as AgriFinanceFHE;
+
+  const repaymentFactory = (await ethers.getContractFactory("LoanRepayment")) as LoanRepayment__factory;
+  const repaymentContract = (await repaymentFactory.deploy(
+    await agriFinanceContract.getAddress(),
+    tokenAddress,
+  )) as LoanRepayment;
+  const repaymentContractAddress = await repaymentContract.getAddress();
+  await (await agriFinanceContract.setLoanRepayment(repaymentContractAddress)).wait();
+
+  return { token, tokenAddress, agriFinanceContract, repaymentContract, repaymentContractAddress };
+}
+
+// Submits an application for LOAN_AMOUNT and approves it; applications are
+// numbered from 1.
+async function approvedApplication(contract: AgriFinanceFHE, applicant: HardhatEthersSigner) {
+  const encryptedInput = await fhevm
+    .createEncryptedInput(await contract.getAddress(), applicant.address)
+    .add32(12)
+    .add32(4500)
+    .add32(LOAN_AMOUNT)
+    .encrypt();
+  await (
+    await contract
+      .connect(applicant)
+      .submitEncryptedLoanApplication(
+        "Wheat",
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        [],
+        encryptedInput.inputProof,
+      )
+  ).wait();
+
+  const id = await contract.applicationCount();
+  await (await contract.startReview(id)).wait();
+  await (await contract.approveApplication(id)).wait();
+  return id;
+}
+
+// An approved application with a one-instalment schedule.
+async function scheduledApplication(
+  contract: AgriFinanceFHE,
+  repaymentContract: LoanRepayment,
+  applicant: HardhatEthersSigner,
+) {
+  const id = await approvedApplication(contract, applicant);
+  await (
+    await repaymentContract.setRepaymentSchedule(id, {
+      dueDates: [(await time.latest()) + 90 * DAY],
+      interestRateBps: 0,
+      harvestMonth: 0,
+      gracePeriodDays: 0,
+    })
+  ).wait();
+  return id;
+}
+
+describe("ConfidentialToken", function () {
+  let signers: Signers;
+  let token: ConfidentialToken;
+  let tokenAddress: string;
+  let agriFinanceContract: AgriFinanceFHE;
+  let repaymentContract: LoanRepayment;
+  let repaymentContractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ token, tokenAddress, agriFinanceContract, repaymentContract, repaymentContractAddress } = await deployFixture());
+  });
+
+  async function balanceOf(user: HardhatEthersSigner) {
+    const handle = await token.confidentialBalanceOf(user.address);
+    if (handle === ethers.ZeroHash) return 0n;
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, tokenAddress, user);
+  }
+
+  async function transfer(from: HardhatEthersSigner, to: HardhatEthersSigner, amount: number) {
+    const encryptedInput = await fhevm.createEncryptedInput(tokenAddress, from.address).add64(amount).encrypt();
+    return token.connect(from).confidentialTransfer(to.address, encryptedInput.handles[0], encryptedInput.inputProof);
+  }
+
+  async function authorize(holder: HardhatEthersSigner) {
+    await (await token.connect(holder).setOperator(repaymentContractAddress, (await time.latest()) + 30 * DAY)).wait();
+  }
+
+  describe("token", function () {
+    it("mints and transfers encrypted balances only their holders can decrypt", async function () {
+      await expect(token.mint(signers.alice.address, 5000))
+        .to.emit(token, "ConfidentialTransfer")
+        .withArgs(ethers.ZeroAddress, signers.alice.address);
+      await expect(token.connect(signers.alice).mint(signers.alice.address, 1)).to.be.revertedWith("Not owner");
+
+      await expect(transfer(signers.alice, signers.bob, 1200))
+        .to.emit(token, "ConfidentialTransfer")
+        .withArgs(signers.alice.address, signers.bob.address);
+      expect(await balanceOf(signers.alice)).to.eq(3800n);
+      expect(await balanceOf(signers.bob)).to.eq(1200n);
+
+      const aliceBalance = await token.confidentialBalanceOf(signers.alice.address);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, aliceBalance, tokenAddress, signers.bob)).to.be.rejected;
+    });
+
+    it("moves nothing when the balance falls short", async function () {
+      await (await token.mint(signers.alice.address, 1000)).wait();
+
+      await (await transfer(signers.alice, signers.bob, 1001)).wait();
+      expect(await balanceOf(signers.alice)).to.eq(1000n);
+      expect(await balanceOf(signers.bob)).to.eq(0n);
+    });
+
+    it("lets operators transfer until their authorization expires", async function () {
+      expect(await token.isOperator(signers.alice.address, signers.bob.address)).to.eq(false);
+      const until = (await time.latest()) + DAY;
+      await expect(token.connect(signers.alice).setOperator(signers.bob.address, until))
+        .to.emit(token, "OperatorSet")
+        .withArgs(signers.alice.address, signers.bob.address, until);
+      expect(await token.isOperator(signers.alice.address, signers.bob.address)).to.eq(true);
+
+      await time.increaseTo(until + 1);
+      expect(await token.isOperator(signers.alice.address, signers.bob.address)).to.eq(false);
+      await expect(
+        token
+          .connect(signers.bob)
+          .confidentialTransferFrom(signers.alice.address, signers.bob.address, ethers.ZeroHash),
+      ).to.be.revertedWith("Not operator");
+    });
+  });
+
+  describe("loan payments", function () {
+    let applicationId: bigint;
+
+    beforeEach(async function () {
+      applicationId = await scheduledApplication(agriFinanceContract, repaymentContract, signers.alice);
+      await (await token.mint(signers.deployer.address, 20000)).wait();
+    });
+
+    async function repay(amount: number) {
+      const encryptedInput = await fhevm
+        .createEncryptedInput(repaymentContractAddress, signers.alice.address)
+        .add32(amount)
+        .encrypt();
+      return repaymentContract
+        .connect(signers.alice)
+        .repay(applicationId, encryptedInput.handles[0], encryptedInput.inputProof);
+    }
+
+    // Disburses and waits for the oracle to confirm the loan amount arrived.
+    async function disburse() {
+      await (await agriFinanceContract.disburseLoan(applicationId)).wait();
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    // What each oracle answer said about the loan amount reaching alice.
+    async function fundingChecks() {
+      const events = await repaymentContract.queryFilter(
+        repaymentContract.filters.DisbursalFundingChecked(applicationId),
+      );
+      return events.map((event) => event.args.funded);
+    }
+
+    async function outstanding() {
+      const { outstanding } = await repaymentContract.getEncryptedRepaymentBalance(applicationId);
+      return fhevm.userDecryptEuint(FhevmType.euint64, outstanding, repaymentContractAddress, signers.alice);
+    }
+
+    it("pays the encrypted loan amount from the lender to the applicant on disbursal", async function () {
+      await authorize(signers.deployer);
+      await expect(agriFinanceContract.disburseLoan(applicationId))
+        .to.emit(token, "ConfidentialTransfer")
+        .withArgs(signers.deployer.address, signers.alice.address);
+
+      expect(await balanceOf(signers.alice)).to.eq(BigInt(LOAN_AMOUNT));
+      expect(await balanceOf(signers.deployer)).to.eq(BigInt(20000 - LOAN_AMOUNT));
+      expect(await outstanding()).to.eq(BigInt(LOAN_AMOUNT));
+    });
+
+    it("needs the lender's authorization to disburse", async function () {
+      await expect(agriFinanceContract.disburseLoan(applicationId)).to.be.revertedWith("Not operator");
+    });
+
+    it("refuses to disburse a loan without a repayment schedule", async function () {
+      const unscheduledId = await approvedApplication(agriFinanceContract, signers.bob);
+      await authorize(signers.deployer);
+      await expect(agriFinanceContract.disburseLoan(unscheduledId)).to.be.revertedWith("No repayment schedule");
+    });
+
+    it("lets the lender retry a disbursal their balance could not cover", async function () {
+      await (await transfer(signers.deployer, signers.bob, 10000)).wait();
+      await authorize(signers.deployer);
+      await disburse();
+      expect(await fundingChecks()).to.deep.eq([false]);
+
+      expect(await balanceOf(signers.alice)).to.eq(0n);
+      expect(await outstanding()).to.eq(0n);
+      expect((await repaymentContract.getRepaymentSchedule(applicationId)).fundedAt).to.eq(0n);
+      await expect(agriFinanceContract.startRepayment(applicationId)).to.be.revertedWith("Disbursal not funded");
+      await expect(repaymentContract.checkLatePayment(applicationId)).to.be.revertedWith("Disbursal not funded");
+      await expect(repay(1000)).to.be.revertedWith("Disbursal not funded");
+      await expect(repaymentContract.connect(signers.bob).retryDisbursal(applicationId)).to.be.revertedWith(
+        "Not disbursing lender",
+      );
+
+      await (await transfer(signers.bob, signers.deployer, 10000)).wait();
+      await (await repaymentContract.retryDisbursal(applicationId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await fundingChecks()).to.deep.eq([false, true]);
+
+      expect(await balanceOf(signers.alice)).to.eq(BigInt(LOAN_AMOUNT));
+      expect(await balanceOf(signers.deployer)).to.eq(BigInt(20000 - LOAN_AMOUNT));
+      expect(await outstanding()).to.eq(BigInt(LOAN_AMOUNT));
+      const { principal } = await repaymentContract.getEncryptedRepaymentBalance(applicationId);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, principal, repaymentContractAddress, signers.alice)).to.eq(
+        BigInt(LOAN_AMOUNT),
+      );
+
+      await expect(repaymentContract.retryDisbursal(applicationId)).to.be.revertedWith("Disbursal already funded");
+      await expect(agriFinanceContract.startRepayment(applicationId)).to.emit(
+        agriFinanceContract,
+        "LoanRepaymentStarted",
+      );
+    });
+
+    it("pays a retried disbursal out only once", async function () {
+      await authorize(signers.deployer);
+      await (await agriFinanceContract.disburseLoan(applicationId)).wait();
+      // Retried before the oracle has confirmed the first payment.
+      await (await repaymentContract.retryDisbursal(applicationId)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await balanceOf(signers.alice)).to.eq(BigInt(LOAN_AMOUNT));
+      expect(await balanceOf(signers.deployer)).to.eq(BigInt(20000 - LOAN_AMOUNT));
+      expect(await outstanding()).to.eq(BigInt(LOAN_AMOUNT));
+      expect((await repaymentContract.getRepaymentSchedule(applicationId)).fundedAt).to.not.eq(0n);
+    });
+
+    it("pays repayments from the applicant to the lender, up to what is outstanding", async function () {
+      await authorize(signers.deployer);
+      await disburse();
+      await (await token.mint(signers.alice.address, 1000)).wait();
+
+      await expect(repay(1000)).to.be.revertedWith("Not operator");
+      await authorize(signers.alice);
+
+      await (await repay(5000)).wait();
+      expect(await balanceOf(signers.alice)).to.eq(BigInt(LOAN_AMOUNT + 1000 - 5000));
+      expect(await balanceOf(signers.deployer)).to.eq(BigInt(20000 - LOAN_AMOUNT + 5000));
+      expect(await outstanding()).to.eq(BigInt(LOAN_AMOUNT - 5000));
+
+      // A repayment beyond the applicant's balance moves and repays nothing.
+      await (await transfer(signers.alice, signers.bob, 2000)).wait();
+      await (await repay(7000)).wait();
+      expect(await outstanding()).to.eq(BigInt(LOAN_AMOUNT - 5000));
+      expect(await balanceOf(signers.alice)).to.eq(6000n);
+      await (await transfer(signers.bob, signers.alice, 2000)).wait();
+
+      // Only the outstanding balance is taken from an overpayment.
+      await (await repay(8000)).wait();
+      expect(await outstanding()).to.eq(0n);
+      expect(await balanceOf(signers.alice)).to.eq(1000n);
+      expect(await balanceOf(signers.deployer)).to.eq(20000n);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { guessBatchColumns, mapMemberRows, readBatchOutcomes } from "../frontend/web/src/cooperativeBatch";
+import { parseCsv } from "../frontend/web/src/farmRecordImport";
+import { AgriFinanceFHE__factory } from "../types";
+
+const CROP_TYPES = ["Wheat", "Rice", "Corn", "Soybean"];
+const ALICE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const BOB = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+
+function importCsv(text: string) {
+  const [headers, ...rows] = parseCsv(text);
+  const mapping = guessBatchColumns(headers);
+  return { mapping, rows: mapMemberRows({ headers, rows }, mapping, CROP_TYPES) };
+}
+
+describe("Cooperative batch upload", function () {
+  it("maps member columns from the header names", function () {
+    const { mapping } = importCsv("Member Address,Crop,Farm area (ha),Expected yield,Loan amount\n");
+
+    expect(mapping).to.deep.eq({ applicant: 0, cropType: 1, farmData: 2, yieldPrediction: 3, loanAmount: 4 });
+  });
+
+  it("validates each row as a member application", function () {
+    const { rows } = importCsv(
+      [
+        "wallet,crop,area,yield,loan",
+        `${ALICE.toLowerCase()},maize,120,4500,"25,000"`,
+        `${BOB},Barley,80,3000,10000`,
+        `not-an-address,Wheat,1.5,3000,-4`,
+        "",
+      ].join("\n"),
+    );
+
+    expect(rows.map((row) => row.row)).to.deep.eq([1, 2, 3]);
+    expect(rows[0]).to.deep.eq({
+      row: 1,
+      application: { applicant: ALICE, cropType: "Corn", farmData: 120, yieldPrediction: 4500, loanAmount: 25000 },
+      errors: [],
+    });
+    expect(rows[1].application).to.eq(null);
+    expect(rows[1].errors).to.deep.eq(['Unknown crop "Barley"']);
+    expect(rows[2].errors).to.deep.eq([
+      '"not-an-address" is not an address',
+      'Farm area "1.5" is not a whole number',
+      'Loan amount "-4" is not a whole number',
+    ]);
+  });
+
+  it("reports unmapped columns on every row", function () {
+    const { rows } = importCsv(`member,crop,area,yield\n${ALICE},Rice,10,3000\n`);
+
+    expect(rows[0].errors).to.deep.eq(["Loan amount column is not mapped"]);
+  });
+
+  it("reads each row's outcome from the batch receipt", function () {
+    const iface = AgriFinanceFHE__factory.createInterface();
+    const contractAddress = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+    const log = (address: string, name: string, args: unknown[]) =>
+      ({ address, ...iface.encodeEventLog(name, args) }) as unknown as ethers.Log;
+
+    const outcomes = readBatchOutcomes(
+      iface,
+      contractAddress,
+      [
+        log(contractAddress, "BatchApplicationSubmitted", [7, BOB, ALICE, 0]),
+        log(contractAddress, "BatchApplicationSkipped", [BOB, 2, ALICE, "Not a member"]),
+        log(BOB, "BatchApplicationSubmitted", [8, BOB, ALICE, 1]),
+      ],
+      3,
+    );
+
+    expect(outcomes).to.deep.eq([
+      { state: "submitted", applicationId: 7 },
+      { state: "failed", message: "No result in the transaction receipt" },
+      { state: "skipped", message: "Not a member" },
+    ]);
+  });
+});
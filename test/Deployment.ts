@@ -0,0 +1,117 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployments, ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { AgriFinanceFHE, LoanEscrow, LoanRepayment, MockERC20 } from "../types";
+
+const DAY = 24 * 60 * 60;
+const LOAN_AMOUNT = 12000;
+const USD = 10n ** 6n;
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+};
+
+// Runs the deploy scripts as `npm run deploy:localhost` does, without the
+// export, which skips the in-process network.
+async function deployFixture() {
+  await deployments.fixture();
+  const at = async <T>(name: string) =>
+    (await ethers.getContractAt(name, (await deployments.get(name)).address)) as unknown as T;
+  return {
+    agriFinanceContract: await at<AgriFinanceFHE>("AgriFinanceFHE"),
+    repaymentContract: await at<LoanRepayment>("LoanRepayment"),
+    escrowContract: await at<LoanEscrow>("LoanEscrow"),
+    token: await at<MockERC20>("MockERC20"),
+  };
+}
+
+describe("Deployment", function () {
+  let signers: Signers;
+  let agriFinanceContract: AgriFinanceFHE;
+  let repaymentContract: LoanRepayment;
+  let escrowContract: LoanEscrow;
+  let token: MockERC20;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ agriFinanceContract, repaymentContract, escrowContract, token } = await deployFixture());
+  });
+
+  it("tracks repayments and pays loans through the escrow by default", async function () {
+    expect(await agriFinanceContract.loanRepayment()).to.eq(await repaymentContract.getAddress());
+    expect(await repaymentContract.token()).to.eq(ethers.ZeroAddress);
+    expect(await escrowContract.token()).to.eq(await token.getAddress());
+    expect(await deployments.getOrNull("ConfidentialToken")).to.eq(undefined);
+    expect(await token.balanceOf(signers.deployer.address)).to.eq(1_000_000n * USD);
+  });
+
+  it("pays a loan out and takes the principal back", async function () {
+    const agriFinanceAddress = await agriFinanceContract.getAddress();
+    const escrowAddress = await escrowContract.getAddress();
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(agriFinanceAddress, signers.alice.address)
+      .add32(12)
+      .add32(4500)
+      .add32(LOAN_AMOUNT)
+      .encrypt();
+    await (
+      await agriFinanceContract
+        .connect(signers.alice)
+        .submitEncryptedLoanApplication(
+          "Wheat",
+          encryptedInput.handles[0],
+          encryptedInput.handles[1],
+          encryptedInput.handles[2],
+          [],
+          encryptedInput.inputProof,
+        )
+    ).wait();
+    const id = await agriFinanceContract.applicationCount();
+    await (await agriFinanceContract.startReview(id)).wait();
+    await (await agriFinanceContract.approveApplication(id)).wait();
+    await (await agriFinanceContract.connect(signers.alice).requestApplicationDecryption(id)).wait();
+    await fhevm.awaitDecryptionOracle();
+    await (
+      await repaymentContract.setRepaymentSchedule(id, {
+        dueDates: [(await time.latest()) + 90 * DAY],
+        interestRateBps: 0,
+        harvestMonth: 0,
+        gracePeriodDays: 0,
+      })
+    ).wait();
+
+    await (await token.approve(escrowAddress, 20000n * USD)).wait();
+    await (await escrowContract.fund(20000n * USD)).wait();
+    await expect(agriFinanceContract.disburseLoan(id)).to.emit(repaymentContract, "RepaymentScheduleStarted");
+    await expect(escrowContract.payOut(id))
+      .to.emit(escrowContract, "LoanPaidOut")
+      .withArgs(id, signers.deployer.address, signers.alice.address, BigInt(LOAN_AMOUNT) * USD);
+    expect(await token.balanceOf(signers.alice.address)).to.eq(BigInt(LOAN_AMOUNT) * USD);
+
+    const { outstanding } = await repaymentContract.getEncryptedRepaymentBalance(id);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, outstanding, await repaymentContract.getAddress(), signers.alice),
+    ).to.eq(BigInt(LOAN_AMOUNT));
+
+    await (await agriFinanceContract.startRepayment(id)).wait();
+    await (await token.connect(signers.alice).approve(escrowAddress, BigInt(LOAN_AMOUNT) * USD)).wait();
+    await (await escrowContract.connect(signers.alice).repay(id, BigInt(LOAN_AMOUNT) * USD)).wait();
+    expect(await token.balanceOf(signers.deployer.address)).to.eq(
+      1_000_000n * USD - 20000n * USD + BigInt(LOAN_AMOUNT) * USD,
+    );
+    await (await agriFinanceContract.closeLoan(id)).wait();
+  });
+});
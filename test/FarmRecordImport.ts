@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import {
+  guessImportSettings,
+  ImportTable,
+  mapImportedRows,
+  parseCsv,
+  parseDateCell,
+  parseQuantityCell,
+} from "../frontend/web/src/farmRecordImport";
+
+const CROP_TYPES = ["Wheat", "Rice", "Corn", "Soybean"];
+
+function importCsv(text: string) {
+  const [headers, ...rows] = parseCsv(text);
+  const table: ImportTable = { headers, rows };
+  const settings = guessImportSettings(headers);
+  return { settings, rows: mapImportedRows(table, settings, CROP_TYPES) };
+}
+
+describe("Farm record import", function () {
+  it("parses quoted CSV cells and detects the delimiter", function () {
+    expect(parseCsv('season,crop,notes\r\n2023,Wheat,"dry, then ""wet"""\n2024,Rice,"two\nlines"\n')).to.deep.eq([
+      ["season", "crop", "notes"],
+      ["2023", "Wheat", 'dry, then "wet"'],
+      ["2024", "Rice", "two\nlines"],
+    ]);
+    expect(parseCsv("\uFEFFcrop;area\nWheat;1,5")).to.deep.eq([
+      ["crop", "area"],
+      ["Wheat", "1,5"],
+    ]);
+  });
+
+  it("maps columns and units from the header names", function () {
+    const { settings } = importCsv("Year,Crop Type,Area (acres),Sowing Date,Harvest Date,Yield t/ha\n");
+
+    expect(settings.mapping).to.deep.eq({
+      season: 0,
+      cropType: 1,
+      area: 2,
+      plantedAt: 3,
+      harvestedAt: 4,
+      realisedYield: 5,
+    });
+    expect(settings).to.include({ areaUnit: "acre", yieldUnit: "t/ha" });
+  });
+
+  it("converts rows to whole hectares and kg/ha", function () {
+    const { rows } = importCsv(
+      [
+        "Season,Crop,Area (acres),Planting date,Harvest date,Yield (t/ha)",
+        "2023 long rains,maize,24.7,2023-03-01,2023-07-15,4.2",
+        ",Wheat,10,15/10/2023,20/02/2024,3.85 t/ha",
+      ].join("\n"),
+    );
+
+    expect(rows.map((row) => row.season)).to.deep.eq([
+      {
+        season: "2023 long rains",
+        cropType: "Corn",
+        area: 10,
+        plantedAt: "2023-03-01",
+        harvestedAt: "2023-07-15",
+        realisedYield: 4200,
+      },
+      {
+        season: "2023",
+        cropType: "Wheat",
+        area: 4,
+        plantedAt: "2023-10-15",
+        harvestedAt: "2024-02-20",
+        realisedYield: 3850,
+      },
+    ]);
+    expect(rows[0].warnings).to.deep.eq([]);
+    expect(rows[1].warnings).to.deep.eq(["Area 4.05 ha rounded to 4 ha"]);
+  });
+
+  it("flags invalid values and likely unit mix-ups", function () {
+    const { rows } = importCsv(
+      [
+        "Crop,Area,Planted,Harvested,Yield",
+        "Cassava,5,2023-03-01,2023-07-15,4000",
+        "Wheat,5 kg/ha,2023-03-01,2023-07-15,4000",
+        "Wheat,5,2023-02-30,2023-07-15,4000",
+        "Wheat,5,2023-07-15,2023-03-01,4000",
+        "Wheat,5,2023-03-01,2023-07-15,4.1",
+        "Wheat,5,2023-03-01,2023-07-15,2000000",
+        "",
+      ].join("\n"),
+    );
+
+    expect(rows.map((row) => [row.row, row.errors, row.warnings])).to.deep.eq([
+      [1, ['Unknown crop "Cassava"'], []],
+      [2, ["Area is given in kg/ha, which is not an area unit"], []],
+      [3, ['Planting date "2023-02-30" is not a date'], []],
+      [4, ["Harvest date is before the planting date"], []],
+      [5, [], ["Yield 4 kg/ha is unusually low; is the column in t/ha?"]],
+      [6, ["Yield 2000000 kg/ha is above 1000000; check the unit"], []],
+    ]);
+    expect(rows.filter((row) => row.season).map((row) => row.row)).to.deep.eq([5]);
+  });
+
+  it("requires the mandatory columns", function () {
+    const { rows } = importCsv("Crop,Area\nWheat,5\n");
+
+    expect(rows[0].season).to.eq(null);
+    expect(rows[0].errors).to.include.members([
+      "Planting date column is not mapped",
+      "Harvest date column is not mapped",
+      "Realised yield column is not mapped",
+    ]);
+  });
+
+  it("reads spreadsheet dates, serial numbers and local date orders", function () {
+    expect(parseDateCell(new Date(Date.UTC(2024, 2, 5)), "dmy")).to.eq("2024-03-05");
+    expect(parseDateCell(45356, "dmy")).to.eq("2024-03-05");
+    expect(parseDateCell("05/03/2024", "dmy")).to.eq("2024-03-05");
+    expect(parseDateCell("03/05/2024", "mdy")).to.eq("2024-03-05");
+    expect(parseDateCell("13/13/2024", "dmy")).to.eq(null);
+    expect(parseDateCell(12, "dmy")).to.eq(null);
+  });
+
+  it("reads quantities with separators and unit suffixes", function () {
+    expect(parseQuantityCell("4,500")).to.deep.eq({ amount: 4500 });
+    expect(parseQuantityCell("1 234.5 kg/ha")).to.deep.eq({ amount: 1234.5, unit: "kg/ha" });
+    expect(parseQuantityCell("2,5 ha")).to.deep.eq({ amount: 2.5, unit: "ha" });
+    expect(parseQuantityCell("3 bushels")).to.eq(null);
+    expect(parseQuantityCell("n/a")).to.eq(null);
+  });
+});
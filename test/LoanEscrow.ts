@@ -0,0 +1,307 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import {
+  AgriFinanceFHE,
+  AgriFinanceFHE__factory,
+  ConfidentialToken,
+  ConfidentialToken__factory,
+  LoanEscrow,
+  LoanEscrow__factory,
+  LoanRepayment,
+  LoanRepayment__factory,
+  MockERC20,
+  MockERC20__factory,
+  MockNoReturnERC20,
+  MockNoReturnERC20__factory,
+} from "../types";
+
+// Mirrors AgriFinanceFHE.Role.
+const Role = {
+  Lender: 0,
+};
+
+const DAY = 24 * 60 * 60;
+const LOAN_AMOUNT = 12000;
+const USD = 10n ** 6n;
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const agriFinanceFactory = (await ethers.getContractFactory("AgriFinanceFHE")) as AgriFinanceFHE__factory;
+  const agriFinanceContract = (await agriFinanceFactory.deploy()) as AgriFinanceFHE;
+
+  const tokenFactory = (await ethers.getContractFactory("MockERC20")) as MockERC20__factory;
+  const token = (await tokenFactory.deploy("Mock USD", "mUSD", 6)) as MockERC20;
+
+  const escrowFactory = (await ethers.getContractFactory("LoanEscrow")) as LoanEscrow__factory;
+  const escrowContract = (await escrowFactory.deploy(
+    await agriFinanceContract.getAddress(),
+    await token.getAddress(),
+  )) as LoanEscrow;
+  const escrowContractAddress = await escrowContract.getAddress();
+
+  return { agriFinanceContract, token, escrowContract, escrowContractAddress };
+}
+
+// Submits an application for LOAN_AMOUNT, approves it and reveals its amount;
+// applications are numbered from 1.
+async function approvedApplication(contract: AgriFinanceFHE, applicant: HardhatEthersSigner) {
+  const contractAddress = await contract.getAddress();
+  const encryptedInput = await fhevm
+    .createEncryptedInput(contractAddress, applicant.address)
+    .add32(12)
+    .add32(4500)
+    .add32(LOAN_AMOUNT)
+    .encrypt();
+  await (
+    await contract
+      .connect(applicant)
+      .submitEncryptedLoanApplication(
+        "Wheat",
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        [],
+        encryptedInput.inputProof,
+      )
+  ).wait();
+
+  const id = await contract.applicationCount();
+  await (await contract.startReview(id)).wait();
+  await (await contract.approveApplication(id)).wait();
+  await (await contract.connect(applicant).requestApplicationDecryption(id)).wait();
+  await fhevm.awaitDecryptionOracle();
+  return id;
+}
+
+describe("LoanEscrow", function () {
+  let signers: Signers;
+  let agriFinanceContract: AgriFinanceFHE;
+  let token: MockERC20;
+  let escrowContract: LoanEscrow;
+  let escrowContractAddress: string;
+  let applicationId: bigint;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ agriFinanceContract, token, escrowContract, escrowContractAddress } = await deployFixture());
+    applicationId = await approvedApplication(agriFinanceContract, signers.alice);
+  });
+
+  // Mints amount to the account and approves the escrow to pull it.
+  async function mintAndApprove(account: HardhatEthersSigner, amount: bigint) {
+    await (await token.mint(account.address, amount)).wait();
+    await (await token.connect(account).approve(escrowContractAddress, amount)).wait();
+  }
+
+  async function fundAndPayOut(amount = 20000n * USD) {
+    await mintAndApprove(signers.deployer, amount);
+    await (await escrowContract.fund(amount)).wait();
+    await (await agriFinanceContract.disburseLoan(applicationId)).wait();
+    await (await escrowContract.payOut(applicationId)).wait();
+  }
+
+  it("lets lenders fund and withdraw their share", async function () {
+    await mintAndApprove(signers.deployer, 20000n * USD);
+
+    await expect(escrowContract.fund(20000n * USD))
+      .to.emit(escrowContract, "EscrowFunded")
+      .withArgs(signers.deployer.address, 20000n * USD);
+    expect(await escrowContract.lenderBalances(signers.deployer.address)).to.eq(20000n * USD);
+    expect(await token.balanceOf(escrowContractAddress)).to.eq(20000n * USD);
+
+    await expect(escrowContract.withdraw(5000n * USD))
+      .to.emit(escrowContract, "EscrowWithdrawn")
+      .withArgs(signers.deployer.address, 5000n * USD);
+    expect(await escrowContract.lenderBalances(signers.deployer.address)).to.eq(15000n * USD);
+    expect(await token.balanceOf(signers.deployer.address)).to.eq(5000n * USD);
+
+    await expect(escrowContract.withdraw(15001n * USD)).to.be.revertedWith("Insufficient escrow balance");
+    await expect(escrowContract.fund(0)).to.be.revertedWith("Invalid amount");
+  });
+
+  it("only takes funds from lenders that approved the escrow", async function () {
+    await mintAndApprove(signers.bob, 1000n * USD);
+    await expect(escrowContract.connect(signers.bob).fund(1000n * USD)).to.be.revertedWith("Not lender");
+
+    await (await agriFinanceContract.grantRole(Role.Lender, signers.bob.address)).wait();
+    await expect(escrowContract.connect(signers.bob).fund(1001n * USD)).to.be.revertedWith("Insufficient allowance");
+    await (await escrowContract.connect(signers.bob).fund(1000n * USD)).wait();
+
+    // A revoked lender can still take their funds back.
+    await (await agriFinanceContract.revokeRole(Role.Lender, signers.bob.address)).wait();
+    await (await escrowContract.connect(signers.bob).withdraw(1000n * USD)).wait();
+    expect(await token.balanceOf(signers.bob.address)).to.eq(1000n * USD);
+  });
+
+  it("pays a disbursed loan out to the applicant once", async function () {
+    const amount = BigInt(LOAN_AMOUNT) * USD;
+    await mintAndApprove(signers.deployer, 20000n * USD);
+    await (await escrowContract.fund(20000n * USD)).wait();
+
+    await expect(escrowContract.payOut(applicationId)).to.be.revertedWith("Invalid status");
+    await (await agriFinanceContract.disburseLoan(applicationId)).wait();
+    await expect(escrowContract.connect(signers.alice).payOut(applicationId)).to.be.revertedWith("Not lender");
+
+    await expect(escrowContract.payOut(applicationId))
+      .to.emit(escrowContract, "LoanPaidOut")
+      .withArgs(applicationId, signers.deployer.address, signers.alice.address, amount);
+    expect(await token.balanceOf(signers.alice.address)).to.eq(amount);
+    expect(await escrowContract.lenderBalances(signers.deployer.address)).to.eq(20000n * USD - amount);
+    expect(await escrowContract.loans(applicationId)).to.deep.eq([signers.deployer.address, amount, 0n]);
+
+    await expect(escrowContract.payOut(applicationId)).to.be.revertedWith("Already paid out");
+  });
+
+  it("does not pay out a loan already paid in the confidential token", async function () {
+    const confidentialTokenFactory = (await ethers.getContractFactory(
+      "ConfidentialToken",
+    )) as ConfidentialToken__factory;
+    const confidentialToken = (await confidentialTokenFactory.deploy("Confidential USD", "cUSD")) as ConfidentialToken;
+    const repaymentFactory = (await ethers.getContractFactory("LoanRepayment")) as LoanRepayment__factory;
+    const repaymentContract = (await repaymentFactory.deploy(
+      await agriFinanceContract.getAddress(),
+      await confidentialToken.getAddress(),
+    )) as LoanRepayment;
+    await (await agriFinanceContract.setLoanRepayment(await repaymentContract.getAddress())).wait();
+
+    await (
+      await repaymentContract.setRepaymentSchedule(applicationId, {
+        dueDates: [(await time.latest()) + 90 * DAY],
+        interestRateBps: 0,
+        harvestMonth: 0,
+        gracePeriodDays: 0,
+      })
+    ).wait();
+    await (await confidentialToken.mint(signers.deployer.address, LOAN_AMOUNT)).wait();
+    await (
+      await confidentialToken.setOperator(await repaymentContract.getAddress(), (await time.latest()) + 30 * DAY)
+    ).wait();
+    await (await agriFinanceContract.disburseLoan(applicationId)).wait();
+    expect(await repaymentContract.paidWithToken(applicationId)).to.eq(true);
+
+    await mintAndApprove(signers.deployer, 20000n * USD);
+    await (await escrowContract.fund(20000n * USD)).wait();
+    await expect(escrowContract.payOut(applicationId)).to.be.revertedWith("Paid in confidential token");
+    await expect(escrowContract.connect(signers.alice).repay(applicationId, USD)).to.be.revertedWith("Not paid out");
+    expect(await token.balanceOf(signers.alice.address)).to.eq(0n);
+  });
+
+  it("pays out only loans with a revealed amount the lender's share covers", async function () {
+    await mintAndApprove(signers.deployer, 11999n * USD);
+    await (await escrowContract.fund(11999n * USD)).wait();
+    await (await agriFinanceContract.disburseLoan(applicationId)).wait();
+    await expect(escrowContract.payOut(applicationId)).to.be.revertedWith("Insufficient escrow balance");
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(await agriFinanceContract.getAddress(), signers.alice.address)
+      .add32(12)
+      .add32(4500)
+      .add32(LOAN_AMOUNT)
+      .encrypt();
+    await (
+      await agriFinanceContract
+        .connect(signers.alice)
+        .submitEncryptedLoanApplication(
+          "Wheat",
+          encryptedInput.handles[0],
+          encryptedInput.handles[1],
+          encryptedInput.handles[2],
+          [],
+          encryptedInput.inputProof,
+        )
+    ).wait();
+    const hiddenId = applicationId + 1n;
+    await (await agriFinanceContract.startReview(hiddenId)).wait();
+    await (await agriFinanceContract.approveApplication(hiddenId)).wait();
+    await (await agriFinanceContract.disburseLoan(hiddenId)).wait();
+    await expect(escrowContract.payOut(hiddenId)).to.be.revertedWith("Loan amount not revealed");
+  });
+
+  it("sends repayments straight to the lender", async function () {
+    await fundAndPayOut();
+    await (await token.connect(signers.alice).approve(escrowContractAddress, 5000n * USD)).wait();
+
+    await expect(escrowContract.connect(signers.alice).repay(applicationId, 5000n * USD))
+      .to.emit(escrowContract, "RepaymentTransferred")
+      .withArgs(applicationId, signers.alice.address, signers.deployer.address, 5000n * USD);
+    expect(await token.balanceOf(signers.alice.address)).to.eq(7000n * USD);
+    expect(await token.balanceOf(signers.deployer.address)).to.eq(5000n * USD);
+    expect((await escrowContract.loans(applicationId)).repaid).to.eq(5000n * USD);
+
+    await expect(escrowContract.connect(signers.alice).repay(applicationId, USD)).to.be.revertedWith(
+      "Insufficient allowance",
+    );
+    await expect(escrowContract.connect(signers.bob).repay(applicationId, USD)).to.be.revertedWith("Not applicant");
+  });
+
+  it("rejects repayments beyond the amount paid out", async function () {
+    await fundAndPayOut();
+    await (await token.connect(signers.alice).approve(escrowContractAddress, 12000n * USD)).wait();
+
+    await (await escrowContract.connect(signers.alice).repay(applicationId, 11000n * USD)).wait();
+    await expect(escrowContract.connect(signers.alice).repay(applicationId, 1001n * USD)).to.be.revertedWith(
+      "Exceeds amount paid out",
+    );
+    await (await escrowContract.connect(signers.alice).repay(applicationId, 1000n * USD)).wait();
+    expect((await escrowContract.loans(applicationId)).repaid).to.eq(12000n * USD);
+    await expect(escrowContract.connect(signers.alice).repay(applicationId, 1n)).to.be.revertedWith(
+      "Exceeds amount paid out",
+    );
+  });
+
+  it("moves tokens whose transfers return no bool", async function () {
+    const noReturnFactory = (await ethers.getContractFactory("MockNoReturnERC20")) as MockNoReturnERC20__factory;
+    const usdt = (await noReturnFactory.deploy("Tether USD", "USDT", 6)) as MockNoReturnERC20;
+    const escrowFactory = (await ethers.getContractFactory("LoanEscrow")) as LoanEscrow__factory;
+    const usdtEscrow = (await escrowFactory.deploy(
+      await agriFinanceContract.getAddress(),
+      await usdt.getAddress(),
+    )) as LoanEscrow;
+    const usdtEscrowAddress = await usdtEscrow.getAddress();
+
+    await (await usdt.mint(signers.deployer.address, 20000n * USD)).wait();
+    await (await usdt.approve(usdtEscrowAddress, 20000n * USD)).wait();
+    await expect(usdtEscrow.fund(20001n * USD)).to.be.revertedWith("Insufficient allowance");
+    await (await usdtEscrow.fund(20000n * USD)).wait();
+    await (await agriFinanceContract.disburseLoan(applicationId)).wait();
+    await (await usdtEscrow.payOut(applicationId)).wait();
+    expect(await usdt.balanceOf(signers.alice.address)).to.eq(12000n * USD);
+
+    await (await usdt.connect(signers.alice).approve(usdtEscrowAddress, 5000n * USD)).wait();
+    await (await usdtEscrow.connect(signers.alice).repay(applicationId, 5000n * USD)).wait();
+    await (await usdtEscrow.withdraw(8000n * USD)).wait();
+    expect(await usdt.balanceOf(signers.deployer.address)).to.eq(13000n * USD);
+    expect(await usdt.balanceOf(usdtEscrowAddress)).to.eq(0n);
+  });
+
+  it("only accepts repayments on paid-out loans that are still open", async function () {
+    await (await agriFinanceContract.disburseLoan(applicationId)).wait();
+    await expect(escrowContract.connect(signers.alice).repay(applicationId, USD)).to.be.revertedWith("Not paid out");
+
+    await mintAndApprove(signers.deployer, 20000n * USD);
+    await (await escrowContract.fund(20000n * USD)).wait();
+    await (await escrowContract.payOut(applicationId)).wait();
+    await (await agriFinanceContract.startRepayment(applicationId)).wait();
+    await (await token.connect(signers.alice).approve(escrowContractAddress, 2n * USD)).wait();
+    await (await escrowContract.connect(signers.alice).repay(applicationId, USD)).wait();
+
+    await (await agriFinanceContract.closeLoan(applicationId)).wait();
+    await expect(escrowContract.connect(signers.alice).repay(applicationId, USD)).to.be.revertedWith("Invalid status");
+  });
+});
@@ -0,0 +1,425 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { AgriFinanceFHE, AgriFinanceFHE__factory, LoanRepayment, LoanRepayment__factory } from "../types";
+
+// Mirrors AgriFinanceFHE.Role.
+const Role = {
+  Lender: 0,
+  Underwriter: 1,
+};
+
+const DAY = 24 * 60 * 60;
+const YEAR = 365 * DAY;
+const LOAN_AMOUNT = 12000;
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+type Schedule = {
+  dueDates: number[];
+  interestRateBps: number;
+  harvestMonth: number;
+  gracePeriodDays: number;
+};
+
+async function deployFixture() {
+  const agriFinanceFactory = (await ethers.getContractFactory("AgriFinanceFHE")) as AgriFinanceFHE__factory;
+  const agriFinanceContract = (await agriFinanceFactory.deploy()) as AgriFinanceFHE;
+  const agriFinanceContractAddress = await agriFinanceContract.getAddress();
+
+  const repaymentFactory = (await ethers.getContractFactory("LoanRepayment")) as LoanRepayment__factory;
+  // Without a token the schedule only tracks repayments; test/ConfidentialToken.ts covers paying them.
+  const repaymentContract = (await repaymentFactory.deploy(
+    agriFinanceContractAddress,
+    ethers.ZeroAddress,
+  )) as LoanRepayment;
+  const repaymentContractAddress = await repaymentContract.getAddress();
+  await (await agriFinanceContract.setLoanRepayment(repaymentContractAddress)).wait();
+
+  return { agriFinanceContract, repaymentContract, repaymentContractAddress };
+}
+
+// Submits an application for LOAN_AMOUNT and approves it; applications are numbered from 1.
+async function approvedApplication(contract: AgriFinanceFHE, applicant: HardhatEthersSigner, cropType = "Wheat") {
+  const contractAddress = await contract.getAddress();
+  const encryptedInput = await fhevm
+    .createEncryptedInput(contractAddress, applicant.address)
+    .add32(12)
+    .add32(4500)
+    .add32(LOAN_AMOUNT)
+    .encrypt();
+  await (
+    await contract
+      .connect(applicant)
+      .submitEncryptedLoanApplication(
+        cropType,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        [],
+        encryptedInput.inputProof,
+      )
+  ).wait();
+
+  const id = await contract.applicationCount();
+  await (await contract.startReview(id)).wait();
+  await (await contract.approveApplication(id)).wait();
+  return id;
+}
+
+// Instalments every 30 days, the first one 30 days from now.
+async function monthlyDueDates(count: number) {
+  const now = await time.latest();
+  return Array.from({ length: count }, (_, i) => now + (i + 1) * 30 * DAY);
+}
+
+describe("LoanRepayment", function () {
+  let signers: Signers;
+  let agriFinanceContract: AgriFinanceFHE;
+  let repaymentContract: LoanRepayment;
+  let repaymentContractAddress: string;
+  let applicationId: bigint;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ agriFinanceContract, repaymentContract, repaymentContractAddress } = await deployFixture());
+    applicationId = await approvedApplication(agriFinanceContract, signers.alice);
+  });
+
+  async function disburseWith(schedule: Partial<Schedule> = {}) {
+    await (
+      await repaymentContract.setRepaymentSchedule(applicationId, {
+        dueDates: schedule.dueDates ?? (await monthlyDueDates(3)),
+        interestRateBps: schedule.interestRateBps ?? 0,
+        harvestMonth: schedule.harvestMonth ?? 0,
+        gracePeriodDays: schedule.gracePeriodDays ?? 0,
+      })
+    ).wait();
+    await (await agriFinanceContract.disburseLoan(applicationId)).wait();
+  }
+
+  async function balance(user = signers.alice) {
+    const encrypted = await repaymentContract.getEncryptedRepaymentBalance(applicationId);
+    const decrypt = (handle: string) =>
+      fhevm.userDecryptEuint(FhevmType.euint64, handle, repaymentContractAddress, user);
+    return {
+      principal: await decrypt(encrypted.principal),
+      outstanding: await decrypt(encrypted.outstanding),
+      repaid: await decrypt(encrypted.repaid),
+    };
+  }
+
+  async function isLate(user = signers.alice) {
+    const { late } = await repaymentContract.getEncryptedRepaymentBalance(applicationId);
+    return fhevm.userDecryptEbool(late, repaymentContractAddress, user);
+  }
+
+  async function repay(amount: number, applicant = signers.alice) {
+    const encryptedInput = await fhevm
+      .createEncryptedInput(repaymentContractAddress, applicant.address)
+      .add32(amount)
+      .encrypt();
+    return repaymentContract
+      .connect(applicant)
+      .repay(applicationId, encryptedInput.handles[0], encryptedInput.inputProof);
+  }
+
+  it("starts the schedule on disbursal with the loan amount outstanding", async function () {
+    const dueDates = await monthlyDueDates(3);
+    await disburseWith({ dueDates, interestRateBps: 1200 });
+
+    const schedule = await repaymentContract.getRepaymentSchedule(applicationId);
+    expect(schedule.dueDates).to.deep.eq(dueDates.map(BigInt));
+    expect(schedule.interestRateBps).to.eq(1200);
+    expect(schedule.lender).to.eq(signers.deployer.address);
+    expect(schedule.disbursedAt).to.eq(await time.latest());
+
+    const expected = { principal: BigInt(LOAN_AMOUNT), outstanding: BigInt(LOAN_AMOUNT), repaid: 0n };
+    expect(await balance(signers.alice)).to.deep.eq(expected);
+    expect(await balance(signers.deployer)).to.deep.eq(expected);
+  });
+
+  it("validates the schedule", async function () {
+    const now = await time.latest();
+    const schedule = { dueDates: [now + 30 * DAY], interestRateBps: 0, harvestMonth: 0, gracePeriodDays: 0 };
+    const set = (changes: Partial<Schedule>) =>
+      repaymentContract.setRepaymentSchedule(applicationId, { ...schedule, ...changes });
+
+    await expect(set({ dueDates: [] })).to.be.revertedWith("Invalid instalments");
+    await expect(set({ dueDates: Array.from({ length: 25 }, (_, i) => now + (i + 1) * DAY) })).to.be.revertedWith(
+      "Invalid instalments",
+    );
+    await expect(set({ dueDates: [now - DAY] })).to.be.revertedWith("Due date in the past");
+    await expect(set({ dueDates: [now + 2 * DAY, now + DAY] })).to.be.revertedWith("Due dates out of order");
+    await expect(set({ interestRateBps: 10001 })).to.be.revertedWith("Invalid interest rate");
+    await expect(set({ harvestMonth: 13 })).to.be.revertedWith("Invalid harvest month");
+    await expect(set({ gracePeriodDays: 91 })).to.be.revertedWith("Invalid grace period");
+  });
+
+  it("restricts schedules to lenders and approved loans", async function () {
+    const schedule = { dueDates: await monthlyDueDates(1), interestRateBps: 0, harvestMonth: 0, gracePeriodDays: 0 };
+
+    await expect(
+      repaymentContract.connect(signers.alice).setRepaymentSchedule(applicationId, schedule),
+    ).to.be.revertedWith("Not lender");
+    await expect(repaymentContract.setRepaymentSchedule(applicationId + 1n, schedule)).to.be.revertedWith(
+      "Invalid status",
+    );
+    await expect(
+      repaymentContract.startSchedule(applicationId, ethers.ZeroHash, signers.alice.address, signers.deployer.address),
+    ).to.be.revertedWith("Not AgriFinanceFHE");
+  });
+
+  it("leaves loans disbursed without a schedule untracked", async function () {
+    await expect(agriFinanceContract.disburseLoan(applicationId))
+      .to.emit(agriFinanceContract, "LoanDisbursed")
+      .and.not.to.emit(repaymentContract, "RepaymentScheduleStarted");
+
+    expect((await repaymentContract.getRepaymentSchedule(applicationId)).disbursedAt).to.eq(0);
+    await expect(repay(1000)).to.be.revertedWith("Repayment not started");
+    await expect(repaymentContract.checkLatePayment(applicationId)).to.be.revertedWith("Repayment not started");
+  });
+
+  it("accrues simple interest on the unpaid principal", async function () {
+    await disburseWith({ interestRateBps: 1000 });
+    const disbursedAt = await time.latest();
+
+    await time.setNextBlockTimestamp(disbursedAt + YEAR);
+    await expect(repaymentContract.accrueInterest(applicationId))
+      .to.emit(repaymentContract, "InterestAccrued")
+      .withArgs(applicationId, disbursedAt, disbursedAt + YEAR);
+
+    // 10% of 12000 over a year.
+    expect(await balance()).to.deep.eq({ principal: 12000n, outstanding: 13200n, repaid: 0n });
+
+    // Interest already accrued earns none, however often the balance is brought up to date.
+    await time.setNextBlockTimestamp(disbursedAt + YEAR + YEAR / 2);
+    await (await repaymentContract.accrueInterest(applicationId)).wait();
+    await time.setNextBlockTimestamp(disbursedAt + 2 * YEAR);
+    await (await repaymentContract.accrueInterest(applicationId)).wait();
+    expect((await balance()).outstanding).to.eq(14400n);
+  });
+
+  it("decreases the outstanding balance with each repayment", async function () {
+    await disburseWith();
+
+    await expect(repay(5000)).to.emit(repaymentContract, "LoanRepaid").withArgs(applicationId, signers.alice.address);
+    expect(await balance()).to.deep.eq({ principal: 12000n, outstanding: 7000n, repaid: 5000n });
+
+    // Only the outstanding balance is taken from an overpayment.
+    await (await repay(9000)).wait();
+    expect(await balance()).to.deep.eq({ principal: 12000n, outstanding: 0n, repaid: 12000n });
+
+    await expect(repay(1000, signers.bob)).to.be.revertedWith("Not applicant");
+  });
+
+  it("only accepts repayments on disbursed or repaying loans", async function () {
+    await disburseWith();
+    await (await agriFinanceContract.startRepayment(applicationId)).wait();
+    await (await repay(1000)).wait();
+
+    await (await agriFinanceContract.markDefaulted(applicationId)).wait();
+    await expect(repay(1000)).to.be.revertedWith("Invalid status");
+  });
+
+  it("flags a loan late once an instalment is overdue and unpaid", async function () {
+    const dueDates = await monthlyDueDates(3);
+    await disburseWith({ dueDates });
+
+    await (await repaymentContract.checkLatePayment(applicationId)).wait();
+    expect(await isLate()).to.eq(false);
+
+    await time.increaseTo(dueDates[0] + DAY);
+    await expect(repaymentContract.checkLatePayment(applicationId))
+      .to.emit(repaymentContract, "LatePaymentChecked")
+      .withArgs(applicationId, 1);
+    expect(await isLate()).to.eq(true);
+    expect(await isLate(signers.deployer)).to.eq(true);
+
+    // One third of the principal settles the first instalment.
+    await (await repay(4000)).wait();
+    await (await repaymentContract.checkLatePayment(applicationId)).wait();
+    expect(await isLate()).to.eq(false);
+    expect((await repaymentContract.getRepaymentSchedule(applicationId)).instalmentsOverdue).to.eq(1);
+  });
+
+  it("gives instalments due in the harvest month a grace period", async function () {
+    const year = new Date((await time.latest()) * 1000).getUTCFullYear() + 1;
+    const harvestDue = Date.UTC(year, 9, 15) / 1000;
+    await disburseWith({ dueDates: [harvestDue], harvestMonth: 10, gracePeriodDays: 30 });
+
+    await time.increaseTo(harvestDue + 10 * DAY);
+    await expect(repaymentContract.checkLatePayment(applicationId))
+      .to.emit(repaymentContract, "LatePaymentChecked")
+      .withArgs(applicationId, 0);
+    expect(await isLate()).to.eq(false);
+
+    await time.increaseTo(harvestDue + 31 * DAY);
+    await expect(repaymentContract.checkLatePayment(applicationId))
+      .to.emit(repaymentContract, "LatePaymentChecked")
+      .withArgs(applicationId, 1);
+    expect(await isLate()).to.eq(true);
+  });
+
+  it("shares the balance with reviewers on request", async function () {
+    await disburseWith();
+    await (await agriFinanceContract.grantRole(Role.Underwriter, signers.bob.address)).wait();
+
+    await expect(balance(signers.bob)).to.be.rejected;
+    await (await repaymentContract.connect(signers.bob).allowRepaymentData(applicationId)).wait();
+    expect((await balance(signers.bob)).outstanding).to.eq(12000n);
+
+    await expect(repaymentContract.connect(signers.alice).allowRepaymentData(applicationId)).to.be.revertedWith(
+      "Not reviewer",
+    );
+  });
+
+  describe("harvest balloon", function () {
+    // Mirrors the calendars LoanRepayment starts with, in days.
+    const CALENDARS = {
+      Wheat: [240, 60],
+      Rice: [120, 45],
+      Corn: [150, 60],
+      Soybean: [120, 45],
+      Cotton: [180, 60],
+      Vegetables: [90, 30],
+      Fruits: [180, 45],
+    };
+
+    for (const [cropType, [growingDays, saleDays]] of Object.entries(CALENDARS)) {
+      it(`repays a ${cropType} loan in one payment after the harvest`, async function () {
+        applicationId = await approvedApplication(agriFinanceContract, signers.alice, cropType);
+        const plantedAt = (await time.latest()) + 10 * DAY;
+        await (await repaymentContract.setHarvestRepaymentSchedule(applicationId, plantedAt, 1000, 30)).wait();
+        await (await agriFinanceContract.disburseLoan(applicationId)).wait();
+        const disbursedAt = await time.latest();
+
+        const harvestAt = plantedAt + growingDays * DAY;
+        const dueDate = harvestAt + saleDays * DAY;
+        const schedule = await repaymentContract.getRepaymentSchedule(applicationId);
+        expect(schedule.mode).to.eq(1);
+        expect(schedule.plantedAt).to.eq(plantedAt);
+        expect(schedule.dueDates).to.deep.eq([BigInt(dueDate)]);
+        expect(schedule.harvestMonth).to.eq(new Date(harvestAt * 1000).getUTCMonth() + 1);
+
+        // Nothing is due through the harvest, the sale period and the grace period;
+        // each check runs in the block after the one mined here.
+        for (const at of [harvestAt, dueDate + DAY, dueDate + 30 * DAY - 1]) {
+          await time.increaseTo(at);
+          await expect(repaymentContract.checkLatePayment(applicationId))
+            .to.emit(repaymentContract, "LatePaymentChecked")
+            .withArgs(applicationId, 0);
+          expect(await isLate()).to.eq(false);
+        }
+
+        // The balloon is the principal plus simple interest since disbursal, give
+        // or take the rounding of each check's accrual.
+        const repaidAt = dueDate + 30 * DAY + 1;
+        const interest = Math.floor((LOAN_AMOUNT * 1000 * (repaidAt - disbursedAt)) / (10000 * YEAR));
+        await time.setNextBlockTimestamp(repaidAt);
+        await (await repay(LOAN_AMOUNT + interest + 100)).wait();
+        const { principal, outstanding, repaid } = await balance();
+        expect([principal, outstanding]).to.deep.eq([BigInt(LOAN_AMOUNT), 0n]);
+        expect(Number(repaid)).to.be.closeTo(LOAN_AMOUNT + interest, 4);
+
+        await (await repaymentContract.checkLatePayment(applicationId)).wait();
+        expect(await isLate()).to.eq(false);
+      });
+    }
+
+    it("flags a missed balloon late after the grace period", async function () {
+      const plantedAt = await time.latest();
+      await (await repaymentContract.setHarvestRepaymentSchedule(applicationId, plantedAt, 0, 14)).wait();
+      await (await agriFinanceContract.disburseLoan(applicationId)).wait();
+      const [dueDate] = (await repaymentContract.getRepaymentSchedule(applicationId)).dueDates;
+
+      await (await repay(LOAN_AMOUNT / 2)).wait();
+      await time.increaseTo(dueDate + BigInt(15 * DAY));
+      await expect(repaymentContract.checkLatePayment(applicationId))
+        .to.emit(repaymentContract, "LatePaymentChecked")
+        .withArgs(applicationId, 1);
+      expect(await isLate()).to.eq(true);
+    });
+
+    it("switches a loan between instalments and a harvest balloon until disbursal", async function () {
+      await (await repaymentContract.setHarvestRepaymentSchedule(applicationId, await time.latest(), 0, 0)).wait();
+      await disburseWith();
+
+      const schedule = await repaymentContract.getRepaymentSchedule(applicationId);
+      expect(schedule.mode).to.eq(0);
+      expect(schedule.plantedAt).to.eq(0);
+      expect(schedule.dueDates.length).to.eq(3);
+      await expect(
+        repaymentContract.setHarvestRepaymentSchedule(applicationId, await time.latest(), 0, 0),
+      ).to.be.revertedWith("Invalid status");
+    });
+
+    it("lets lenders edit the crop calendars", async function () {
+      expect(await repaymentContract.getCalendarCropTypes()).to.deep.eq(Object.keys(CALENDARS));
+
+      await expect(repaymentContract.setCropCalendar("Wheat", { growingDays: 200, saleDays: 30 }))
+        .to.emit(repaymentContract, "CropCalendarUpdated")
+        .withArgs("Wheat", 200, 30);
+      await (await repaymentContract.setCropCalendar("Barley", { growingDays: 100, saleDays: 20 })).wait();
+      expect(await repaymentContract.getCropCalendar("Wheat")).to.deep.eq([200n, 30n]);
+      expect(await repaymentContract.getCalendarCropTypes()).to.deep.eq([...Object.keys(CALENDARS), "Barley"]);
+
+      const plantedAt = await time.latest();
+      await (await repaymentContract.setHarvestRepaymentSchedule(applicationId, plantedAt, 0, 0)).wait();
+      expect((await repaymentContract.getRepaymentSchedule(applicationId)).dueDates).to.deep.eq([
+        BigInt(plantedAt + 230 * DAY),
+      ]);
+
+      await expect(
+        repaymentContract.connect(signers.alice).setCropCalendar("Wheat", { growingDays: 100, saleDays: 0 }),
+      ).to.be.revertedWith("Not lender");
+      await expect(repaymentContract.setCropCalendar("", { growingDays: 100, saleDays: 0 })).to.be.revertedWith(
+        "Crop type required",
+      );
+      await expect(repaymentContract.setCropCalendar("Wheat", { growingDays: 0, saleDays: 30 })).to.be.revertedWith(
+        "Invalid crop calendar",
+      );
+      await expect(repaymentContract.setCropCalendar("Wheat", { growingDays: 700, saleDays: 31 })).to.be.revertedWith(
+        "Invalid crop calendar",
+      );
+    });
+
+    it("takes a planting date from the current season up to one season ahead", async function () {
+      const now = await time.latest();
+      const set = (plantedAt: number) => repaymentContract.setHarvestRepaymentSchedule(applicationId, plantedAt, 0, 0);
+
+      // Wheat grows for 240 days.
+      await expect(set(0)).to.be.revertedWith("Invalid planting date");
+      await expect(set(now - 240 * DAY)).to.be.revertedWith("Invalid planting date");
+      await expect(set(now + 241 * DAY)).to.be.revertedWith("Invalid planting date");
+      await (await set(now - 230 * DAY)).wait();
+      await (await set(now + 240 * DAY)).wait();
+      expect((await repaymentContract.getRepaymentSchedule(applicationId)).plantedAt).to.eq(now + 240 * DAY);
+    });
+
+    it("needs a calendar for the loan's crop", async function () {
+      applicationId = await approvedApplication(agriFinanceContract, signers.alice, "Barley");
+      await expect(
+        repaymentContract.setHarvestRepaymentSchedule(applicationId, await time.latest(), 0, 0),
+      ).to.be.revertedWith("No crop calendar");
+      await expect(
+        repaymentContract.connect(signers.alice).setHarvestRepaymentSchedule(applicationId, await time.latest(), 0, 0),
+      ).to.be.revertedWith("Not lender");
+    });
+  });
+});
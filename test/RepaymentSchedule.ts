@@ -0,0 +1,76 @@
+import { expect } from "chai";
+import { buildTimeline, evenDueDates, harvestDates, monthOf, overdueFrom } from "../frontend/web/src/repaymentSchedule";
+
+const DAY = 24 * 60 * 60;
+const DISBURSED_AT = Date.UTC(2025, 0, 1) / 1000;
+
+const schedule = {
+  mode: "instalments" as const,
+  dueDates: evenDueDates(DISBURSED_AT + 73 * DAY, 3, 73),
+  interestRateBps: 1000,
+  harvestMonth: 0,
+  gracePeriodDays: 0,
+  plantedAt: 0,
+  disbursedAt: DISBURSED_AT,
+  fundedAt: DISBURSED_AT,
+};
+
+describe("Repayment schedule timeline", function () {
+  it("splits the principal evenly and projects interest on what remains", function () {
+    const timeline = buildTimeline(schedule, DISBURSED_AT, 12000);
+
+    // 10% a year over 73 days is 2% of the principal still scheduled.
+    expect(
+      timeline.map((instalment) => [instalment.principalDue, instalment.interestDue, instalment.scheduledBalance]),
+    ).to.deep.eq([
+      [4000, 240, 8000],
+      [4000, 160, 4000],
+      [4000, 80, 0],
+    ]);
+    expect(buildTimeline(schedule, DISBURSED_AT, null)[0].principalDue).to.eq(null);
+  });
+
+  it("marks instalments covered by the balance, overdue or upcoming", function () {
+    const now = schedule.dueDates[1] + DAY;
+    const balance = { principal: 12000, outstanding: 8000, repaid: 4500, late: true };
+
+    expect(buildTimeline(schedule, now, null, balance).map((instalment) => instalment.state)).to.deep.eq([
+      "covered",
+      "overdue",
+      "upcoming",
+    ]);
+  });
+
+  it("delays instalments due in the harvest month by the grace period", function () {
+    const harvest = { ...schedule, dueDates: [Date.UTC(2025, 9, 15) / 1000], harvestMonth: 10, gracePeriodDays: 30 };
+    const [dueDate] = harvest.dueDates;
+
+    expect(monthOf(dueDate)).to.eq(10);
+    expect(overdueFrom(harvest, dueDate)).to.eq(dueDate + 30 * DAY);
+    expect(overdueFrom({ ...harvest, harvestMonth: 9 }, dueDate)).to.eq(dueDate);
+    expect(buildTimeline(harvest, dueDate + 10 * DAY, null)[0].state).to.eq("grace");
+    expect(buildTimeline(harvest, dueDate + 31 * DAY, null)[0].state).to.eq("overdue");
+  });
+
+  it("puts a harvest balloon after the crop calendar's harvest and sale, with grace", function () {
+    const plantedAt = Date.UTC(2025, 2, 1) / 1000;
+    const { harvestAt, dueDate } = harvestDates(plantedAt, { growingDays: 150, saleDays: 60 });
+    const balloon = {
+      ...schedule,
+      mode: "harvest" as const,
+      dueDates: [dueDate],
+      harvestMonth: monthOf(harvestAt),
+      gracePeriodDays: 14,
+      plantedAt,
+    };
+
+    expect([harvestAt, dueDate]).to.deep.eq([plantedAt + 150 * DAY, plantedAt + 210 * DAY]);
+    expect(balloon.harvestMonth).to.eq(7);
+    // Unlike instalments, the balloon gets the grace period whatever month it falls due in.
+    expect(monthOf(dueDate)).to.eq(9);
+    expect(overdueFrom(balloon, dueDate)).to.eq(dueDate + 14 * DAY);
+
+    const [payment] = buildTimeline(balloon, dueDate + 7 * DAY, 12000);
+    expect([payment.principalDue, payment.scheduledBalance, payment.state]).to.deep.eq([12000, 0, "grace"]);
+  });
+});
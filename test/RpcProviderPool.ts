@@ -0,0 +1,188 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import http from "http";
+import { AddressInfo } from "net";
+import { RpcProviderPool } from "../frontend/web/src/providerPool";
+
+const CHAIN_ID = 11155111;
+const CONTRACT_ADDRESS = "0x604A62d25AC978b66d5759fEaF6D986c4f326996";
+const REVERT_DATA = new ethers.Interface(["function Error(string)"]).encodeFunctionData("Error", ["Not lender"]);
+
+type StubMode = "ok" | "fail" | "hang";
+
+// Minimal JSON-RPC endpoint whose latency and health can be changed mid-test.
+type RpcStub = {
+  url: string;
+  mode: StubMode;
+  delayMs: number;
+  requests: number;
+  close: () => Promise<void>;
+};
+
+type JsonRpcRequest = { id: number; method: string };
+
+function respond(request: JsonRpcRequest) {
+  switch (request.method) {
+    case "eth_chainId":
+      return { jsonrpc: "2.0", id: request.id, result: ethers.toQuantity(CHAIN_ID) };
+    case "eth_blockNumber":
+      return { jsonrpc: "2.0", id: request.id, result: "0x10" };
+    case "eth_getCode":
+      return { jsonrpc: "2.0", id: request.id, result: "0x6080" };
+    case "eth_call":
+      return { jsonrpc: "2.0", id: request.id, error: { code: 3, message: "execution reverted", data: REVERT_DATA } };
+    default:
+      return { jsonrpc: "2.0", id: request.id, error: { code: -32601, message: "Method not found" } };
+  }
+}
+
+async function startStub(delayMs = 0): Promise<RpcStub> {
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      stub.requests++;
+      if (stub.mode === "hang") return;
+
+      setTimeout(() => {
+        if (stub.mode === "fail") {
+          res.writeHead(500).end();
+          return;
+        }
+        const payload = JSON.parse(body);
+        const response = Array.isArray(payload) ? payload.map(respond) : respond(payload);
+        res.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify(response));
+      }, stub.delayMs);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  const stub: RpcStub = {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    mode: "ok",
+    delayMs,
+    requests: 0,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+  return stub;
+}
+
+describe("RpcProviderPool", function () {
+  let stubs: RpcStub[];
+
+  beforeEach(function () {
+    stubs = [];
+  });
+
+  afterEach(async function () {
+    await Promise.all(stubs.map((stub) => stub.close()));
+  });
+
+  async function startStubs(...delays: number[]) {
+    for (const delay of delays) {
+      stubs.push(await startStub(delay));
+    }
+    return stubs;
+  }
+
+  const healthOf = (pool: RpcProviderPool, stub: RpcStub) =>
+    pool.getHealth().find((health) => health.url === stub.url)!;
+
+  it("requires at least one endpoint", function () {
+    expect(() => new RpcProviderPool([], CHAIN_ID)).to.throw("RPC provider pool needs at least one endpoint");
+  });
+
+  it("probes every endpoint and prefers the fastest", async function () {
+    const [slow, fast] = await startStubs(150, 0);
+    const pool = new RpcProviderPool([slow.url, fast.url], CHAIN_ID);
+
+    await pool.getProvider();
+
+    expect(pool.currentUrl).to.eq(fast.url);
+    expect(healthOf(pool, slow).successes).to.eq(1);
+    expect(healthOf(pool, fast).successes).to.eq(1);
+    expect(healthOf(pool, fast).score).to.be.lessThan(healthOf(pool, slow).score);
+  });
+
+  it("reuses the chosen endpoint without probing again", async function () {
+    const [slow, fast] = await startStubs(150, 0);
+    const pool = new RpcProviderPool([slow.url, fast.url], CHAIN_ID);
+
+    for (let i = 0; i < 3; i++) {
+      expect(await pool.send((provider) => provider.send("eth_blockNumber", []))).to.eq("0x10");
+    }
+
+    expect(slow.requests).to.eq(1);
+    expect(fast.requests).to.eq(4);
+  });
+
+  it("fails over mid-session when the current endpoint goes down", async function () {
+    const [primary, backup] = await startStubs(0, 100);
+    const pool = new RpcProviderPool([primary.url, backup.url], CHAIN_ID);
+    await pool.getProvider();
+    expect(pool.currentUrl).to.eq(primary.url);
+
+    primary.mode = "fail";
+    expect(await pool.provider.getCode(CONTRACT_ADDRESS)).to.eq("0x6080");
+
+    expect(pool.currentUrl).to.eq(backup.url);
+    expect(healthOf(pool, primary).failures).to.eq(1);
+  });
+
+  it("penalises an endpoint's score by its error rate", async function () {
+    const [primary, backup] = await startStubs(0, 0);
+    const pool = new RpcProviderPool([primary.url, backup.url], CHAIN_ID);
+    await pool.getProvider();
+    const current = stubs.find((stub) => stub.url === pool.currentUrl)!;
+
+    current.mode = "fail";
+    await pool.send((provider) => provider.send("eth_blockNumber", []));
+
+    const health = healthOf(pool, current);
+    expect(health.errorRate).to.eq(0.5);
+    expect(health.score).to.eq(health.latencyMs! * 3);
+    expect(pool.currentUrl).to.not.eq(current.url);
+  });
+
+  it("treats a hanging endpoint as failed once the timeout passes", async function () {
+    const [hanging, healthy] = await startStubs(0, 0);
+    hanging.mode = "hang";
+    const pool = new RpcProviderPool([hanging.url, healthy.url], CHAIN_ID, { timeoutMs: 200 });
+
+    await pool.getProvider();
+
+    expect(pool.currentUrl).to.eq(healthy.url);
+    expect(healthOf(pool, hanging).failures).to.eq(1);
+    expect(healthOf(pool, hanging).latencyMs).to.eq(200);
+  });
+
+  it("passes reverted calls through without penalising the endpoint", async function () {
+    const [primary, backup] = await startStubs(0, 100);
+    const pool = new RpcProviderPool([primary.url, backup.url], CHAIN_ID);
+    await pool.getProvider();
+
+    await expect(pool.provider.call({ to: CONTRACT_ADDRESS, data: "0x" })).to.be.rejectedWith("Not lender");
+
+    expect(pool.currentUrl).to.eq(primary.url);
+    expect(healthOf(pool, primary).failures).to.eq(0);
+    expect(backup.requests).to.eq(1);
+  });
+
+  it("throws once every endpoint has failed and recovers on the next request", async function () {
+    const [first, second] = await startStubs(0, 0);
+    const pool = new RpcProviderPool([first.url, second.url], CHAIN_ID);
+    await pool.getProvider();
+
+    first.mode = "fail";
+    second.mode = "fail";
+    await expect(pool.send((provider) => provider.send("eth_blockNumber", []))).to.be.rejected;
+
+    // Both endpoints are cooling down, but a recovered one is still used rather than giving up.
+    second.mode = "ok";
+    expect(await pool.send((provider) => provider.send("eth_blockNumber", []))).to.eq("0x10");
+    expect(pool.currentUrl).to.eq(second.url);
+  });
+});
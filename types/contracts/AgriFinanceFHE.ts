@@ -0,0 +1,2787 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace AgriFinanceFHE {
+  export type PlantingSeasonStruct = {
+    season: string;
+    cropType: string;
+    encryptedArea: BytesLike;
+    encryptedPlantedAt: BytesLike;
+    encryptedHarvestedAt: BytesLike;
+    encryptedRealisedYield: BytesLike;
+  };
+
+  export type PlantingSeasonStructOutput = [
+    season: string,
+    cropType: string,
+    encryptedArea: string,
+    encryptedPlantedAt: string,
+    encryptedHarvestedAt: string,
+    encryptedRealisedYield: string
+  ] & {
+    season: string;
+    cropType: string;
+    encryptedArea: string;
+    encryptedPlantedAt: string;
+    encryptedHarvestedAt: string;
+    encryptedRealisedYield: string;
+  };
+
+  export type CollateralConfigStruct = { maxLoanToValueBps: BigNumberish };
+
+  export type CollateralConfigStructOutput = [maxLoanToValueBps: bigint] & {
+    maxLoanToValueBps: bigint;
+  };
+
+  export type RecommendationConfigStruct = {
+    pricePerUnit: BigNumberish;
+    loanToValueBps: BigNumberish;
+  };
+
+  export type RecommendationConfigStructOutput = [
+    pricePerUnit: bigint,
+    loanToValueBps: bigint
+  ] & { pricePerUnit: bigint; loanToValueBps: bigint };
+
+  export type ScoringConfigStruct = {
+    baseScore: BigNumberish;
+    yieldWeight: BigNumberish;
+    farmWeight: BigNumberish;
+    loanWeight: BigNumberish;
+    minYield: BigNumberish;
+    minFarmArea: BigNumberish;
+    yieldBonus: BigNumberish;
+    farmBonus: BigNumberish;
+    coverageBonus: BigNumberish;
+    maxYieldVarianceBps: BigNumberish;
+    stabilityBonus: BigNumberish;
+  };
+
+  export type ScoringConfigStructOutput = [
+    baseScore: bigint,
+    yieldWeight: bigint,
+    farmWeight: bigint,
+    loanWeight: bigint,
+    minYield: bigint,
+    minFarmArea: bigint,
+    yieldBonus: bigint,
+    farmBonus: bigint,
+    coverageBonus: bigint,
+    maxYieldVarianceBps: bigint,
+    stabilityBonus: bigint
+  ] & {
+    baseScore: bigint;
+    yieldWeight: bigint;
+    farmWeight: bigint;
+    loanWeight: bigint;
+    minYield: bigint;
+    minFarmArea: bigint;
+    yieldBonus: bigint;
+    farmBonus: bigint;
+    coverageBonus: bigint;
+    maxYieldVarianceBps: bigint;
+    stabilityBonus: bigint;
+  };
+
+  export type PlantingSeasonInputStruct = {
+    season: string;
+    cropType: string;
+    area: BytesLike;
+    plantedAt: BytesLike;
+    harvestedAt: BytesLike;
+    realisedYield: BytesLike;
+  };
+
+  export type PlantingSeasonInputStructOutput = [
+    season: string,
+    cropType: string,
+    area: string,
+    plantedAt: string,
+    harvestedAt: string,
+    realisedYield: string
+  ] & {
+    season: string;
+    cropType: string;
+    area: string;
+    plantedAt: string;
+    harvestedAt: string;
+    realisedYield: string;
+  };
+
+  export type BatchApplicationInputStruct = {
+    applicant: AddressLike;
+    cropType: string;
+    farmData: BytesLike;
+    yieldPrediction: BytesLike;
+    loanAmount: BytesLike;
+    plantingHistory: AgriFinanceFHE.PlantingSeasonInputStruct[];
+  };
+
+  export type BatchApplicationInputStructOutput = [
+    applicant: string,
+    cropType: string,
+    farmData: string,
+    yieldPrediction: string,
+    loanAmount: string,
+    plantingHistory: AgriFinanceFHE.PlantingSeasonInputStructOutput[]
+  ] & {
+    applicant: string;
+    cropType: string;
+    farmData: string;
+    yieldPrediction: string;
+    loanAmount: string;
+    plantingHistory: AgriFinanceFHE.PlantingSeasonInputStructOutput[];
+  };
+}
+
+export interface AgriFinanceFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "COLLATERAL_TYPE_EQUIPMENT"
+      | "COLLATERAL_TYPE_LAND_TITLE"
+      | "COLLATERAL_TYPE_OTHER"
+      | "COLLATERAL_TYPE_STORED_GRAIN"
+      | "MAX_BATCH_APPLICATIONS"
+      | "MAX_COLLATERAL_PER_APPLICATION"
+      | "MAX_PLANTING_SEASONS"
+      | "MAX_REALISED_YIELD"
+      | "admin"
+      | "allowApplicationData"
+      | "allowCreditScore"
+      | "allowLoanCategoryCount"
+      | "allowRecommendedLoan"
+      | "applicationCount"
+      | "applicationSubmitter"
+      | "approveApplication"
+      | "attestCollateral"
+      | "closeLoan"
+      | "collateralConfig"
+      | "collateralCount"
+      | "collaterals"
+      | "computeCreditScore"
+      | "computeLoanRecommendation"
+      | "decryptApplication"
+      | "decryptLoanCategoryCount"
+      | "decryptedApplications"
+      | "disburseLoan"
+      | "encryptedApplications"
+      | "getApplicant"
+      | "getApplicationCollateralIds"
+      | "getApplicationCountByApplicant"
+      | "getApplicationIdsByApplicant"
+      | "getApplicationIdsBySubmitter"
+      | "getCollateralIdsByRegistrant"
+      | "getDecryptedApplication"
+      | "getEncryptedCollateralCoverage"
+      | "getEncryptedCreditScore"
+      | "getEncryptedLoanCategoryCount"
+      | "getEncryptedRecommendedLoan"
+      | "getEncryptedYieldStatistics"
+      | "getMyApplicationIds"
+      | "getPlantingHistory"
+      | "getRevealedCategoryCounts"
+      | "grantRole"
+      | "hasRole"
+      | "isLender"
+      | "joinCooperative"
+      | "leaveCooperative"
+      | "loanRepayment"
+      | "loanStatus"
+      | "markDefaulted"
+      | "memberCooperative"
+      | "pledgeCollateral"
+      | "protocolId"
+      | "recommendationConfig"
+      | "recomputeCollateralCoverage"
+      | "registerCollateral"
+      | "rejectApplication"
+      | "releaseCollateral"
+      | "requestApplicationDecryption"
+      | "requestLoanCategoryCountDecryption"
+      | "revokeRole"
+      | "scoringConfig"
+      | "setCollateralConfig"
+      | "setLoanRepayment"
+      | "setRecommendationConfig"
+      | "setScoringConfig"
+      | "startRepayment"
+      | "startReview"
+      | "submitEncryptedLoanApplication"
+      | "submitEncryptedLoanApplicationBatch"
+      | "transferAdmin"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AdminTransferred"
+      | "ApplicationAccessGranted"
+      | "ApplicationApproved"
+      | "ApplicationDecrypted"
+      | "ApplicationRejected"
+      | "ApplicationUnderReview"
+      | "BatchApplicationSkipped"
+      | "BatchApplicationSubmitted"
+      | "CategoryCountAccessGranted"
+      | "CategoryCountDecrypted"
+      | "CategoryCountDecryptionRequested"
+      | "CollateralAttested"
+      | "CollateralConfigUpdated"
+      | "CollateralCoverageComputed"
+      | "CollateralPledged"
+      | "CollateralRegistered"
+      | "CollateralReleased"
+      | "CooperativeJoined"
+      | "CooperativeLeft"
+      | "CreditScoreComputed"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "LoanApplicationSubmitted"
+      | "LoanClosed"
+      | "LoanDefaulted"
+      | "LoanDisbursed"
+      | "LoanRecommendationComputed"
+      | "LoanRepaymentStarted"
+      | "LoanRepaymentUpdated"
+      | "RecommendationConfigUpdated"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "ScoringConfigUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "COLLATERAL_TYPE_EQUIPMENT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "COLLATERAL_TYPE_LAND_TITLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "COLLATERAL_TYPE_OTHER",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "COLLATERAL_TYPE_STORED_GRAIN",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BATCH_APPLICATIONS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_COLLATERAL_PER_APPLICATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PLANTING_SEASONS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_REALISED_YIELD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "admin", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "allowApplicationData",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowCreditScore",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowLoanCategoryCount",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowRecommendedLoan",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "applicationCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "applicationSubmitter",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approveApplication",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "attestCollateral",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeLoan",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "collateralConfig",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "collateralCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "collaterals",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "computeCreditScore",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "computeLoanRecommendation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptApplication",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptLoanCategoryCount",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptedApplications",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disburseLoan",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedApplications",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getApplicant",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getApplicationCollateralIds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getApplicationCountByApplicant",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getApplicationIdsByApplicant",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getApplicationIdsBySubmitter",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCollateralIdsByRegistrant",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDecryptedApplication",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedCollateralCoverage",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedCreditScore",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedLoanCategoryCount",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedRecommendedLoan",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedYieldStatistics",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMyApplicationIds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPlantingHistory",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRevealedCategoryCounts",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isLender",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "joinCooperative",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "leaveCooperative",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "loanRepayment",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "loanStatus",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "markDefaulted",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "memberCooperative",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pledgeCollateral",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recommendationConfig",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recomputeCollateralCoverage",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerCollateral",
+    values: [BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rejectApplication",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseCollateral",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestApplicationDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestLoanCategoryCountDecryption",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scoringConfig",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCollateralConfig",
+    values: [AgriFinanceFHE.CollateralConfigStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setLoanRepayment",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRecommendationConfig",
+    values: [AgriFinanceFHE.RecommendationConfigStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setScoringConfig",
+    values: [AgriFinanceFHE.ScoringConfigStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "startRepayment",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "startReview",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedLoanApplication",
+    values: [
+      string,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      AgriFinanceFHE.PlantingSeasonInputStruct[],
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedLoanApplicationBatch",
+    values: [AgriFinanceFHE.BatchApplicationInputStruct[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferAdmin",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "COLLATERAL_TYPE_EQUIPMENT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "COLLATERAL_TYPE_LAND_TITLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "COLLATERAL_TYPE_OTHER",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "COLLATERAL_TYPE_STORED_GRAIN",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BATCH_APPLICATIONS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_COLLATERAL_PER_APPLICATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PLANTING_SEASONS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_REALISED_YIELD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "admin", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "allowApplicationData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowCreditScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowLoanCategoryCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowRecommendedLoan",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "applicationCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "applicationSubmitter",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "approveApplication",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "attestCollateral",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeLoan", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "collateralConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "collateralCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "collaterals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "computeCreditScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "computeLoanRecommendation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptApplication",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptLoanCategoryCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptedApplications",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disburseLoan",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedApplications",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getApplicant",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getApplicationCollateralIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getApplicationCountByApplicant",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getApplicationIdsByApplicant",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getApplicationIdsBySubmitter",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCollateralIdsByRegistrant",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDecryptedApplication",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedCollateralCoverage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedCreditScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedLoanCategoryCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedRecommendedLoan",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedYieldStatistics",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getMyApplicationIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPlantingHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRevealedCategoryCounts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isLender", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "joinCooperative",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "leaveCooperative",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "loanRepayment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "loanStatus", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "markDefaulted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "memberCooperative",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pledgeCollateral",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recommendationConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recomputeCollateralCoverage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerCollateral",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rejectApplication",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseCollateral",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestApplicationDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestLoanCategoryCountDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "scoringConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCollateralConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setLoanRepayment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRecommendationConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setScoringConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "startRepayment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "startReview",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedLoanApplication",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedLoanApplicationBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferAdmin",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AdminTransferredEvent {
+  export type InputTuple = [previousAdmin: AddressLike, newAdmin: AddressLike];
+  export type OutputTuple = [previousAdmin: string, newAdmin: string];
+  export interface OutputObject {
+    previousAdmin: string;
+    newAdmin: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ApplicationAccessGrantedEvent {
+  export type InputTuple = [id: BigNumberish, account: AddressLike];
+  export type OutputTuple = [id: bigint, account: string];
+  export interface OutputObject {
+    id: bigint;
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ApplicationApprovedEvent {
+  export type InputTuple = [id: BigNumberish, lender: AddressLike];
+  export type OutputTuple = [id: bigint, lender: string];
+  export interface OutputObject {
+    id: bigint;
+    lender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ApplicationDecryptedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    farmData: BigNumberish,
+    yieldPrediction: BigNumberish,
+    loanAmount: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    farmData: bigint,
+    yieldPrediction: bigint,
+    loanAmount: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    farmData: bigint;
+    yieldPrediction: bigint;
+    loanAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ApplicationRejectedEvent {
+  export type InputTuple = [id: BigNumberish, lender: AddressLike];
+  export type OutputTuple = [id: bigint, lender: string];
+  export interface OutputObject {
+    id: bigint;
+    lender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ApplicationUnderReviewEvent {
+  export type InputTuple = [id: BigNumberish, lender: AddressLike];
+  export type OutputTuple = [id: bigint, lender: string];
+  export interface OutputObject {
+    id: bigint;
+    lender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchApplicationSkippedEvent {
+  export type InputTuple = [
+    cooperative: AddressLike,
+    index: BigNumberish,
+    applicant: AddressLike,
+    reason: string
+  ];
+  export type OutputTuple = [
+    cooperative: string,
+    index: bigint,
+    applicant: string,
+    reason: string
+  ];
+  export interface OutputObject {
+    cooperative: string;
+    index: bigint;
+    applicant: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchApplicationSubmittedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    cooperative: AddressLike,
+    applicant: AddressLike,
+    index: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    cooperative: string,
+    applicant: string,
+    index: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    cooperative: string;
+    applicant: string;
+    index: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CategoryCountAccessGrantedEvent {
+  export type InputTuple = [category: string, account: AddressLike];
+  export type OutputTuple = [category: string, account: string];
+  export interface OutputObject {
+    category: string;
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CategoryCountDecryptedEvent {
+  export type InputTuple = [
+    category: string,
+    count: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    category: string,
+    count: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    category: string;
+    count: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CategoryCountDecryptionRequestedEvent {
+  export type InputTuple = [category: string];
+  export type OutputTuple = [category: string];
+  export interface OutputObject {
+    category: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CollateralAttestedEvent {
+  export type InputTuple = [collateralId: BigNumberish, attester: AddressLike];
+  export type OutputTuple = [collateralId: bigint, attester: string];
+  export interface OutputObject {
+    collateralId: bigint;
+    attester: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CollateralConfigUpdatedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CollateralCoverageComputedEvent {
+  export type InputTuple = [applicationId: BigNumberish];
+  export type OutputTuple = [applicationId: bigint];
+  export interface OutputObject {
+    applicationId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CollateralPledgedEvent {
+  export type InputTuple = [
+    collateralId: BigNumberish,
+    applicationId: BigNumberish
+  ];
+  export type OutputTuple = [collateralId: bigint, applicationId: bigint];
+  export interface OutputObject {
+    collateralId: bigint;
+    applicationId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CollateralRegisteredEvent {
+  export type InputTuple = [
+    collateralId: BigNumberish,
+    registrant: AddressLike
+  ];
+  export type OutputTuple = [collateralId: bigint, registrant: string];
+  export interface OutputObject {
+    collateralId: bigint;
+    registrant: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CollateralReleasedEvent {
+  export type InputTuple = [
+    collateralId: BigNumberish,
+    applicationId: BigNumberish
+  ];
+  export type OutputTuple = [collateralId: bigint, applicationId: bigint];
+  export interface OutputObject {
+    collateralId: bigint;
+    applicationId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooperativeJoinedEvent {
+  export type InputTuple = [member: AddressLike, cooperative: AddressLike];
+  export type OutputTuple = [member: string, cooperative: string];
+  export interface OutputObject {
+    member: string;
+    cooperative: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooperativeLeftEvent {
+  export type InputTuple = [member: AddressLike, cooperative: AddressLike];
+  export type OutputTuple = [member: string, cooperative: string];
+  export interface OutputObject {
+    member: string;
+    cooperative: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CreditScoreComputedEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LoanApplicationSubmittedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    applicant: AddressLike,
+    cropType: string,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    applicant: string,
+    cropType: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    applicant: string;
+    cropType: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LoanClosedEvent {
+  export type InputTuple = [id: BigNumberish, lender: AddressLike];
+  export type OutputTuple = [id: bigint, lender: string];
+  export interface OutputObject {
+    id: bigint;
+    lender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LoanDefaultedEvent {
+  export type InputTuple = [id: BigNumberish, lender: AddressLike];
+  export type OutputTuple = [id: bigint, lender: string];
+  export interface OutputObject {
+    id: bigint;
+    lender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LoanDisbursedEvent {
+  export type InputTuple = [id: BigNumberish, lender: AddressLike];
+  export type OutputTuple = [id: bigint, lender: string];
+  export interface OutputObject {
+    id: bigint;
+    lender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LoanRecommendationComputedEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LoanRepaymentStartedEvent {
+  export type InputTuple = [id: BigNumberish, lender: AddressLike];
+  export type OutputTuple = [id: bigint, lender: string];
+  export interface OutputObject {
+    id: bigint;
+    lender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LoanRepaymentUpdatedEvent {
+  export type InputTuple = [loanRepayment: AddressLike];
+  export type OutputTuple = [loanRepayment: string];
+  export interface OutputObject {
+    loanRepayment: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecommendationConfigUpdatedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BigNumberish,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: bigint, account: string, sender: string];
+  export interface OutputObject {
+    role: bigint;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BigNumberish,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: bigint, account: string, sender: string];
+  export interface OutputObject {
+    role: bigint;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScoringConfigUpdatedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AgriFinanceFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): AgriFinanceFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: AgriFinanceFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  COLLATERAL_TYPE_EQUIPMENT: TypedContractMethod<[], [bigint], "view">;
+
+  COLLATERAL_TYPE_LAND_TITLE: TypedContractMethod<[], [bigint], "view">;
+
+  COLLATERAL_TYPE_OTHER: TypedContractMethod<[], [bigint], "view">;
+
+  COLLATERAL_TYPE_STORED_GRAIN: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_BATCH_APPLICATIONS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_COLLATERAL_PER_APPLICATION: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PLANTING_SEASONS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_REALISED_YIELD: TypedContractMethod<[], [bigint], "view">;
+
+  admin: TypedContractMethod<[], [string], "view">;
+
+  allowApplicationData: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  allowCreditScore: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  allowLoanCategoryCount: TypedContractMethod<
+    [category: string],
+    [void],
+    "nonpayable"
+  >;
+
+  allowRecommendedLoan: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  applicationCount: TypedContractMethod<[], [bigint], "view">;
+
+  applicationSubmitter: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  approveApplication: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  attestCollateral: TypedContractMethod<
+    [collateralId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeLoan: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  collateralConfig: TypedContractMethod<[], [bigint], "view">;
+
+  collateralCount: TypedContractMethod<[], [bigint], "view">;
+
+  collaterals: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, string, string, bigint, bigint] & {
+        registrant: string;
+        attestedBy: string;
+        encryptedType: string;
+        encryptedAppraisedValue: string;
+        encryptedOwner: string;
+        pledgedTo: bigint;
+        registeredAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  computeCreditScore: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  computeLoanRecommendation: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptApplication: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptLoanCategoryCount: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptedApplications: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, boolean] & {
+        farmData: bigint;
+        yieldPrediction: bigint;
+        loanAmount: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  disburseLoan: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  encryptedApplications: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, string, string, bigint] & {
+        id: bigint;
+        applicant: string;
+        cropType: string;
+        encryptedFarmData: string;
+        encryptedYieldPrediction: string;
+        encryptedLoanAmount: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getApplicant: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getApplicationCollateralIds: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getApplicationCountByApplicant: TypedContractMethod<
+    [applicant: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getApplicationIdsByApplicant: TypedContractMethod<
+    [applicant: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getApplicationIdsBySubmitter: TypedContractMethod<
+    [submitter: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getCollateralIdsByRegistrant: TypedContractMethod<
+    [registrant: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getDecryptedApplication: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [
+      [bigint, bigint, bigint, boolean] & {
+        farmData: bigint;
+        yieldPrediction: bigint;
+        loanAmount: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getEncryptedCollateralCoverage: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [[string, string] & { pledgedValue: string; covered: string }],
+    "view"
+  >;
+
+  getEncryptedCreditScore: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getEncryptedLoanCategoryCount: TypedContractMethod<
+    [category: string],
+    [string],
+    "view"
+  >;
+
+  getEncryptedRecommendedLoan: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getEncryptedYieldStatistics: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [[string, string] & { mean: string; variance: string }],
+    "view"
+  >;
+
+  getMyApplicationIds: TypedContractMethod<[], [bigint[]], "view">;
+
+  getPlantingHistory: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [AgriFinanceFHE.PlantingSeasonStructOutput[]],
+    "view"
+  >;
+
+  getRevealedCategoryCounts: TypedContractMethod<
+    [],
+    [
+      [string[], bigint[], bigint[]] & {
+        categories: string[];
+        counts: bigint[];
+        revealedAt: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  grantRole: TypedContractMethod<
+    [role: BigNumberish, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isLender: TypedContractMethod<[account: AddressLike], [boolean], "view">;
+
+  joinCooperative: TypedContractMethod<
+    [cooperative: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  leaveCooperative: TypedContractMethod<[], [void], "nonpayable">;
+
+  loanRepayment: TypedContractMethod<[], [string], "view">;
+
+  loanStatus: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  markDefaulted: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  memberCooperative: TypedContractMethod<[arg0: AddressLike], [string], "view">;
+
+  pledgeCollateral: TypedContractMethod<
+    [collateralId: BigNumberish, applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  recommendationConfig: TypedContractMethod<
+    [],
+    [[bigint, bigint] & { pricePerUnit: bigint; loanToValueBps: bigint }],
+    "view"
+  >;
+
+  recomputeCollateralCoverage: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  registerCollateral: TypedContractMethod<
+    [
+      encryptedType: BytesLike,
+      encryptedAppraisedValue: BytesLike,
+      encryptedOwner: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  rejectApplication: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  releaseCollateral: TypedContractMethod<
+    [collateralId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestApplicationDecryption: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestLoanCategoryCountDecryption: TypedContractMethod<
+    [category: string],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeRole: TypedContractMethod<
+    [role: BigNumberish, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  scoringConfig: TypedContractMethod<
+    [],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        baseScore: bigint;
+        yieldWeight: bigint;
+        farmWeight: bigint;
+        loanWeight: bigint;
+        minYield: bigint;
+        minFarmArea: bigint;
+        yieldBonus: bigint;
+        farmBonus: bigint;
+        coverageBonus: bigint;
+        maxYieldVarianceBps: bigint;
+        stabilityBonus: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  setCollateralConfig: TypedContractMethod<
+    [config: AgriFinanceFHE.CollateralConfigStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  setLoanRepayment: TypedContractMethod<
+    [repayment: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setRecommendationConfig: TypedContractMethod<
+    [config: AgriFinanceFHE.RecommendationConfigStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  setScoringConfig: TypedContractMethod<
+    [config: AgriFinanceFHE.ScoringConfigStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  startRepayment: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  startReview: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedLoanApplication: TypedContractMethod<
+    [
+      cropType: string,
+      encryptedFarmData: BytesLike,
+      encryptedYieldPrediction: BytesLike,
+      encryptedLoanAmount: BytesLike,
+      plantingHistory: AgriFinanceFHE.PlantingSeasonInputStruct[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedLoanApplicationBatch: TypedContractMethod<
+    [
+      applications: AgriFinanceFHE.BatchApplicationInputStruct[],
+      inputProof: BytesLike
+    ],
+    [bigint[]],
+    "nonpayable"
+  >;
+
+  transferAdmin: TypedContractMethod<
+    [newAdmin: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "COLLATERAL_TYPE_EQUIPMENT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "COLLATERAL_TYPE_LAND_TITLE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "COLLATERAL_TYPE_OTHER"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "COLLATERAL_TYPE_STORED_GRAIN"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BATCH_APPLICATIONS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_COLLATERAL_PER_APPLICATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PLANTING_SEASONS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_REALISED_YIELD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "admin"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "allowApplicationData"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "allowCreditScore"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "allowLoanCategoryCount"
+  ): TypedContractMethod<[category: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "allowRecommendedLoan"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "applicationCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "applicationSubmitter"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "approveApplication"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "attestCollateral"
+  ): TypedContractMethod<[collateralId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeLoan"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "collateralConfig"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "collateralCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "collaterals"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, string, string, bigint, bigint] & {
+        registrant: string;
+        attestedBy: string;
+        encryptedType: string;
+        encryptedAppraisedValue: string;
+        encryptedOwner: string;
+        pledgedTo: bigint;
+        registeredAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "computeCreditScore"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "computeLoanRecommendation"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "decryptApplication"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptLoanCategoryCount"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptedApplications"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, boolean] & {
+        farmData: bigint;
+        yieldPrediction: bigint;
+        loanAmount: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "disburseLoan"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "encryptedApplications"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, string, string, bigint] & {
+        id: bigint;
+        applicant: string;
+        cropType: string;
+        encryptedFarmData: string;
+        encryptedYieldPrediction: string;
+        encryptedLoanAmount: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getApplicant"
+  ): TypedContractMethod<[applicationId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getApplicationCollateralIds"
+  ): TypedContractMethod<[applicationId: BigNumberish], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getApplicationCountByApplicant"
+  ): TypedContractMethod<[applicant: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getApplicationIdsByApplicant"
+  ): TypedContractMethod<[applicant: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getApplicationIdsBySubmitter"
+  ): TypedContractMethod<[submitter: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getCollateralIdsByRegistrant"
+  ): TypedContractMethod<[registrant: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getDecryptedApplication"
+  ): TypedContractMethod<
+    [applicationId: BigNumberish],
+    [
+      [bigint, bigint, bigint, boolean] & {
+        farmData: bigint;
+        yieldPrediction: bigint;
+        loanAmount: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedCollateralCoverage"
+  ): TypedContractMethod<
+    [applicationId: BigNumberish],
+    [[string, string] & { pledgedValue: string; covered: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedCreditScore"
+  ): TypedContractMethod<[applicationId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedLoanCategoryCount"
+  ): TypedContractMethod<[category: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedRecommendedLoan"
+  ): TypedContractMethod<[applicationId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedYieldStatistics"
+  ): TypedContractMethod<
+    [applicationId: BigNumberish],
+    [[string, string] & { mean: string; variance: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getMyApplicationIds"
+  ): TypedContractMethod<[], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getPlantingHistory"
+  ): TypedContractMethod<
+    [applicationId: BigNumberish],
+    [AgriFinanceFHE.PlantingSeasonStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRevealedCategoryCounts"
+  ): TypedContractMethod<
+    [],
+    [
+      [string[], bigint[], bigint[]] & {
+        categories: string[];
+        counts: bigint[];
+        revealedAt: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BigNumberish, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isLender"
+  ): TypedContractMethod<[account: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "joinCooperative"
+  ): TypedContractMethod<[cooperative: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "leaveCooperative"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "loanRepayment"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "loanStatus"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "markDefaulted"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "memberCooperative"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "pledgeCollateral"
+  ): TypedContractMethod<
+    [collateralId: BigNumberish, applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "recommendationConfig"
+  ): TypedContractMethod<
+    [],
+    [[bigint, bigint] & { pricePerUnit: bigint; loanToValueBps: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "recomputeCollateralCoverage"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "registerCollateral"
+  ): TypedContractMethod<
+    [
+      encryptedType: BytesLike,
+      encryptedAppraisedValue: BytesLike,
+      encryptedOwner: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "rejectApplication"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "releaseCollateral"
+  ): TypedContractMethod<[collateralId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestApplicationDecryption"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestLoanCategoryCountDecryption"
+  ): TypedContractMethod<[category: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BigNumberish, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "scoringConfig"
+  ): TypedContractMethod<
+    [],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        baseScore: bigint;
+        yieldWeight: bigint;
+        farmWeight: bigint;
+        loanWeight: bigint;
+        minYield: bigint;
+        minFarmArea: bigint;
+        yieldBonus: bigint;
+        farmBonus: bigint;
+        coverageBonus: bigint;
+        maxYieldVarianceBps: bigint;
+        stabilityBonus: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "setCollateralConfig"
+  ): TypedContractMethod<
+    [config: AgriFinanceFHE.CollateralConfigStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setLoanRepayment"
+  ): TypedContractMethod<[repayment: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setRecommendationConfig"
+  ): TypedContractMethod<
+    [config: AgriFinanceFHE.RecommendationConfigStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setScoringConfig"
+  ): TypedContractMethod<
+    [config: AgriFinanceFHE.ScoringConfigStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "startRepayment"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "startReview"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitEncryptedLoanApplication"
+  ): TypedContractMethod<
+    [
+      cropType: string,
+      encryptedFarmData: BytesLike,
+      encryptedYieldPrediction: BytesLike,
+      encryptedLoanAmount: BytesLike,
+      plantingHistory: AgriFinanceFHE.PlantingSeasonInputStruct[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedLoanApplicationBatch"
+  ): TypedContractMethod<
+    [
+      applications: AgriFinanceFHE.BatchApplicationInputStruct[],
+      inputProof: BytesLike
+    ],
+    [bigint[]],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferAdmin"
+  ): TypedContractMethod<[newAdmin: AddressLike], [void], "nonpayable">;
+
+  getEvent(
+    key: "AdminTransferred"
+  ): TypedContractEvent<
+    AdminTransferredEvent.InputTuple,
+    AdminTransferredEvent.OutputTuple,
+    AdminTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ApplicationAccessGranted"
+  ): TypedContractEvent<
+    ApplicationAccessGrantedEvent.InputTuple,
+    ApplicationAccessGrantedEvent.OutputTuple,
+    ApplicationAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ApplicationApproved"
+  ): TypedContractEvent<
+    ApplicationApprovedEvent.InputTuple,
+    ApplicationApprovedEvent.OutputTuple,
+    ApplicationApprovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ApplicationDecrypted"
+  ): TypedContractEvent<
+    ApplicationDecryptedEvent.InputTuple,
+    ApplicationDecryptedEvent.OutputTuple,
+    ApplicationDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ApplicationRejected"
+  ): TypedContractEvent<
+    ApplicationRejectedEvent.InputTuple,
+    ApplicationRejectedEvent.OutputTuple,
+    ApplicationRejectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ApplicationUnderReview"
+  ): TypedContractEvent<
+    ApplicationUnderReviewEvent.InputTuple,
+    ApplicationUnderReviewEvent.OutputTuple,
+    ApplicationUnderReviewEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchApplicationSkipped"
+  ): TypedContractEvent<
+    BatchApplicationSkippedEvent.InputTuple,
+    BatchApplicationSkippedEvent.OutputTuple,
+    BatchApplicationSkippedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchApplicationSubmitted"
+  ): TypedContractEvent<
+    BatchApplicationSubmittedEvent.InputTuple,
+    BatchApplicationSubmittedEvent.OutputTuple,
+    BatchApplicationSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CategoryCountAccessGranted"
+  ): TypedContractEvent<
+    CategoryCountAccessGrantedEvent.InputTuple,
+    CategoryCountAccessGrantedEvent.OutputTuple,
+    CategoryCountAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CategoryCountDecrypted"
+  ): TypedContractEvent<
+    CategoryCountDecryptedEvent.InputTuple,
+    CategoryCountDecryptedEvent.OutputTuple,
+    CategoryCountDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CategoryCountDecryptionRequested"
+  ): TypedContractEvent<
+    CategoryCountDecryptionRequestedEvent.InputTuple,
+    CategoryCountDecryptionRequestedEvent.OutputTuple,
+    CategoryCountDecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CollateralAttested"
+  ): TypedContractEvent<
+    CollateralAttestedEvent.InputTuple,
+    CollateralAttestedEvent.OutputTuple,
+    CollateralAttestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CollateralConfigUpdated"
+  ): TypedContractEvent<
+    CollateralConfigUpdatedEvent.InputTuple,
+    CollateralConfigUpdatedEvent.OutputTuple,
+    CollateralConfigUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CollateralCoverageComputed"
+  ): TypedContractEvent<
+    CollateralCoverageComputedEvent.InputTuple,
+    CollateralCoverageComputedEvent.OutputTuple,
+    CollateralCoverageComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CollateralPledged"
+  ): TypedContractEvent<
+    CollateralPledgedEvent.InputTuple,
+    CollateralPledgedEvent.OutputTuple,
+    CollateralPledgedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CollateralRegistered"
+  ): TypedContractEvent<
+    CollateralRegisteredEvent.InputTuple,
+    CollateralRegisteredEvent.OutputTuple,
+    CollateralRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "CollateralReleased"
+  ): TypedContractEvent<
+    CollateralReleasedEvent.InputTuple,
+    CollateralReleasedEvent.OutputTuple,
+    CollateralReleasedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooperativeJoined"
+  ): TypedContractEvent<
+    CooperativeJoinedEvent.InputTuple,
+    CooperativeJoinedEvent.OutputTuple,
+    CooperativeJoinedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooperativeLeft"
+  ): TypedContractEvent<
+    CooperativeLeftEvent.InputTuple,
+    CooperativeLeftEvent.OutputTuple,
+    CooperativeLeftEvent.OutputObject
+  >;
+  getEvent(
+    key: "CreditScoreComputed"
+  ): TypedContractEvent<
+    CreditScoreComputedEvent.InputTuple,
+    CreditScoreComputedEvent.OutputTuple,
+    CreditScoreComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LoanApplicationSubmitted"
+  ): TypedContractEvent<
+    LoanApplicationSubmittedEvent.InputTuple,
+    LoanApplicationSubmittedEvent.OutputTuple,
+    LoanApplicationSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LoanClosed"
+  ): TypedContractEvent<
+    LoanClosedEvent.InputTuple,
+    LoanClosedEvent.OutputTuple,
+    LoanClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LoanDefaulted"
+  ): TypedContractEvent<
+    LoanDefaultedEvent.InputTuple,
+    LoanDefaultedEvent.OutputTuple,
+    LoanDefaultedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LoanDisbursed"
+  ): TypedContractEvent<
+    LoanDisbursedEvent.InputTuple,
+    LoanDisbursedEvent.OutputTuple,
+    LoanDisbursedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LoanRecommendationComputed"
+  ): TypedContractEvent<
+    LoanRecommendationComputedEvent.InputTuple,
+    LoanRecommendationComputedEvent.OutputTuple,
+    LoanRecommendationComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LoanRepaymentStarted"
+  ): TypedContractEvent<
+    LoanRepaymentStartedEvent.InputTuple,
+    LoanRepaymentStartedEvent.OutputTuple,
+    LoanRepaymentStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LoanRepaymentUpdated"
+  ): TypedContractEvent<
+    LoanRepaymentUpdatedEvent.InputTuple,
+    LoanRepaymentUpdatedEvent.OutputTuple,
+    LoanRepaymentUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecommendationConfigUpdated"
+  ): TypedContractEvent<
+    RecommendationConfigUpdatedEvent.InputTuple,
+    RecommendationConfigUpdatedEvent.OutputTuple,
+    RecommendationConfigUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScoringConfigUpdated"
+  ): TypedContractEvent<
+    ScoringConfigUpdatedEvent.InputTuple,
+    ScoringConfigUpdatedEvent.OutputTuple,
+    ScoringConfigUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "AdminTransferred(address,address)": TypedContractEvent<
+      AdminTransferredEvent.InputTuple,
+      AdminTransferredEvent.OutputTuple,
+      AdminTransferredEvent.OutputObject
+    >;
+    AdminTransferred: TypedContractEvent<
+      AdminTransferredEvent.InputTuple,
+      AdminTransferredEvent.OutputTuple,
+      AdminTransferredEvent.OutputObject
+    >;
+
+    "ApplicationAccessGranted(uint256,address)": TypedContractEvent<
+      ApplicationAccessGrantedEvent.InputTuple,
+      ApplicationAccessGrantedEvent.OutputTuple,
+      ApplicationAccessGrantedEvent.OutputObject
+    >;
+    ApplicationAccessGranted: TypedContractEvent<
+      ApplicationAccessGrantedEvent.InputTuple,
+      ApplicationAccessGrantedEvent.OutputTuple,
+      ApplicationAccessGrantedEvent.OutputObject
+    >;
+
+    "ApplicationApproved(uint256,address)": TypedContractEvent<
+      ApplicationApprovedEvent.InputTuple,
+      ApplicationApprovedEvent.OutputTuple,
+      ApplicationApprovedEvent.OutputObject
+    >;
+    ApplicationApproved: TypedContractEvent<
+      ApplicationApprovedEvent.InputTuple,
+      ApplicationApprovedEvent.OutputTuple,
+      ApplicationApprovedEvent.OutputObject
+    >;
+
+    "ApplicationDecrypted(uint256,uint32,uint32,uint32)": TypedContractEvent<
+      ApplicationDecryptedEvent.InputTuple,
+      ApplicationDecryptedEvent.OutputTuple,
+      ApplicationDecryptedEvent.OutputObject
+    >;
+    ApplicationDecrypted: TypedContractEvent<
+      ApplicationDecryptedEvent.InputTuple,
+      ApplicationDecryptedEvent.OutputTuple,
+      ApplicationDecryptedEvent.OutputObject
+    >;
+
+    "ApplicationRejected(uint256,address)": TypedContractEvent<
+      ApplicationRejectedEvent.InputTuple,
+      ApplicationRejectedEvent.OutputTuple,
+      ApplicationRejectedEvent.OutputObject
+    >;
+    ApplicationRejected: TypedContractEvent<
+      ApplicationRejectedEvent.InputTuple,
+      ApplicationRejectedEvent.OutputTuple,
+      ApplicationRejectedEvent.OutputObject
+    >;
+
+    "ApplicationUnderReview(uint256,address)": TypedContractEvent<
+      ApplicationUnderReviewEvent.InputTuple,
+      ApplicationUnderReviewEvent.OutputTuple,
+      ApplicationUnderReviewEvent.OutputObject
+    >;
+    ApplicationUnderReview: TypedContractEvent<
+      ApplicationUnderReviewEvent.InputTuple,
+      ApplicationUnderReviewEvent.OutputTuple,
+      ApplicationUnderReviewEvent.OutputObject
+    >;
+
+    "BatchApplicationSkipped(address,uint256,address,string)": TypedContractEvent<
+      BatchApplicationSkippedEvent.InputTuple,
+      BatchApplicationSkippedEvent.OutputTuple,
+      BatchApplicationSkippedEvent.OutputObject
+    >;
+    BatchApplicationSkipped: TypedContractEvent<
+      BatchApplicationSkippedEvent.InputTuple,
+      BatchApplicationSkippedEvent.OutputTuple,
+      BatchApplicationSkippedEvent.OutputObject
+    >;
+
+    "BatchApplicationSubmitted(uint256,address,address,uint256)": TypedContractEvent<
+      BatchApplicationSubmittedEvent.InputTuple,
+      BatchApplicationSubmittedEvent.OutputTuple,
+      BatchApplicationSubmittedEvent.OutputObject
+    >;
+    BatchApplicationSubmitted: TypedContractEvent<
+      BatchApplicationSubmittedEvent.InputTuple,
+      BatchApplicationSubmittedEvent.OutputTuple,
+      BatchApplicationSubmittedEvent.OutputObject
+    >;
+
+    "CategoryCountAccessGranted(string,address)": TypedContractEvent<
+      CategoryCountAccessGrantedEvent.InputTuple,
+      CategoryCountAccessGrantedEvent.OutputTuple,
+      CategoryCountAccessGrantedEvent.OutputObject
+    >;
+    CategoryCountAccessGranted: TypedContractEvent<
+      CategoryCountAccessGrantedEvent.InputTuple,
+      CategoryCountAccessGrantedEvent.OutputTuple,
+      CategoryCountAccessGrantedEvent.OutputObject
+    >;
+
+    "CategoryCountDecrypted(string,uint32,uint256)": TypedContractEvent<
+      CategoryCountDecryptedEvent.InputTuple,
+      CategoryCountDecryptedEvent.OutputTuple,
+      CategoryCountDecryptedEvent.OutputObject
+    >;
+    CategoryCountDecrypted: TypedContractEvent<
+      CategoryCountDecryptedEvent.InputTuple,
+      CategoryCountDecryptedEvent.OutputTuple,
+      CategoryCountDecryptedEvent.OutputObject
+    >;
+
+    "CategoryCountDecryptionRequested(string)": TypedContractEvent<
+      CategoryCountDecryptionRequestedEvent.InputTuple,
+      CategoryCountDecryptionRequestedEvent.OutputTuple,
+      CategoryCountDecryptionRequestedEvent.OutputObject
+    >;
+    CategoryCountDecryptionRequested: TypedContractEvent<
+      CategoryCountDecryptionRequestedEvent.InputTuple,
+      CategoryCountDecryptionRequestedEvent.OutputTuple,
+      CategoryCountDecryptionRequestedEvent.OutputObject
+    >;
+
+    "CollateralAttested(uint256,address)": TypedContractEvent<
+      CollateralAttestedEvent.InputTuple,
+      CollateralAttestedEvent.OutputTuple,
+      CollateralAttestedEvent.OutputObject
+    >;
+    CollateralAttested: TypedContractEvent<
+      CollateralAttestedEvent.InputTuple,
+      CollateralAttestedEvent.OutputTuple,
+      CollateralAttestedEvent.OutputObject
+    >;
+
+    "CollateralConfigUpdated()": TypedContractEvent<
+      CollateralConfigUpdatedEvent.InputTuple,
+      CollateralConfigUpdatedEvent.OutputTuple,
+      CollateralConfigUpdatedEvent.OutputObject
+    >;
+    CollateralConfigUpdated: TypedContractEvent<
+      CollateralConfigUpdatedEvent.InputTuple,
+      CollateralConfigUpdatedEvent.OutputTuple,
+      CollateralConfigUpdatedEvent.OutputObject
+    >;
+
+    "CollateralCoverageComputed(uint256)": TypedContractEvent<
+      CollateralCoverageComputedEvent.InputTuple,
+      CollateralCoverageComputedEvent.OutputTuple,
+      CollateralCoverageComputedEvent.OutputObject
+    >;
+    CollateralCoverageComputed: TypedContractEvent<
+      CollateralCoverageComputedEvent.InputTuple,
+      CollateralCoverageComputedEvent.OutputTuple,
+      CollateralCoverageComputedEvent.OutputObject
+    >;
+
+    "CollateralPledged(uint256,uint256)": TypedContractEvent<
+      CollateralPledgedEvent.InputTuple,
+      CollateralPledgedEvent.OutputTuple,
+      CollateralPledgedEvent.OutputObject
+    >;
+    CollateralPledged: TypedContractEvent<
+      CollateralPledgedEvent.InputTuple,
+      CollateralPledgedEvent.OutputTuple,
+      CollateralPledgedEvent.OutputObject
+    >;
+
+    "CollateralRegistered(uint256,address)": TypedContractEvent<
+      CollateralRegisteredEvent.InputTuple,
+      CollateralRegisteredEvent.OutputTuple,
+      CollateralRegisteredEvent.OutputObject
+    >;
+    CollateralRegistered: TypedContractEvent<
+      CollateralRegisteredEvent.InputTuple,
+      CollateralRegisteredEvent.OutputTuple,
+      CollateralRegisteredEvent.OutputObject
+    >;
+
+    "CollateralReleased(uint256,uint256)": TypedContractEvent<
+      CollateralReleasedEvent.InputTuple,
+      CollateralReleasedEvent.OutputTuple,
+      CollateralReleasedEvent.OutputObject
+    >;
+    CollateralReleased: TypedContractEvent<
+      CollateralReleasedEvent.InputTuple,
+      CollateralReleasedEvent.OutputTuple,
+      CollateralReleasedEvent.OutputObject
+    >;
+
+    "CooperativeJoined(address,address)": TypedContractEvent<
+      CooperativeJoinedEvent.InputTuple,
+      CooperativeJoinedEvent.OutputTuple,
+      CooperativeJoinedEvent.OutputObject
+    >;
+    CooperativeJoined: TypedContractEvent<
+      CooperativeJoinedEvent.InputTuple,
+      CooperativeJoinedEvent.OutputTuple,
+      CooperativeJoinedEvent.OutputObject
+    >;
+
+    "CooperativeLeft(address,address)": TypedContractEvent<
+      CooperativeLeftEvent.InputTuple,
+      CooperativeLeftEvent.OutputTuple,
+      CooperativeLeftEvent.OutputObject
+    >;
+    CooperativeLeft: TypedContractEvent<
+      CooperativeLeftEvent.InputTuple,
+      CooperativeLeftEvent.OutputTuple,
+      CooperativeLeftEvent.OutputObject
+    >;
+
+    "CreditScoreComputed(uint256)": TypedContractEvent<
+      CreditScoreComputedEvent.InputTuple,
+      CreditScoreComputedEvent.OutputTuple,
+      CreditScoreComputedEvent.OutputObject
+    >;
+    CreditScoreComputed: TypedContractEvent<
+      CreditScoreComputedEvent.InputTuple,
+      CreditScoreComputedEvent.OutputTuple,
+      CreditScoreComputedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "LoanApplicationSubmitted(uint256,address,string,uint256)": TypedContractEvent<
+      LoanApplicationSubmittedEvent.InputTuple,
+      LoanApplicationSubmittedEvent.OutputTuple,
+      LoanApplicationSubmittedEvent.OutputObject
+    >;
+    LoanApplicationSubmitted: TypedContractEvent<
+      LoanApplicationSubmittedEvent.InputTuple,
+      LoanApplicationSubmittedEvent.OutputTuple,
+      LoanApplicationSubmittedEvent.OutputObject
+    >;
+
+    "LoanClosed(uint256,address)": TypedContractEvent<
+      LoanClosedEvent.InputTuple,
+      LoanClosedEvent.OutputTuple,
+      LoanClosedEvent.OutputObject
+    >;
+    LoanClosed: TypedContractEvent<
+      LoanClosedEvent.InputTuple,
+      LoanClosedEvent.OutputTuple,
+      LoanClosedEvent.OutputObject
+    >;
+
+    "LoanDefaulted(uint256,address)": TypedContractEvent<
+      LoanDefaultedEvent.InputTuple,
+      LoanDefaultedEvent.OutputTuple,
+      LoanDefaultedEvent.OutputObject
+    >;
+    LoanDefaulted: TypedContractEvent<
+      LoanDefaultedEvent.InputTuple,
+      LoanDefaultedEvent.OutputTuple,
+      LoanDefaultedEvent.OutputObject
+    >;
+
+    "LoanDisbursed(uint256,address)": TypedContractEvent<
+      LoanDisbursedEvent.InputTuple,
+      LoanDisbursedEvent.OutputTuple,
+      LoanDisbursedEvent.OutputObject
+    >;
+    LoanDisbursed: TypedContractEvent<
+      LoanDisbursedEvent.InputTuple,
+      LoanDisbursedEvent.OutputTuple,
+      LoanDisbursedEvent.OutputObject
+    >;
+
+    "LoanRecommendationComputed(uint256)": TypedContractEvent<
+      LoanRecommendationComputedEvent.InputTuple,
+      LoanRecommendationComputedEvent.OutputTuple,
+      LoanRecommendationComputedEvent.OutputObject
+    >;
+    LoanRecommendationComputed: TypedContractEvent<
+      LoanRecommendationComputedEvent.InputTuple,
+      LoanRecommendationComputedEvent.OutputTuple,
+      LoanRecommendationComputedEvent.OutputObject
+    >;
+
+    "LoanRepaymentStarted(uint256,address)": TypedContractEvent<
+      LoanRepaymentStartedEvent.InputTuple,
+      LoanRepaymentStartedEvent.OutputTuple,
+      LoanRepaymentStartedEvent.OutputObject
+    >;
+    LoanRepaymentStarted: TypedContractEvent<
+      LoanRepaymentStartedEvent.InputTuple,
+      LoanRepaymentStartedEvent.OutputTuple,
+      LoanRepaymentStartedEvent.OutputObject
+    >;
+
+    "LoanRepaymentUpdated(address)": TypedContractEvent<
+      LoanRepaymentUpdatedEvent.InputTuple,
+      LoanRepaymentUpdatedEvent.OutputTuple,
+      LoanRepaymentUpdatedEvent.OutputObject
+    >;
+    LoanRepaymentUpdated: TypedContractEvent<
+      LoanRepaymentUpdatedEvent.InputTuple,
+      LoanRepaymentUpdatedEvent.OutputTuple,
+      LoanRepaymentUpdatedEvent.OutputObject
+    >;
+
+    "RecommendationConfigUpdated()": TypedContractEvent<
+      RecommendationConfigUpdatedEvent.InputTuple,
+      RecommendationConfigUpdatedEvent.OutputTuple,
+      RecommendationConfigUpdatedEvent.OutputObject
+    >;
+    RecommendationConfigUpdated: TypedContractEvent<
+      RecommendationConfigUpdatedEvent.InputTuple,
+      RecommendationConfigUpdatedEvent.OutputTuple,
+      RecommendationConfigUpdatedEvent.OutputObject
+    >;
+
+    "RoleGranted(uint8,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(uint8,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "ScoringConfigUpdated()": TypedContractEvent<
+      ScoringConfigUpdatedEvent.InputTuple,
+      ScoringConfigUpdatedEvent.OutputTuple,
+      ScoringConfigUpdatedEvent.OutputObject
+    >;
+    ScoringConfigUpdated: TypedContractEvent<
+      ScoringConfigUpdatedEvent.InputTuple,
+      ScoringConfigUpdatedEvent.OutputTuple,
+      ScoringConfigUpdatedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,365 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface LoanEscrowInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "agriFinance"
+      | "fund"
+      | "lenderBalances"
+      | "loans"
+      | "payOut"
+      | "repay"
+      | "token"
+      | "unit"
+      | "withdraw"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "EscrowFunded"
+      | "EscrowWithdrawn"
+      | "LoanPaidOut"
+      | "RepaymentTransferred"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "agriFinance",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "fund", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "lenderBalances",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "loans", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "payOut",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "repay",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "token", values?: undefined): string;
+  encodeFunctionData(functionFragment: "unit", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "withdraw",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "agriFinance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "fund", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lenderBalances",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "loans", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "payOut", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "repay", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "token", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "unit", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+}
+
+export namespace EscrowFundedEvent {
+  export type InputTuple = [lender: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [lender: string, amount: bigint];
+  export interface OutputObject {
+    lender: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EscrowWithdrawnEvent {
+  export type InputTuple = [lender: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [lender: string, amount: bigint];
+  export interface OutputObject {
+    lender: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LoanPaidOutEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    lender: AddressLike,
+    applicant: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    lender: string,
+    applicant: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    lender: string;
+    applicant: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RepaymentTransferredEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    applicant: AddressLike,
+    lender: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    applicant: string,
+    lender: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    applicant: string;
+    lender: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface LoanEscrow extends BaseContract {
+  connect(runner?: ContractRunner | null): LoanEscrow;
+  waitForDeployment(): Promise<this>;
+
+  interface: LoanEscrowInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  agriFinance: TypedContractMethod<[], [string], "view">;
+
+  fund: TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+
+  lenderBalances: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  loans: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint] & {
+        lender: string;
+        amount: bigint;
+        repaid: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  payOut: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  repay: TypedContractMethod<
+    [applicationId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  token: TypedContractMethod<[], [string], "view">;
+
+  unit: TypedContractMethod<[], [bigint], "view">;
+
+  withdraw: TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "agriFinance"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "fund"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "lenderBalances"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "loans"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint] & {
+        lender: string;
+        amount: bigint;
+        repaid: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "payOut"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "repay"
+  ): TypedContractMethod<
+    [applicationId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "token"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "unit"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+
+  getEvent(
+    key: "EscrowFunded"
+  ): TypedContractEvent<
+    EscrowFundedEvent.InputTuple,
+    EscrowFundedEvent.OutputTuple,
+    EscrowFundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EscrowWithdrawn"
+  ): TypedContractEvent<
+    EscrowWithdrawnEvent.InputTuple,
+    EscrowWithdrawnEvent.OutputTuple,
+    EscrowWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "LoanPaidOut"
+  ): TypedContractEvent<
+    LoanPaidOutEvent.InputTuple,
+    LoanPaidOutEvent.OutputTuple,
+    LoanPaidOutEvent.OutputObject
+  >;
+  getEvent(
+    key: "RepaymentTransferred"
+  ): TypedContractEvent<
+    RepaymentTransferredEvent.InputTuple,
+    RepaymentTransferredEvent.OutputTuple,
+    RepaymentTransferredEvent.OutputObject
+  >;
+
+  filters: {
+    "EscrowFunded(address,uint256)": TypedContractEvent<
+      EscrowFundedEvent.InputTuple,
+      EscrowFundedEvent.OutputTuple,
+      EscrowFundedEvent.OutputObject
+    >;
+    EscrowFunded: TypedContractEvent<
+      EscrowFundedEvent.InputTuple,
+      EscrowFundedEvent.OutputTuple,
+      EscrowFundedEvent.OutputObject
+    >;
+
+    "EscrowWithdrawn(address,uint256)": TypedContractEvent<
+      EscrowWithdrawnEvent.InputTuple,
+      EscrowWithdrawnEvent.OutputTuple,
+      EscrowWithdrawnEvent.OutputObject
+    >;
+    EscrowWithdrawn: TypedContractEvent<
+      EscrowWithdrawnEvent.InputTuple,
+      EscrowWithdrawnEvent.OutputTuple,
+      EscrowWithdrawnEvent.OutputObject
+    >;
+
+    "LoanPaidOut(uint256,address,address,uint256)": TypedContractEvent<
+      LoanPaidOutEvent.InputTuple,
+      LoanPaidOutEvent.OutputTuple,
+      LoanPaidOutEvent.OutputObject
+    >;
+    LoanPaidOut: TypedContractEvent<
+      LoanPaidOutEvent.InputTuple,
+      LoanPaidOutEvent.OutputTuple,
+      LoanPaidOutEvent.OutputObject
+    >;
+
+    "RepaymentTransferred(uint256,address,address,uint256)": TypedContractEvent<
+      RepaymentTransferredEvent.InputTuple,
+      RepaymentTransferredEvent.OutputTuple,
+      RepaymentTransferredEvent.OutputObject
+    >;
+    RepaymentTransferred: TypedContractEvent<
+      RepaymentTransferredEvent.InputTuple,
+      RepaymentTransferredEvent.OutputTuple,
+      RepaymentTransferredEvent.OutputObject
+    >;
+  };
+}
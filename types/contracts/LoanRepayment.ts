@@ -0,0 +1,870 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace LoanRepayment {
+  export type CropCalendarStruct = {
+    growingDays: BigNumberish;
+    saleDays: BigNumberish;
+  };
+
+  export type CropCalendarStructOutput = [
+    growingDays: bigint,
+    saleDays: bigint
+  ] & { growingDays: bigint; saleDays: bigint };
+
+  export type BalanceStruct = {
+    principal: BytesLike;
+    outstanding: BytesLike;
+    repaid: BytesLike;
+    late: BytesLike;
+  };
+
+  export type BalanceStructOutput = [
+    principal: string,
+    outstanding: string,
+    repaid: string,
+    late: string
+  ] & { principal: string; outstanding: string; repaid: string; late: string };
+
+  export type ScheduleStruct = {
+    mode: BigNumberish;
+    dueDates: BigNumberish[];
+    interestRateBps: BigNumberish;
+    harvestMonth: BigNumberish;
+    gracePeriodDays: BigNumberish;
+    plantedAt: BigNumberish;
+    lender: AddressLike;
+    disbursedAt: BigNumberish;
+    fundedAt: BigNumberish;
+    lastAccruedAt: BigNumberish;
+    instalmentsOverdue: BigNumberish;
+    checkedAt: BigNumberish;
+  };
+
+  export type ScheduleStructOutput = [
+    mode: bigint,
+    dueDates: bigint[],
+    interestRateBps: bigint,
+    harvestMonth: bigint,
+    gracePeriodDays: bigint,
+    plantedAt: bigint,
+    lender: string,
+    disbursedAt: bigint,
+    fundedAt: bigint,
+    lastAccruedAt: bigint,
+    instalmentsOverdue: bigint,
+    checkedAt: bigint
+  ] & {
+    mode: bigint;
+    dueDates: bigint[];
+    interestRateBps: bigint;
+    harvestMonth: bigint;
+    gracePeriodDays: bigint;
+    plantedAt: bigint;
+    lender: string;
+    disbursedAt: bigint;
+    fundedAt: bigint;
+    lastAccruedAt: bigint;
+    instalmentsOverdue: bigint;
+    checkedAt: bigint;
+  };
+
+  export type ScheduleInputStruct = {
+    dueDates: BigNumberish[];
+    interestRateBps: BigNumberish;
+    harvestMonth: BigNumberish;
+    gracePeriodDays: BigNumberish;
+  };
+
+  export type ScheduleInputStructOutput = [
+    dueDates: bigint[],
+    interestRateBps: bigint,
+    harvestMonth: bigint,
+    gracePeriodDays: bigint
+  ] & {
+    dueDates: bigint[];
+    interestRateBps: bigint;
+    harvestMonth: bigint;
+    gracePeriodDays: bigint;
+  };
+}
+
+export interface LoanRepaymentInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_CROP_CALENDAR_DAYS"
+      | "MAX_GRACE_PERIOD_DAYS"
+      | "MAX_INSTALMENTS"
+      | "accrueInterest"
+      | "agriFinance"
+      | "allowRepaymentData"
+      | "checkLatePayment"
+      | "confirmDisbursalFunding"
+      | "getCalendarCropTypes"
+      | "getCropCalendar"
+      | "getEncryptedRepaymentBalance"
+      | "getRepaymentSchedule"
+      | "paidWithToken"
+      | "protocolId"
+      | "repay"
+      | "requireFunded"
+      | "retryDisbursal"
+      | "setCropCalendar"
+      | "setHarvestRepaymentSchedule"
+      | "setRepaymentSchedule"
+      | "startSchedule"
+      | "token"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "CropCalendarUpdated"
+      | "DecryptionFulfilled"
+      | "DisbursalFundingChecked"
+      | "InterestAccrued"
+      | "LatePaymentChecked"
+      | "LoanRepaid"
+      | "RepaymentScheduleSet"
+      | "RepaymentScheduleStarted"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_CROP_CALENDAR_DAYS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_GRACE_PERIOD_DAYS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_INSTALMENTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "accrueInterest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "agriFinance",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowRepaymentData",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkLatePayment",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confirmDisbursalFunding",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCalendarCropTypes",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCropCalendar",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedRepaymentBalance",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRepaymentSchedule",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "paidWithToken",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "repay",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requireFunded",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "retryDisbursal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCropCalendar",
+    values: [string, LoanRepayment.CropCalendarStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setHarvestRepaymentSchedule",
+    values: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRepaymentSchedule",
+    values: [BigNumberish, LoanRepayment.ScheduleInputStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "startSchedule",
+    values: [BigNumberish, BytesLike, AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "token", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_CROP_CALENDAR_DAYS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_GRACE_PERIOD_DAYS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_INSTALMENTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "accrueInterest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "agriFinance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowRepaymentData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "checkLatePayment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confirmDisbursalFunding",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCalendarCropTypes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCropCalendar",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedRepaymentBalance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRepaymentSchedule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "paidWithToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "repay", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requireFunded",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "retryDisbursal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCropCalendar",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setHarvestRepaymentSchedule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRepaymentSchedule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "startSchedule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "token", data: BytesLike): Result;
+}
+
+export namespace CropCalendarUpdatedEvent {
+  export type InputTuple = [
+    cropType: string,
+    growingDays: BigNumberish,
+    saleDays: BigNumberish
+  ];
+  export type OutputTuple = [
+    cropType: string,
+    growingDays: bigint,
+    saleDays: bigint
+  ];
+  export interface OutputObject {
+    cropType: string;
+    growingDays: bigint;
+    saleDays: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisbursalFundingCheckedEvent {
+  export type InputTuple = [id: BigNumberish, funded: boolean];
+  export type OutputTuple = [id: bigint, funded: boolean];
+  export interface OutputObject {
+    id: bigint;
+    funded: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InterestAccruedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    from: BigNumberish,
+    to: BigNumberish
+  ];
+  export type OutputTuple = [id: bigint, from: bigint, to: bigint];
+  export interface OutputObject {
+    id: bigint;
+    from: bigint;
+    to: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LatePaymentCheckedEvent {
+  export type InputTuple = [id: BigNumberish, instalmentsOverdue: BigNumberish];
+  export type OutputTuple = [id: bigint, instalmentsOverdue: bigint];
+  export interface OutputObject {
+    id: bigint;
+    instalmentsOverdue: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LoanRepaidEvent {
+  export type InputTuple = [id: BigNumberish, applicant: AddressLike];
+  export type OutputTuple = [id: bigint, applicant: string];
+  export interface OutputObject {
+    id: bigint;
+    applicant: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RepaymentScheduleSetEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    lender: AddressLike,
+    instalments: BigNumberish
+  ];
+  export type OutputTuple = [id: bigint, lender: string, instalments: bigint];
+  export interface OutputObject {
+    id: bigint;
+    lender: string;
+    instalments: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RepaymentScheduleStartedEvent {
+  export type InputTuple = [id: BigNumberish, lender: AddressLike];
+  export type OutputTuple = [id: bigint, lender: string];
+  export interface OutputObject {
+    id: bigint;
+    lender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface LoanRepayment extends BaseContract {
+  connect(runner?: ContractRunner | null): LoanRepayment;
+  waitForDeployment(): Promise<this>;
+
+  interface: LoanRepaymentInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_CROP_CALENDAR_DAYS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_GRACE_PERIOD_DAYS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_INSTALMENTS: TypedContractMethod<[], [bigint], "view">;
+
+  accrueInterest: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  agriFinance: TypedContractMethod<[], [string], "view">;
+
+  allowRepaymentData: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  checkLatePayment: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  confirmDisbursalFunding: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getCalendarCropTypes: TypedContractMethod<[], [string[]], "view">;
+
+  getCropCalendar: TypedContractMethod<
+    [cropType: string],
+    [LoanRepayment.CropCalendarStructOutput],
+    "view"
+  >;
+
+  getEncryptedRepaymentBalance: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [LoanRepayment.BalanceStructOutput],
+    "view"
+  >;
+
+  getRepaymentSchedule: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [LoanRepayment.ScheduleStructOutput],
+    "view"
+  >;
+
+  paidWithToken: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  repay: TypedContractMethod<
+    [
+      applicationId: BigNumberish,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  requireFunded: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "view"
+  >;
+
+  retryDisbursal: TypedContractMethod<
+    [applicationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setCropCalendar: TypedContractMethod<
+    [cropType: string, calendar: LoanRepayment.CropCalendarStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  setHarvestRepaymentSchedule: TypedContractMethod<
+    [
+      applicationId: BigNumberish,
+      plantedAt: BigNumberish,
+      interestRateBps: BigNumberish,
+      gracePeriodDays: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setRepaymentSchedule: TypedContractMethod<
+    [applicationId: BigNumberish, input: LoanRepayment.ScheduleInputStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  startSchedule: TypedContractMethod<
+    [
+      applicationId: BigNumberish,
+      loanAmount: BytesLike,
+      applicant: AddressLike,
+      lender: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  token: TypedContractMethod<[], [string], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_CROP_CALENDAR_DAYS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_GRACE_PERIOD_DAYS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_INSTALMENTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "accrueInterest"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "agriFinance"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "allowRepaymentData"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "checkLatePayment"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "confirmDisbursalFunding"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getCalendarCropTypes"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getCropCalendar"
+  ): TypedContractMethod<
+    [cropType: string],
+    [LoanRepayment.CropCalendarStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedRepaymentBalance"
+  ): TypedContractMethod<
+    [applicationId: BigNumberish],
+    [LoanRepayment.BalanceStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRepaymentSchedule"
+  ): TypedContractMethod<
+    [applicationId: BigNumberish],
+    [LoanRepayment.ScheduleStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "paidWithToken"
+  ): TypedContractMethod<[applicationId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "repay"
+  ): TypedContractMethod<
+    [
+      applicationId: BigNumberish,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requireFunded"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "view">;
+  getFunction(
+    nameOrSignature: "retryDisbursal"
+  ): TypedContractMethod<[applicationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCropCalendar"
+  ): TypedContractMethod<
+    [cropType: string, calendar: LoanRepayment.CropCalendarStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setHarvestRepaymentSchedule"
+  ): TypedContractMethod<
+    [
+      applicationId: BigNumberish,
+      plantedAt: BigNumberish,
+      interestRateBps: BigNumberish,
+      gracePeriodDays: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setRepaymentSchedule"
+  ): TypedContractMethod<
+    [applicationId: BigNumberish, input: LoanRepayment.ScheduleInputStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "startSchedule"
+  ): TypedContractMethod<
+    [
+      applicationId: BigNumberish,
+      loanAmount: BytesLike,
+      applicant: AddressLike,
+      lender: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "token"
+  ): TypedContractMethod<[], [string], "view">;
+
+  getEvent(
+    key: "CropCalendarUpdated"
+  ): TypedContractEvent<
+    CropCalendarUpdatedEvent.InputTuple,
+    CropCalendarUpdatedEvent.OutputTuple,
+    CropCalendarUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisbursalFundingChecked"
+  ): TypedContractEvent<
+    DisbursalFundingCheckedEvent.InputTuple,
+    DisbursalFundingCheckedEvent.OutputTuple,
+    DisbursalFundingCheckedEvent.OutputObject
+  >;
+  getEvent(
+    key: "InterestAccrued"
+  ): TypedContractEvent<
+    InterestAccruedEvent.InputTuple,
+    InterestAccruedEvent.OutputTuple,
+    InterestAccruedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LatePaymentChecked"
+  ): TypedContractEvent<
+    LatePaymentCheckedEvent.InputTuple,
+    LatePaymentCheckedEvent.OutputTuple,
+    LatePaymentCheckedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LoanRepaid"
+  ): TypedContractEvent<
+    LoanRepaidEvent.InputTuple,
+    LoanRepaidEvent.OutputTuple,
+    LoanRepaidEvent.OutputObject
+  >;
+  getEvent(
+    key: "RepaymentScheduleSet"
+  ): TypedContractEvent<
+    RepaymentScheduleSetEvent.InputTuple,
+    RepaymentScheduleSetEvent.OutputTuple,
+    RepaymentScheduleSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "RepaymentScheduleStarted"
+  ): TypedContractEvent<
+    RepaymentScheduleStartedEvent.InputTuple,
+    RepaymentScheduleStartedEvent.OutputTuple,
+    RepaymentScheduleStartedEvent.OutputObject
+  >;
+
+  filters: {
+    "CropCalendarUpdated(string,uint32,uint32)": TypedContractEvent<
+      CropCalendarUpdatedEvent.InputTuple,
+      CropCalendarUpdatedEvent.OutputTuple,
+      CropCalendarUpdatedEvent.OutputObject
+    >;
+    CropCalendarUpdated: TypedContractEvent<
+      CropCalendarUpdatedEvent.InputTuple,
+      CropCalendarUpdatedEvent.OutputTuple,
+      CropCalendarUpdatedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DisbursalFundingChecked(uint256,bool)": TypedContractEvent<
+      DisbursalFundingCheckedEvent.InputTuple,
+      DisbursalFundingCheckedEvent.OutputTuple,
+      DisbursalFundingCheckedEvent.OutputObject
+    >;
+    DisbursalFundingChecked: TypedContractEvent<
+      DisbursalFundingCheckedEvent.InputTuple,
+      DisbursalFundingCheckedEvent.OutputTuple,
+      DisbursalFundingCheckedEvent.OutputObject
+    >;
+
+    "InterestAccrued(uint256,uint256,uint256)": TypedContractEvent<
+      InterestAccruedEvent.InputTuple,
+      InterestAccruedEvent.OutputTuple,
+      InterestAccruedEvent.OutputObject
+    >;
+    InterestAccrued: TypedContractEvent<
+      InterestAccruedEvent.InputTuple,
+      InterestAccruedEvent.OutputTuple,
+      InterestAccruedEvent.OutputObject
+    >;
+
+    "LatePaymentChecked(uint256,uint256)": TypedContractEvent<
+      LatePaymentCheckedEvent.InputTuple,
+      LatePaymentCheckedEvent.OutputTuple,
+      LatePaymentCheckedEvent.OutputObject
+    >;
+    LatePaymentChecked: TypedContractEvent<
+      LatePaymentCheckedEvent.InputTuple,
+      LatePaymentCheckedEvent.OutputTuple,
+      LatePaymentCheckedEvent.OutputObject
+    >;
+
+    "LoanRepaid(uint256,address)": TypedContractEvent<
+      LoanRepaidEvent.InputTuple,
+      LoanRepaidEvent.OutputTuple,
+      LoanRepaidEvent.OutputObject
+    >;
+    LoanRepaid: TypedContractEvent<
+      LoanRepaidEvent.InputTuple,
+      LoanRepaidEvent.OutputTuple,
+      LoanRepaidEvent.OutputObject
+    >;
+
+    "RepaymentScheduleSet(uint256,address,uint256)": TypedContractEvent<
+      RepaymentScheduleSetEvent.InputTuple,
+      RepaymentScheduleSetEvent.OutputTuple,
+      RepaymentScheduleSetEvent.OutputObject
+    >;
+    RepaymentScheduleSet: TypedContractEvent<
+      RepaymentScheduleSetEvent.InputTuple,
+      RepaymentScheduleSetEvent.OutputTuple,
+      RepaymentScheduleSetEvent.OutputObject
+    >;
+
+    "RepaymentScheduleStarted(uint256,address)": TypedContractEvent<
+      RepaymentScheduleStartedEvent.InputTuple,
+      RepaymentScheduleStartedEvent.OutputTuple,
+      RepaymentScheduleStartedEvent.OutputObject
+    >;
+    RepaymentScheduleStarted: TypedContractEvent<
+      RepaymentScheduleStartedEvent.InputTuple,
+      RepaymentScheduleStartedEvent.OutputTuple,
+      RepaymentScheduleStartedEvent.OutputObject
+    >;
+  };
+}
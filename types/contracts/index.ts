@@ -1,5 +1,10 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { FHEPowerMaintenance } from "./FHEPowerMaintenance";
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as mocks from "./mocks";
+export type { mocks };
+export type { AgriFinanceFHE } from "./AgriFinanceFHE";
+export type { ConfidentialToken } from "./ConfidentialToken";
+export type { IERC20 } from "./IERC20";
+export type { LoanEscrow } from "./LoanEscrow";
+export type { LoanRepayment } from "./LoanRepayment";
@@ -36,7 +36,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x608060405234610153575f6060610014610157565b828152826020820152826040820152015261002d610157565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970391825416179055604051604c908161018b8239f35b5f80fd5b60405190608082016001600160401b0381118382101761017657604052565b634e487b7160e01b5f52604160045260245ffdfe60808060405260043610156011575f80fd5b5f3560e01c63da1f12ab146023575f80fd5b34603b575f366003190112603b578061271160209252f35b5f80fdfea164736f6c6343000818000a";
+  "0x608060405234610153575f6060610014610157565b828152826020820152826040820152015261002d610157565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970391825416179055604051604c908161018b8239f35b5f80fd5b60405190608082016001600160401b0381118382101761017657604052565b634e487b7160e01b5f52604160045260245ffdfe60808060405260043610156011575f80fd5b5f3560e01c63da1f12ab146023575f80fd5b34603b575f366003190112603b578061271160209252f35b5f80fdfea164736f6c6343000818000a";
 
 type SepoliaConfigConstructorParams =
   | [signer?: Signer]
@@ -0,0 +1,2221 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  AgriFinanceFHE,
+  AgriFinanceFHEInterface,
+} from "../../contracts/AgriFinanceFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousAdmin",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newAdmin",
+        type: "address",
+      },
+    ],
+    name: "AdminTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "ApplicationAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+    ],
+    name: "ApplicationApproved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "farmData",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "yieldPrediction",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "loanAmount",
+        type: "uint32",
+      },
+    ],
+    name: "ApplicationDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+    ],
+    name: "ApplicationRejected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+    ],
+    name: "ApplicationUnderReview",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "cooperative",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "BatchApplicationSkipped",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "cooperative",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "BatchApplicationSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "CategoryCountAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CategoryCountDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+    ],
+    name: "CategoryCountDecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "collateralId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "attester",
+        type: "address",
+      },
+    ],
+    name: "CollateralAttested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "CollateralConfigUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "CollateralCoverageComputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "collateralId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "CollateralPledged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "collateralId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "registrant",
+        type: "address",
+      },
+    ],
+    name: "CollateralRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "collateralId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "CollateralReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "cooperative",
+        type: "address",
+      },
+    ],
+    name: "CooperativeJoined",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "cooperative",
+        type: "address",
+      },
+    ],
+    name: "CooperativeLeft",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "CreditScoreComputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "cropType",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "LoanApplicationSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+    ],
+    name: "LoanClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+    ],
+    name: "LoanDefaulted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+    ],
+    name: "LoanDisbursed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "LoanRecommendationComputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+    ],
+    name: "LoanRepaymentStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "loanRepayment",
+        type: "address",
+      },
+    ],
+    name: "LoanRepaymentUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "RecommendationConfigUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "enum AgriFinanceFHE.Role",
+        name: "role",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "enum AgriFinanceFHE.Role",
+        name: "role",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "ScoringConfigUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "COLLATERAL_TYPE_EQUIPMENT",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "COLLATERAL_TYPE_LAND_TITLE",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "COLLATERAL_TYPE_OTHER",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "COLLATERAL_TYPE_STORED_GRAIN",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_APPLICATIONS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_COLLATERAL_PER_APPLICATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PLANTING_SEASONS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_REALISED_YIELD",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "admin",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "allowApplicationData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "allowCreditScore",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+    ],
+    name: "allowLoanCategoryCount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "allowRecommendedLoan",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "applicationCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "applicationSubmitter",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "approveApplication",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "collateralId",
+        type: "uint256",
+      },
+    ],
+    name: "attestCollateral",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "closeLoan",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "collateralConfig",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "maxLoanToValueBps",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "collateralCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "collaterals",
+    outputs: [
+      {
+        internalType: "address",
+        name: "registrant",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "attestedBy",
+        type: "address",
+      },
+      {
+        internalType: "euint8",
+        name: "encryptedType",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedAppraisedValue",
+        type: "bytes32",
+      },
+      {
+        internalType: "eaddress",
+        name: "encryptedOwner",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "pledgedTo",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "registeredAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "computeCreditScore",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "computeLoanRecommendation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptApplication",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptLoanCategoryCount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptedApplications",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "farmData",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "yieldPrediction",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "loanAmount",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "disburseLoan",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedApplications",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "cropType",
+        type: "string",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedFarmData",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedYieldPrediction",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedLoanAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "getApplicant",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "getApplicationCollateralIds",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+    ],
+    name: "getApplicationCountByApplicant",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+    ],
+    name: "getApplicationIdsByApplicant",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+    ],
+    name: "getApplicationIdsBySubmitter",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "registrant",
+        type: "address",
+      },
+    ],
+    name: "getCollateralIdsByRegistrant",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "getDecryptedApplication",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "farmData",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "yieldPrediction",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "loanAmount",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedCollateralCoverage",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "pledgedValue",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "covered",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedCreditScore",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+    ],
+    name: "getEncryptedLoanCategoryCount",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedRecommendedLoan",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedYieldStatistics",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "mean",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "variance",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getMyApplicationIds",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "getPlantingHistory",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "season",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "cropType",
+            type: "string",
+          },
+          {
+            internalType: "euint32",
+            name: "encryptedArea",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "encryptedPlantedAt",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "encryptedHarvestedAt",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "encryptedRealisedYield",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct AgriFinanceFHE.PlantingSeason[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getRevealedCategoryCounts",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "categories",
+        type: "string[]",
+      },
+      {
+        internalType: "uint32[]",
+        name: "counts",
+        type: "uint32[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "revealedAt",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum AgriFinanceFHE.Role",
+        name: "role",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum AgriFinanceFHE.Role",
+        name: "role",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isLender",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "cooperative",
+        type: "address",
+      },
+    ],
+    name: "joinCooperative",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "leaveCooperative",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "loanRepayment",
+    outputs: [
+      {
+        internalType: "contract LoanRepayment",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "loanStatus",
+    outputs: [
+      {
+        internalType: "enum AgriFinanceFHE.LoanStatus",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "markDefaulted",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "memberCooperative",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "collateralId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "pledgeCollateral",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "recommendationConfig",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "pricePerUnit",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "loanToValueBps",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "recomputeCollateralCoverage",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint8",
+        name: "encryptedType",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAppraisedValue",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEaddress",
+        name: "encryptedOwner",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "registerCollateral",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "rejectApplication",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "collateralId",
+        type: "uint256",
+      },
+    ],
+    name: "releaseCollateral",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "requestApplicationDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+    ],
+    name: "requestLoanCategoryCountDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum AgriFinanceFHE.Role",
+        name: "role",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "scoringConfig",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "baseScore",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "yieldWeight",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "farmWeight",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "loanWeight",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "minYield",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "minFarmArea",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "yieldBonus",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "farmBonus",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "coverageBonus",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "maxYieldVarianceBps",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "stabilityBonus",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "maxLoanToValueBps",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct AgriFinanceFHE.CollateralConfig",
+        name: "config",
+        type: "tuple",
+      },
+    ],
+    name: "setCollateralConfig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract LoanRepayment",
+        name: "repayment",
+        type: "address",
+      },
+    ],
+    name: "setLoanRepayment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "pricePerUnit",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "loanToValueBps",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct AgriFinanceFHE.RecommendationConfig",
+        name: "config",
+        type: "tuple",
+      },
+    ],
+    name: "setRecommendationConfig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "baseScore",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "yieldWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "farmWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "loanWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "minYield",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "minFarmArea",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "yieldBonus",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "farmBonus",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "coverageBonus",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "maxYieldVarianceBps",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "stabilityBonus",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct AgriFinanceFHE.ScoringConfig",
+        name: "config",
+        type: "tuple",
+      },
+    ],
+    name: "setScoringConfig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "startRepayment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "startReview",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "cropType",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedFarmData",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedYieldPrediction",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedLoanAmount",
+        type: "bytes32",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "season",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "cropType",
+            type: "string",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "area",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "plantedAt",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "harvestedAt",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "realisedYield",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct AgriFinanceFHE.PlantingSeasonInput[]",
+        name: "plantingHistory",
+        type: "tuple[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEncryptedLoanApplication",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "applicant",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "cropType",
+            type: "string",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "farmData",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "yieldPrediction",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "loanAmount",
+            type: "bytes32",
+          },
+          {
+            components: [
+              {
+                internalType: "string",
+                name: "season",
+                type: "string",
+              },
+              {
+                internalType: "string",
+                name: "cropType",
+                type: "string",
+              },
+              {
+                internalType: "externalEuint32",
+                name: "area",
+                type: "bytes32",
+              },
+              {
+                internalType: "externalEuint32",
+                name: "plantedAt",
+                type: "bytes32",
+              },
+              {
+                internalType: "externalEuint32",
+                name: "harvestedAt",
+                type: "bytes32",
+              },
+              {
+                internalType: "externalEuint32",
+                name: "realisedYield",
+                type: "bytes32",
+              },
+            ],
+            internalType: "struct AgriFinanceFHE.PlantingSeasonInput[]",
+            name: "plantingHistory",
+            type: "tuple[]",
+          },
+        ],
+        internalType: "struct AgriFinanceFHE.BatchApplicationInput[]",
+        name: "applications",
+        type: "tuple[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEncryptedLoanApplicationBatch",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newAdmin",
+        type: "address",
+      },
+    ],
+    name: "transferAdmin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60406080815234620002e65762000015620002ea565b5f81525f606060209282848201528285820152015262000034620002ea565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69808583015273a02cda4ca3a71d7c46997716f4283aa851c28812918287820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f55335f7ff8ccb027dfcd135e000e9d45e6cc2d662578a8825d4c45b5e32e0adf67e79ec68180a3335f5260018152815f205f80528152815f20600160ff1982541617905533335f7f570d3756e5b890fbf84c01fc2daf898fa7e95ae3ca9f1ed5edf012eacb5c6ce68180a481516001600160401b0390610160810182811182821017620002d25784526101f48152600a838201526103e88482015260016060820152610bb86080820152600560a0820152606460c08201819052603260e083015260fa610100830152610190610120830152610140909101527c32000000640000000500000bb800000001000003e80000000a000001f4600255600380546001600160601b031916686400000190000000fa179055825180840182811182821017620002d2578452600a815261177090830152600480546001600160401b0319166517700000000a179055825191820190811182821017620002d2578252611b5880915263ffffffff19600554161760055551615f7490816200030b8239f35b634e487b7160e01b5f52604160045260245ffd5b5f80fd5b60405190608082016001600160401b03811183821017620002d25760405256fe604060808152600480361015610013575f80fd5b5f9160e05f35811c908162588bd1146137b45781630471624a1461361a578163088d46c9146135d55781630c667a781461359c578163119355e314611a3f578163148923e31461334c57816318bc41d3146133315781631a3034cd1461327a5781631d685dd51461311f578163213fbf1b1461306657816324c1173b14612ff657816329fcb3b714612f535781632b4f919214612c2d5781632de3772514612c1357816331c00bed1461278a57816339007b77146125805781633bfa7c0b146121e65781633da39357146121b65781633e91e5fa146121995781633ef758a1146120d157816346fba40a14611ff95781634831d0bb14611f955781634cbb87d314611efc5781635c0ab4de14611ed85781635c529ff214611c815781635d5664e114611ba95781635e614e7414611b8e57816368b5212614611a9a578163697906ae14610ddc57816369d0db0d14611a3f5781636d6ed3dc14611996578163709b89611461195257816371c7ff15146118ec57816373216450146117ff57816375829def1461175857816377d449bf1461169e5781637b3721ef146116285781637ecfe3cb14611600578163849d7f92146115d55781638944af601461159e5781638a777a6e146115365781638de25e241461150e57816397121b65146114f357816399cd5cb9146114455781639b0869e0146113305781639e97b8f6146112f5578163a7528f0b14611238578163adc2b9bf146111a7578163b118e1d014611131578163b6faaf8a14611113578163b73e4da014610f3d578163c01ec85f14610f14578163c3019ba214610de1578163c361332f14610ddc578163c42426b514610da1578163c56378ae14610d32578163c5e83e9714610c78578163cae49b8314610bee57508063cbc2b9c814610bbc578063cc52ad0814610993578063d05951a01461080c578063da1f12ab146107ef578063dcc9e14e146107a4578063de21ebe214610739578063e2aad4a01461071a578063e3affd851461067a578063ee2eb06d1461065e578063eea3f82d14610628578063f1884229146105f6578063f851a440146105ce578063f87bc71e146105445763fce8741a14610337575f80fd5b346105405780600319360112610540576001600160401b03823581811161053c576103659036908501613c84565b916024359081116105385761037d9036908601613c57565b3387526001936020966001885286892060035f5288526103a260ff885f2054166144b0565b8115158061052d575b156104f557506103ba816144ee565b975b8181106103d9578651888152806103d5818b018c613cfe565b0390f35b806103e687928488614520565b896103f08261533d565b8a81516104985787915061043b92899161041561040c87614542565b92870187614556565b9161042360a0890189614588565b94909360808a01359360608b0135938b013592614a8b565b610445838d6142d6565b52610450828c6142d6565b51906001600160a01b039061046490614542565b16908951908382527f5c02d82bcbb8f2a6e562c6c372bc2e290911dc9e52d30d5ce0dbf4a157effe038c3393a45b016103bc565b6104ed6104c67f784881e756361fa72160ad84b11cf2bfbf973db4e3e20d0844f7d0f5cf15d4439495614542565b92825193849360609788928a875260018060a01b0316908601528401523395830190613bf7565b0390a2610492565b865162461bcd60e51b81529081018890526012602482015271496e76616c69642062617463682073697a6560701b6044820152606490fd5b5060148211156103ab565b8580fd5b8480fd5b8280fd5b8382346105ca5760209081600319360112610540576001600160a01b03610569613bc0565b16835260158252808320815190819485928583549182815201928252858220915b868282106105b35785906103d5886105a484890385613af6565b51928284938452830190613cfe565b83548552889550909301926001928301920161058a565b5080fd5b8382346105ca57816003193601126105ca57905490516001600160a01b039091168152602090f35b509034610540576020366003190112610540579181923581526012602052206001815491015482519182526020820152f35b5090346105405760203660031901126105405735825260086020908152918190206001015490516001600160a01b039091168152f35b8382346105ca57816003193601126105ca576020905160028152f35b8382346105ca577fbb02665aec6b08dc5072a2b98f336c07ca41a8bb7e1007b420bdf59000d5de016107146106ae36613c1c565b3385526020936001855280862060025f5285526106d060ff825f20541661424e565b6107038151868185516106e68183858a01613bd6565b81016018815203019020546106fc811515614288565b3390615605565b519182918583523395830190613bf7565b0390a280f35b8382346105ca57816003193601126105ca576020906007549051908152f35b5034610540576020366003190112610540576107926107a192359133855260016020528085205f805260205261077460ff825f205416614166565b82855260086020528420600101546001600160a01b0316151561419f565b61079c3391614f92565b615605565b80f35b508290346105ca5760203660031901126105ca5782358252600a60205260ff818320541690519160088210156107dc57602083838152f35b634e487b7160e01b815260218452602490fd5b8382346105ca57816003193601126105ca57602090516127118152f35b5034610540576020918260031936011261098f57803590338552600190600185528386205f8052855261084460ff855f205416614166565b5f8381526008865284902060010154610867906001600160a01b0316151561419f565b825f52600a855260ff845f20541690600882101561097c5750819061088f60058092146140d9565b835f52600a8652845f20600660ff1982541617905533847f19fac8cdcd0bcf1377b5f3516205a8db06089e32e286f2a98bfe4889de35b8328980a3838752601686528487209087925b610911575b50505050835260168252822090815490838355816108f9578380f35b61090a928452832090810190613e9a565b5f80808380f35b815483101561097757838386610928839686613f4e565b9054600391821b1c8c5260148b528b858b822001556109478387613f4e565b9054911b1c7fd6513284110ca9c03fb9099da6d3e2c1c34761de7886e2185080cc9a91a463078c80a301926108d8565b6108dd565b602190634e487b7160e01b5f525260245ffd5b8380fd5b508234610bb95780600319360112610bb957906019546109b281614237565b916109bf81519384613af6565b8183526109cb82614237565b93602093601f19809601825b818110610baa5750506109e984614237565b946109f684519687613af6565b848652610a0285614237565b8682019701368837610a13856144ee565b94835b818110610ac75750508351956060870160608852835180915260808801908360808260051b8b010195019186905b8a838310610a965787038b8701525050915180855293830198949150505b828110610a7c578688038588015286806103d58a89613cfe565b835163ffffffff1688529681019692810192600101610a62565b9580610ab581996001949596979b99607f199082030186528b51613bf7565b99019201920190929196959496610a44565b610ad48195939495613f05565b5090865191849286825492610ae884613d31565b9060019485811690815f14610b925750600114610b60575b50508185601a6001975203019020610b20610b1a84613f05565b50613d69565b610b2a848a6142d6565b52610b3583896142d6565b5063ffffffff815416610b48848d6142d6565b520154610b55828a6142d6565b520193929193610a16565b88528888209550889150875b818110610b80575082019450816001610b00565b86548482015295840195899201610b6c565b60ff1916855250508015150282019450816001610b00565b606083820188015286016109d7565b80fd5b509034610540576020366003190112610540579181923581526017602052206001815491015482519182526020820152f35b82848634610bb9576020366003190112610bb957813581526008602052829020805460018201546001600160a01b03169490939190610c5f610c3260028401613d69565b6003840154958401549280600660058701549601549680519a8b9a8b5260208b0152890152870190613bf7565b936060860152608085015260a084015260c08301520390f35b5050346105405760208060031936011261098f57823592338552600182528285205f80528252610cad60ff845f205416614166565b5f8481526008835283902060010154610cd0906001600160a01b0316151561419f565b835f52600a825260ff835f20541690600882101561097c575090610cf86001600a93146140d9565b835f52525f20600360ff1982541617905533907fd88c67b75067601e318509cc4cd19649c6e5b2af3396e2152bd8faf039f624a18380a380f35b505050346105ca5760203660031901126105ca57356001600160a01b038181169182900361054057610d68908354163314614386565b600680546001600160a01b031916821790557fe307ed45f9a260f4e44128d896380916bda532df2f52ebaf7663958ac2aebca68280a280f35b8483346105ca57602090610dca82610db836613c1c565b81845193828580945193849201613bd6565b81016018815203019020549051908152f35b613ce3565b50509034610540576020918260031936011261098f57813592338552600181528185205f80528152610e1860ff835f205416614166565b5f84815260088252829020600101546001600160a01b039190610e3e908316151561419f565b845f52600a815260ff835f2054166008811015610f015784939291610e678896600a93146140d9565b865f5252815f20600560ff19825416179055600654169182610eae575b8333867fb4640e4aa24b2a0acdb36d9e3e011d4b0c529d94291a137c05409e7a8f68cc978380a380f35b823b1561098f5784602485928451958693849263f9cca13b60e01b84528301525afa908115610ef85750610ee4575b8080610e84565b610eed90613ac8565b6105ca57815f610edd565b513d84823e3d90fd5b602185634e487b7160e01b5f525260245ffd5b50509034610540576020366003190112610540576020928291358152600f845220549051908152f35b828585346110fc57602092836003193601126110fc57813591335f5260018552815f205f80528552610f7460ff835f205416614166565b5f83815260088652829020600101546001600160a01b039390610f9a908516151561419f565b805f52600a865260ff835f2054166008811015611100576002610fbd91146140d9565b805f52600a8652825f208260ff1982541617905582519333827f9e003ed43b1d48ee01bd3dab23f09cfefaa5155ccae549cf83967adf17e849265f80a380600654169687611009578680f35b60089052835f209460058601978854835f80516020615f488339815191525416803b156110fc57630f8e573b60e21b84528684019182526001600160a01b0390921660208201525f91839182908490829060400103925af180156110f2576110df575b509586600187986006541692549601541692813b156110db5786608492819587519889968795633184c69160e11b8752860152602485015260448401523360648401525af1908115610ef857506110c7575b80808080808680f35b6110d090613ac8565b610bb95780826110be565b8680fd5b6110ea919650613ac8565b5f948761106c565b85513d5f823e3d90fd5b5f80fd5b602183634e487b7160e01b5f525260245ffd5b82346110fc575f3660031901126110fc576020906013549051908152f35b82346110fc576020806003193601126110fc576001600160a01b03611154613bc0565b165f52600d8152815f20918051809384918482549182815201915f52845f20905f5b868282106111905785906103d5886105a484890385613af6565b835485528895509093019260019283019201611176565b9050346110fc575f3660031901126110fc57610160916002549163ffffffff91600354918151948481168652848160201c1660208701528481841c1683870152848160601c166060870152848160801c166080870152848160a01c1660a0870152848160c01c1660c0870152811c90850152828216610100850152828260201c166101208501521c16610140820152f35b82346110fc5760203660031901126110fc576001600160a01b038061125b613bc0565b168092815f526001602052805f2060035f5260205261127f60ff825f2054166144b0565b335f52600e6020525f20918254908116806112ca575b506001600160a01b031916179055337ff353b54d11e058765a48e10f6156682ac0fea37c4329bf648120dd896c2368655f80a3005b337fde6d5257e6ebf700fbea625c4aaf11f8aa0b59ddf8664aaefd51a9be38a487445f80a384611295565b82346110fc5760209060ff61132561130c36613cb4565b6001600160a01b03165f9081526001865284902061413c565b541690519015158152f35b5050346110fc5761134036613b7a565b91939092845f52602091601b8352815f209060ff82541690600382101561097c57506002611384926113768261137c9414613e0b565b01613d69565b9385876145bd565b81848051810103126110fc577f8d34d1c1bf2a67c8b1ebf996d874b981f767eac5bfccc9e57dac398727521b58946113c0836114379601613e89565b9082516113cc81613aad565b600163ffffffff809416938483528683019042825286518881816113f68d83815193849201613bd6565b8101601a81520301902093511663ffffffff19845416178355519101555f52601b8352611424825f20613eb0565b8151948594606086526060860190613bf7565b9284015242908301520390a1005b8284346110fc576020806003193601126110fc57335f5260018152825f205f8052815260ff835f20541680156114d1575b61147f906141e3565b81355f52600f8152825f205492831561149e5761149c3385615605565b005b5162461bcd60e51b815291820152600f60248201526e14d8dbdc99481b9bdd08199bdd5b99608a1b604482015260649150fd5b50335f5260018152825f2060015f52815261147f60ff845f2054169050611476565b82346110fc575f3660031901126110fc576020905160148152f35b5050346110fc5760203660031901126110fc57602091355f5260108252805f20549051908152f35b8284346110fc57602090816003193601126110fc57355f5260168152815f20918051809384918482549182815201915f52845f20905f5b868282106115875785906103d5886105a484890385613af6565b83548552889550909301926001928301920161156d565b82346110fc5760203660031901126110fc576020906001600160a01b036115c3613bc0565b165f52600b8252805f20549051908152f35b8284346110fc575f3660031901126110fc575463ffffffff825191818116835260201c166020820152f35b82346110fc575f3660031901126110fc5760065490516001600160a01b039091168152602090f35b82346110fc576020806003193601126110fc576001600160a01b0361164b613bc0565b165f52600b8152815f20918051809384918482549182815201915f52845f20905f5b868282106116875785906103d5886105a484890385613af6565b83548552889550909301926001928301920161166d565b8284346110fc576020806003193601126110fc57335f5260018152825f205f8052815260ff835f2054168015611736575b6116d8906141e3565b81355f5260108152825f20549283156116f55761149c3385615605565b5162461bcd60e51b815291820152601860248201527f5265636f6d6d656e646174696f6e206e6f7420666f756e640000000000000000604482015260649150fd5b50335f5260018152825f2060015f5281526116d860ff845f20541690506116cf565b8284346110fc5760203660031901126110fc57611773613bc0565b5f54916001600160a01b038084169261178d338514614386565b169384156117cc57505082907ff8ccb027dfcd135e000e9d45e6cc2d662578a8825d4c45b5e32e0adf67e79ec65f80a36001600160a01b031916175f55005b906020606492519162461bcd60e51b8352820152600d60248201526c24b73b30b634b21030b236b4b760991b6044820152fd5b5050346110fc576020806003193601126110fc57823592335f5260018252825f205f8052825261183460ff845f205416614166565b835f52600a825260ff835f20541690600882101561097c5780821480156118e2575b61185f906140d9565b5f8581526008845284902060010154611882906001600160a01b0316151561419f565b845f52600a835260ff845f20541690600882101561097c5750600a92916118a991146140d9565b835f52525f20600760ff1982541617905533907f13b88e6866f0156d706fecfa22b678de5fc2b749c1d2307f6f47eb541385f1ec5f80a3005b5060058214611856565b82346110fc575f3660031901126110fc57335f526020600b8152815f20918051809384918482549182815201915f52845f20905f5b8682821061193b5785906103d5886105a484890385613af6565b835485528895509093019260019283019201611921565b82346110fc5760203660031901126110fc576020906001600160a01b03611977613bc0565b165f5260018252805f205f8052825260ff815f20541690519015158152f35b82346110fc5760203660031901126110fc5760ff6119c891335f526001602052805f205f80526020525f205416614166565b63ffffffff806119d661440b565b16151580611a25575b6119e89061446c565b6119f061440b565b1663ffffffff1960055416176005557fe31f593600ed66f735153e9817feae2cea79b1f3ef996a051c916928ba63a97a5f80a1005b506119e861271082611a3561440b565b16111590506119df565b8284346110fc5760203660031901126110fc57355f908152600960209081529082902054825163ffffffff808316825282841c8116938201939093529281901c909116604083015260ff606091821c16151590820152608090f35b5050346110fc57806003193601126110fc57335f526001602052805f205f8052602052611acc60ff825f205416614166565b63ffffffff90611ae961271083611ae16143d2565b16111561446c565b62061a8082611af661440b565b1611611b535750611b0561440b565b1681549067ffffffff00000000611b1a6143d2565b60201b16916001600160401b031916171790557f2f87eada59f8e07f8fae890f95720fc0de07e68880271015616e314e49c75b0b5f80a1005b5162461bcd60e51b81526020818401526016602482015275125b9d985b1a59081c1c9a58d9481c195c881d5b9a5d60521b6044820152606490fd5b82346110fc575f3660031901126110fc576020905160018152f35b5050346110fc57611bb936613cb4565b5f549193916001600160a01b039190611bd59083163314614386565b16918215611c4c57825f52600160205260ff611bf385835f2061413c565b541615611bfc57005b83611c1091845f5260016020525f2061413c565b805460ff191660011790558083101561097c575033917f570d3756e5b890fbf84c01fc2daf898fa7e95ae3ca9f1ed5edf012eacb5c6ce65f80a4005b906020606492519162461bcd60e51b8352820152600f60248201526e125b9d985b1a59081858d8dbdd5b9d608a1b6044820152fd5b9050346110fc576101603660031901126110fc57335f5260209260018452825f205f80528452611cb660ff845f205416614166565b63ffffffff9061271082611cc86143be565b1611611e9c57637fffffff82611cdc6143d2565b611ce46143e5565b17611ced6143f8565b1716111580611e52575b15611e0f575080611d0661440b565b169067ffffffff000000009283611d1b6143d2565b871b169063ffffffff60401b9384611d316143e5565b881b1663ffffffff60601b611d446143f8565b60601b166084359186831683036110fc5760a4359387851685036110fc5763ffffffff60c01b611d7261441e565b60c01b16956001600160e01b031990611d89614431565b901b16961717179063ffffffff60801b9060801b16179063ffffffff60a01b9060a01b16171717600255611dbb614444565b169160035494611dc96143be565b901b1692611dd5614458565b901b16926001600160601b0319161717176003557f20e3c7706cccbc0ffbc6f2040568c6a2f74d706509284dfed867dec7a1e768955f80a1005b835162461bcd60e51b8152908101859052601760248201527f496e76616c69642073636f72696e6720776569676874730000000000000000006044820152606490fd5b5081611e95611e8c611e83611e7a84611e6961440b565b1685611e7361441e565b16906142ea565b84611e73614431565b83611e73614444565b82611e73614458565b1115611cf7565b835162461bcd60e51b81529081018590526016602482015275496e76616c6964207969656c642076617269616e636560501b6044820152606490fd5b82346110fc575f3660031901126110fc5760209063ffffffff600554169051908152f35b5050346110fc57611f0c36613cb4565b5f549193916001600160a01b039190611f289083163314614386565b1691825f52600160205260ff611f4085835f2061413c565b5416611f4857005b83611f5c91845f5260016020525f2061413c565b805460ff191690558083101561097c575033917f5a8379f4a3380f87fd5924475f76a3471ac8d775668601653e3f9ef69a3dd2715f80a4005b5050346110fc5760203660031901126110fc57611fef61149c923591335f526001602052805f205f8052602052611fd160ff825f205416614166565b5f838152600860205220600101546001600160a01b0316151561419f565b61079c3391614d27565b8284346110fc576020806003193601126110fc5761149c92600161209e933591335f52818452805f205f8052845260ff815f20541680156120b4575b61203e906141e3565b825f526014845260146005825f2001549461205a86151561430b565b845f52525f2001336001600160601b0360a01b82541617905533907f870a93044fba1653d5135c3eae09bbe9446f63b58c217bcf5c7bc9f6f2c57ad25f80a36147d6565b6120a9338254615605565b600133910154615605565b50335f90815282855281812083825285528190205460ff16612035565b8284346110fc5760c03660031901126110fc576001600160401b039080358281116110fc576121039036908301613c57565b926084358181116110fc5761211b9036908501613c84565b92909160a4359081116110fc576121359036908601613c57565b959094612143821515614345565b600a8511612163575061149c965060643591604435916024359133614a8b565b606490602089519162461bcd60e51b8352820152601060248201526f546f6f206d616e7920736561736f6e7360801b6044820152fd5b82346110fc575f3660031901126110fc5760209051620f42408152f35b5050346110fc5760203660031901126110fc57602091355f52600c825260018060a01b03815f2054169051908152f35b5050346110fc576020806003193601126110fc57823592835f526008825260018060a01b03916001916122218484875f20015416331461409d565b855f5260088252845f20936009835261224360ff875f205460601c1615613e49565b85516001600160401b03608082018181118382101761256d578852600382528482019660603689376003810154612279846142c9565b5284810154835188101561255a57838a0152600501548251600210156125475760608301525f907f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0092835498855f80516020615f48833981519152541695863b156110fc578b51637d6e912360e11b81528881018a905260249781806123018b82018861545b565b03815a5f948591f1801561253d5761252a575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561053c57848c518092633263b83b60e01b82528d8b83015260608a830152818381612369606482018a61545b565b62588bd160e01b604483015203925af180156125205790859161250c575b508a90527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018089528b8520546124fc578a855288528a842091519283116124ea57600160401b83116124ea5781548383558084106124c3575b5090835286832088845b8481106124b15750505050508154905f19821461249f57508501905585519561241287613a77565b848752601b8488019489865282519761242a89613adb565b5f8952838a019889525f52525f20955191600383101561248e57876124688860028989898960ff801987541691161785555190840155519101613f63565b7f692f7082be436727c1eb360ad57f2116cf8e2d16001837c08adafb7e0fa2f8f95f80a2005b602190634e487b7160e01b5f52525ffd5b634e487b7160e01b8152601185528390fd5b898451940193818401550189906123ea565b82855289848a872092830192015b8281106124df5750506123e0565b5f8155018a906124d1565b634e487b7160e01b8452604187528584fd5b8b51633f06d22b60e01b81528890fd5b61251590613ac8565b61098f57838d612387565b8c513d87823e3d90fd5b612535919550613ac8565b5f938d612314565b8d513d5f823e3d90fd5b603285634e487b7160e01b5f525260245ffd5b603286634e487b7160e01b5f525260245ffd5b604185634e487b7160e01b5f525260245ffd5b8284346110fc576020806003193601126110fc57813592835f52601482526125b460018060a01b03825f2054163314614060565b835f52601482526005815f200154916125ce83151561430b565b825f52600a815260ff825f2054166008811015908161277757801591821561276a575b8215612759575b50501561272357825f5260168152815f205f5b81548082101561270d5787906126218385613f4e565b929054600393841b1c1461263957505060010161260b565b915f97919495969719928381019081116126fa5761266a61265d6126809287613f4e565b905490881b1c9286613f4e565b819391549060031b91821b915f19901b19161790565b905582549081156126e7575061149c97945f94600594848a999560149501926126a98484613f4e565b81939154921b1b19169055555b85855252822001557fd6513284110ca9c03fb9099da6d3e2c1c34761de7886e2185080cc9a91a463075f80a36147d6565b603190634e487b7160e01b5f525260245ffd5b601183634e487b7160e01b5f525260245ffd5b505050829350600561149c959260145f936126b6565b8390606492519162461bcd60e51b8352820152601160248201527010dbdb1b185d195c985b081b1bd8dad959607a1b6044820152fd5b909150610f015760061486806125f8565b506003811491505f6125f1565b602186634e487b7160e01b5f525260245ffd5b5050346110fc5760803660031901126110fc576024916064356001600160401b0381116110fc576127be9036908301613c57565b6013939193549260018401809411612c0157836013556127df368387613b17565b9560018060a01b03915f80516020615f288339815191529683885416978651998a998a61282d63196d0b9b60e01b938483528735888401523389840152608060448401526084830190613bf7565b9160026064830152815f60209e8f9503925af19a8b15612bf7575f9b612bc8575b505f80516020615f4883398151915292868454169b8c3b156110fc578951630f8e573b60e21b808252878201838152336020820152909e908290819060400103815a5f948591f18015612bbe57918d915f989796959493612baf575b508015612b47575b60648a865416918d51998a9384926304559f7160e01b84528b84015260038d840152600160f81b60448401525af1958615612b3d578c9392918a8a925f99612b02575b50916129205f9261291861291161294c9b9c9d96369084613b17565b863561571c565b9d3691613b17565b945416928c519788958694859384526044358c8501523390840152608060448401526084830190613bf7565b6007606483015203925af1918215612af8579085915f93612ac5575b50541698893b156110fc57865190815282810182815233602082015290995f918b919082908490829060400103925af1988915612abb5760069596979899612aac575b506129b63084615605565b6129c03384615605565b6129ca3087615605565b6129d43387615605565b6129de3082615605565b6129e83382615605565b8651956129f487613a92565b338752898701935f8552888801908152606088019182526080880192835260a08801945f865260c08901964288528b5f5260148d52808b5f209a5116906001600160601b0360a01b91828c5416178b5560018b0192511690825416179055516002880155516003870155519085015551600584015551910155335f5260158352612a8082825f20614116565b519033817f5febe3949ae3e3a11323237244ec36b3931ea6994d2404bed864687ba68db7165f80a38152f35b612ab590613ac8565b896129ab565b86513d5f823e3d90fd5b8a809294508193503d8311612af1575b612adf8183613af6565b810103126110fc57849051918b612968565b503d612ad5565b87513d5f823e3d90fd5b9798505093905085813d8311612b36575b612b1d8183613af6565b810103126110fc57935194938b9288908a6129206128f5565b503d612b13565b8a513d5f823e3d90fd5b508884541660448c5180998193639cd07acb60e01b8352818b84015260028d8401525af18015612b3d578c905f90612b82575b5f97506128b2565b5086813d8311612ba8575b612b978183613af6565b810103126110fc578b5f9651612b7a565b503d612b8d565b612bb890613ac8565b8f6128aa565b8b513d5f823e3d90fd5b909a508981813d8311612bf0575b612be08183613af6565b810103126110fc5751998b61284e565b503d612bd6565b88513d5f823e3d90fd5b60118691634e487b7160e01b5f52525ffd5b82346110fc575f3660031901126110fc57602090515f8152f35b8284346110fc57612c3d36613c1c565b90335f52600190602091808352845f2060025f528352612c6260ff865f20541661424e565b845183818651612c758183858b01613bd6565b810160188152030190205490612c8c821515614288565b8551612c9781613aad565b8181528481019285368537612cab826142c9565b527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080545f80516020615f488339815191525490946001600160a01b03918216935f92853b156110fc578b51637d6e912360e11b81525f816024988d8d830152818381612d1a8d82018a61545b565b03925af1801561253d57612f40575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561098f57838c518092633263b83b60e01b82528a8c830152606089830152818381612d7e606482018961545b565b6304d8434f60e51b604483015203925af18015612f3657908491612f22575b508790527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808a528b842054612f125787845289528a83209051916001600160401b038311612f0057600160401b8311612f00578154838355808410612ed9575b5090835288832086845b848110612ec75750505050508154905f198214612eb5575083019055865193612e3085613a77565b60028552858501915f8352888601948886525f52601b8752885f20955191600383101561248e5750507f6c73273eff8e86ef923bf5d654f96af1a2a220be5a1fe9a5632fbd0fe26a6a3e9793612ea193612eb0969360029360ff801987541691161785555190840155519101613f63565b51928284938452830190613bf7565b0390a1005b634e487b7160e01b8152601187528390fd5b8b845194019381840155018790612e08565b82855287848c872092830192015b828110612ef5575050612dfe565b5f8155018890612ee7565b634e487b7160e01b8452604189528584fd5b8b51633f06d22b60e01b81528990fd5b612f2b90613ac8565b61054057828c612d9d565b8c513d86823e3d90fd5b612f4b919450613ac8565b5f928c612d29565b5050346110fc575f3660031901126110fc57335f908152600e602052819020546001600160a01b0316918215612fc55750335f52600e6020525f206001600160601b0360a01b8154169055337fde6d5257e6ebf700fbea625c4aaf11f8aa0b59ddf8664aaefd51a9be38a487445f80a3005b6020606492519162461bcd60e51b8352820152600c60248201526b2737ba10309036b2b6b132b960a11b6044820152fd5b8284346110fc5760203660031901126110fc5780355f526014602052815f2060018060a01b03928382541693600183015416926002830154600384015491840154926006600586015495015495815197885260208801528601526060850152608084015260a083015260c0820152f35b5050346110fc576020806003193601126110fc57823592335f5260018252825f205f8052825261309b60ff845f205416614166565b5f84815260088352839020600101546130be906001600160a01b0316151561419f565b835f52600a825260ff835f20541690600882101561097c5750906130e66001600a93146140d9565b835f52525f20600260ff1982541617905533907fd4829f45099f9fa7e85153a0ea413a85dadd5d09c3ff1baa69160e014c86e4ea5f80a3005b8284346110fc57602090816003193601126110fc579081355f5260118152825f2090815461314c81614237565b9361315986519586613af6565b8185525f9384528284208386019491855b848410613215575050505050835192818401908285525180915284840191858260051b86010193925f965b8388106131a25786860387f35b90919293948380600192603f198a82030186528851906131de6131ce60c0845190808552840190613bf7565b8484015183820386850152613bf7565b918681015187830152606080820151908301526080808201519083015260a080910151910152970193019701969093929193613195565b6006866001928b9a989a5161322981613a48565b61323287613d69565b815261323f858801613d69565b8382015260028701548d82015260038701546060820152858701546080820152600587015460a082015281520193019301929196949661316a565b5050346110fc576020806003193601126110fc57823592335f5260018252825f205f805282526132af60ff845f205416614166565b5f84815260088352839020600101546132d2906001600160a01b0316151561419f565b835f52600a825260ff835f20541690600882101561097c5750906132f8600a92156140d9565b835f52525f20600160ff1982541617905533907f73942c69e3f30a40797d2ddb013c01bf40db3a1c6c17f4e4b0b1a3156dc6058c5f80a3005b82346110fc575f3660031901126110fc576020905160038152f35b8284346110fc57602091826003193601126110fc57813592335f52600192838252825f205f8052825260ff835f205416801561357f575b9061338e85926141e3565b855f5260088352835f20906133af60018060a01b038484015416151561419f565b6003916133c0336003830154615605565b6133cd3383830154615605565b6133de600591600533910154615605565b875f5260118552855f20845f905b6134fc575b505050865f526012845282855f208054806134eb575b500154806134da575b50865f5260168452845f20835f905b613482575b5050505050601790845f52525f209081018054613464575b33837fb98f67f6029879df3f71704681578bcac190ee46ac351ed46e7b02955ae342855f80a3005b61347361347b92339054615605565b339054615605565b818061343c565b81548110156134d55780613497869284613f4e565b905490861b1c5f52601487526134ce885f206134b7336002830154615605565b6134c43388830154615605565b8533910154615605565b018461341f565b613424565b6134e5903390615605565b87613410565b6134f6903390615605565b89613407565b819593949554811015613576578061352461351886938561421e565b50600233910154615605565b61353c613531828561421e565b508833910154615605565b613554613549828561421e565b508733910154615605565b61356c613561828561421e565b508533910154615605565b01839594936133ec565b949392946133f1565b50335f90815284835283812085825283528390205460ff16613383565b82346110fc5760203660031901126110fc576020906001600160a01b03806135c2613bc0565b165f52600e8352815f2054169051908152f35b8284346110fc5760203660031901126110fc5761149c9161361561209e923591335f526001602052805f205f8052602052611fd160ff825f205416614166565b6147d6565b8284346110fc57816003193601126110fc5780359160243591835f526020906014825261366e60018060a01b0361365781865f2054163314614060565b855f526008845233906001865f200154161461409d565b845f52601482526005835f20015461378157835f52600a825260ff835f205416600881101580611100578115908115613775575b811561374f575b506136b491506140d9565b835f5260168252600a835f205410156137185750926136ef818493601661149c97835f5260148152866005845f200155865f52525f20614116565b7f588b8d10ebef69c054b752971db4614f25bcb44e646d5b525d5e40d2acb8d7555f80a36147d6565b915162461bcd60e51b8152918201526013602482015272151bdbc81b5d58da0818dbdb1b185d195c985b606a1b6044820152606490fd5b90506137625760026136b49114876136a9565b602182634e487b7160e01b5f525260245ffd5b5050600181145f6136a2565b915162461bcd60e51b815291820152600f60248201526e105b1c9958591e481c1b195919d959608a1b6044820152606490fd5b5050346110fc576137c436613b7a565b91805f959295526020601b8152845f2060ff8154166003811015610f0157906137f06001809314613e0b565b015495865f5260088252855f209360098352613821875f209661381a60ff895460601c1615613e49565b83866145bd565b6060828051810103126110fc576138b1600261383e858501613e89565b96613856606061384f8c8801613e89565b9601613e89565b8954604082901b63ffffffff60401b16602088901b67ffffffff000000001663ffffffff9b8c166cffffffffffffffffffffffffff1990931683171717600160601b17909a555f978852601b8752968a902061137690613eb0565b908751908251918581818601946138c9818388613bd6565b81016018815203019020548581156139e0575b5f80516020615f28833981519152548b51639cd07acb60e01b81526001818601526024810194909452839060449082905f906001600160a01b03165af1918215612b3d575f9261399b575b509261397e86899795946139637f88656ee4339abc4e84e8db60f24b6284e3b5261da9c46928c3c9f7bb50e1a4e09d9a989560609d9c976147a7565b9361396e3086615605565b8a51938492839251928391613bd6565b8101601881520301902055855196875216908501521690820152a2005b999694915097969492838a813d83116139d9575b6139b98183613af6565b810103126110fc579851959896979496939592949093929061397e613927565b503d6139af565b50506139ea61548e565b90601954600160401b811015613a3557806001613a0a9201601955613f05565b613a23575f9291613a1c868993613f63565b92506138dc565b5f82634e487b7160e01b82525260245ffd5b604182634e487b7160e01b5f525260245ffd5b60c081019081106001600160401b03821117613a6357604052565b634e487b7160e01b5f52604160045260245ffd5b606081019081106001600160401b03821117613a6357604052565b60e081019081106001600160401b03821117613a6357604052565b604081019081106001600160401b03821117613a6357604052565b6001600160401b038111613a6357604052565b602081019081106001600160401b03821117613a6357604052565b90601f801991011681019081106001600160401b03821117613a6357604052565b9291926001600160401b038211613a635760405191613b40601f8201601f191660200184613af6565b8294818452818301116110fc578281602093845f960137010152565b9080601f830112156110fc57816020613b7793359101613b17565b90565b60606003198201126110fc57600435916001600160401b036024358181116110fc5783613ba991600401613b5c565b926044359182116110fc57613b7791600401613b5c565b600435906001600160a01b03821682036110fc57565b5f5b838110613be75750505f910152565b8181015183820152602001613bd8565b90602091613c1081518092818552858086019101613bd6565b601f01601f1916010190565b60206003198201126110fc57600435906001600160401b0382116110fc57806023830112156110fc57816024613b7793600401359101613b17565b9181601f840112156110fc578235916001600160401b0383116110fc57602083818601950101116110fc57565b9181601f840112156110fc578235916001600160401b0383116110fc576020808501948460051b0101116110fc57565b60409060031901126110fc5760043560048110156110fc57906024356001600160a01b03811681036110fc5790565b346110fc575f3660031901126110fc576020604051600a8152f35b9081518082526020808093019301915f5b828110613d1d575050505090565b835185529381019392810192600101613d0f565b90600182811c92168015613d5f575b6020831014613d4b57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691613d40565b9060405191825f8254613d7b81613d31565b908184526020946001916001811690815f14613de95750600114613dab575b505050613da992500383613af6565b565b5f90815285812095935091905b818310613dd1575050613da993508201015f8080613d9a565b85548884018501529485019487945091830191613db8565b92505050613da994925060ff191682840152151560051b8201015f8080613d9a565b15613e1257565b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b15613e5057565b60405162461bcd60e51b8152602060048201526011602482015270105b1c9958591e48191958dc9e5c1d1959607a1b6044820152606490fd5b519063ffffffff821682036110fc57565b818110613ea5575050565b5f8155600101613e9a565b6002905f81555f600182015501613ec78154613d31565b9081613ed1575050565b81601f5f9311600114613ee2575055565b908083918252613f01601f60208420940160051c840160018501613e9a565b5555565b601954811015613f3a5760195f527f944998273e477b495144fb8794c914197f3ccb46be2900f4698fd0ef743c969501905f90565b634e487b7160e01b5f52603260045260245ffd5b8054821015613f3a575f5260205f2001905f90565b91909182516001600160401b038111613a6357613f808254613d31565b601f8111614025575b50602080601f8311600114613fc45750819293945f92613fb9575b50508160011b915f199060031b1c1916179055565b015190505f80613fa4565b90601f19831695845f5260205f20925f905b88821061400d57505083600195969710613ff5575b505050811b019055565b01515f1960f88460031b161c191690555f8080613feb565b80600185968294968601518155019501930190613fd6565b61405090835f5260205f20601f840160051c81019160208510614056575b601f0160051c0190613e9a565b5f613f89565b9091508190614043565b1561406757565b60405162461bcd60e51b815260206004820152600e60248201526d139bdd081c9959da5cdd1c985b9d60921b6044820152606490fd5b156140a457565b60405162461bcd60e51b815260206004820152600d60248201526c139bdd08185c1c1b1a58d85b9d609a1b6044820152606490fd5b156140e057565b60405162461bcd60e51b815260206004820152600e60248201526d496e76616c69642073746174757360901b6044820152606490fd5b805490600160401b821015613a63578161266a91600161413894018155613f4e565b9055565b906004811015614152575f5260205260405f2090565b634e487b7160e01b5f52602160045260245ffd5b1561416d57565b60405162461bcd60e51b815260206004820152600a6024820152692737ba103632b73232b960b11b6044820152606490fd5b156141a657565b60405162461bcd60e51b8152602060048201526015602482015274105c1c1b1a58d85d1a5bdb881b9bdd08199bdd5b99605a1b6044820152606490fd5b156141ea57565b60405162461bcd60e51b815260206004820152600c60248201526b2737ba103932bb34b2bbb2b960a11b6044820152606490fd5b8054821015613f3a575f52600660205f20910201905f90565b6001600160401b038111613a635760051b60200190565b1561425557565b60405162461bcd60e51b815260206004820152600b60248201526a2737ba1030bab234ba37b960a91b6044820152606490fd5b1561428f57565b60405162461bcd60e51b815260206004820152601260248201527110d85d1959dbdc9e481b9bdd08199bdd5b9960721b6044820152606490fd5b805115613f3a5760200190565b8051821015613f3a5760209160051b010190565b919082018092116142f757565b634e487b7160e01b5f52601160045260245ffd5b1561431257565b60405162461bcd60e51b815260206004820152600b60248201526a139bdd081c1b195919d95960aa1b6044820152606490fd5b1561434c57565b60405162461bcd60e51b815260206004820152601260248201527110dc9bdc081d1e5c19481c995c5d5a5c995960721b6044820152606490fd5b1561438d57565b60405162461bcd60e51b81526020600482015260096024820152682737ba1030b236b4b760b91b6044820152606490fd5b6101243563ffffffff811681036110fc5790565b60243563ffffffff811681036110fc5790565b60443563ffffffff811681036110fc5790565b60643563ffffffff811681036110fc5790565b60043563ffffffff811681036110fc5790565b60c43563ffffffff811681036110fc5790565b60e43563ffffffff811681036110fc5790565b6101043563ffffffff811681036110fc5790565b6101443563ffffffff811681036110fc5790565b1561447357565b60405162461bcd60e51b8152602060048201526015602482015274496e76616c6964206c6f616e2d746f2d76616c756560581b6044820152606490fd5b156144b757565b60405162461bcd60e51b815260206004820152600f60248201526e4e6f7420636f6f706572617469766560881b6044820152606490fd5b906144f882614237565b6145056040519182613af6565b8281528092614516601f1991614237565b0190602036910137565b9190811015613f3a5760051b8101359060be19813603018212156110fc570190565b356001600160a01b03811681036110fc5790565b903590601e19813603018212156110fc57018035906001600160401b0382116110fc576020019181360383136110fc57565b903590601e19813603018212156110fc57018035906001600160401b0382116110fc57602001918160051b360383136110fc57565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0191602091838352604093845f20541561479657855f528352835f209084518083868295549384815201905f52865f20925f5b888282106147805750505061462c92500383613af6565b8051808501908186116142f75786018091116142f7576146cd5f869461467b896146e0968151968161466789935180928d8087019101613bd6565b8201908a8201520388810187520185613af6565b6146ef60018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b875260606004880152606487019061545b565b6003199384878303016024880152613bf7565b91848303016044850152613bf7565b03925af1918215614776575f9261473f575b50501561472f57507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b90809250813d831161476f575b6147568183613af6565b810103126110fc575180151581036110fc575f80614701565b503d61474c565b83513d5f823e3d90fd5b8554845260019586019588955093019201614615565b845163d66ca67560e01b8152600490fd5b90613b779180156147c8575b816155b15790506147c261548e565b906155b1565b506147d161548e565b6147b3565b90815f5260209160088352604092835f209360168252805f20916147f861550f565b956001808201945f91908990825b6148e5575b505050509061481f60056017930154615dc5565b80156148ca575b61485361483561488892615e6a565b61484d63ffffffff600554168b8c156148bc57615ec8565b90615698565b9461485e308a615605565b80546001600160a01b0391906148769083168b615605565b6148803088615605565b541685615605565b845f52525f2093845560018401557fbc73a6f5f5199cebeba5c7c645e74bb0c489bf933c327b2aea65fc0e7fd55cf25f80a2565b506148c561550f565b615ec8565b506148886148536148356148dc61550f565b92505050614826565b9091929981548b1015614a85576148fc8b83613f4e565b9054600391821b1c5f90815260148852889020858101546001600160a01b03929190831615614a7757888b60048c86828601549354169683156149ef575b606492915f915f80516020615f2883398151915254169051988995869463f77f3f1d60e01b86528501526024840152600160f81b60448401525af1928315612b3d5790879695949392915f936149b7575b50856149ae936149a28996946149a8940154615dc5565b90615e18565b9061566f565b9b5b0193614806565b965090929091508886813d81116149e8575b6149d38183613af6565b810103126110fc57945186959290918561498b565b503d6149c9565b93905f9293506044855f80516020615f288339815191525416915180948193639cd07acb60e01b83528188840152600760248401525af190811561253d578c9392918e915f91614a41575b509261493a565b92948092508391503d8311614a70575b614a5b8183613af6565b810103126110fc57518b92908d906064614a3a565b503d614a51565b5050509990838093926149b0565b9961480b565b92919896949795936007549960018b01809b116142f757614b04614ae4614ac48796614abe8f8e8e916007553691613b17565b9061571c565b93614acf3086615605565b614ad98786615605565b614abe368d8d613b17565b9a614aef308d615605565b614af9868d615605565b614abe368c8c613b17565b99614b0f308c615605565b614b19858c615605565b6040805160068e614b2983613a92565b80835260209e8f9586850198614ba960018060a01b03809d169c8d8c52614b528d8c3691613b17565b90898901918252600860609b8c8b0195865260808b0196875260a08b0197885260c08b0198428a525f5252895f2098518955600189019c51169b6001600160601b0360a01b9c8d8254161790555160028801613f63565b516003860155516004850155516005840155519101558051608081019c6001600160401b038e11828f1017613a6357848f97614d109f9782947fa258fd3794c32df64cd016ff20d6f792a1c90ad4dad7040f15428a3a801ac2769987525f81528a614c8e8683015f81528984015f81528b8501935f85525f5260098952614c698b5f209563ffffffff93848092511663ffffffff198954161788555116869067ffffffff0000000082549160201b169067ffffffff000000001916179055565b5184546bffffffff00000000000000001916911660401b63ffffffff60401b16178355565b51815460ff60601b1916901515891b60ff60601b161790555f8b8152600b8552869020614cbc908b90614116565b895f52600c8452855f20903390825416179055335f52600d8352614ce289865f20614116565b8451968588968752860152858501375f8383018501524290830152601f01601f19168101030190a386615804565b614d1981614f92565b50614d2381614d27565b5090565b5f90808252602060088152604090818420825190614d4482613aad565b614d81600492835490614d7263ffffffff9182841681528288820194891c16845282614d7288880154615dc5565b9151169080156148bc57615ec8565b918215614f82575b5f80516020615f2883398151915280548651635a53accb60e01b8152838101959095526127106024860152600160f81b604486015293976001600160a01b039486918a91606491839189165af1978815612abb575f98614f53575b50614df26005840154615dc5565b97808915614f3e575b90869115614f30575b6064868454169a5f8a519c8d9485936304559f7160e01b85528985015260248401528160448401525af1978815612abb575f98614efe575b509060448486935416985f88519a8b9485936307227b9160e21b85528185015260248401525af1958615614ef4575f96614ebf575b5091614e916010926001889695614e883089615605565b01541685615605565b845f52525f20557fb9238d9e2958a3b305e9dc8088b27e4904abc58bbc92f1493ba9a8848035fb0d5f80a290565b955092918086813d8311614eed575b614ed88183613af6565b810103126110fc579451949192614e91614e71565b503d614ece565b84513d5f823e3d90fd5b919097508482813d8311614f29575b614f178183613af6565b810103126110fc579051966044614e3c565b503d614f0d565b50614f3961550f565b614e04565b98508590614f4a61550f565b99909150614dfb565b9097508481813d8311614f7b575b614f6b8183613af6565b810103126110fc5751965f614de4565b503d614f61565b9150614f8c61550f565b91614d89565b805f52600860205260405f20906040519161016083018381106001600160401b03821117613a635760405260025463ffffffff8116845263ffffffff8160201c16602085015263ffffffff8160401c16604085015263ffffffff8160601c16606085015263ffffffff8160801c16608085015263ffffffff8160a01c1660a085015263ffffffff8160c01c1660c085015260e01c60e084015263ffffffff600354818116610100860152818160201c1661012086015260401c1661014084015261505f6003820154615dc5565b9061511b6150706004830154615dc5565b926151466150816005850154615dc5565b9161511b886151336151216150de6150c66150ac63ffffffff6020870151168d80156148bc57615ec8565b6149a863ffffffff604088015116898a156148bc57615ec8565b9763ffffffff6060860151169080156148bc57615ec8565b996150e761548e565b9889856149a263ffffffff60c061511261510483879c5116615562565b978360808701511690615cc0565b93015116615562565b906147a7565b9363ffffffff60a08d01511690615cc0565b6149a263ffffffff60e08d015116615562565b8482156152ff575b156152ef575b602060018060a01b03956064875f80516020615f288339815191525416945f6040519687948593631391547f60e01b8552600485015260248401528160448401525af180156152e45783925f916152ab575b506151c39261511b916149a263ffffffff6101008c015116615562565b94845f52601260205260405f2060018101548015908115615233575b50505050509060016151fe926151f53087615605565b01541683615605565b805f52600f6020528160405f20557f2ebe68617d3db355b72bf87437e244424f80b1922947bb555d44030c6cfa126c5f80a290565b93615285936149a263ffffffff6101406151126151fe9b9a9d9761511b9760019b90615290575b61527161526961484d92615e6a565b925480615d41565b85610120890151169080156148bc57615ec8565b9491925f80806151df565b5061484d6152716152696152a261550f565b9250505061525a565b9250506020823d6020116152dc575b816152c760209383613af6565b810103126110fc5790518291906151c36151a6565b3d91506152ba565b6040513d5f823e3d90fd5b93506152f961550f565b93615154565b915061530961550f565b9161514e565b6040519061531c82613aad565b601282527110dc9bdc081d1e5c19481c995c5d5a5c995960721b6020830152565b6001600160a01b038061534f83614542565b165f52602090600e60205260405f2054163303615431576153736020830183614556565b9050156154275760a0820190600a61538b8385614588565b9050116153f8575f5b61539e8385614588565b90508110156153e2576153c76153be826153b88688614588565b90614520565b83810190614556565b9050156153d657600101615394565b50505050613b7761530f565b505050506040516153f281613adb565b5f815290565b50505060405161540781613aad565b601081526f546f6f206d616e7920736561736f6e7360801b602082015290565b5050613b7761530f565b505060405161543f81613aad565b600c81526b2737ba10309036b2b6b132b960a11b602082015290565b9081518082526020808093019301915f5b82811061547a575050505090565b83518552938101939281019260010161546c565b5f80516020615f2883398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156152e4575f916154e0575090565b90506020813d602011615507575b816154fb60209383613af6565b810103126110fc575190565b3d91506154ee565b5f80516020615f2883398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156152e4575f916154e0575090565b60205f91604460018060a01b035f80516020615f288339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af19081156152e4575f916154e0575090565b90602090606460018060a01b035f80516020615f288339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156152e4575f916154e0575090565b5f80516020615f48833981519152546001600160a01b031691823b156110fc57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290818381604481015b03925af180156152e4576156665750565b613da990613ac8565b90613b7791801561568a575b816155b15790506147c261550f565b5061569361550f565b61567b565b90811561570c575b80156156fa575b602090606460018060a01b035f80516020615f288339815191525416935f6040519586948593631d44e90160e21b8552600485015260248401528160448401525af19081156152e4575f916154e0575090565b50602061570561550f565b90506156a7565b905061571661550f565b906156a0565b5f80516020615f288339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f908290615774906084830190613bf7565b6004606483015203925af19081156152e4575f916157d2575b5080925f80516020615f488339815191525416803b156110fc57604051630f8e573b60e21b815260048101929092523360248301525f90829081838160448101615655565b90506020813d6020116157fc575b816157ed60209383613af6565b810103126110fc57515f61578d565b3d91506157e0565b92949390938515615c3757835f52602093601185528660408095815f209461582a61550f565b9561583361550f565b978a8c5f975b8089106159ab575050505050505050505f5260128452825f20936001600160401b03928388169061587761586d8386615c3f565b8089553090615605565b615882888854615605565b60018911615896575b505050505050505050565b6158b0916158a99180156148bc57615ec8565b9280615d41565b8215615998575b8082911561598a575b606460018060a01b035f80516020615f288339815191525416945f885196879485936303056db360e31b8552600485015260248401528160448401525af193841561598157505f93615951575b505084800294808604036142f75761593061593d92600192615943971690615c3f565b9201918083553090615605565b54615605565b5f808080808080808061588b565b9080929350813d831161597a575b6159698183613af6565b810103126110fc5751905f8061590d565b503d61595f565b513d5f823e3d90fd5b5061599361550f565b6158c0565b9150806159a361550f565b9290506158b7565b886159bf91889a9d96989c9597999c614520565b828101906159cd8282614556565b6159d991501515614345565b60a0908c8a6159e936828c613b17565b6159f6908486013561571c565b93615a013086615605565b615a0b8786615605565b8a615a168580614556565b959097615a239082614556565b615a2e368786613b17565b615a3b908489013561571c565b99615a46308c615605565b615a508c8c615605565b606093615a5e368988613b17565b615a6b908287013561571c565b978d615a77308b615605565b615a81908a615605565b60809687913690615a9192613b17565b91013590615a9e9161571c565b9b615aa9308e615605565b615ab3908d615605565b875198615abf8a613a48565b3690615aca92613b17565b88523690615ad792613b17565b948a87019586528601978852850192835284019687528301908482528b5495600160401b871015613a6357615b148d97600198898201815561421e565b959095615c2457615b5697600595615b30615b39935189613f63565b51908701613f63565b516002850155516003840155600495518684015551910155615dc5565b908115615c10575b5f80516020615f28833981519152549a516304559f7160e01b815290810191909152620f42406024820152600160f81b604482015298899060649082905f906001600160a01b03165af1978815612b3d575f98615be0575b506001916149a8615bca8a615bd19461566f565b9980615d41565b970193918893918a8c8e615839565b9097508a81813d8311615c09575b615bf88183613af6565b810103126110fc5751966001615bb6565b503d615bee565b90506064615c1c61550f565b919050615b5e565b634e487b7160e01b5f525f60045260245ffd5b505050505050565b6001600160401b03916020918015615cae575b5f80516020615f2883398151915254604051635a53accb60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156152e4575f916154e0575090565b506064615cb961550f565b9050615c52565b6001600160401b03916020918015615d2f575b5f80516020615f2883398151915254604051631391547f60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156152e4575f916154e0575090565b506064615d3a61550f565b9050615cd3565b908115615db5575b8015615da3575b602090606460018060a01b035f80516020615f288339815191525416935f6040519586948593630afe14ad60e31b8552600485015260248401528160448401525af19081156152e4575f916154e0575090565b506020615dae61550f565b9050615d50565b9050615dbf61550f565b90615d49565b5f80516020615f28833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af19081156152e4575f916154e0575090565b9060646020925f60018060a01b035f80516020615f2883398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af19081156152e4575f916154e0575090565b5f80516020615f2883398151915254604051630afe14ad60e31b815260048101929092526127106024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156152e4575f916154e0575090565b5f80516020615f2883398151915254604051630afe14ad60e31b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af19081156152e4575f916154e057509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type AgriFinanceFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AgriFinanceFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class AgriFinanceFHE__factory extends ContractFactory {
+  constructor(...args: AgriFinanceFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      AgriFinanceFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AgriFinanceFHE__factory {
+    return super.connect(runner) as AgriFinanceFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AgriFinanceFHEInterface {
+    return new Interface(_abi) as AgriFinanceFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AgriFinanceFHE {
+    return new Contract(address, _abi, runner) as unknown as AgriFinanceFHE;
+  }
+}
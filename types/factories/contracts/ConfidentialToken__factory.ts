@@ -0,0 +1,335 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  ConfidentialToken,
+  ConfidentialTokenInterface,
+} from "../../contracts/ConfidentialToken";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "ConfidentialTransfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "until",
+        type: "uint64",
+      },
+    ],
+    name: "OperatorSet",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "confidentialBalanceOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "confidentialTransfer",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "confidentialTransferFrom",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "isOperator",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "amount",
+        type: "uint64",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "until",
+        type: "uint64",
+      },
+    ],
+    name: "setOperator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60806040523462000438576200131b803803806200001d816200045c565b9283398101604082820312620004385781516001600160401b0392908381116200043857826200004f91830162000482565b906020928382015185811162000438576200006b920162000482565b925f6060620000796200043c565b82815282868201528260408201520152620000936200043c565b9260607350157cffd6bbfa2dece204a89ec419c23ef5755d9485815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69808483015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319967f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090888254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190878254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290868254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908582541617905582519082821162000356575f54916001948584811c941680156200042d575b8385101462000337578190601f94858111620003da575b50839085831160011462000376575f926200036a575b50505f19600383901b1c191690851b175f555b8551928311620003565783548481811c911680156200034b575b828210146200033757828111620002ef575b50809183116001146200028a5750819293945f926200027e575b50505f19600383901b1c191690821b1790555b33906002541617600255604051610e289081620004f38239f35b015190505f8062000251565b90601f19831695845f52825f20925f905b888210620002d75750508385969710620002be575b505050811b01905562000264565b01515f1960f88460031b161c191690555f8080620002b0565b8087859682949686015181550195019301906200029b565b845f52815f208380860160051c8201928487106200032d575b0160051c019085905b8281106200032157505062000237565b5f815501859062000311565b9250819262000308565b634e487b7160e01b5f52602260045260245ffd5b90607f169062000225565b634e487b7160e01b5f52604160045260245ffd5b015190505f80620001f8565b90879350601f198316915f8052855f20925f5b87828210620003c35750508411620003aa575b505050811b015f556200020b565b01515f1960f88460031b161c191690555f80806200039c565b8385015186558b9790950194938401930162000389565b9091505f8052835f208580850160051c82019286861062000423575b918991869594930160051c01915b82811062000414575050620001e2565b5f815585945089910162000404565b92508192620003f6565b93607f1693620001cb565b5f80fd5b60405190608082016001600160401b038111838210176200035657604052565b6040519190601f01601f191682016001600160401b038111838210176200035657604052565b919080601f84011215620004385782516001600160401b0381116200035657602090620004b8601f8201601f191683016200045c565b9281845282828701011162000438575f5b818110620004de5750825f9394955001015290565b8581018301518482018401528201620004c956fe6080604081815260049182361015610015575f80fd5b5f3560e01c90816306fdde031461070a575080632893c5b0146105d55780632fb74e621461043f578063313ce56714610425578063344ff101146103ee5780638da5cb5b146103c657806395d89b41146102b3578063960390c514610239578063b6363cf214610203578063da1f12ab146101e75763eb3155b514610098575f80fd5b346101a05760603660031901126101a0576100b1610857565b906100ba61086d565b604435906100c833856108fa565b156101b5575f80516020610dfc8339815191525483516382027b6d60e01b8152868101848152336020828101919091529692879183916001600160a01b0316908290819060400103915afa9081156101ab575f91610171575b501561013957906101329291610a2a565b9051908152f35b835162461bcd60e51b81528087018690526012602482015271105b5bdd5b9d081b9bdd08185b1b1bddd95960721b6044820152606490fd5b90508581813d83116101a4575b61018881836107f7565b810103126101a0575180151581036101a0575f610121565b5f80fd5b503d61017e565b85513d5f823e3d90fd5b825162461bcd60e51b8152602081870152600c60248201526b2737ba1037b832b930ba37b960a11b6044820152606490fd5b50346101a0575f3660031901126101a057602090516127118152f35b50346101a057806003193601126101a057602090610230610222610857565b61022a61086d565b906108fa565b90519015158152f35b50346101a05761024836610883565b335f81815260209586528481206001600160a01b03909416808252938652849020805467ffffffffffffffff191667ffffffffffffffff9093169283179055925190815290927fe692ceba6967e1137b3431d364eef30ae6d25ffa8de204652210624586acea9091a3005b50346101a0575f3660031901126101a0578051905f90600191600154928360011c90600185169485156103bc575b60209586841081146103a95783885287949392918790821561038757505060011461032c575b505061032892916103199103856107f7565b51928284938452830190610819565b0390f35b9085925060015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6915f925b82841061036f5750505082010181610319610307565b8054848a018601528895508794909301928101610359565b60ff19168682015292151560051b850190920192508391506103199050610307565b602289634e487b7160e01b5f525260245ffd5b91607f16916102e1565b50346101a0575f3660031901126101a05760025490516001600160a01b039091168152602090f35b50346101a05760203660031901126101a0576020906001600160a01b03610413610857565b165f5260038252805f20549051908152f35b50346101a0575f3660031901126101a057602090515f8152f35b50346101a05760603660031901126101a057610459610857565b9060443567ffffffffffffffff928382116101a057366023830112156101a057818501359384116101a05736602485840101116101a0575f9182602086819760248851956104b085601f19601f86011601886107f7565b8287520183860137830101525f80516020610ddc83398151915254845163196d0b9b60e01b81526024803589830152339082015260806044820152936001600160a01b039287928692908516918391908290610510906084830190610819565b6005606483015203925af19283156105cb575f9361059c575b505f80516020610dfc8339815191525416803b156101a0578351630f8e573b60e21b81529586018381523360208201525f91879182908490829060400103925af194851561059257610132939495610583575b5033610a2a565b61058c906107cf565b5f61057c565b83513d5f823e3d90fd5b9092508481813d83116105c4575b6105b481836107f7565b810103126101a05751915f610529565b503d6105aa565b84513d5f823e3d90fd5b5090346101a0576105e536610883565b60025490936001600160a01b03939091841633036106dc57602067ffffffffffffffff6044868616976106198915156108ba565b885f52600384525f86812054985f80516020610ddc833981519152541687519687958694639cd07acb60e01b86521690840152600560248401525af19182156106d357505f9161069f575b50610672906106789361093f565b906109fd565b5f7f75f412a499b41f8e80914ae262c37b5cbe8b4301cf1036324872310af4ab2aed8180a3005b90506020813d6020116106cb575b816106ba602093836107f7565b810103126101a05751610678610664565b3d91506106ad565b513d5f823e3d90fd5b6020606492519162461bcd60e51b835282015260096024820152682737ba1037bbb732b960b91b6044820152fd5b919050346101a0575f3660031901126101a0575f905f549160018360011c90600185169485156107c5575b60209586841081146103a95783885287949392918790821561038757505060011461076c57505061032892916103199103856107f7565b5f80805286935091907f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5635b8284106107ad5750505082010181610319610307565b8054848a018601528895508794909301928101610797565b91607f1691610735565b67ffffffffffffffff81116107e357604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff8211176107e357604052565b91908251928382525f5b848110610843575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201610823565b600435906001600160a01b03821682036101a057565b602435906001600160a01b03821682036101a057565b60409060031901126101a0576004356001600160a01b03811681036101a0579060243567ffffffffffffffff811681036101a05790565b156108c157565b60405162461bcd60e51b8152602060048201526011602482015270125b9d985b1a59081c9958da5c1a595b9d607a1b6044820152606490fd5b6001600160a01b03908116911681811491821561091657505090565b9091505f52600460205260405f20905f5260205267ffffffffffffffff60405f20541642111590565b9081156109ed575b80156109db575b602090606460018060a01b035f80516020610ddc8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156109d0575f916109a1575090565b90506020813d6020116109c8575b816109bc602093836107f7565b810103126101a0575190565b3d91506109af565b6040513d5f823e3d90fd5b5060206109e6610d1f565b905061094e565b90506109f7610d1f565b90610947565b610a073083610d72565b610a118183610d72565b6001600160a01b03165f90815260036020526040902055565b92906001600160a01b03808216915f90610a458415156108ba565b82871692835f5260209760038952604092835f205499898015610d0f575b8b15610cff575b815f80516020610ddc8339815191529b868d541688519e8f92631d44e90160e21b845260048401526024830152604482015f9052815a6064925f91f18015610c6f578b9c5f9c98999a9b9c91610ccb575b5090606483925f88610acb610d1f565b9b54168a519b8c958694637702dcff60e01b86526004860152602485015260448401525af19586156101ab575f96610c9c575b50859a885f526003825281865f205491888315610c8c575b878a15610c79575b606491925416935f8a5195869485936303056db360e31b8552600485015260248401528160448401525af1908115610c6f575f91610c3f575b50926003610b9692610b6c610b9c96846109fd565b8b5f5252610b86610b8088885f205461093f565b846109fd565b610b903088610d72565b86610d72565b84610d72565b5f80516020610dfc8339815191525416803b156101a0578151630f8e573b60e21b815260048101939093523360248401525f908390604490829084905af19081156106d35750610c0e575b50807f75f412a499b41f8e80914ae262c37b5cbe8b4301cf1036324872310af4ab2aed91a3565b610c1891506107cf565b5f7f75f412a499b41f8e80914ae262c37b5cbe8b4301cf1036324872310af4ab2aed610be7565b9390508184813d8311610c68575b610c5781836107f7565b810103126101a05792516003610b57565b503d610c4d565b86513d5f823e3d90fd5b60649150610c85610d1f565b9150610b1e565b9250610c96610d1f565b92610b16565b9080965081813d8311610cc4575b610cb481836107f7565b810103126101a05751945f610afe565b503d610caa565b80929850838092503d8311610cf8575b610ce581836107f7565b810103126101a057518b96906064610abb565b503d610cdb565b9a50610d09610d1f565b9a610a6a565b9950610d19610d1f565b99610a63565b5f80516020610ddc83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156109d0575f916109a1575090565b5f80516020610dfc833981519152546001600160a01b031691823b156101a057604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156109d057610dd05750565b610dd9906107cf565b56fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type ConfidentialTokenConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ConfidentialTokenConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ConfidentialToken__factory extends ContractFactory {
+  constructor(...args: ConfidentialTokenConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    name_: string,
+    symbol_: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(name_, symbol_, overrides || {});
+  }
+  override deploy(
+    name_: string,
+    symbol_: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(name_, symbol_, overrides || {}) as Promise<
+      ConfidentialToken & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ConfidentialToken__factory {
+    return super.connect(runner) as ConfidentialToken__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ConfidentialTokenInterface {
+    return new Interface(_abi) as ConfidentialTokenInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ConfidentialToken {
+    return new Contract(address, _abi, runner) as unknown as ConfidentialToken;
+  }
+}
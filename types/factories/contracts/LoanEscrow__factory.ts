@@ -0,0 +1,335 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  LoanEscrow,
+  LoanEscrowInterface,
+} from "../../contracts/LoanEscrow";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract AgriFinanceFHE",
+        name: "agriFinance_",
+        type: "address",
+      },
+      {
+        internalType: "contract IERC20",
+        name: "token_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "EscrowFunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "EscrowWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "LoanPaidOut",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RepaymentTransferred",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "agriFinance",
+    outputs: [
+      {
+        internalType: "contract AgriFinanceFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "fund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lenderBalances",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "loans",
+    outputs: [
+      {
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "repaid",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "payOut",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "repay",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "token",
+    outputs: [
+      {
+        internalType: "contract IERC20",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unit",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60e0806040523462000138576040816200105c803803809162000023828562000150565b833981010312620001385780516001600160a01b03918282168203620001385760200151918216808303620001385760049260209260805260a0526040519283809263313ce56760e01b82525afa801562000145575f90620000fd575b60ff915016604d8111620000e957600a0a60c052604051610ed3908162000189823960805181818161022e01528181610342015281816103aa015281816104940152610b37015260a0518181816108770152610e1f015260c05181818161017f01526105d70152f35b634e487b7160e01b5f52601160045260245ffd5b506020813d6020116200013c575b816200011a6020938362000150565b8101031262000138575160ff81168103620001385760ff9062000080565b5f80fd5b3d91506200010b565b6040513d5f823e3d90fd5b601f909101601f19168101906001600160401b038211908210176200017457604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c80632e1a7d4d146100a4578063907af6c01461009f578063a27a944d1461009a578063ca1d209d14610095578063cb5625f914610090578063d8aed1451461008b578063da333ca614610086578063e1ec3c68146100815763fc0c546a1461007c575f80fd5b610862565b610819565b610459565b610371565b61032d565b6101ed565b6101b3565b610168565b34610164576020366003190112610164576004356100c38115156108a6565b335f525f6020526100da8160405f205410156108e3565b335f525f60205260405f206100f0828254610943565b905560405163a9059cbb60e01b60208201523360248201526044810182905261012f9061012a81606481015b03601f198101835282610964565b610e11565b60405190815233907f67ba03b899c1b0009c08c2717653a5a03a8730cc17a1a8c0c57b4728991672f39080602081015b0390a2005b5f80fd5b34610164575f3660031901126101645760206040517f00000000000000000000000000000000000000000000000000000000000000008152f35b6001600160a01b0381160361016457565b34610164576020366003190112610164576004356101d0816101a2565b60018060a01b03165f525f602052602060405f2054604051908152f35b346101645760208060031936011261016457604051634f4bdc7b60e11b81525f60048083019190915233602483015235919081816044816001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000165afa801561032857610267915f916102fb575b506109ba565b6102728215156108a6565b335f525f815260405f209081548381018091116102f6579091556040516323b872dd60e01b91810191909152336024820152306044820152606481018290526102c29061012a816084810161011c565b60405190815233907f511c3b325f63024e6754176648b89f4bab878b1712366d9bf3729c501dcbad7990806020810161015f565b61092f565b61031b9150833d8511610321575b6103138183610964565b810190610998565b5f610261565b503d610309565b6109af565b34610164575f366003190112610164576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b346101645760403660031901126101645760405163eea3f82d60e01b815260048035908201819052906001600160a01b036020826024817f000000000000000000000000000000000000000000000000000000000000000085165afa918215610328575f92610428575b50339116036103f3576103f19060243590610b0f565b005b60405162461bcd60e51b815260206004820152600d60248201526c139bdd08185c1c1b1a58d85b9d609a1b6044820152606490fd5b61044b91925060203d602011610452575b6104438183610964565b810190610a00565b905f6103db565b503d610439565b34610164576020806003193601126101645760408051634f4bdc7b60e11b81525f600480830191909152336024830152926001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000811693853593919290918181604481895afa8015610328576104db915f916102fb57506109ba565b8151636e64f0a760e11b81528681018581528290829081906020010381895afa9081156103285761051f9188915f916107ec575b5061051981610a2d565b14610a4b565b610531845f52600160205260405f2090565b805490959061054b9085166001600160a01b031615610c9d565b8251637ecfe3cb60e01b815282818981855afa80156103285785915f916107cf575b501682868215928315610774575b50505061058790610cdc565b825163119355e360e01b8152878101868152608090829081906020010381855afa91821561032857610671986001986105fd899487965f915f9161073a575b506105d090610d74565b63ffffffff7f00000000000000000000000000000000000000000000000000000000000000009116610dc0565b998a916106258361061d3360018060a01b03165f525f60205260405f2090565b5410156108e3565b335f90815260208190526040902061063e848254610943565b905580546001600160a01b031916331781550155855163eea3f82d60e01b81529081019283529889928391829160200190565b03915afa958615610328575f966106f1575b50815163a9059cbb60e01b918101919091526001600160a01b0386166024820152604481018590527f3302b8de0d39111ce6c2cad25138df3b6e75932f52ebd86a8ddb5d147b99fff99291906106e09061012a816064810161011c565b5193845293909316923392602090a4005b8196506107306106e0917f3302b8de0d39111ce6c2cad25138df3b6e75932f52ebd86a8ddb5d147b99fff99594933d8a11610452576104438183610964565b9691929350610683565b6105d09250610761915060803d60801161076d575b6107598183610964565b810190610d39565b939250905091906105c6565b503d61074f565b8651632f64730f60e01b8152808c01928352935083918290819060200103915afa801561032857610587915f916107b2575b5015905082865f61057b565b6107c99150843d8611610321576103138183610964565b5f6107a6565b6107e69150843d8611610452576104438183610964565b5f61056d565b61080c9150843d8611610812575b6108048183610964565b810190610a15565b5f61050f565b503d6107fa565b34610164576020366003190112610164576004355f526001602052606060405f2060018060a01b0381541690600260018201549101549060405192835260208301526040820152f35b34610164575f366003190112610164576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b156108ad57565b60405162461bcd60e51b815260206004820152600e60248201526d125b9d985b1a5908185b5bdd5b9d60921b6044820152606490fd5b156108ea57565b60405162461bcd60e51b815260206004820152601b60248201527f496e73756666696369656e7420657363726f772062616c616e636500000000006044820152606490fd5b634e487b7160e01b5f52601160045260245ffd5b919082039182116102f657565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff82111761098657604052565b610950565b5190811515820361016457565b90816020910312610164576109ac9061098b565b90565b6040513d5f823e3d90fd5b156109c157565b60405162461bcd60e51b815260206004820152600a6024820152692737ba103632b73232b960b11b6044820152606490fd5b919082018092116102f657565b9081602091031261016457516109ac816101a2565b90816020910312610164575160088110156101645790565b60081115610a3757565b634e487b7160e01b5f52602160045260245ffd5b15610a5257565b60405162461bcd60e51b815260206004820152600e60248201526d496e76616c69642073746174757360901b6044820152606490fd5b15610a8f57565b60405162461bcd60e51b815260206004820152600c60248201526b139bdd081c185a59081bdd5d60a21b6044820152606490fd5b15610aca57565b60405162461bcd60e51b815260206004820152601760248201527f4578636565647320616d6f756e742070616964206f75740000000000000000006044820152606490fd5b604051636e64f0a760e11b8152600481018290529091906001600160a01b03906020816024817f000000000000000000000000000000000000000000000000000000000000000086165afa801561032857610b87915f91610c7e575b50610b7581610a2d565b60048114908115610c6a575b50610a4b565b610c38610b9c845f52600160205260405f2090565b8054610c2b90859061012a906001600160a01b0316610bbe8782161515610a88565b610bc98315156108a6565b60028501610bf1848254610bec610be083836109f3565b60018b01541015610ac3565b6109f3565b90556040516323b872dd60e01b60208201523360248201526001600160a01b0390911660448201526064810192909252816084810161011c565b546001600160a01b031690565b604051928352169133917fd5e2c98d7b9aeb55d0073ec97f3ebbc2fba7849ddb5e4b37a63a8d6163eaf91290602090a4565b60059150610c7781610a2d565b145f610b81565b610c97915060203d602011610812576108048183610964565b5f610b6b565b15610ca457565b60405162461bcd60e51b815260206004820152601060248201526f105b1c9958591e481c185a59081bdd5d60821b6044820152606490fd5b15610ce357565b60405162461bcd60e51b815260206004820152601a60248201527f5061696420696e20636f6e666964656e7469616c20746f6b656e0000000000006044820152606490fd5b519063ffffffff8216820361016457565b919082608091031261016457610d4e82610d28565b91610d5b60208201610d28565b916109ac6060610d6d60408501610d28565b930161098b565b15610d7b57565b60405162461bcd60e51b815260206004820152601860248201527f4c6f616e20616d6f756e74206e6f742072657665616c656400000000000000006044820152606490fd5b818102929181159184041417156102f657565b15610dda57565b60405162461bcd60e51b815260206004820152600f60248201526e151c985b9cd9995c8819985a5b1959608a1b6044820152606490fd5b80516020915f9182918401827f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165af13d15610ebe573d9067ffffffffffffffff82116109865760405191610e77601f8201601f1916850184610964565b82523d5f8484013e5b15610eb8578051610e9e92811592918315610ea0575b505050610dd3565b565b610eb09350820181019101610998565b5f8080610e96565b80519101fd5b606090610e8056fea164736f6c6343000818000a";
+
+type LoanEscrowConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: LoanEscrowConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class LoanEscrow__factory extends ContractFactory {
+  constructor(...args: LoanEscrowConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    agriFinance_: AddressLike,
+    token_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(agriFinance_, token_, overrides || {});
+  }
+  override deploy(
+    agriFinance_: AddressLike,
+    token_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(agriFinance_, token_, overrides || {}) as Promise<
+      LoanEscrow & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): LoanEscrow__factory {
+    return super.connect(runner) as LoanEscrow__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): LoanEscrowInterface {
+    return new Interface(_abi) as LoanEscrowInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): LoanEscrow {
+    return new Contract(address, _abi, runner) as unknown as LoanEscrow;
+  }
+}
@@ -0,0 +1,773 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  LoanRepayment,
+  LoanRepaymentInterface,
+} from "../../contracts/LoanRepayment";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract AgriFinanceFHE",
+        name: "agriFinance_",
+        type: "address",
+      },
+      {
+        internalType: "contract ConfidentialToken",
+        name: "token_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "cropType",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "growingDays",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "saleDays",
+        type: "uint32",
+      },
+    ],
+    name: "CropCalendarUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "funded",
+        type: "bool",
+      },
+    ],
+    name: "DisbursalFundingChecked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "from",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "to",
+        type: "uint256",
+      },
+    ],
+    name: "InterestAccrued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "instalmentsOverdue",
+        type: "uint256",
+      },
+    ],
+    name: "LatePaymentChecked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+    ],
+    name: "LoanRepaid",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "instalments",
+        type: "uint256",
+      },
+    ],
+    name: "RepaymentScheduleSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+    ],
+    name: "RepaymentScheduleStarted",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_CROP_CALENDAR_DAYS",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_GRACE_PERIOD_DAYS",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_INSTALMENTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "accrueInterest",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "agriFinance",
+    outputs: [
+      {
+        internalType: "contract AgriFinanceFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "allowRepaymentData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "checkLatePayment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "confirmDisbursalFunding",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getCalendarCropTypes",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "cropType",
+        type: "string",
+      },
+    ],
+    name: "getCropCalendar",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "growingDays",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "saleDays",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct LoanRepayment.CropCalendar",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedRepaymentBalance",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "euint64",
+            name: "principal",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "outstanding",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "repaid",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "late",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct LoanRepayment.Balance",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "getRepaymentSchedule",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "enum LoanRepayment.RepaymentMode",
+            name: "mode",
+            type: "uint8",
+          },
+          {
+            internalType: "uint64[]",
+            name: "dueDates",
+            type: "uint64[]",
+          },
+          {
+            internalType: "uint32",
+            name: "interestRateBps",
+            type: "uint32",
+          },
+          {
+            internalType: "uint8",
+            name: "harvestMonth",
+            type: "uint8",
+          },
+          {
+            internalType: "uint32",
+            name: "gracePeriodDays",
+            type: "uint32",
+          },
+          {
+            internalType: "uint64",
+            name: "plantedAt",
+            type: "uint64",
+          },
+          {
+            internalType: "address",
+            name: "lender",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "disbursedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "fundedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "lastAccruedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "instalmentsOverdue",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "checkedAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct LoanRepayment.Schedule",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "paidWithToken",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "repay",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "requireFunded",
+    outputs: [],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+    ],
+    name: "retryDisbursal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "cropType",
+        type: "string",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "growingDays",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "saleDays",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct LoanRepayment.CropCalendar",
+        name: "calendar",
+        type: "tuple",
+      },
+    ],
+    name: "setCropCalendar",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "plantedAt",
+        type: "uint64",
+      },
+      {
+        internalType: "uint32",
+        name: "interestRateBps",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "gracePeriodDays",
+        type: "uint32",
+      },
+    ],
+    name: "setHarvestRepaymentSchedule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint64[]",
+            name: "dueDates",
+            type: "uint64[]",
+          },
+          {
+            internalType: "uint32",
+            name: "interestRateBps",
+            type: "uint32",
+          },
+          {
+            internalType: "uint8",
+            name: "harvestMonth",
+            type: "uint8",
+          },
+          {
+            internalType: "uint32",
+            name: "gracePeriodDays",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct LoanRepayment.ScheduleInput",
+        name: "input",
+        type: "tuple",
+      },
+    ],
+    name: "setRepaymentSchedule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "applicationId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "loanAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "applicant",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+    ],
+    name: "startSchedule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "token",
+    outputs: [
+      {
+        internalType: "contract ConfidentialToken",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c034620003d457601f620043a638819003918201601f19168301916001600160401b03831184841017620003d8578084926040948552833981010312620003d4578051906001600160a01b038083168303620003d4576020809201519081168103620003d45762000342925f606062000078620003ec565b8281528286820152826040820152015262000092620003ec565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69808783015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039182541617905560805260a052620001e8620001bd6200040c565b60f08152603c83820152620001d16200040c565b600581526415da19585d60da1b848201526200044f565b62000220620001f66200040c565b60788152602d838201526200020a6200040c565b60048152635269636560e01b848201526200044f565b620002586200022e6200040c565b60968152603c83820152620002426200040c565b600481526321b7b93760e11b848201526200044f565b62000293620002666200040c565b60788152602d838201526200027a6200040c565b600781526629b7bcb132b0b760c91b848201526200044f565b620002cd620002a16200040c565b60b48152603c83820152620002b56200040c565b600681526521b7ba3a37b760d11b848201526200044f565b6200030b620002db6200040c565b605a8152601e83820152620002ef6200040c565b600a815269566567657461626c657360b01b848201526200044f565b620003156200040c565b9060b48252602d818301526546727569747360d01b620003346200040c565b91600683528201526200044f565b604051613be49081620007a282396080518181816104ef01528181610bc401528181610c9a01528181610e67015281816112a60152818161136501528181611a3b01528181611a8f01528181611bd401528181612116015281816127c70152612e80015260a05181818161045f01528181610b0b0152818161251e01528181612f4201528181612f9c01526133220152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b03811183821017620003d857604052565b60408051919082016001600160401b03811183821017620003d857604052565b5f5b8381106200043e5750505f910152565b81810151838201526020016200042e565b815163ffffffff939290841680151590816200076c575b50156200072757604051938251916020958287860194620004898184886200042c565b82019188816004948581520301902054161562000539575b9160809391876200052196945f8051602062004386833981519152989960405180928851620004d281848b6200042c565b820190815203019020908383511691818154940151938367ffffffff0000000086851b169160018060401b03191617179055604051978896606088525180968160608a0152898901906200042c565b850152166040830152601f01601f19168101030190a1565b60055468010000000000000000811015620007145760019081810180600555811015620007015760055f90815289902087519101916001600160401b038211620006ee5782548181811c91168015620006e3575b8b821014620006d057601f811162000685575b5089601f831160011462000604579282805f80516020620043868339815191529b9c94620005219b99979460809b99975f93620005f8575b501b915f199060031b1c19161790555b92949650979650919350620004a1565b8b015192505f620005d8565b601f92919219821690845f528b5f20915f5b8181106200066f5750926080999795925f80516020620043868339815191529c9d959282620005219d9b99961062000656575b5050811b019055620005e8565b8a01515f1960f88460031b161c191690555f8062000649565b8b830151845592850192918d01918d0162000616565b835f528a5f20601f840160051c8101918c8510620006c5575b601f0160051c019082905b828110620006b9575050620005a0565b5f8155018290620006a9565b90915081906200069e565b602285634e487b7160e01b5f525260245ffd5b90607f16906200058d565b604184634e487b7160e01b5f525260245ffd5b603283634e487b7160e01b5f525260245ffd5b604182634e487b7160e01b5f525260245ffd5b60405162461bcd60e51b815260206004820152601560248201527f496e76616c69642063726f702063616c656e64617200000000000000000000006044820152606490fd5b905084602083015116018481116200078d57846102da911611155f62000466565b634e487b7160e01b5f52601160045260245ffdfe6080806040526004361015610012575f80fd5b5f905f3560e01c90816207994d14612ad6575080630bcd02d31461276d5780631e83f97b146126dd5780632e32a0a4146125735780632f64730f146125075780633cc31781146120a95780633f2b683f146119d35780634657fca0146119485780634d4dadb11461192b57806363098d22146118ea578063858f19f7146115cf57806391b16cdf146112f1578063aec2071f146112d5578063cb5625f914611290578063cfdc67fd14610df5578063d4469d0714610c5d578063da1f12ab14610c40578063e0dc175014610b61578063f9cca13b14610af7578063fb9bca161461048e578063fc0c546a146104495763fd0857f31461010f575f80fd5b34610446576060366003190112610446576001600160401b0360243581811161044257610140903690600401612c4c565b9060443590811161044257610159903690600401612c4c565b9060043583526003602052604083205491821561040b57600435845260036020525f60408520557f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01806020526040852054156103f957600435855260205260408420906040518083602082955493848152019088526020882092885b8181106103e05750506101ea92500383612bda565b82519182602001806020116103cc5760408401106103b85791602091610293876102a595610240604080518097828c61022b815180928e8088019101612b1c565b830191018a8201520388810188520186612bda565b6102b760018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541694604051988997889687956378542ead60e01b8752606060048801526064870190613b64565b85810360031901602487015290612b3d565b83810360031901604485015290612b3d565b03925af19081156103ad57849161037e575b501561036c5760207fa24e49956d390b53acffbee1a5fb3c45197b6563a52e8ecab872ec2da9ef2b3e9161032f604051916004357f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d8880a2838082518301019101612da9565b848652858352604086208180610360575b61034e575b5015158152a280f35b4260058201556006429101555f610345565b50600581015415610340565b60405163cf6c44e960e01b8152600490fd5b6103a0915060203d6020116103a6575b6103988183612bda565b810190612da9565b5f6102c9565b503d61038e565b6040513d86823e3d90fd5b634e487b7160e01b86526011600452602486fd5b634e487b7160e01b87526011600452602487fd5b84548352600194850194879450602090930192016101d5565b60405163d66ca67560e01b8152600490fd5b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b8280fd5b80fd5b50346104465780600319360112610446576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b503461044657600319604036820112610af357600435916024908135906001600160401b03908183116104465782600401926080868236030112610af357604051634f4bdc7b60e11b81525f60048201523360248201526001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001697602097909188816044818d5afa908115610ae85790610536918691610acb575b50612dc1565b6105408680613046565b9050151580610ab5575b15610a7b5760015b61055c8780613046565b90508110156106085761058161057c826105768a80613046565b9061307b565b61308b565b61058b8880613046565b5f198401918483116105f55761057c8a9384936105a79361307b565b16911611156105b857600101610552565b60405162461bcd60e51b8152600481018a90526016818a015275223ab2903230ba32b99037baba1037b31037b93232b960511b6044820152606490fd5b634e487b7160e01b895260116004528b89fd5b50919588919397946044880196600c60ff6106228a61309f565b1611610a3f578061063291613046565b61064c6064610645868d999599016130ad565b9b016130ad565b9461065682612d5a565b966106646040519889612bda565b828852898801809360051b820191368311610a3b57918793918c93905b828210610a115750505060405192838092636e64f0a760e11b82528c60048301525afa908115610a06575f916109d9575b5060088110156109c65760026106c89114612d1d565b826106d287612e53565b511642101561098b5763ffffffff809a16996127108b1161094f57605a9086161161091457865f525f885260405f209360ff198554168555600185019187519185831161090157600160401b8311610901575082548284558a8184106108b3575b5050915f52885f20918160021c935f5b8581106108665750821680830392036107ee575b508b8b6107d96107bd8d8d8d7f20e768650733b890a41f9d422bae13cfcc23193ed4ad06fa1cbe05933e33283c8e8e60028f019868ffffffff00000000008a549260281b169168ffffffff00ffffffff19161717885551926040519384523393a361309f565b825464ff00000000191660209190911b64ff0000000016178255565b805467ffffffffffffffff60481b1916905580f35b905f945f905b82821061082e57505050500155828260027f20e768650733b890a41f9d422bae13cfcc23193ed4ad06fa1cbe05933e33283c6107d9610757565b909192958b61085b600192848a5116908660031b60031b916001600160401b03809116831b921b19161790565b9701939201906107f4565b5f805b8d6004821061088057505085820155600101610743565b6108aa86938b600194985116908860031b60031b916001600160401b03809116831b921b19161790565b92019401610869565b6108e391855f526003825f209181870160021c830193601888841b1690816108ea575b50500160021c01906135b8565b8d8a610733565b5f198087019283549203851b1c1690555f8f6108d6565b634e487b7160e01b5f9081526041600452fd5b60405162461bcd60e51b81526004810189905260148186015273125b9d985b1a590819dc9858d9481c195c9a5bd960621b6044820152606490fd5b60405162461bcd60e51b8152600481018a905260158187015274496e76616c696420696e746572657374207261746560581b6044820152606490fd5b60405162461bcd60e51b81526004810189905260148186015273111d594819185d19481a5b881d1a19481c185cdd60621b6044820152606490fd5b84634e487b7160e01b5f5260216004525ffd5b6109f99150893d8b116109ff575b6109f18183612bda565b810190612d05565b8c6106b2565b503d6109e7565b6040513d5f823e3d90fd5b91935080929450358781168103610a3757818d9291839252019101918b92889492610681565b5f80fd5b8e80fd5b60405162461bcd60e51b81526004810188905260158185015274092dcecc2d8d2c840d0c2e4eccae6e840dadedce8d605b1b6044820152606490fd5b60405162461bcd60e51b81526004810189905260138189015272496e76616c696420696e7374616c6d656e747360681b6044820152606490fd5b506018610ac28780613046565b9050111561054a565b610ae291508a3d8c116103a6576103988183612bda565b5f610530565b6040513d87823e3d90fd5b5080fd5b5034610446576020366003190112610446577f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316158015610b47575b610b4490612cc2565b80f35b506004358152602081905260408120600501541515610b3b565b503461044657602080600319360112610af35760043590818352828152610b9060046040852001541515612c7e565b818352828152610ba860056040852001541515612cc2565b60405163eea3f82d60e01b8152600481018390529181836024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa9182156103ad578492610c07575b50610b4492506130be565b90915082813d8311610c39575b610c1e8183612bda565b8101031261044257610c32610b4492612c6a565b905f610bfc565b503d610c14565b503461044657806003193601126104465760206040516127118152f35b503461044657602080600319360112610af357604051634f4bdc7b60e11b8082525f60048084019190915233602484015235916001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016908481604481855afa928315610dea5785918794610dcb575b508315610d79575b50505015610d455790816001928452838252610cff60046040862001541515612c7e565b835252600360408220610d13338254613afd565b610d21336001830154613afd565b610d2f336002830154613afd565b015480610d3a575080f35b610b44903390613afd565b60405162461bcd60e51b815260048101839052600c60248201526b2737ba103932bb34b2bbb2b960a11b6044820152606490fd5b909192506044604051809481938252600160048301523360248301525afa9081156103ad578491610dae575b505f8381610cdb565b610dc59150833d85116103a6576103988183612bda565b5f610da5565b610de3919450823d84116103a6576103988183612bda565b925f610cd3565b6040513d88823e3d90fd5b503461044657602036600319011261044657600435815280602052610e2260046040832001541515612c7e565b600435815280602052610e3d60056040832001541515612cc2565b6004803580835260208381526040808520905163eea3f82d60e01b815293840192909252826024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa918215611285578392611249575b50610eac826004356130be565b6001810154815484939060ff16845b83811061115e5750506004358552600160205260408520905f80516020613b98833981519152925f602060018060a01b03865416604460405180948193639cd07acb60e01b83528d60048401528160248401525af1908115610a06575f9161112c575b509386610f95575b505090610f3f600392610f393086613afd565b84613afd565b83820154610f56906001600160a01b031684613afd565b01558160078201556008429101556040519081527f848af84b7af312e5195ec2db0eedd092f58028f620013d8a009297af6e5c90fa602060043592a280f35b919350916020815493610fbc6001600160401b039586610fb58b85613039565b16906139d6565b801561111a575b8454604051635a53accb60e01b81526004810192909252919095166024860152600160f81b6044860152849060649082905f906001600160a01b03165af1928315610a06575f936110e6575b50600181015491839083156110d1575b6020929394156110bd575b546040516385362ee760e01b8152600481019590955260248501919091526001600160f81b031988166044850152839060649082908a906001600160a01b03165af1918215610dea578692611087575b509091610f3f6003610f26565b91506020823d6020116110b5575b816110a260209383612bda565b81010312610a3757905190610f3f61107a565b3d9150611095565b905060646110c9613aaa565b91905061102a565b60209293506110de613aaa565b93925061101f565b9092506020813d602011611112575b8161110260209383612bda565b81010312610a375751915f61100f565b3d91506110f5565b506064611125613aaa565b9050610fc3565b90506020813d602011611156575b8161114760209383612bda565b81010312610a3757515f610f1e565b3d915061113a565b6001850187526001600160401b03602088208260021c015460c08360061b161c166002831015611235576001831460018403611204575b6111bd575b42116111a9575b600101610ebb565b946111b56001916139c8565b9590506111a1565b63ffffffff600287015460281c169062015180918281029281840414901517156111f057906111eb91612e46565b61119a565b634e487b7160e01b89526011600452602489fd5b5060ff600287015460201c168015159081611220575b50611195565b905060ff61122d836135ce565b16145f61121a565b634e487b7160e01b88526021600452602488fd5b9091506020813d60201161127d575b8161126560209383612bda565b810103126104425761127690612c6a565b905f610e9f565b3d9150611258565b6040513d85823e3d90fd5b50346104465780600319360112610446576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b50346104465780600319360112610446576020604051605a8152f35b503461044657602080600319360112610af35760043580835282825261131f60046040852001541515612c7e565b8083528282526040832060038101546001600160a01b0392919083163303611592576005015461154d5760405163eea3f82d60e01b8152600481018290529280846024817f000000000000000000000000000000000000000000000000000000000000000087165afa938415610ae8578594611512575b50818552600181526040852092858454918215611502575b835f80516020613b988339815191529360648386541691604051958693849263f77f3f1d60e01b845260048401525f6024840152600160f81b60448401525af180156114f757849289916114c6575b50606490868a526002845289604081205493611417613aaa565b9654166040519687958694637702dcff60e01b86526004860152602485015260448401525af1918215610dea578692611496575b505083611460610b4495611491933390613314565b9360026114876114718784546134c9565b9661147d888689613694565b60018401546134c9565b910154918461354d565b6136db565b90809250813d83116114bf575b6114ad8183612bda565b81010312610a3757518361146061144b565b503d6114a3565b83819492503d83116114f0575b6114dd8183612bda565b81010312610a37576064849251906113fd565b503d6114d3565b6040513d8a823e3d90fd5b915061150c613aaa565b916113ae565b9080945081813d8311611546575b61152a8183612bda565b810103126115425761153b90612c6a565b925f611396565b8480fd5b503d611520565b60405162461bcd60e51b815260048101849052601860248201527f44697362757273616c20616c72656164792066756e64656400000000000000006044820152606490fd5b60405162461bcd60e51b81526004810185905260156024820152742737ba103234b9b13ab939b4b733903632b73232b960591b6044820152606490fd5b503461044657602036600319011261044657806101606040516115f181612bbe565b828152606060208201528260408201528260608201528260808201528260a08201528260c08201528260e0820152826101008201528261012082015282610140820152015260043581528060205260408120906040519061165182612bbe565b60ff8354166002811015611836578252604051600184018054808352908352602080842090830195929184915b8160038401106118ac57966116bc92849260089798995491818110611892575b818110611875575b818110611858575b1061184a575b500382612bda565b60208501526001600160401b03600282015463ffffffff8116604087015260ff8160201c16606087015263ffffffff8160281c16608087015260481c1660a085015260018060a01b0360038201541660c0850152600481015460e0850152600581015461010085015260068101546101208501526007810154610140850152015461016083015260405190602082528251600281101561183657602083015260208301519061018060408401528151806101a085015260206101c085019301915b818110611817575050506101608363ffffffff60408596015116606085015260ff606082015116608085015263ffffffff60808201511660a08501526001600160401b0360a08201511660c085015260018060a01b0360c08201511660e085015260e08101516101008501526101008101516101208501526101208101516101408501526101408101518285015201516101808301520390f35b82516001600160401b031684526020938401939092019160010161177d565b634e487b7160e01b82526021600452602482fd5b60c01c81526020015f6116b4565b9260206001916001600160401b038560801c1681520193016116ae565b9260206001916001600160401b038560401c1681520193016116a6565b9260206001916001600160401b038516815201930161169e565b96600160806004928a546001600160401b038082168352808260401c16602084015281841c16604083015260c01c606082015201980192019161167e565b5034610446576080366003190112610446576044356001600160a01b038082168203610a37576064359081168103610a3757610b4491602435600435612e74565b503461044657806003193601126104465760206040516102da8152f35b503461044657602080600319360112610af3576004356001600160401b03811161044257918161197e6040943690600401612aef565b9282865161198b81612ba3565b8281520152828551938492833781016004815203019020908251916119af83612ba3565b5463ffffffff908183818316958681520191841c1681528451938452511690820152f35b5034610446576080366003190112610446576001600160401b036024351660243503610a3757611a01612b62565b63ffffffff6064351660643503610a3757604051634f4bdc7b60e11b81525f60048201523360248201526020816044816001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000165afa801561128557611a739184916120905750612dc1565b60405163cae49b8360e01b8152600480359082015282816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa908115611285578391611ffc575b506020611ae1918160405193828580945193849201612b1c565b810160048152030190209060405191611af983612ba3565b5463ffffffff8082169182855260201c16602084015215611fc457611b2f611b2763ffffffff845116612dfa565b602435612e2b565b9063ffffffff8351166201518090818102918183041490151715611fb057611b579042612e46565b6001600160401b0360243516111580611f9e575b15611f6157611ba2611b9c63ffffffff602060405196611b8a88612ba3565b600188528136818a0137015116612dfa565b83612e2b565b6001600160401b03611bb385612e53565b91169052604051636e64f0a760e11b815260048035908201526020816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa908115610a06575f91611f42575b506008811015611f2e576002611c229114612d1d565b426001600160401b03611c3485612e53565b51161115611ef25763ffffffff16916127108311611eb557605a63ffffffff6064351611611e79576004355f525f60205260405f20600160ff198254161781556001810182516001600160401b038111611e6557600160401b8111611e65578154818355808210611e18575b5060208401915f5260205f20905f5b8160021c8110611dd357506003198116810380611d69575b8888611d3a6107bd6001600160401b038b8b60028c019586549068ffffffff000000000060643560281b169168ffffffff00ffffffff1916171786555160405190815233907f20e768650733b890a41f9d422bae13cfcc23193ed4ad06fa1cbe05933e33283c602060043592a3166135ce565b805467ffffffffffffffff60481b191660243560481b70ffffffffffffffff0000000000000000001617905580f35b925f935f5b818110611d9557505050600290811c90910191909155839083906001600160401b03611cc7565b9091946020611dc96001926001600160401b03895116908560031b60031b916001600160401b03809116831b921b19161790565b9601929101611d6e565b5f805b60048110611deb575083820155600101611caf565b85519095916001916020916001600160401b0360068a901b81811b199092169216901b1792019501611dd6565b611e4690835f5260205f20600380850160021c820192601886831b1680611e4c575b500160021c01906135b8565b5f611ca0565b5f199081860191825491602003851b1c1690555f611e3a565b634e487b7160e01b5f52604160045260245ffd5b60405162461bcd60e51b8152602060048201526014602482015273125b9d985b1a590819dc9858d9481c195c9a5bd960621b6044820152606490fd5b60405162461bcd60e51b8152602060048201526015602482015274496e76616c696420696e746572657374207261746560581b6044820152606490fd5b60405162461bcd60e51b8152602060048201526014602482015273111d594819185d19481a5b881d1a19481c185cdd60621b6044820152606490fd5b634e487b7160e01b5f52602160045260245ffd5b611f5b915060203d6020116109ff576109f18183612bda565b5f611c0c565b60405162461bcd60e51b8152602060048201526015602482015274496e76616c696420706c616e74696e67206461746560581b6044820152606490fd5b50426001600160401b03831611611b6b565b634e487b7160e01b85526011600452602485fd5b60405162461bcd60e51b815260206004820152601060248201526f27379031b937b81031b0b632b73230b960811b6044820152606490fd5b90503d8084833e61200d8183612bda565b81019060e08183031261208c5761202660208201612c6a565b506040810151906001600160401b03821161154257019080601f8301121561208c5781519061205482612bfb565b906120626040519283612bda565b8282526020838501011161154257612085602092611ae194848085019101612b1c565b9150611ac7565b8380fd5b610ae2915060203d6020116103a6576103988183612bda565b5034610446576060366003190112610446576001600160401b0390600435828111610af3576120dc903690600401612aef565b9290604036602319011261044257604051634f4bdc7b60e11b81525f60048201523360248201526020949085816044816001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000165afa908115610ae857906121509186916124f05750612dc1565b80156124b65790612162913691612c16565b906040519061217082612ba3565b60249182359163ffffffff9384841693848103610a37578352612191612b62565b88840194818652868115159283612488575b5050501561244d5760405191858751938a81818b01966121c481838a612b1c565b8101600481520301902054161561226b575b877f409bf50be14b575f33678a03e53542bbf8cb39c863940ba3e5a7089b8ca0246761225b898c8a8a8a82612217858d604051809381928b51928391612b1c565b810160048152030190209151169080549251928267ffffffff0000000085881b16916001600160401b03191617179055604051958695606087526060870190612b3d565b938501521660408301520390a180f35b600554600160401b81101561243a5760019060018101806005558110156124275760058a527f036b6384b5eca791c62761152d0c79bb0604c104a5fb6f4eb0703f3154bb3db00192885192831161241557506122c78354612d71565b601f81116123dc575b508990601f8311600114612349575089899a96948896948461225b9b9a95612217957f409bf50be14b575f33678a03e53542bbf8cb39c863940ba3e5a7089b8ca024679e9161233e575b508160011b915f199060031b1c19161790555b9496509998505094958193506121d6565b90508b01515f61231a565b90601f198316848b528b8b20928b905b8282106123c557505094889694600185612217957f409bf50be14b575f33678a03e53542bbf8cb39c863940ba3e5a7089b8ca024679e9f9b999561225b9e9d988d97106123ad575b5050811b01905561232d565b8d01515f1960f88460031b161c191690555f806123a1565b8b840151855593840193928d0192908d0190612359565b61240590848b528b8b20601f850160051c8101918d861061240b575b601f0160051c01906135b8565b5f6122d0565b90915081906123f8565b634e487b7160e01b8a52604160045289fd5b634e487b7160e01b8a526032600452838afd5b634e487b7160e01b895260416004528289fd5b8760156064926040519262461bcd60e51b845260048401528201527424b73b30b634b21031b937b81031b0b632b73230b960591b6044820152fd5b160190508581116124a357856102da911611155f86816121a3565b50634e487b7160e01b8752601160045286fd5b60405162461bcd60e51b815260048101869052601260248201527110dc9bdc081d1e5c19481c995c5d5a5c995960721b6044820152606490fd5b610ae29150873d89116103a6576103988183612bda565b5034610446576020366003190112610446576020907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03161515908161255a575b506040519015158152f35b600491506040908235815280845220015415155f61254f565b50346104465780600319360112610446576005906005549161259483612d5a565b916125a26040519384612bda565b8383526005815260209384840192827f036b6384b5eca791c62761152d0c79bb0604c104a5fb6f4eb0703f3154bb3db0855b84831061263a575050505050604051928484019085855251809152604084019460408260051b8601019392955b82871061260e5785850386f35b90919293828061262a600193603f198a82030186528851612b3d565b9601920196019592919092612601565b60409897959851888a9284549261265084612d71565b8082526001948086169081156126c2575060011461268a575b50612678816001960382612bda565b815201920192019190979496976125d4565b868e52838e2095508d905b8082106126ab5750810183019450612678612669565b8654838301860152958501958d9490910190612695565b60ff191685840152501515881b810183019450612678612669565b5034610446576020366003190112610446576040816080926060835161270281612b88565b82815282602082015282858201520152600435815260016020522060405161272981612b88565b815491828252600181015460208301908152606060036002840154936040860194855201549301928352604051938452516020840152516040830152516060820152f35b5034610a37576060366003190112610a375760043560246044356001600160401b038111610a37576127a3903690600401612aef565b60405163eea3f82d60e01b81526004810185905290926001600160a01b03926020927f000000000000000000000000000000000000000000000000000000000000000085169084818581855afa908115610a06575f91612aa1575b508533911603612a6d57838391885f525f8252612823600460405f2001541515612c7e565b885f525f825261283b600560405f2001541515612cc2565b60405192838092636e64f0a760e11b82528b60048301525afa908115610a06575f91612a50575b506008811015612a3d57916128a8849261288b8560046128ec9714908115612a32575b50612d1d565b612895338a6130be565b885f526001845260405f20973691612c16565b90855f80516020613b988339815191525416905f60405180968195829463196d0b9b60e01b8452803560048501523390840152608060448401526084830190612b3d565b6004606483015203925af1908115610a06575f91612a05575b50825f80516020613bb88339815191525416803b15610a3757604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015610a06576129d5575b5091600261299c6129946129a49461296c6129ac9897613a57565b948a61297e60018a0197885490613261565b928b825252600360408c20015416903390613314565b809354613445565b9301546134c9565b90338461354d565b33907fe69d7686a8bc68278b8c5419579f91716b3ef2ac2fac0d8cf80b8011f8f458a48380a380f35b6129ac949391965061299c6129946129a4946129f2600294612b75565b61296c5f9a959798505094505050612951565b90508181813d8311612a2b575b612a1c8183612bda565b81010312610a3757515f612905565b503d612a12565b60059150145f612885565b82634e487b7160e01b5f5260216004525ffd5b612a679150843d86116109ff576109f18183612bda565b5f612862565b60405162461bcd60e51b815260048101859052600d818501526c139bdd08185c1c1b1a58d85b9d609a1b6044820152606490fd5b90508481813d8311612acf575b612ab88183612bda565b81010312610a3757612ac990612c6a565b5f6127fe565b503d612aae565b34610a37575f366003190112610a375780601860209252f35b9181601f84011215610a37578235916001600160401b038311610a375760208381860195010111610a3757565b5f5b838110612b2d5750505f910152565b8181015183820152602001612b1e565b90602091612b5681518092818552858086019101612b1c565b601f01601f1916010190565b6044359063ffffffff82168203610a3757565b6001600160401b038111611e6557604052565b608081019081106001600160401b03821117611e6557604052565b604081019081106001600160401b03821117611e6557604052565b61018081019081106001600160401b03821117611e6557604052565b90601f801991011681019081106001600160401b03821117611e6557604052565b6001600160401b038111611e6557601f01601f191660200190565b929192612c2282612bfb565b91612c306040519384612bda565b829481845281830111610a37578281602093845f960137010152565b9080601f83011215610a3757816020612c6793359101612c16565b90565b51906001600160a01b0382168203610a3757565b15612c8557565b60405162461bcd60e51b815260206004820152601560248201527414995c185e5b595b9d081b9bdd081cdd185c9d1959605a1b6044820152606490fd5b15612cc957565b60405162461bcd60e51b8152602060048201526014602482015273111a5cd89d5c9cd85b081b9bdd08199d5b99195960621b6044820152606490fd5b90816020910312610a3757516008811015610a375790565b15612d2457565b60405162461bcd60e51b815260206004820152600e60248201526d496e76616c69642073746174757360901b6044820152606490fd5b6001600160401b038111611e655760051b60200190565b90600182811c92168015612d9f575b6020831014612d8b57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691612d80565b90816020910312610a3757518015158103610a375790565b15612dc857565b60405162461bcd60e51b815260206004820152600a6024820152692737ba103632b73232b960b11b6044820152606490fd5b90620151806001600160401b0380931602918216918203612e1757565b634e487b7160e01b5f52601160045260245ffd5b9190916001600160401b0380809416911601918211612e1757565b91908201809211612e1757565b805115612e605760200190565b634e487b7160e01b5f52603260045260245ffd5b90926001600160a01b037f000000000000000000000000000000000000000000000000000000000000000081163303612fff57825f525f60205260405f2094600186015415612f9457612f1b612eff86612ef860038a019486881695866bffffffffffffffffffffffff60a01b8254161790554260048c01554260068c0155613a57565b9586613314565b95612f0b878288613694565b86612f14613aaa565b918761354d565b837f0173922acc2a27df1fb4772b0d291b6639a8df313f3c5d5e595af8f22cdf00345f80a37f000000000000000000000000000000000000000000000000000000000000000016612f7157505050600542910155565b612f929350612f803082613afd565b815f52600260205260405f20556136db565b565b5093505050507f000000000000000000000000000000000000000000000000000000000000000016612fc257565b60405162461bcd60e51b81526020600482015260156024820152744e6f2072657061796d656e74207363686564756c6560581b6044820152606490fd5b60405162461bcd60e51b81526020600482015260126024820152714e6f74204167726946696e616e636546484560701b6044820152606490fd5b91908203918211612e1757565b903590601e1981360301821215610a3757018035906001600160401b038211610a3757602001918160051b36038313610a3757565b9190811015612e605760051b0190565b356001600160401b0381168103610a375790565b3560ff81168103610a375790565b3563ffffffff81168103610a375790565b805f526020915f8352604090815f2091600683018054936130df8542613039565b90811561325757600263ffffffff91015416606481029080820460641481151715612e17578202606402918115918304141715612e17577fe9d95e658b0c714da9de2e12fbed253a24a632058a074dc7c90b8b6618675c7c836001600160401b036301e1338089940416968151908152428a820152a2429055821561325057835f52600185525f818120958061318f88549661318a60028b0198613184818b54613261565b90613445565b6139d6565b8015613242575b5f80516020613b98833981519152548551635a53accb60e01b81526004810192909252620f42406024830152600160f81b60448301529093849160649183916001600160a01b03165af192831561323957505f9261320a575b5050613202906001612f929601546134c9565b91549261354d565b90809250813d8311613232575b6132218183612bda565b81010312610a3757518460016131ef565b503d613217565b513d5f823e3d90fd5b5061324b613aaa565b613196565b5050505050565b5050505050505050565b908115613304575b80156132f2575b602090606460018060a01b035f80516020613b988339815191525416935f60405195869485936304559f7160e01b8552600485015260248401528160448401525af1908115610a06575f916132c3575090565b90506020813d6020116132ea575b816132de60209383612bda565b81010312610a37575190565b3d91506132d1565b5060206132fd613aaa565b9050613270565b905061330e613aaa565b90613269565b5f92916001600160a01b03917f0000000000000000000000000000000000000000000000000000000000000000831690811561343c57835f80516020613bb88339815191525416803b15610a3757604051630f8e573b60e21b8152600481018390526001600160a01b0384166024820152905f908290604490829084905af18015610a065761341d575b5091856064928594602096604051988997889663eb3155b560e01b885216600487015216602485015260448401525af19182156134115780926133e057505090565b9091506020823d602011613409575b816133fc60209383612bda565b8101031261044657505190565b3d91506133ef565b604051903d90823e3d90fd5b6064929650906134306020959492612b75565b5f96925090929361339e565b94505050505090565b9081156134b9575b80156134a7575b602090606460018060a01b035f80516020613b988339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115610a06575f916132c3575090565b5060206134b2613aaa565b9050613454565b90506134c3613aaa565b9061344d565b90811561353d575b801561352b575b602090606460018060a01b035f80516020613b988339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610a06575f916132c3575090565b506020613536613aaa565b90506134d8565b9050613547613aaa565b906134d1565b6135a360029392825f525f60205261359d60018060a01b03600360405f20015416916135793087613afd565b6135838187613afd565b61358d8387613afd565b6135973089613afd565b87613afd565b85613afd565b5f52600160205260405f209060018201550155565b8181106135c3575050565b5f81556001016135b8565b620151809004620afa6c8101809111612e175762023ab161361891066136066135fb6105b4830483613039565b618eac830490612e46565b61016d92839162023ab0840490613039565b04918281029081048303612e175782606461363d6136459361364b9660021c90612e46565b910490613039565b90613039565b80600502906005820403612e175760028101809111612e175760999004600a8110156136825760038101809111612e175760ff1690565b6008198101908111612e175760ff1690565b906136a9906136a33085613afd565b83613afd565b5f818152602081905260409020600301546136cd906001600160a01b031683613afd565b5f52600160205260405f2055565b905f81156139b8575b5f60018060a01b03805f80516020613b9883398151915254166040948551916336024b2f60e21b835260049182840152846024840152600160f81b60448401528260648160209788945af19182156139ae575f9261397f575b506137483083613afd565b85519061375482612ba3565b60019160018152858101938636863761376c82612e53565b527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0093845495805f80516020613bb88339815191525416803b15610a37575f8b518092637d6e912360e11b82528b888301528183816137ce602482018b613b64565b03925af1801561397557613962575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561395e57888a518092633263b83b60e01b8252898783015260606024830152818381613833606482018a613b64565b63fd0857f360e01b604483015203925af180156139545790899161393c575b508690527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018088528989205461392c5786895287528888209151926001600160401b03841161391957600160401b8411613919575081548383558084106138f2575b50908752858720875b8381106138e157505050505090816138d860039493546139c8565b90558352522055565b8251828201559187019184016138bd565b8289528484898b2092830192015b82811061390e5750506138b4565b5f8155018590613900565b634e487b7160e01b895260419052602488fd5b8951633f06d22b60e01b81528490fd5b61394590612b75565b61395057875f613852565b8780fd5b8a513d8b823e3d90fd5b8880fd5b61396d919950612b75565b5f975f6137dd565b8b513d5f823e3d90fd5b9091508381813d83116139a7575b6139978183612bda565b81010312610a375751905f61373d565b503d61398d565b86513d5f823e3d90fd5b90506139c2613aaa565b906136e4565b5f198114612e175760010190565b6001600160401b03916020918015613a45575b5f80516020613b9883398151915254604051630afe14ad60e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115610a06575f916132c3575090565b506064613a50613aaa565b90506139e9565b5f80516020613b98833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115610a06575f916132c3575090565b5f80516020613b9883398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610a06575f916132c3575090565b5f80516020613bb8833981519152546001600160a01b031691823b15610a3757604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610a0657613b5b5750565b612f9290612b75565b9081518082526020808093019301915f5b828110613b83575050505090565b835185529381019392810192600101613b7556fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a409bf50be14b575f33678a03e53542bbf8cb39c863940ba3e5a7089b8ca02467";
+
+type LoanRepaymentConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: LoanRepaymentConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class LoanRepayment__factory extends ContractFactory {
+  constructor(...args: LoanRepaymentConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    agriFinance_: AddressLike,
+    token_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(agriFinance_, token_, overrides || {});
+  }
+  override deploy(
+    agriFinance_: AddressLike,
+    token_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(agriFinance_, token_, overrides || {}) as Promise<
+      LoanRepayment & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): LoanRepayment__factory {
+    return super.connect(runner) as LoanRepayment__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): LoanRepaymentInterface {
+    return new Interface(_abi) as LoanRepaymentInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): LoanRepayment {
+    return new Contract(address, _abi, runner) as unknown as LoanRepayment;
+  }
+}
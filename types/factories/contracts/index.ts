@@ -1,5 +1,9 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { FHEPowerMaintenance__factory } from "./FHEPowerMaintenance__factory";
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as mocks from "./mocks";
+export { AgriFinanceFHE__factory } from "./AgriFinanceFHE__factory";
+export { ConfidentialToken__factory } from "./ConfidentialToken__factory";
+export { IERC20__factory } from "./IERC20__factory";
+export { LoanEscrow__factory } from "./LoanEscrow__factory";
+export { LoanRepayment__factory } from "./LoanRepayment__factory";
@@ -0,0 +1,343 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockERC20,
+  MockERC20Interface,
+} from "../../../contracts/mocks/MockERC20";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "decimals_",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "allowance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "transfer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0604052346200030b5762000a4e803803806200001d816200030f565b92833981016060828203126200030b5781516001600160401b03908181116200030b57826200004e91850162000335565b90602092838501518281116200030b576040916200006e91870162000335565b9401519260ff841684036200030b5782519082821162000229575f54916001948584811c9416801562000300575b838510146200020a578190601f94858111620002ad575b50839085831160011462000249575f926200023d575b50505f19600383901b1c191690851b175f555b8551928311620002295783548481811c911680156200021e575b828210146200020a57828111620001c2575b50809183116001146200015d5750819293945f9262000151575b50505f19600383901b1c191690821b1790555b6080526040516106a89081620003a68239608051816102f30152f35b015190505f8062000122565b90601f19831695845f52825f20925f905b888210620001aa575050838596971062000191575b505050811b01905562000135565b01515f1960f88460031b161c191690555f808062000183565b8087859682949686015181550195019301906200016e565b845f52815f208380860160051c82019284871062000200575b0160051c019085905b828110620001f457505062000108565b5f8155018590620001e4565b92508192620001db565b634e487b7160e01b5f52602260045260245ffd5b90607f1690620000f6565b634e487b7160e01b5f52604160045260245ffd5b015190505f80620000c9565b90879350601f198316915f8052855f20925f5b878282106200029657505084116200027d575b505050811b015f55620000dc565b01515f1960f88460031b161c191690555f80806200026f565b8385015186558b979095019493840193016200025c565b9091505f8052835f208580850160051c820192868610620002f6575b918991869594930160051c01915b828110620002e7575050620000b3565b5f8155859450899101620002d7565b92508192620002c9565b93607f16936200009c565b5f80fd5b6040519190601f01601f191682016001600160401b038111838210176200022957604052565b919080601f840112156200030b5782516001600160401b03811162000229576020906200036b601f8201601f191683016200030f565b928184528282870101116200030b575f5b818110620003915750825f9394955001015290565b85810183015184820184015282016200037c56fe6080604081815260049182361015610015575f80fd5b5f3560e01c90816306fdde031461046957508063095ea7b3146103fb57806318160ddd146103dd57806323b872dd14610317578063313ce567146102da57806340c10f191461026357806370a082311461022c57806395d89b411461010a578063a9059cbb146100da5763dd62ed3e1461008d575f80fd5b346100d657806003193601126100d6576020916100a8610587565b6100b061059d565b6001600160a01b039182165f908152928552838320911682528352819020549051908152f35b5f80fd5b50346100d657806003193601126100d6576020906101036100f9610587565b60243590336105e1565b5160018152f35b50346100d6575f3660031901126100d6578051905f60018054908160011c9060018316928315610222575b602093848410811461020f578388529081156101f3575060011461019d575b505050829003601f01601f191682019267ffffffffffffffff84118385101761018a5750829182610186925282610540565b0390f35b604190634e487b7160e01b5f525260245ffd5b60015f908152929350837fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf65b8385106101df57505050508301015f8080610154565b8054888601830152930192849082016101c9565b60ff1916878501525050151560051b84010190505f8080610154565b602289634e487b7160e01b5f525260245ffd5b91607f1691610135565b50346100d65760203660031901126100d6576020906001600160a01b03610251610587565b165f5260038252805f20549051908152f35b50346100d657806003193601126100d6575f7fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60206102a0610587565b602435906102b0826002546105d4565b60025560018060a01b031694858552600383528085206102d18382546105d4565b905551908152a3005b50346100d6575f3660031901126100d6576020905160ff7f0000000000000000000000000000000000000000000000000000000000000000168152f35b50346100d65760603660031901126100d657610331610587565b9061033a61059d565b6044359060018060a01b03841693845f52602094868652845f20335f528652845f20548481106103a15796610103959697855f19820361037e575b505050506105e1565b610387916105b3565b915f528752855f20335f528752855f20555f808085610375565b855162461bcd60e51b81528089018890526016602482015275496e73756666696369656e7420616c6c6f77616e636560501b6044820152606490fd5b50346100d6575f3660031901126100d6576020906002549051908152f35b50346100d657806003193601126100d657602091610417610587565b9060243590335f528452825f209160018060a01b031691825f52845280835f205582519081527f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925843392a35160018152f35b919050346100d6575f3660031901126100d6575f805460018160011c9060018316928315610536575b602093848410811461020f578388529081156101f357506001146104e257505050829003601f01601f191682019267ffffffffffffffff84118385101761018a5750829182610186925282610540565b5f808052929350837f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5635b83851061052257505050508301015f8080610154565b80548886018301529301928490820161050c565b91607f1691610492565b602080825282518183018190529093925f5b82811061057357505060409293505f838284010152601f8019910116010190565b818101860151848201604001528501610552565b600435906001600160a01b03821682036100d657565b602435906001600160a01b03821682036100d657565b919082039182116105c057565b634e487b7160e01b5f52601160045260245ffd5b919082018092116105c057565b60018060a01b0380911691825f5260036020528360405f20541061065f577fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef91602091845f526003835260405f2061063a8782546105b3565b90551693845f526003825260405f206106548282546105d4565b9055604051908152a3565b60405162461bcd60e51b8152602060048201526014602482015273496e73756666696369656e742062616c616e636560601b6044820152606490fdfea164736f6c6343000818000a";
+
+type MockERC20ConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockERC20ConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockERC20__factory extends ContractFactory {
+  constructor(...args: MockERC20ConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    name_: string,
+    symbol_: string,
+    decimals_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      name_,
+      symbol_,
+      decimals_,
+      overrides || {}
+    );
+  }
+  override deploy(
+    name_: string,
+    symbol_: string,
+    decimals_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(name_, symbol_, decimals_, overrides || {}) as Promise<
+      MockERC20 & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockERC20__factory {
+    return super.connect(runner) as MockERC20__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockERC20Interface {
+    return new Interface(_abi) as MockERC20Interface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): MockERC20 {
+    return new Contract(address, _abi, runner) as unknown as MockERC20;
+  }
+}
@@ -0,0 +1,265 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockNoReturnERC20,
+  MockNoReturnERC20Interface,
+} from "../../../contracts/mocks/MockNoReturnERC20";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "decimals_",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "allowance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "transfer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0604052346200030b576200096e803803806200001d816200030f565b92833981016060828203126200030b5781516001600160401b03908181116200030b57826200004e91850162000335565b90602092838501518281116200030b576040916200006e91870162000335565b9401519260ff841684036200030b5782519082821162000229575f54916001948584811c9416801562000300575b838510146200020a578190601f94858111620002ad575b50839085831160011462000249575f926200023d575b50505f19600383901b1c191690851b175f555b8551928311620002295783548481811c911680156200021e575b828210146200020a57828111620001c2575b50809183116001146200015d5750819293945f9262000151575b50505f19600383901b1c191690821b1790555b6080526040516105c89081620003a68239608051816102a40152f35b015190505f8062000122565b90601f19831695845f52825f20925f905b888210620001aa575050838596971062000191575b505050811b01905562000135565b01515f1960f88460031b161c191690555f808062000183565b8087859682949686015181550195019301906200016e565b845f52815f208380860160051c82019284871062000200575b0160051c019085905b828110620001f457505062000108565b5f8155018590620001e4565b92508192620001db565b634e487b7160e01b5f52602260045260245ffd5b90607f1690620000f6565b634e487b7160e01b5f52604160045260245ffd5b015190505f80620000c9565b90879350601f198316915f8052855f20925f5b878282106200029657505084116200027d575b505050811b015f55620000dc565b01515f1960f88460031b161c191690555f80806200026f565b8385015186558b979095019493840193016200025c565b9091505f8052835f208580850160051c820192868610620002f6575b918991869594930160051c01915b828110620002e7575050620000b3565b5f8155859450899101620002d7565b92508192620002c9565b93607f16936200009c565b5f80fd5b6040519190601f01601f191682016001600160401b038111838210176200022957604052565b919080601f840112156200030b5782516001600160401b03811162000229576020906200036b601f8201601f191683016200030f565b928184528282870101116200030b575f5b818110620003915750825f9394955001015290565b85810183015184820184015282016200037c56fe6080604090808252600480361015610015575f80fd5b5f3560e01c91826306fdde03146103b857508163095ea7b31461037b57816323b872dd146102c8578163313ce5671461028b57816340c10f191461024f57816370a082311461021857816395d89b41146100f657508063a9059cbb146100cf5763dd62ed3e14610083575f80fd5b346100cb57806003193601126100cb5760209061009e6104d4565b6100a66104ea565b9060018060a01b038091165f5260038452825f2091165f528252805f20549051908152f35b5f80fd5b50346100cb573660031901126100cb576100f46100ea6104d4565b602435903361052e565b005b82346100cb575f3660031901126100cb578051905f60018054908160011c906001831692831561020e575b60209384841081146101fb578388529081156101df5750600114610189575b505050829003601f01601f191682019267ffffffffffffffff841183851017610176575082918261017292528261048d565b0390f35b604190634e487b7160e01b5f525260245ffd5b60015f908152929350837fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf65b8385106101cb5750505050830101848080610140565b8054888601830152930192849082016101b5565b60ff1916878501525050151560051b8401019050848080610140565b602289634e487b7160e01b5f525260245ffd5b91607f1691610121565b82346100cb5760203660031901126100cb576020906001600160a01b0361023d6104d4565b165f5260028252805f20549051908152f35b82346100cb57806003193601126100cb576001600160a01b036102706104d4565b165f5260026020525f206102876024358254610521565b9055005b82346100cb575f3660031901126100cb576020905160ff7f0000000000000000000000000000000000000000000000000000000000000000168152f35b9050346100cb5760603660031901126100cb576102e36104d4565b6102eb6104ea565b906044359260018060a01b03821690815f526003602052855f20335f5260205284865f20541061033f5750936100f4945f526003602052805f20335f526020525f20610338848254610500565b905561052e565b606490602087519162461bcd60e51b83528201526016602482015275496e73756666696369656e7420616c6c6f77616e636560501b6044820152fd5b82346100cb57806003193601126100cb576103946104d4565b335f526003602052815f209060018060a01b03165f52602052602435905f20555f80f35b83346100cb575f3660031901126100cb575f805460018160011c9060018316928315610483575b60209384841081146101fb578388529081156101df575060011461042f57505050829003601f01601f191682019267ffffffffffffffff841183851017610176575082918261017292528261048d565b5f808052929350837f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5635b83851061046f5750505050830101848080610140565b805488860183015293019284908201610459565b91607f16916103df565b602080825282518183018190529093925f5b8281106104c057505060409293505f838284010152601f8019910116010190565b81810186015184820160400152850161049f565b600435906001600160a01b03821682036100cb57565b602435906001600160a01b03821682036100cb57565b9190820391821161050d57565b634e487b7160e01b5f52601160045260245ffd5b9190820180921161050d57565b9060018060a01b03809216805f5260026020528360405f20541061057f575f52600260205260405f20610562848254610500565b9055165f52600260205261057b60405f20918254610521565b9055565b60405162461bcd60e51b8152602060048201526014602482015273496e73756666696369656e742062616c616e636560601b6044820152606490fdfea164736f6c6343000818000a";
+
+type MockNoReturnERC20ConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockNoReturnERC20ConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockNoReturnERC20__factory extends ContractFactory {
+  constructor(...args: MockNoReturnERC20ConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    name_: string,
+    symbol_: string,
+    decimals_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      name_,
+      symbol_,
+      decimals_,
+      overrides || {}
+    );
+  }
+  override deploy(
+    name_: string,
+    symbol_: string,
+    decimals_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(name_, symbol_, decimals_, overrides || {}) as Promise<
+      MockNoReturnERC20 & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockNoReturnERC20__factory {
+    return super.connect(runner) as MockNoReturnERC20__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockNoReturnERC20Interface {
+    return new Interface(_abi) as MockNoReturnERC20Interface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockNoReturnERC20 {
+    return new Contract(address, _abi, runner) as unknown as MockNoReturnERC20;
+  }
+}
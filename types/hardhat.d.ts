@@ -46,13 +46,33 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
     getContractFactory(
-      name: "FHEPowerMaintenance",
+      name: "AgriFinanceFHE",
       signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.FHEPowerMaintenance__factory>;
+    ): Promise<Contracts.AgriFinanceFHE__factory>;
     getContractFactory(
-      name: "UniversalAdapter",
+      name: "ConfidentialToken",
       signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.UniversalAdapter__factory>;
+    ): Promise<Contracts.ConfidentialToken__factory>;
+    getContractFactory(
+      name: "IERC20",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IERC20__factory>;
+    getContractFactory(
+      name: "LoanEscrow",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.LoanEscrow__factory>;
+    getContractFactory(
+      name: "LoanRepayment",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.LoanRepayment__factory>;
+    getContractFactory(
+      name: "MockERC20",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MockERC20__factory>;
+    getContractFactory(
+      name: "MockNoReturnERC20",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MockNoReturnERC20__factory>;
 
     getContractAt(
       name: "EthereumConfig",
@@ -95,15 +115,40 @@ declare module "hardhat/types/runtime" {
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
     getContractAt(
-      name: "FHEPowerMaintenance",
+      name: "AgriFinanceFHE",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.AgriFinanceFHE>;
+    getContractAt(
+      name: "ConfidentialToken",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.ConfidentialToken>;
+    getContractAt(
+      name: "IERC20",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IERC20>;
+    getContractAt(
+      name: "LoanEscrow",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.LoanEscrow>;
+    getContractAt(
+      name: "LoanRepayment",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.LoanRepayment>;
+    getContractAt(
+      name: "MockERC20",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
-    ): Promise<Contracts.FHEPowerMaintenance>;
+    ): Promise<Contracts.MockERC20>;
     getContractAt(
-      name: "UniversalAdapter",
+      name: "MockNoReturnERC20",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.MockNoReturnERC20>;
 
     deployContract(
       name: "EthereumConfig",
@@ -138,13 +183,33 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "FHEPowerMaintenance",
+      name: "AgriFinanceFHE",
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.FHEPowerMaintenance>;
+    ): Promise<Contracts.AgriFinanceFHE>;
     deployContract(
-      name: "UniversalAdapter",
+      name: "ConfidentialToken",
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.ConfidentialToken>;
+    deployContract(
+      name: "IERC20",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IERC20>;
+    deployContract(
+      name: "LoanEscrow",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.LoanEscrow>;
+    deployContract(
+      name: "LoanRepayment",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.LoanRepayment>;
+    deployContract(
+      name: "MockERC20",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockERC20>;
+    deployContract(
+      name: "MockNoReturnERC20",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockNoReturnERC20>;
 
     deployContract(
       name: "EthereumConfig",
@@ -187,15 +252,40 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "FHEPowerMaintenance",
+      name: "AgriFinanceFHE",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.AgriFinanceFHE>;
+    deployContract(
+      name: "ConfidentialToken",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ConfidentialToken>;
+    deployContract(
+      name: "IERC20",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IERC20>;
+    deployContract(
+      name: "LoanEscrow",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.LoanEscrow>;
+    deployContract(
+      name: "LoanRepayment",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.LoanRepayment>;
+    deployContract(
+      name: "MockERC20",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.FHEPowerMaintenance>;
+    ): Promise<Contracts.MockERC20>;
     deployContract(
-      name: "UniversalAdapter",
+      name: "MockNoReturnERC20",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.MockNoReturnERC20>;
 
     // default types
     getContractFactory(
@@ -22,7 +22,17 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { FHEPowerMaintenance } from "./contracts/FHEPowerMaintenance";
-export { FHEPowerMaintenance__factory } from "./factories/contracts/FHEPowerMaintenance__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { AgriFinanceFHE } from "./contracts/AgriFinanceFHE";
+export { AgriFinanceFHE__factory } from "./factories/contracts/AgriFinanceFHE__factory";
+export type { ConfidentialToken } from "./contracts/ConfidentialToken";
+export { ConfidentialToken__factory } from "./factories/contracts/ConfidentialToken__factory";
+export type { IERC20 } from "./contracts/IERC20";
+export { IERC20__factory } from "./factories/contracts/IERC20__factory";
+export type { LoanEscrow } from "./contracts/LoanEscrow";
+export { LoanEscrow__factory } from "./factories/contracts/LoanEscrow__factory";
+export type { LoanRepayment } from "./contracts/LoanRepayment";
+export { LoanRepayment__factory } from "./factories/contracts/LoanRepayment__factory";
+export type { MockERC20 } from "./contracts/mocks/MockERC20";
+export { MockERC20__factory } from "./factories/contracts/mocks/MockERC20__factory";
+export type { MockNoReturnERC20 } from "./contracts/mocks/MockNoReturnERC20";
+export { MockNoReturnERC20__factory } from "./factories/contracts/mocks/MockNoReturnERC20__factory";